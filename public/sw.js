@@ -0,0 +1,86 @@
+/**
+ * ============================================================================
+ * SERVICE WORKER
+ * ============================================================================
+ *
+ * Makes the application shell available offline (see src/lib/service-worker.ts
+ * for the registration, src/lib/api/offline.ts for the API data).
+ *
+ * Strategies (same-origin GET requests only; API requests are never cached
+ * here, the offline mode keeps their responses in IndexedDB):
+ * - Hashed build assets (/assets/*): cache first, they never change
+ * - Everything else (pages, config.json, icons): network first, cached copy
+ *   when offline; navigations fall back to the cached index.html
+ *
+ * Bump CACHE_VERSION to drop the caches of previous versions.
+ */
+
+const CACHE_VERSION = 'v1';
+const CACHE_NAME = `staff-attendance-${CACHE_VERSION}`;
+
+/**
+ * Files cached at install time
+ */
+const APP_SHELL = ['./', './index.html', './manifest.webmanifest', './icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then(cache => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * Network first, cached copy when the network fails
+ */
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Cache first, network (then cached) when absent
+ */
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  if (request.headers.has('Authorization')) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, './index.html'));
+  } else if (url.pathname.includes('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -39,8 +39,14 @@ import { Dashboard } from './components/pages/Dashboard';
 import { AgentsManagement } from './components/pages/AgentsManagement';
 import { WorkSchedules } from './components/pages/WorkSchedules';
 import { CalendarHolidays } from './components/pages/CalendarHolidays';
+import { AttendanceCorrections } from './components/pages/AttendanceCorrections';
+import { LeaveRequests } from './components/pages/LeaveRequests';
+import { TeamAvailability } from './components/pages/TeamAvailability';
 import { Statistics } from './components/pages/Statistics';
+import { Reports } from './components/pages/Reports';
 import { Settings } from './components/pages/Settings';
+import { Kiosk } from './components/pages/Kiosk';
+import { PersonalHistory } from './components/pages/PersonalHistory';
 
 // --- UI Components ---
 import { Toaster } from './components/ui/sonner';
@@ -81,6 +87,21 @@ export default function App() {
             
             {/* Login Page - Entry point for unauthenticated users */}
             <Route path="/login" element={<Login />} />
+
+            {/* 
+              Check-in Kiosk - Full-screen badge scanning (no navigation layout)
+              Roles: Kiosk (landing page, cannot leave it), Admin (testing)
+            */}
+            <Route
+              path="/kiosk"
+              element={
+                <ProtectedRoute>
+                  <RoleBasedRoute allowedRoles={['Kiosk', 'Admin']}>
+                    <Kiosk />
+                  </RoleBasedRoute>
+                </ProtectedRoute>
+              }
+            />
             
             {/* ================================================ */}
             {/* PROTECTED ROUTES - Require authentication */}
@@ -156,6 +177,48 @@ export default function App() {
                 } 
               />
               
+              {/* 
+                Team Availability - Absence timeline per division
+                Roles: Admin, Manager
+                Long absences of all agents over holidays and weekends, with understaffing warnings
+              */}
+              <Route 
+                path="team-availability" 
+                element={
+                  <RoleBasedRoute allowedRoles={['Admin', 'Manager']}>
+                    <TeamAvailability />
+                  </RoleBasedRoute>
+                } 
+              />
+              
+              {/* 
+                Attendance Corrections - Manual punch corrections
+                Roles: Admin (apply, approve), Manager (propose)
+                Review the corrections proposed by managers
+              */}
+              <Route 
+                path="corrections" 
+                element={
+                  <RoleBasedRoute allowedRoles={['Admin', 'Manager']}>
+                    <AttendanceCorrections />
+                  </RoleBasedRoute>
+                } 
+              />
+              
+              {/* 
+                Leave Requests - Approval queue
+                Roles: Admin, Manager
+                Approve or reject leave requests, submit on behalf of agents
+              */}
+              <Route 
+                path="leave-requests" 
+                element={
+                  <RoleBasedRoute allowedRoles={['Admin', 'Manager']}>
+                    <LeaveRequests />
+                  </RoleBasedRoute>
+                } 
+              />
+              
               {/* 
                 Statistics & Reports - Attendance analytics and reports
                 Roles: Admin, Manager
@@ -169,6 +232,20 @@ export default function App() {
                   </RoleBasedRoute>
                 } 
               />
+
+              {/* 
+                Reports - Inbox of the generated reports
+                Roles: Admin, Manager
+                Scheduled and on-demand reports: download, preview, retention
+              */}
+              <Route 
+                path="reports" 
+                element={
+                  <RoleBasedRoute allowedRoles={['Admin', 'Manager']}>
+                    <Reports />
+                  </RoleBasedRoute>
+                } 
+              />
               
               {/* --- Agent-Only Routes --- */}
               
@@ -178,6 +255,14 @@ export default function App() {
                 Agents can view their attendance, performance, and print QR code
                 This is the landing page for Agent users
               */}
+              <Route 
+                path="personal-history" 
+                element={
+                  <RoleBasedRoute allowedRoles={['Agent']}>
+                    <PersonalHistory />
+                  </RoleBasedRoute>
+                } 
+              />
               
               {/* --- Common Routes (All Roles) --- */}
               
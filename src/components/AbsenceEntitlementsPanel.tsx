@@ -0,0 +1,184 @@
+/**
+ * ============================================================================
+ * ABSENCE ENTITLEMENTS PANEL COMPONENT
+ * ============================================================================
+ *
+ * Admin panel configuring the annual entitlement of each absence type,
+ * used to compute the leave balances of the agents (see lib/leave-balance).
+ *
+ * Features:
+ * - Days per year, or no quota
+ * - Accrual rule (whole year on January 1st or by twelfths each month)
+ * - Maximum carry-over of unused days to the next year
+ * - Whether weekends and holidays inside an absence are deducted
+ *
+ * Usage Example:
+ * ```tsx
+ * {isAdmin && <AbsenceEntitlementsPanel />}
+ * ```
+ *
+ * @module components/AbsenceEntitlementsPanel
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Scale, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ApiError, getErrorMessage, leaveService, queryClient, queryKeys } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import { useAbsenceTypes } from '../lib/hooks/useAbsenceTypes';
+import type { AbsenceEntitlement, AccrualRule } from '../lib/api/types';
+
+/**
+ * AbsenceEntitlementsPanel Component
+ *
+ * @returns {JSX.Element} Editable table of the entitlements
+ */
+export function AbsenceEntitlementsPanel() {
+  const entitlementsQuery = useApiQuery(queryKeys.entitlements.all, signal => leaveService.getEntitlements(signal));
+  const { getLabel } = useAbsenceTypes();
+  const [rows, setRows] = useState<AbsenceEntitlement[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Editable copy of the server values
+  useEffect(() => {
+    if (entitlementsQuery.data) setRows(entitlementsQuery.data);
+  }, [entitlementsQuery.data]);
+
+  const update = (type: string, changes: Partial<AbsenceEntitlement>) =>
+    setRows(prev => prev.map(row => (row.type === type ? { ...row, ...changes } : row)));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors({});
+    try {
+      const response = await leaveService.updateEntitlements(rows);
+      toast.success(response.message || 'Droits à congé enregistrés');
+      queryClient.invalidate(queryKeys.entitlements.all);
+    } catch (error) {
+      if (error instanceof ApiError) setErrors(error.fieldErrors);
+      toast.error(getErrorMessage(error, 'Enregistrement des droits impossible'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h3 className="text-gray-900 dark:text-gray-100">Droits à congé</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Quota annuel de chaque type d'absence, utilisé pour les soldes des agents.
+            </p>
+          </div>
+        </div>
+        <Button onClick={handleSave} disabled={saving || rows.length === 0} className="bg-blue-600 hover:bg-blue-700">
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Enregistrer
+        </Button>
+      </div>
+
+      {entitlementsQuery.loading ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-4">Chargement...</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="dark:border-gray-700">
+              <TableHead className="dark:text-gray-300">Type</TableHead>
+              <TableHead className="dark:text-gray-300">Quota</TableHead>
+              <TableHead className="dark:text-gray-300">Jours / an</TableHead>
+              <TableHead className="dark:text-gray-300">Acquisition</TableHead>
+              <TableHead className="dark:text-gray-300">Report max.</TableHead>
+              <TableHead className="dark:text-gray-300">Week-ends et fériés décomptés</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => {
+              const limited = row.annualDays !== null;
+              return (
+                <TableRow key={row.type} className="dark:border-gray-700 align-top">
+                  <TableCell className="text-gray-900 dark:text-gray-100">
+                    {getLabel(row.type)}
+                    {errors[row.type] && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{errors[row.type]}</p>}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={limited}
+                      onCheckedChange={(checked: boolean) => update(row.type, { annualDays: checked ? 0 : null, carryOverDays: 0 })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={366}
+                      step={0.5}
+                      value={row.annualDays ?? ''}
+                      disabled={!limited}
+                      onChange={(e) => update(row.type, { annualDays: Number(e.target.value) })}
+                      className="w-24 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={row.accrual}
+                      disabled={!limited}
+                      onValueChange={(value: string) => update(row.type, { accrual: value as AccrualRule })}
+                    >
+                      <SelectTrigger className="w-36 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="Annual">Au 1er janvier</SelectItem>
+                        <SelectItem value="Monthly">Mensuelle</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={limited ? row.carryOverDays : ''}
+                      disabled={!limited}
+                      onChange={(e) => update(row.type, { carryOverDays: Number(e.target.value) })}
+                      className="w-24 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={row.countNonWorkingDays}
+                      onCheckedChange={(checked: boolean) => update(row.type, { countNonWorkingDays: checked })}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,293 @@
+/**
+ * ============================================================================
+ * ABSENCE TYPES PANEL COMPONENT
+ * ============================================================================
+ *
+ * Admin panel managing the absence type catalogue, the single source of the
+ * types offered by the absence and leave request dialogs and of the labels
+ * and colors displayed in the calendar and the PDF exports.
+ *
+ * Features:
+ * - Code (fixed once created), label and color of each type
+ * - Paid or unpaid, justification required, counted as presence
+ * - Removal of the types no absence or leave request uses
+ *
+ * Usage Example:
+ * ```tsx
+ * {isAdmin && <AbsenceTypesPanel />}
+ * ```
+ *
+ * @module components/AbsenceTypesPanel
+ */
+
+import React, { useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Tags, Plus, Pencil, Trash2, Check, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ApiError, getErrorMessage, leaveService, queryClient, queryKeys } from '../lib/api';
+import { useAbsenceTypes } from '../lib/hooks/useAbsenceTypes';
+import { ConfirmDialog } from './ConfirmDialog';
+import type { AbsenceType } from '../lib/api/types';
+
+const EMPTY_TYPE: AbsenceType = {
+  code: '',
+  label: '',
+  color: '#2563eb',
+  paid: true,
+  requiresJustification: false,
+  countsAsPresence: false,
+};
+
+const FLAGS: Array<[keyof Pick<AbsenceType, 'paid' | 'requiresJustification' | 'countsAsPresence'>, string, string]> = [
+  ['paid', 'Rémunérée', "L'absence est payée"],
+  ['requiresJustification', 'Justification obligatoire', 'Un motif doit être saisi pour chaque absence'],
+  ['countsAsPresence', 'Compte comme présence', 'Les jours sont comptés présents dans les statistiques'],
+];
+
+/**
+ * AbsenceTypesPanel Component
+ *
+ * @returns {JSX.Element} Catalogue table with its add / edit dialog
+ */
+export function AbsenceTypesPanel() {
+  const { absenceTypes, loading } = useAbsenceTypes();
+
+  // Add / edit dialog (editing: code of the edited type)
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<AbsenceType>(EMPTY_TYPE);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Removal
+  const [toDelete, setToDelete] = useState<AbsenceType | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const refresh = () => {
+    queryClient.invalidate(queryKeys.absenceTypes.all);
+    queryClient.invalidate(queryKeys.entitlements.all);
+  };
+
+  const openDialog = (type?: AbsenceType) => {
+    setEditing(type?.code ?? null);
+    setForm(type ?? EMPTY_TYPE);
+    setErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors({});
+    try {
+      const { code, ...changes } = form;
+      const response = editing
+        ? await leaveService.updateAbsenceType(editing, changes)
+        : await leaveService.createAbsenceType({ ...form, code: code.trim().toUpperCase() });
+      toast.success(response.message || "Type d'absence enregistré");
+      refresh();
+      setDialogOpen(false);
+    } catch (error) {
+      if (error instanceof ApiError) setErrors(error.fieldErrors);
+      toast.error(getErrorMessage(error, "Enregistrement du type d'absence impossible"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    setDeleting(true);
+    try {
+      const response = await leaveService.deleteAbsenceType(toDelete.code);
+      toast.success(response.message || "Type d'absence supprimé");
+      refresh();
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Suppression du type d'absence impossible"));
+    } finally {
+      setDeleting(false);
+      setToDelete(null);
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{errors[field]}</p>;
+
+  return (
+    <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Tags className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h3 className="text-gray-900 dark:text-gray-100">Types d'absence</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Catalogue utilisé par les absences, les demandes de congé, le calendrier et les exports.
+            </p>
+          </div>
+        </div>
+        <Button onClick={() => openDialog()} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="w-4 h-4 mr-2" />
+          Ajouter un type
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-4">Chargement...</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="dark:border-gray-700">
+              <TableHead className="dark:text-gray-300">Type</TableHead>
+              <TableHead className="dark:text-gray-300">Code</TableHead>
+              {FLAGS.map(([key, label]) => (
+                <TableHead key={key} className="text-center dark:text-gray-300">{label}</TableHead>
+              ))}
+              <TableHead className="text-right dark:text-gray-300">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {absenceTypes.map(type => (
+              <TableRow key={type.code} className="dark:border-gray-700">
+                <TableCell className="text-gray-900 dark:text-gray-100">
+                  <span className="inline-flex items-center gap-2">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: type.color }} />
+                    {type.label}
+                  </span>
+                </TableCell>
+                <TableCell className="font-mono text-xs text-gray-500 dark:text-gray-400">{type.code}</TableCell>
+                {FLAGS.map(([key]) => (
+                  <TableCell key={key} className="text-center">
+                    {type[key] ? (
+                      <Check className="w-4 h-4 mx-auto text-green-600 dark:text-green-400" />
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(type)} className="dark:text-gray-300">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setToDelete(type)}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[480px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">
+              {editing ? "Modifier le type d'absence" : "Nouveau type d'absence"}
+            </DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              {editing
+                ? 'Le code est conservé : les absences existantes suivent le nouveau libellé.'
+                : 'Le code ne pourra plus être modifié.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="absence-type-code" className="dark:text-gray-300">Code *</Label>
+                <Input
+                  id="absence-type-code"
+                  value={form.code}
+                  disabled={!!editing}
+                  placeholder="CONGE"
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  className="mt-1 font-mono dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                />
+                {fieldError('code')}
+              </div>
+              <div>
+                <Label htmlFor="absence-type-color" className="dark:text-gray-300">Couleur *</Label>
+                <Input
+                  id="absence-type-color"
+                  type="color"
+                  value={form.color}
+                  onChange={(e) => setForm({ ...form, color: e.target.value })}
+                  className="mt-1 h-9 p-1 dark:bg-gray-900 dark:border-gray-600"
+                />
+                {fieldError('color')}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="absence-type-label" className="dark:text-gray-300">Libellé *</Label>
+              <Input
+                id="absence-type-label"
+                value={form.label}
+                placeholder="Congé"
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+              />
+              {fieldError('label')}
+            </div>
+            {FLAGS.map(([key, label, description]) => (
+              <div key={key} className="flex items-center justify-between gap-4">
+                <div>
+                  <Label className="dark:text-gray-200">{label}</Label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{description}</p>
+                </div>
+                <Switch checked={form[key]} onCheckedChange={(checked: boolean) => setForm({ ...form, [key]: checked })} />
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} className="dark:border-gray-600 dark:text-gray-300">
+              Annuler
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || !form.code.trim() || !form.label.trim()}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!toDelete}
+        onOpenChange={(open: boolean) => !open && setToDelete(null)}
+        title="Supprimer le type d'absence"
+        description="Un type utilisé par des absences ou des demandes de congé ne peut pas être supprimé."
+        itemName={toDelete ? `${toDelete.label} (${toDelete.code})` : ''}
+        confirmText="Oui, supprimer"
+        onConfirm={handleDelete}
+        isLoading={deleting}
+      />
+    </Card>
+  );
+}
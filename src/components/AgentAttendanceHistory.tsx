@@ -0,0 +1,338 @@
+/**
+ * ============================================================================
+ * AGENT ATTENDANCE HISTORY COMPONENT
+ * ============================================================================
+ *
+ * "Historique" tab of the agent detail view: attendance of one agent over
+ * the last months.
+ *
+ * Features:
+ * - Totals of the period: worked hours, late arrivals, attendance rate
+ *   (same rules as AgentDetails: Absent and Leave days are not worked)
+ * - Calendar view: one heatmap per month, coloured by day status
+ * - List view: one row per working day, filtered by status
+ * - Clicking a day opens it in the daily detail view (Pointage tab)
+ *
+ * Weekends, holidays and future days have no record and stay grey.
+ *
+ * Without a matricule, shows the history of the logged-in agent (self-service
+ * portal, scoped by the backend).
+ *
+ * Usage Example:
+ * ```tsx
+ * <AgentAttendanceHistory
+ *   matricule={viewingAgent.matricule}
+ *   onSelectDate={date => { setSelectedDate(new Date(date)); setDetailTab('attendance'); }}
+ * />
+ * ```
+ *
+ * @module components/AgentAttendanceHistory
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import { CalendarDays, List, Clock, AlertCircle, TrendingUp } from 'lucide-react';
+import { agentsService, personalService, queryKeys } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import { toIsoDate } from '../lib/utils';
+import type { AgentAttendance } from '../lib/api/types';
+
+type AttendanceStatus = AgentAttendance['status'];
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  Present: 'Présent',
+  Late: 'En retard',
+  Absent: 'Absent',
+  Leave: 'Congé',
+  'Half-day': 'Demi-journée',
+};
+
+/**
+ * Heatmap cell colours
+ */
+const STATUS_CELLS: Record<AttendanceStatus, string> = {
+  Present: 'bg-green-500 text-white',
+  Late: 'bg-orange-400 text-white',
+  Absent: 'bg-red-500 text-white',
+  Leave: 'bg-blue-500 text-white',
+  'Half-day': 'bg-yellow-300 text-yellow-900',
+};
+
+const STATUS_BADGES: Record<AttendanceStatus, string> = {
+  Present: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  Late: 'bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400',
+  Absent: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+  Leave: 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400',
+  'Half-day': 'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400',
+};
+
+const WEEK_DAYS = ['L', 'M', 'M', 'J', 'V', 'S', 'D'];
+
+/**
+ * 'HH:mm:ss' or 'HH:mm' → 'HHhmm'
+ */
+const formatTime = (time?: string): string => (time ? time.slice(0, 5).replace(':', 'h') : '-');
+
+interface AgentAttendanceHistoryProps {
+  matricule?: string;                            // Omitted: own history (Agent role)
+  onSelectDate: (date: string) => void;          // YYYY-MM-DD of the clicked day
+}
+
+/**
+ * AgentAttendanceHistory Component
+ *
+ * @param {AgentAttendanceHistoryProps} props - Agent and day selection callback
+ * @returns {JSX.Element} Totals, heatmap and list of the period
+ */
+export function AgentAttendanceHistory({ matricule, onSelectDate }: AgentAttendanceHistoryProps) {
+  const [months, setMonths] = useState('3');
+  const [view, setView] = useState<'calendar' | 'list'>('calendar');
+  const [statusFilter, setStatusFilter] = useState<AttendanceStatus | 'all'>('all');
+
+  // Period: the N last months, current month included
+  const period = useMemo(() => {
+    const today = new Date();
+    return { from: toIsoDate(new Date(today.getFullYear(), today.getMonth() - Number(months) + 1, 1)), to: toIsoDate(today) };
+  }, [months]);
+
+  const historyQuery = useApiQuery(
+    matricule ? queryKeys.agents.attendance(matricule, period) : queryKeys.personal.attendance(period),
+    signal =>
+      matricule
+        ? agentsService.getAgentAttendance(matricule, period, signal)
+        : personalService.getAttendance(period, signal),
+    { keepPreviousData: true }
+  );
+  const records = historyQuery.data ?? [];
+  const byDate = useMemo(() => new Map(records.map(record => [record.date, record])), [records]);
+
+  // Totals of the period (same rules as AgentDetails)
+  const totals = useMemo(() => {
+    const worked = records.filter(r => r.status !== 'Absent' && r.status !== 'Leave');
+    return {
+      workHours: Math.round(worked.reduce((sum, r) => sum + (r.workHours ?? 0), 0)),
+      lateCount: records.filter(r => r.status === 'Late').length,
+      attendanceRate: records.length ? Math.round((worked.length / records.length) * 1000) / 10 : 0,
+    };
+  }, [records]);
+
+  // Month grids (Monday first), most recent month first
+  const monthGrids = useMemo(() => {
+    const start = new Date(`${period.from}T00:00:00`);
+    return Array.from({ length: Number(months) }, (_, index) => {
+      const first = new Date(start.getFullYear(), start.getMonth() + index, 1);
+      const daysInMonth = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+      const offset = (first.getDay() + 6) % 7;
+      const days = Array.from({ length: daysInMonth }, (_, day) =>
+        toIsoDate(new Date(first.getFullYear(), first.getMonth(), day + 1))
+      );
+      return {
+        label: first.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' }),
+        cells: [...Array<string | null>(offset).fill(null), ...days],
+      };
+    }).reverse();
+  }, [period, months]);
+
+  const filteredRecords = records
+    .filter(r => statusFilter === 'all' || r.status === statusFilter)
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  return (
+    <div className="space-y-4">
+      {/* Period and view */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Select value={months} onValueChange={(value: string) => setMonths(value)}>
+          <SelectTrigger className="w-48 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="1">Mois en cours</SelectItem>
+            <SelectItem value="3">3 derniers mois</SelectItem>
+            <SelectItem value="6">6 derniers mois</SelectItem>
+            <SelectItem value="12">12 derniers mois</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex gap-1">
+          <Button
+            variant={view === 'calendar' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView('calendar')}
+            className={view === 'calendar' ? 'bg-blue-600 hover:bg-blue-700' : 'dark:border-gray-600 dark:text-gray-300'}
+          >
+            <CalendarDays className="w-4 h-4 mr-1" />
+            Calendrier
+          </Button>
+          <Button
+            variant={view === 'list' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView('list')}
+            className={view === 'list' ? 'bg-blue-600 hover:bg-blue-700' : 'dark:border-gray-600 dark:text-gray-300'}
+          >
+            <List className="w-4 h-4 mr-1" />
+            Liste
+          </Button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-3">
+        <Card className="p-4 border border-gray-200 dark:border-gray-700 dark:bg-gray-900">
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <Clock className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+            Heures travaillées
+          </div>
+          <p className="text-2xl text-gray-900 dark:text-gray-100 mt-1">{totals.workHours} h</p>
+        </Card>
+        <Card className="p-4 border border-gray-200 dark:border-gray-700 dark:bg-gray-900">
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <AlertCircle className="w-4 h-4 text-orange-500" />
+            Retards
+          </div>
+          <p className="text-2xl text-gray-900 dark:text-gray-100 mt-1">{totals.lateCount}</p>
+        </Card>
+        <Card className="p-4 border border-gray-200 dark:border-gray-700 dark:bg-gray-900">
+          <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <TrendingUp className="w-4 h-4 text-green-600 dark:text-green-400" />
+            Taux de présence
+          </div>
+          <p className="text-2xl text-gray-900 dark:text-gray-100 mt-1">{totals.attendanceRate} %</p>
+        </Card>
+      </div>
+
+      {historyQuery.loading ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-8">Chargement de l'historique...</p>
+      ) : historyQuery.error ? (
+        <p className="text-red-600 dark:text-red-400 text-center py-8">Impossible de charger l'historique</p>
+      ) : view === 'calendar' ? (
+        <Card className="p-4 border border-gray-200 dark:border-gray-700 dark:bg-gray-900">
+          {/* Legend */}
+          <div className="flex flex-wrap gap-3 mb-4 text-xs text-gray-600 dark:text-gray-400">
+            {(Object.keys(STATUS_LABELS) as AttendanceStatus[]).map(status => (
+              <span key={status} className="flex items-center gap-1">
+                <span className={`w-3 h-3 rounded-sm ${STATUS_CELLS[status]}`} />
+                {STATUS_LABELS[status]}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-sm bg-gray-100 dark:bg-gray-800" />
+              Non travaillé
+            </span>
+          </div>
+
+          {/* Month heatmaps */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            {monthGrids.map(month => (
+              <div key={month.label}>
+                <p className="text-sm text-gray-900 dark:text-gray-100 mb-2 capitalize">{month.label}</p>
+                <div className="grid grid-cols-7 gap-1">
+                  {WEEK_DAYS.map((day, index) => (
+                    <span key={index} className="text-[10px] text-center text-gray-500 dark:text-gray-400">{day}</span>
+                  ))}
+                  {month.cells.map((date, index) => {
+                    if (!date) return <span key={`empty-${index}`} />;
+                    const record = byDate.get(date);
+                    const dayLabel = new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR');
+                    return (
+                      <button
+                        key={date}
+                        type="button"
+                        disabled={!record}
+                        onClick={() => onSelectDate(date)}
+                        title={record ? `${dayLabel} : ${STATUS_LABELS[record.status]}${record.notes ? ` (${record.notes})` : ''}` : dayLabel}
+                        className={`aspect-square rounded-sm text-[10px] ${
+                          record
+                            ? `${STATUS_CELLS[record.status]} hover:ring-2 hover:ring-blue-400`
+                            : 'bg-gray-100 dark:bg-gray-800 text-gray-400 cursor-default'
+                        }`}
+                      >
+                        {Number(date.slice(8))}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      ) : (
+        <Card className="border border-gray-200 dark:border-gray-700 dark:bg-gray-900 overflow-hidden">
+          <div className="p-3 flex justify-end border-b border-gray-200 dark:border-gray-700">
+            <Select value={statusFilter} onValueChange={(value: string) => setStatusFilter(value as AttendanceStatus | 'all')}>
+              <SelectTrigger className="w-44 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tous les statuts</SelectItem>
+                {(Object.keys(STATUS_LABELS) as AttendanceStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="max-h-[50vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50 dark:bg-gray-900/50 border-b dark:border-gray-700">
+                  <TableHead className="dark:text-gray-300">Date</TableHead>
+                  <TableHead className="dark:text-gray-300">Statut</TableHead>
+                  <TableHead className="dark:text-gray-300">Arrivée</TableHead>
+                  <TableHead className="dark:text-gray-300">Départ</TableHead>
+                  <TableHead className="dark:text-gray-300">Heures</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredRecords.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-gray-500 dark:text-gray-400">
+                      Aucun pointage sur la période
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredRecords.map(record => (
+                    <TableRow
+                      key={record.date}
+                      onClick={() => onSelectDate(record.date)}
+                      className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 dark:border-gray-700"
+                    >
+                      <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                        {new Date(`${record.date}T00:00:00`).toLocaleDateString('fr-FR', { weekday: 'short', day: '2-digit', month: '2-digit', year: 'numeric' })}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={STATUS_BADGES[record.status]}>
+                          {STATUS_LABELS[record.status]}
+                        </Badge>
+                        {record.notes && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{record.notes}</span>}
+                      </TableCell>
+                      <TableCell className="text-gray-900 dark:text-gray-100">{formatTime(record.checkIn)}</TableCell>
+                      <TableCell className="text-gray-900 dark:text-gray-100">{formatTime(record.checkOut)}</TableCell>
+                      <TableCell className="text-gray-900 dark:text-gray-100">
+                        {record.workHours ? `${record.workHours.toFixed(1)} h` : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
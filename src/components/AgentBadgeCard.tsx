@@ -0,0 +1,241 @@
+/**
+ * ============================================================================
+ * AGENT BADGE CARD COMPONENT
+ * ============================================================================
+ *
+ * QR badge section of the agent detail view.
+ *
+ * Features:
+ * - QR code of the current signed badge payload
+ * - Badge version, issue date and status (active / revoked)
+ * - Reissue (e.g., after loss): every previously printed badge becomes invalid
+ * - Revocation: the agent has no valid badge until the next reissue
+ * - Printing through the badge designer
+ *
+ * Reissue and revocation are reserved to administrators.
+ *
+ * Usage Example:
+ * ```tsx
+ * <AgentBadgeCard agent={viewingAgent} onPrint={() => setBadgeAgents([viewingAgent])} />
+ * ```
+ *
+ * @module components/AgentBadgeCard
+ */
+
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { QrCode, Printer, RefreshCw, Ban, Loader2, AlertCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { badgesService, getErrorMessage, queryClient, queryKeys } from '../lib/api';
+import type { Agent, AgentBadge } from '../lib/api/types';
+import { useApiQuery } from '../lib/hooks/useApi';
+import { useAuth } from '../lib/auth-context';
+
+/**
+ * Props for the AgentBadgeCard component
+ */
+interface AgentBadgeCardProps {
+  agent: Agent;
+
+  /**
+   * Open the badge designer for this agent
+   */
+  onPrint: () => void;
+}
+
+type BadgeAction = 'reissue' | 'revoke' | null;
+
+/**
+ * Format an ISO date for display (e.g., '19/10/2026 à 14:05')
+ */
+const formatIssueDate = (value: string): string => {
+  const date = new Date(value);
+  return `${date.toLocaleDateString('fr-FR')} à ${date.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * AgentBadgeCard Component
+ *
+ * @param {AgentBadgeCardProps} props - Component props
+ * @returns {JSX.Element} Badge card with its reissue / revoke dialog
+ */
+export function AgentBadgeCard({ agent, onPrint }: AgentBadgeCardProps) {
+  const { isAdmin } = useAuth();
+  const [action, setAction] = useState<BadgeAction>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const badgeQuery = useApiQuery(
+    queryKeys.agents.badge(agent.matricule),
+    signal => badgesService.getBadge(agent.matricule, signal)
+  );
+  const badge = badgeQuery.data;
+
+  const openAction = (next: BadgeAction) => {
+    setReason(next === 'reissue' ? 'Badge perdu' : '');
+    setAction(next);
+  };
+
+  const handleSubmit = async () => {
+    if (!action || !reason.trim()) {
+      toast.error('Veuillez indiquer le motif');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = action === 'reissue'
+        ? await badgesService.reissueBadge(agent.matricule, reason.trim())
+        : await badgesService.revokeBadge(agent.matricule, reason.trim());
+      queryClient.setData<AgentBadge>(queryKeys.agents.badge(agent.matricule), () => response.data!);
+      queryClient.invalidate(['agents', 'badges']);
+      toast.success(response.message || (action === 'reissue' ? 'Nouveau badge émis' : 'Badge révoqué'));
+      setAction(null);
+    } catch (error) {
+      toast.error(action === 'reissue' ? 'Réémission du badge impossible' : 'Révocation du badge impossible', {
+        description: getErrorMessage(error),
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-900">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <QrCode className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h4 className="text-gray-900 dark:text-gray-100">Badge QR de l'agent</h4>
+        </div>
+        {badge && (
+          <Badge
+            className={badge.status === 'Active'
+              ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+              : 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400'}
+          >
+            {badge.status === 'Active' ? 'Actif' : 'Révoqué'}
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-4">
+        {badgeQuery.loading ? (
+          <div className="h-[248px] flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : badgeQuery.error ? (
+          <p className="text-sm text-red-600 dark:text-red-400 py-8">{badgeQuery.error}</p>
+        ) : badge?.token ? (
+          <div className="bg-white p-6 rounded-lg border-2 border-gray-200 dark:border-gray-600">
+            <QRCodeSVG value={badge.token} size={200} bgColor="#FFFFFF" fgColor="#000000" level="M" marginSize={0} />
+          </div>
+        ) : (
+          <div className="flex flex-col items-center gap-2 py-8 text-center">
+            <AlertCircle className="w-8 h-8 text-red-500" />
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Aucun badge valide : réémettez un badge pour que l'agent puisse pointer.
+            </p>
+          </div>
+        )}
+
+        {/* Agent and badge information */}
+        <div className="text-center space-y-1">
+          <p className="text-sm text-gray-900 dark:text-gray-100">{agent.nom}</p>
+          <p className="text-xs text-gray-600 dark:text-gray-400">{agent.matricule} · {agent.division}</p>
+          {badge && (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Version {badge.version} · émis le {formatIssueDate(badge.issuedAt)}
+              </p>
+              {badge.status === 'Revoked' && badge.revokedAt && (
+                <p className="text-xs text-red-600 dark:text-red-400">Révoqué le {formatIssueDate(badge.revokedAt)}</p>
+              )}
+              {badge.reason && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Motif : {badge.reason}</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <Button
+          onClick={onPrint}
+          disabled={!badge?.token}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
+        >
+          <Printer className="w-4 h-4 mr-2" />
+          Imprimer le badge
+        </Button>
+
+        {isAdmin && badge && (
+          <div className="grid grid-cols-2 gap-2 w-full">
+            <Button variant="outline" onClick={() => openAction('reissue')} className="dark:border-gray-600 dark:text-gray-300">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Réémettre
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => openAction('revoke')}
+              disabled={badge.status === 'Revoked'}
+              className="text-red-600 border-red-200 hover:bg-red-50 dark:border-red-900 dark:text-red-400 dark:hover:bg-red-900/20"
+            >
+              <Ban className="w-4 h-4 mr-2" />
+              Révoquer
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Reissue / revoke dialog */}
+      <Dialog open={action !== null} onOpenChange={(open: boolean) => !open && setAction(null)}>
+        <DialogContent className="sm:max-w-[460px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">
+              {action === 'reissue' ? 'Réémettre le badge' : 'Révoquer le badge'}
+            </DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              {action === 'reissue'
+                ? `Un badge version ${(badge?.version ?? 0) + 1} sera émis pour ${agent.nom}. Tous les badges imprimés auparavant (versions 1 à ${badge?.version ?? 1}) seront refusés au pointage.`
+                : `Le badge version ${badge?.version ?? 1} de ${agent.nom} sera refusé au pointage. L'agent n'aura plus de badge valide jusqu'à la prochaine réémission.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="badge-reason" className="dark:text-gray-200">Motif *</Label>
+            <Textarea
+              id="badge-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={action === 'reissue' ? 'Badge perdu, badge abîmé...' : 'Départ de l\'agent, badge volé...'}
+              className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)} className="dark:border-gray-600 dark:text-gray-300">
+              Annuler
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className={action === 'reissue' ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'}
+            >
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {action === 'reissue' ? 'Émettre un nouveau badge' : 'Révoquer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
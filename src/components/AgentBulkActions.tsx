@@ -0,0 +1,452 @@
+/**
+ * ============================================================================
+ * AGENT BULK ACTIONS COMPONENT
+ * ============================================================================
+ *
+ * Action bar shown above the Agents table when agents are selected.
+ *
+ * Features:
+ * - Change the status of the selected agents (Active / Inactive / On Leave)
+ * - Move them to another division
+ * - Assign the same long absence to all of them
+ * - Print their QR badges (badge designer, vector PDF)
+ * - Export them as CSV (same columns as the import)
+ * - Delete them after a single confirmation summarizing the impact
+ *
+ * Requests are sent in small batches; a failure on one agent does not stop
+ * the others, and the summary toast lists the agents that were not updated.
+ * Admin-only actions are hidden for other roles.
+ *
+ * Usage Example:
+ * ```tsx
+ * <AgentBulkActions
+ *   selected={selectedAgents}
+ *   divisions={divisions}
+ *   absenceTypes={listeTypeAbsences}
+ *   onSelectionChange={setSelectedAgents}
+ * />
+ * ```
+ *
+ * @module components/AgentBulkActions
+ */
+
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { ConfirmDialog } from './ConfirmDialog';
+import { BadgeDesignerDialog } from './BadgeDesignerDialog';
+import { Building2, CalendarOff, Download, Printer, Trash2, UserCheck, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { agentsService, getErrorMessage, queryClient, queryKeys, saveBlob } from '../lib/api';
+import type { AbsenceType, Agent, ApiResponse } from '../lib/api/types';
+import { AGENT_STATUS_LABELS, buildAgentsCsv } from '../lib/agent-import';
+import { runInBatches } from '../lib/utils';
+import { useAuth } from '../lib/auth-context';
+
+type BulkDialog = 'division' | 'absence' | 'badges' | 'delete' | null;
+
+/**
+ * Props for the AgentBulkActions component
+ */
+interface AgentBulkActionsProps {
+  /**
+   * Selected agents (possibly from several pages)
+   */
+  selected: Agent[];
+
+  /**
+   * Known divisions, proposed in the "move to division" dialog
+   */
+  divisions: string[];
+
+  /**
+   * Absence type catalogue (see useAbsenceTypes)
+   */
+  absenceTypes: AbsenceType[];
+
+  /**
+   * Replace the selection: emptied after a successful action,
+   * reduced to the agents that failed otherwise
+   */
+  onSelectionChange: (agents: Agent[]) => void;
+}
+
+/**
+ * AgentBulkActions Component
+ *
+ * @param {AgentBulkActionsProps} props - Component props
+ * @returns {JSX.Element | null} Action bar and its dialogs (null without selection)
+ */
+export function AgentBulkActions({ selected, divisions, absenceTypes, onSelectionChange }: AgentBulkActionsProps) {
+  const { isAdmin } = useAuth();
+  const [dialog, setDialog] = useState<BulkDialog>(null);
+  const [running, setRunning] = useState(false);
+
+  const [targetDivision, setTargetDivision] = useState('');
+  const [absenceForm, setAbsenceForm] = useState({
+    startDate: '',
+    endDate: '',
+    type: '',
+    reason: '',
+  });
+  // First type of the catalogue until one is chosen (the catalogue may still be loading on mount)
+  const absenceType = absenceTypes.find(t => t.code === absenceForm.type) ?? absenceTypes[0];
+
+  if (selected.length === 0) return null;
+
+  /**
+   * Run an action on every selected agent and report the outcome
+   *
+   * @param {string} label - Progress label (e.g., 'Mise à jour')
+   * @param {string} successMessage - Toast title when everything succeeded
+   * @param {Function} action - API call for one agent
+   * @returns {Promise<boolean>} True if no agent failed (writes queued offline included,
+   *                             reported apart since they have not reached the server yet)
+   */
+  const runBulk = async (
+    label: string,
+    successMessage: string,
+    action: (agent: Agent) => Promise<ApiResponse<unknown>>
+  ): Promise<boolean> => {
+    const agents = selected;
+    const toastId = toast.loading(`${label} : 0 / ${agents.length}`);
+    setRunning(true);
+
+    const { results } = await runInBatches(
+      agents,
+      async agent => {
+        const response = await action(agent);
+        if (!response.success) throw new Error(response.error || 'An error occurred');
+        return !!response.queued;
+      },
+      { onProgress: (done, total) => toast.loading(`${label} : ${done} / ${total}`, { id: toastId }) }
+    );
+
+    setRunning(false);
+    queryClient.invalidate(queryKeys.agents.all);
+
+    const failures = results
+      .map((result, index) => (result.status === 'rejected' ? { agent: agents[index], reason: result.reason } : null))
+      .filter((failure): failure is { agent: Agent; reason: unknown } => failure !== null);
+
+    const queued = results.filter(result => result.status === 'fulfilled' && result.value).length;
+    const queuedMessage = `${queued} agent(s) mis en file : les modifications seront envoyées au retour de la connexion`;
+
+    if (failures.length === 0) {
+      if (queued === 0) {
+        toast.success(successMessage, { id: toastId });
+      } else {
+        toast.info(`Hors ligne : ${queued} agent(s) sur ${agents.length} en attente d'envoi`, {
+          id: toastId,
+          description: queuedMessage,
+        });
+      }
+      onSelectionChange([]);
+      return true;
+    }
+
+    console.error('Bulk action failed for some agents:', failures);
+    toast.error(`${failures.length} agent(s) sur ${agents.length} non traité(s)`, {
+      id: toastId,
+      description: [
+        ...failures
+          .slice(0, 5)
+          .map(({ agent, reason }) => `${agent.nom} (${agent.matricule}) : ${getErrorMessage(reason)}`),
+        ...(queued > 0 ? [queuedMessage] : []),
+      ].join('\n'),
+    });
+    onSelectionChange(failures.map(({ agent }) => agent));
+    return false;
+  };
+
+  const handleStatusChange = (status: Agent['status']) => {
+    runBulk(
+      'Changement de statut',
+      `${selected.length} agent(s) passé(s) en « ${AGENT_STATUS_LABELS[status]} »`,
+      agent => agentsService.updateAgent(agent.matricule, { ...agent, status })
+    );
+  };
+
+  const handleMoveDivision = async () => {
+    const division = targetDivision.trim();
+    if (!division) {
+      toast.error('Le département est obligatoire');
+      return;
+    }
+    if (!/^[A-Za-zÀ-ÖØ-öø-ÿ\s'-]+$/.test(division)) {
+      toast.error('Le département contient des caractères non valides');
+      return;
+    }
+
+    setDialog(null);
+    await runBulk(
+      'Changement de division',
+      `${selected.length} agent(s) déplacé(s) vers ${division}`,
+      agent => agentsService.updateAgent(agent.matricule, { ...agent, division })
+    );
+    setTargetDivision('');
+  };
+
+  // Same checks as the absence dialog of the agent sheet
+  const handleAssignAbsence = async () => {
+    const { startDate, endDate, reason } = absenceForm;
+
+    if (!startDate || !endDate || !absenceType || (absenceType.requiresJustification && !reason.trim())) {
+      toast.error('Veuillez remplir tous les champs obligatoires');
+      return;
+    }
+    if (new Date(startDate) > new Date(endDate)) {
+      toast.error('La date de début ne peut pas être postérieure à la date de fin');
+      return;
+    }
+    if (reason.trim() && !/^[A-Za-zÀ-ÖØ-öø-ÿ\s'’.,()\-]{3,100}$/.test(reason.trim())) {
+      toast.error("Le motif d'absence contient des caractères non valides");
+      return;
+    }
+
+    setDialog(null);
+    const succeeded = await runBulk(
+      'Ajout des absences',
+      `Absence ajoutée pour ${selected.length} agent(s)`,
+      agent => agentsService.createLongAbsence(agent.matricule, { ...absenceForm, type: absenceType.code })
+    );
+    if (succeeded) {
+      setAbsenceForm({ startDate: '', endDate: '', type: '', reason: '' });
+    }
+  };
+
+  const handleDelete = async () => {
+    await runBulk(
+      'Suppression',
+      `${selected.length} agent(s) supprimé(s)`,
+      agent => agentsService.deleteAgent(agent.matricule)
+    );
+  };
+
+  const handleExport = () => {
+    saveBlob(buildAgentsCsv(selected), `agents-selection-${new Date().toISOString().split('T')[0]}.csv`);
+    toast.success(`${selected.length} agent(s) exporté(s)`);
+  };
+
+  // Impact summary of the delete confirmation
+  const divisionCounts = selected.reduce<Record<string, number>>((counts, agent) => {
+    counts[agent.division] = (counts[agent.division] ?? 0) + 1;
+    return counts;
+  }, {});
+  const deleteSummary = Object.entries(divisionCounts)
+    .map(([division, count]) => `${division} (${count})`)
+    .join(', ');
+  const deleteNames = selected.slice(0, 5).map(agent => agent.nom).join(', ')
+    + (selected.length > 5 ? ` et ${selected.length - 5} autre(s)` : '');
+
+  return (
+    <>
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 p-4 mb-4 bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-xl">
+        <div className="flex items-center gap-2">
+          <span className="text-blue-900 dark:text-blue-200">{selected.length} agent(s) sélectionné(s)</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onSelectionChange([])}
+            disabled={running}
+            className="text-blue-700 dark:text-blue-300"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Désélectionner
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {isAdmin && (
+            <>
+              <Select value="" onValueChange={value => handleStatusChange(value as Agent['status'])} disabled={running}>
+                <SelectTrigger className="w-[180px] bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+                  <UserCheck className="w-4 h-4 mr-2" />
+                  <SelectValue placeholder="Changer le statut" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AGENT_STATUS_LABELS).map(([status, label]) => (
+                    <SelectItem key={status} value={status}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" disabled={running} onClick={() => setDialog('division')} className="dark:border-gray-600 dark:text-gray-300">
+                <Building2 className="w-4 h-4 mr-2" />
+                Changer de division
+              </Button>
+              <Button variant="outline" size="sm" disabled={running} onClick={() => setDialog('absence')} className="dark:border-gray-600 dark:text-gray-300">
+                <CalendarOff className="w-4 h-4 mr-2" />
+                Ajouter une absence
+              </Button>
+            </>
+          )}
+          <Button variant="outline" size="sm" disabled={running} onClick={() => setDialog('badges')} className="dark:border-gray-600 dark:text-gray-300">
+            <Printer className="w-4 h-4 mr-2" />
+            Imprimer les badges
+          </Button>
+          <Button variant="outline" size="sm" disabled={running} onClick={handleExport} className="dark:border-gray-600 dark:text-gray-300">
+            <Download className="w-4 h-4 mr-2" />
+            Exporter
+          </Button>
+          {isAdmin && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={running}
+              onClick={() => setDialog('delete')}
+              className="text-red-600 dark:text-red-400 border-red-200 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/30"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Supprimer
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Move to division */}
+      <Dialog open={dialog === 'division'} onOpenChange={(open: boolean) => setDialog(open ? 'division' : null)}>
+        <DialogContent className="sm:max-w-[425px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">Changer de division</DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              {selected.length} agent(s) seront déplacé(s) vers la division choisie
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="bulk-division" className="dark:text-gray-200">Division</Label>
+            <Input
+              id="bulk-division"
+              list="bulk-division-options"
+              placeholder="Select or type division"
+              value={targetDivision}
+              onChange={(e) => setTargetDivision(e.target.value)}
+              className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+            />
+            <datalist id="bulk-division-options">
+              {divisions.map(division => (
+                <option key={division} value={division} />
+              ))}
+            </datalist>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} className="dark:border-gray-600 dark:text-gray-300">
+              Annuler
+            </Button>
+            <Button className="bg-blue-600 hover:bg-blue-700" onClick={handleMoveDivision}>
+              Déplacer {selected.length} agent(s)
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Assign long absence */}
+      <Dialog open={dialog === 'absence'} onOpenChange={(open: boolean) => setDialog(open ? 'absence' : null)}>
+        <DialogContent className="sm:max-w-[500px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">Ajouter une absence</DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              La même absence sera créée pour les {selected.length} agent(s) sélectionné(s)
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="bulk-startDate" className="dark:text-gray-200">Date de début</Label>
+                <Input
+                  id="bulk-startDate"
+                  type="date"
+                  value={absenceForm.startDate}
+                  onChange={(e) => setAbsenceForm({ ...absenceForm, startDate: e.target.value })}
+                  className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="bulk-endDate" className="dark:text-gray-200">Date de Fin</Label>
+                <Input
+                  id="bulk-endDate"
+                  type="date"
+                  value={absenceForm.endDate}
+                  onChange={(e) => setAbsenceForm({ ...absenceForm, endDate: e.target.value })}
+                  className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label className="dark:text-gray-200">Type</Label>
+              <Select value={absenceType?.code ?? ''} onValueChange={(value) => setAbsenceForm({ ...absenceForm, type: value })}>
+                <SelectTrigger className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {absenceTypes.map(type => (
+                    <SelectItem key={type.code} value={type.code}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="bulk-reason" className="dark:text-gray-200">
+                Raison / Motif{absenceType?.requiresJustification && ' *'}
+              </Label>
+              <Textarea
+                id="bulk-reason"
+                value={absenceForm.reason}
+                onChange={(e) => setAbsenceForm({ ...absenceForm, reason: e.target.value })}
+                className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100 min-h-[100px]"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialog(null)} className="dark:border-gray-600 dark:text-gray-300">
+              Annuler
+            </Button>
+            <Button className="bg-blue-600 hover:bg-blue-700" onClick={handleAssignAbsence}>
+              Créer {selected.length} absence(s)
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Badge sheets of the selection */}
+      <BadgeDesignerDialog
+        open={dialog === 'badges'}
+        onOpenChange={(open: boolean) => setDialog(open ? 'badges' : null)}
+        agents={selected}
+        divisions={divisions}
+      />
+
+      {/* Bulk delete */}
+      <ConfirmDialog
+        open={dialog === 'delete'}
+        onOpenChange={open => setDialog(open ? 'delete' : null)}
+        title={`Supprimer ${selected.length} agent(s)`}
+        description={`${selected.length} agent(s) de ${Object.keys(divisionCounts).length} division(s) seront supprimés : ${deleteSummary}. Leurs absences et enregistrements de présence seront définitivement supprimés.`}
+        itemName={deleteNames}
+        confirmText={`Oui, supprimer ${selected.length} agent(s)`}
+        onConfirm={handleDelete}
+        isLoading={running}
+      />
+    </>
+  );
+}
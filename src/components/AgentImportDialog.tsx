@@ -0,0 +1,442 @@
+/**
+ * ============================================================================
+ * AGENT IMPORT DIALOG COMPONENT
+ * ============================================================================
+ *
+ * Wizard importing a list of agents from a CSV or Excel file.
+ *
+ * Steps:
+ * 1. File: choose a .csv, .xlsx or .xls file (first row = headers)
+ * 2. Columns: map the file columns to the agent fields (guessed from the headers)
+ * 3. Preview: every row validated with the agent form rules, duplicates flagged
+ *    (inside the file and against existing matricules)
+ * 4. Import: valid rows created in batches with a progress bar, then a summary
+ *    with a downloadable CSV report of the rows that were not imported
+ *
+ * Usage Example:
+ * ```tsx
+ * <AgentImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+ * ```
+ *
+ * @module components/AgentImportDialog
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { Switch } from './ui/switch';
+import { Upload, FileSpreadsheet, Download, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { runInBatches } from '../lib/utils';
+import { agentsService, getErrorMessage, queryClient, queryKeys, saveBlob } from '../lib/api';
+import {
+  IMPORT_FIELDS,
+  readImportFile,
+  guessMapping,
+  buildImportRows,
+  buildErrorReport,
+  type ColumnMapping,
+  type ImportRow,
+  type ParsedSheet,
+} from '../lib/agent-import';
+
+/**
+ * Number of agents created in parallel
+ */
+const BATCH_SIZE = 5;
+
+type Step = 'file' | 'mapping' | 'preview' | 'import';
+
+/**
+ * Props for the AgentImportDialog component
+ */
+interface AgentImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Load the matricules of every agent, upper-cased
+ */
+async function fetchExistingMatricules(): Promise<Set<string>> {
+  const response = await agentsService.getAllAgents();
+  return new Set((response.data ?? []).map(agent => agent.matricule.toUpperCase()));
+}
+
+/**
+ * AgentImportDialog Component
+ *
+ * @param {AgentImportDialogProps} props - Component props
+ * @returns {JSX.Element} Import wizard dialog
+ */
+export function AgentImportDialog({ open, onOpenChange }: AgentImportDialogProps) {
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [existingMatricules, setExistingMatricules] = useState<Set<string>>(new Set());
+  const [loadingFile, setLoadingFile] = useState(false);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+
+  // Import progress
+  const [importing, setImporting] = useState(false);
+  const [processed, setProcessed] = useState(0);
+  const [createdCount, setCreatedCount] = useState(0);
+  const [failedRows, setFailedRows] = useState<ImportRow[]>([]);
+  const cancelRef = useRef(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Rows rebuilt whenever the mapping changes
+  const rows = useMemo(
+    () => (sheet && mapping ? buildImportRows(sheet, mapping, existingMatricules) : []),
+    [sheet, mapping, existingMatricules]
+  );
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const invalidRows = rows.filter(row => row.errors.length > 0);
+  const displayedRows = showErrorsOnly ? invalidRows : rows;
+
+  const missingFields = IMPORT_FIELDS.filter(({ field, required }) => required && mapping?.[field] == null);
+
+  const reset = () => {
+    setStep('file');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setShowErrorsOnly(false);
+    setProcessed(0);
+    setCreatedCount(0);
+    setFailedRows([]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    // The import keeps running in the background otherwise
+    if (importing) return;
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  // Step 1 → 2: parse the file and guess the columns
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setLoadingFile(true);
+    try {
+      const [parsed, matricules] = await Promise.all([readImportFile(file), fetchExistingMatricules()]);
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessMapping(parsed.headers));
+      setExistingMatricules(matricules);
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error('Lecture du fichier impossible', { description: getErrorMessage(error) });
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } finally {
+      setLoadingFile(false);
+    }
+  };
+
+  // Step 4: create the valid agents, BATCH_SIZE at a time
+  const handleImport = async () => {
+    cancelRef.current = false;
+    setStep('import');
+    setImporting(true);
+    setProcessed(0);
+    setCreatedCount(0);
+
+    const failures: ImportRow[] = [...invalidRows];
+    let created = 0;
+
+    const { results, processed: done } = await runInBatches(
+      validRows,
+      async row => {
+        const response = await agentsService.createAgent(row.agent);
+        if (!response.success) throw new Error(response.error || 'Création refusée par le serveur');
+        setCreatedCount(++created);
+      },
+      {
+        batchSize: BATCH_SIZE,
+        onProgress: setProcessed,
+        shouldStop: () => cancelRef.current,
+      }
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failures.push({ ...validRows[index], errors: [getErrorMessage(result.reason)] });
+      }
+    });
+
+    // Rows skipped by a cancellation are reported too
+    validRows.slice(done).forEach(row => {
+      failures.push({ ...row, errors: ['Import annulé avant la création'] });
+    });
+
+    failures.sort((a, b) => a.line - b.line);
+    setFailedRows(failures);
+    setImporting(false);
+    queryClient.invalidate(queryKeys.agents.all);
+
+    if (created > 0) {
+      toast.success(`${created} agent(s) importé(s) avec succès`);
+    }
+    if (failures.length > 0) {
+      toast.error(`${failures.length} ligne(s) non importée(s)`, {
+        description: 'Téléchargez le rapport d\'erreurs pour les corriger.',
+      });
+    }
+  };
+
+  const handleDownloadReport = () => {
+    const name = fileName.replace(/\.[^.]+$/, '') || 'import';
+    saveBlob(buildErrorReport(failedRows), `${name}-erreurs.csv`);
+  };
+
+  const progress = validRows.length > 0 ? Math.round((processed / validRows.length) * 100) : 100;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] dark:bg-gray-800 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">Importer des agents</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            {step === 'file' && 'Choisissez un fichier CSV ou Excel (la première ligne contient les en-têtes)'}
+            {step === 'mapping' && `${fileName} · ${sheet?.rows.length ?? 0} ligne(s) — associez les colonnes aux champs`}
+            {step === 'preview' && `${validRows.length} ligne(s) valide(s), ${invalidRows.length} ligne(s) en erreur`}
+            {step === 'import' && (importing ? 'Import en cours...' : 'Import terminé')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Step 1: file */}
+        {step === 'file' && (
+          <div className="py-4">
+            <label
+              htmlFor="agent-import-file"
+              className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-xl cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900/50"
+            >
+              {loadingFile ? (
+                <Loader2 className="w-10 h-10 text-blue-600 dark:text-blue-400 animate-spin" />
+              ) : (
+                <Upload className="w-10 h-10 text-blue-600 dark:text-blue-400" />
+              )}
+              <span className="text-gray-900 dark:text-gray-100">
+                {loadingFile ? 'Lecture du fichier...' : 'Cliquez pour choisir un fichier'}
+              </span>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                Colonnes attendues : {IMPORT_FIELDS.map(({ label }) => label).join(', ')}
+              </span>
+            </label>
+            <input
+              id="agent-import-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              disabled={loadingFile}
+              onChange={handleFileChange}
+            />
+          </div>
+        )}
+
+        {/* Step 2: column mapping */}
+        {step === 'mapping' && sheet && mapping && (
+          <div className="grid gap-4 py-4 sm:grid-cols-2">
+            {IMPORT_FIELDS.map(({ field, label, required }) => (
+              <div key={field} className="grid gap-2">
+                <Label className="dark:text-gray-200">
+                  {label} {required && <span className="text-red-600">*</span>}
+                </Label>
+                <Select
+                  value={mapping[field] === null ? 'none' : String(mapping[field])}
+                  onValueChange={value =>
+                    setMapping({ ...mapping, [field]: value === 'none' ? null : Number(value) })
+                  }
+                >
+                  <SelectTrigger className="dark:bg-gray-900 dark:border-gray-600">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                    <SelectItem value="none">— Non importé —</SelectItem>
+                    {sheet.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || `Colonne ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <p className="sm:col-span-2 text-sm text-gray-500 dark:text-gray-400">
+              Sans colonne Statut, les agents sont importés comme actifs.
+            </p>
+          </div>
+        )}
+
+        {/* Step 3: preview */}
+        {step === 'preview' && (
+          <div className="py-2 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex gap-2">
+                <Badge variant="outline" className="bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400 border-green-200 dark:border-green-700">
+                  {validRows.length} valide(s)
+                </Badge>
+                <Badge variant="outline" className="bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-200 dark:border-red-700">
+                  {invalidRows.length} en erreur
+                </Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="errors-only" checked={showErrorsOnly} onCheckedChange={setShowErrorsOnly} />
+                <Label htmlFor="errors-only" className="text-sm dark:text-gray-300">Erreurs uniquement</Label>
+              </div>
+            </div>
+            <div className="max-h-[420px] overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50 dark:bg-gray-900/50">
+                    <TableHead className="dark:text-gray-300">Ligne</TableHead>
+                    {IMPORT_FIELDS.map(({ field, label }) => (
+                      <TableHead key={field} className="dark:text-gray-300">{label}</TableHead>
+                    ))}
+                    <TableHead className="dark:text-gray-300">Erreurs</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {displayedRows.map(row => (
+                    <TableRow
+                      key={row.line}
+                      className={row.errors.length > 0 ? 'bg-red-50/60 dark:bg-red-950/20' : ''}
+                    >
+                      <TableCell className="text-gray-500 dark:text-gray-400">{row.line}</TableCell>
+                      {IMPORT_FIELDS.map(({ field }) => (
+                        <TableCell key={field} className="text-gray-900 dark:text-gray-100">{row.agent[field]}</TableCell>
+                      ))}
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
+                        ) : (
+                          <ul className="text-sm text-red-600 dark:text-red-400 space-y-0.5">
+                            {row.errors.map(error => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {/* Step 4: import progress and summary */}
+        {step === 'import' && (
+          <div className="py-4 space-y-4">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                <span>{processed} / {validRows.length} agent(s) traité(s)</span>
+                <span>{progress}%</span>
+              </div>
+              <Progress value={progress} />
+            </div>
+
+            {!importing && (
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="flex items-center gap-3 p-4 bg-green-50 dark:bg-green-950/30 rounded-lg">
+                  <CheckCircle className="w-6 h-6 text-green-600 dark:text-green-400" />
+                  <div>
+                    <p className="text-gray-900 dark:text-gray-100">{createdCount} agent(s) créé(s)</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 p-4 bg-red-50 dark:bg-red-950/30 rounded-lg">
+                  <AlertCircle className="w-6 h-6 text-red-600 dark:text-red-400" />
+                  <div>
+                    <p className="text-gray-900 dark:text-gray-100">{failedRows.length} ligne(s) non importée(s)</p>
+                    {failedRows.length > 0 && (
+                      <button
+                        type="button"
+                        onClick={handleDownloadReport}
+                        className="inline-flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                        Télécharger le rapport d'erreurs
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset} className="dark:border-gray-600 dark:text-gray-300">
+                Changer de fichier
+              </Button>
+              <Button
+                className="bg-blue-600 hover:bg-blue-700"
+                disabled={missingFields.length > 0}
+                title={missingFields.length > 0 ? `Colonnes manquantes : ${missingFields.map(f => f.label).join(', ')}` : undefined}
+                onClick={() => setStep('preview')}
+              >
+                Vérifier les données
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} className="dark:border-gray-600 dark:text-gray-300">
+                Retour
+              </Button>
+              <Button className="bg-blue-600 hover:bg-blue-700" disabled={validRows.length === 0} onClick={handleImport}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Importer {validRows.length} agent(s)
+              </Button>
+            </>
+          )}
+          {step === 'import' && (
+            importing ? (
+              <Button variant="outline" onClick={() => (cancelRef.current = true)} className="dark:border-gray-600 dark:text-gray-300">
+                Arrêter après ce lot
+              </Button>
+            ) : (
+              <Button className="bg-blue-600 hover:bg-blue-700" onClick={() => handleOpenChange(false)}>
+                Fermer
+              </Button>
+            )
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,384 @@
+/**
+ * ============================================================================
+ * ATTENDANCE CORRECTION DIALOG COMPONENT
+ * ============================================================================
+ *
+ * Manual correction of the punches of one agent for one day (forgotten badge,
+ * badge reader failure...).
+ *
+ * Features:
+ * - Edit, add or clear any of the four punches and the temporary exits
+ * - Mandatory justification, optional supporting document (PDF/JPEG/PNG, 2 MB)
+ * - Admins: the correction is applied immediately
+ * - Managers: the correction is submitted to an Admin for approval
+ *
+ * The badge punches are never lost: the server keeps them as the original
+ * values of the day, displayed next to the corrected ones.
+ *
+ * Usage Example:
+ * ```tsx
+ * <AttendanceCorrectionDialog
+ *   open={isCorrectionOpen}
+ *   onOpenChange={setIsCorrectionOpen}
+ *   agent={viewingAgent}
+ *   date="2026-10-19"
+ *   attendance={dailyAttendance}
+ *   exits={temporaryExits}
+ *   onSaved={() => setAttendanceVersion(v => v + 1)}
+ * />
+ * ```
+ *
+ * @module components/AttendanceCorrectionDialog
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Plus, Trash2, Paperclip, X, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ApiError, attendanceService, getErrorMessage, queryClient, queryKeys } from '../lib/api';
+import { useAuth } from '../lib/auth-context';
+import type {
+  Agent,
+  CorrectionAttachment,
+  CorrectionExit,
+  CorrectionPunches,
+  DailyAttendanceDetails,
+  TemporaryExit,
+} from '../lib/api/types';
+
+/**
+ * Accepted supporting documents
+ */
+const ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+const ATTACHMENT_MAX_SIZE = 2 * 1024 * 1024;
+
+/**
+ * The four punches of a day, in chronological order
+ */
+const PUNCH_FIELDS: Array<{ key: Exclude<keyof CorrectionPunches, 'temporaryExits'>; label: string }> = [
+  { key: 'morningCheckIn', label: 'Arrivée matinée' },
+  { key: 'morningCheckOut', label: 'Départ matinée' },
+  { key: 'afternoonCheckIn', label: 'Arrivée après-midi' },
+  { key: 'afternoonCheckOut', label: 'Départ après-midi' },
+];
+
+/**
+ * 'HH:mm:ss' or 'HH:mm' → 'HH:mm' (time input format)
+ */
+const toInputTime = (value?: string): string => (value ? value.slice(0, 5) : '');
+
+/**
+ * Read a file as a data URL
+ */
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+interface AttendanceCorrectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  agent: Pick<Agent, 'matricule' | 'nom'>;
+  date: string;                                  // YYYY-MM-DD
+  attendance: DailyAttendanceDetails | null;     // Current punches of the day
+  exits: TemporaryExit[];                        // Current temporary exits of the day
+  onSaved?: () => void;
+}
+
+/**
+ * AttendanceCorrectionDialog Component
+ *
+ * @param {AttendanceCorrectionDialogProps} props - Agent, day and its current punches
+ * @returns {JSX.Element} Correction form dialog
+ */
+export function AttendanceCorrectionDialog({
+  open,
+  onOpenChange,
+  agent,
+  date,
+  attendance,
+  exits,
+  onSaved,
+}: AttendanceCorrectionDialogProps) {
+  const { isAdmin } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [punches, setPunches] = useState<CorrectionPunches>({ temporaryExits: [] });
+  const [reason, setReason] = useState('');
+  const [attachment, setAttachment] = useState<CorrectionAttachment | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Start from the current punches each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setPunches({
+      morningCheckIn: toInputTime(attendance?.morningCheckIn),
+      morningCheckOut: toInputTime(attendance?.morningCheckOut),
+      afternoonCheckIn: toInputTime(attendance?.afternoonCheckIn),
+      afternoonCheckOut: toInputTime(attendance?.afternoonCheckOut),
+      temporaryExits: exits.map(exit => ({
+        exitTime: toInputTime(exit.exitTime),
+        returnTime: toInputTime(exit.returnTime),
+        description: exit.description,
+      })),
+    });
+    setReason('');
+    setAttachment(null);
+    setErrors({});
+  }, [open, attendance, exits]);
+
+  const updateExit = (index: number, changes: Partial<CorrectionExit>) => {
+    setPunches(prev => ({
+      ...prev,
+      temporaryExits: prev.temporaryExits.map((exit, i) => (i === index ? { ...exit, ...changes } : exit)),
+    }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!ATTACHMENT_TYPES.includes(file.type)) {
+      setErrors(prev => ({ ...prev, attachment: 'Formats acceptés : PDF, JPEG, PNG' }));
+      return;
+    }
+    if (file.size > ATTACHMENT_MAX_SIZE) {
+      setErrors(prev => ({ ...prev, attachment: 'Fichier supérieur à 2 Mo' }));
+      return;
+    }
+    try {
+      const content = await readAsDataUrl(file);
+      setAttachment({ name: file.name, type: file.type, size: file.size, content });
+      setErrors(({ attachment: _removed, ...rest }) => rest);
+    } catch {
+      setErrors(prev => ({ ...prev, attachment: 'Lecture du fichier impossible' }));
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (reason.trim().length < 5) {
+      setErrors({ reason: 'Justification obligatoire (5 caractères minimum)' });
+      return;
+    }
+
+    setSaving(true);
+    setErrors({});
+    try {
+      const response = await attendanceService.createCorrection({
+        matricule: agent.matricule,
+        date,
+        punches,
+        reason: reason.trim(),
+        attachment: attachment ?? undefined,
+      });
+      toast.success(response.message || (isAdmin ? 'Correction appliquée' : 'Correction soumise pour validation'));
+      queryClient.invalidate(queryKeys.corrections.all);
+      queryClient.invalidate(queryKeys.agents.all);
+      queryClient.invalidate(queryKeys.statistics.all);
+      onOpenChange(false);
+      onSaved?.();
+    } catch (error) {
+      if (error instanceof ApiError) setErrors(error.fieldErrors);
+      toast.error(getErrorMessage(error, 'Correction impossible'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldError = (key: string) =>
+    errors[key] && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{errors[key]}</p>;
+
+  return (
+    <Dialog open={open} onOpenChange={(value: boolean) => !saving && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto dark:bg-gray-800 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">
+            {isAdmin ? 'Corriger les pointages' : 'Proposer une correction'}
+          </DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            {agent.nom} ({agent.matricule}) — {new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR')}.{' '}
+            {isAdmin
+              ? 'Les pointages du badge sont conservés comme valeurs d\'origine.'
+              : 'La correction sera appliquée après validation par un administrateur.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {/* Punches */}
+          <div className="grid grid-cols-2 gap-4">
+            {PUNCH_FIELDS.map(({ key, label }) => (
+              <div key={key}>
+                <Label htmlFor={`correction-${key}`} className="dark:text-gray-300">{label}</Label>
+                <Input
+                  id={`correction-${key}`}
+                  type="time"
+                  value={punches[key] ?? ''}
+                  onChange={(e) => setPunches(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                />
+                {fieldError(key)}
+              </div>
+            ))}
+          </div>
+
+          {/* Temporary exits */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label className="dark:text-gray-300">Sorties temporaires</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setPunches(prev => ({
+                    ...prev,
+                    temporaryExits: [...prev.temporaryExits, { exitTime: '', returnTime: '', description: '' }],
+                  }))
+                }
+                className="dark:border-gray-600 dark:text-gray-300"
+              >
+                <Plus className="w-3 h-3 mr-1" />
+                Ajouter
+              </Button>
+            </div>
+            {punches.temporaryExits.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Aucune sortie temporaire</p>
+            ) : (
+              <div className="space-y-2">
+                {punches.temporaryExits.map((exit, index) => (
+                  <div key={index}>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        aria-label="Heure de sortie"
+                        value={exit.exitTime}
+                        onChange={(e) => updateExit(index, { exitTime: e.target.value })}
+                        className="w-28 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                      />
+                      <Input
+                        type="time"
+                        aria-label="Heure de retour"
+                        value={exit.returnTime ?? ''}
+                        onChange={(e) => updateExit(index, { returnTime: e.target.value })}
+                        className="w-28 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                      />
+                      <Input
+                        placeholder="Motif"
+                        value={exit.description}
+                        onChange={(e) => updateExit(index, { description: e.target.value })}
+                        className="flex-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-label="Supprimer la sortie"
+                        onClick={() =>
+                          setPunches(prev => ({
+                            ...prev,
+                            temporaryExits: prev.temporaryExits.filter((_, i) => i !== index),
+                          }))
+                        }
+                        className="text-red-600 hover:text-red-700 dark:text-red-400"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {fieldError(`temporaryExits.${index}`)}
+                  </div>
+                ))}
+              </div>
+            )}
+            {fieldError('temporaryExits')}
+          </div>
+
+          {/* Justification */}
+          <div>
+            <Label htmlFor="correction-reason" className="dark:text-gray-300">Justification *</Label>
+            <Textarea
+              id="correction-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex. : oubli de badge, panne de la borne..."
+              rows={3}
+              className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+            />
+            {fieldError('reason')}
+          </div>
+
+          {/* Supporting document */}
+          <div>
+            <Label className="dark:text-gray-300">Justificatif (optionnel)</Label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_TYPES.join(',')}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <div className="mt-1 flex items-center gap-2">
+              {attachment ? (
+                <div className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <Paperclip className="w-4 h-4 text-gray-500" />
+                  <span className="text-gray-900 dark:text-gray-100">{attachment.name}</span>
+                  <span className="text-xs text-gray-500">({Math.ceil(attachment.size / 1024)} Ko)</span>
+                  <button
+                    type="button"
+                    aria-label="Retirer le justificatif"
+                    onClick={() => setAttachment(null)}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="dark:border-gray-600 dark:text-gray-300"
+                >
+                  <Paperclip className="w-4 h-4 mr-1" />
+                  Joindre un fichier
+                </Button>
+              )}
+              <span className="text-xs text-gray-500 dark:text-gray-400">PDF, JPEG ou PNG, 2 Mo maximum</span>
+            </div>
+            {fieldError('attachment')}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+            className="dark:border-gray-600 dark:text-gray-300"
+          >
+            Annuler
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isAdmin ? 'Corriger' : 'Proposer la correction'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
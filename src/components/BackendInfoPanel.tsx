@@ -0,0 +1,247 @@
+/**
+ * ============================================================================
+ * BACKEND INFO PANEL COMPONENT
+ * ============================================================================
+ *
+ * Admin panel showing which backend the application is talking to.
+ *
+ * Features:
+ * - Effective API configuration (base URL, mode, timeout, feature flags)
+ * - Origin of the configuration (defaults, environment, config.json) and validation errors
+ * - Backend name, version and environment with measured latency
+ * - Backend profile switcher when config.json defines several profiles
+ *
+ * Usage Example:
+ * ```tsx
+ * {isAdmin && <BackendInfoPanel />}
+ * ```
+ *
+ * @module components/BackendInfoPanel
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Server, RefreshCw, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import {
+  API_CONFIG,
+  getConfigStatus,
+  selectBackendProfile,
+  systemService,
+  getErrorMessage,
+} from '../lib/api';
+import type { BackendInfo } from '../lib/api';
+import { offlineManager } from '../lib/api/offline';
+import { useAuth } from '../lib/auth-context';
+import { LogoutDialog } from './LogoutDialog';
+
+/**
+ * Human readable origin of the configuration
+ */
+const SOURCE_LABELS = {
+  default: 'Valeurs par défaut',
+  env: "Variables d'environnement",
+  runtime: 'config.json',
+} as const;
+
+/**
+ * BackendInfoPanel Component
+ *
+ * @returns {JSX.Element} Card describing the current backend
+ */
+export function BackendInfoPanel() {
+  const { logout } = useAuth();
+  const status = getConfigStatus();
+
+  const [info, setInfo] = useState<BackendInfo | null>(null);
+  const [latency, setLatency] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pendingProfile, setPendingProfile] = useState<string | null>(null);
+
+  // Ping the backend and measure the round trip
+  const fetchInfo = useCallback(async (signal?: AbortSignal) => {
+    setLoading(true);
+    setError(null);
+    const start = performance.now();
+    try {
+      const response = await systemService.getBackendInfo(signal);
+      setInfo(response.data ?? null);
+      setLatency(Math.round(performance.now() - start));
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return;
+      setInfo(null);
+      setLatency(null);
+      setError(getErrorMessage(err, 'Backend injoignable'));
+    } finally {
+      if (!signal?.aborted) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchInfo(controller.signal);
+    return () => controller.abort();
+  }, [fetchInfo]);
+
+  // Changing backend: tokens of the previous backend are meaningless
+  const switchProfile = (name: string) => {
+    selectBackendProfile(name);
+    logout();
+    window.location.reload();
+  };
+
+  // Writes made offline are sent to (or discarded from) the current backend first
+  const handleProfileChange = (name: string) => {
+    if (offlineManager.getState().pending > 0) {
+      setPendingProfile(name);
+      return;
+    }
+    switchProfile(name);
+  };
+
+  const rows: Array<{ label: string; value: React.ReactNode }> = [
+    { label: 'URL de l\'API', value: <code className="text-sm break-all">{API_CONFIG.BASE_URL}</code> },
+    {
+      label: 'Mode',
+      value: API_CONFIG.USE_MOCK ? (
+        <Badge variant="outline" className="bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-700">
+          Mock (navigateur)
+        </Badge>
+      ) : (
+        <Badge variant="outline" className="bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400 border-green-200 dark:border-green-700">
+          API réelle
+        </Badge>
+      ),
+    },
+    {
+      label: 'Délai d\'expiration',
+      value: API_CONFIG.REQUEST_TIMEOUT > 0 ? `${API_CONFIG.REQUEST_TIMEOUT / 1000} s` : 'Aucun',
+    },
+    {
+      label: 'Fonctionnalités',
+      value: (
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(API_CONFIG.FEATURES).map(([name, enabled]) => (
+            <Badge key={name} variant={enabled ? 'default' : 'outline'} className="dark:border-gray-600">
+              {name} {enabled ? 'activé' : 'désactivé'}
+            </Badge>
+          ))}
+        </div>
+      ),
+    },
+    { label: 'Source de la configuration', value: SOURCE_LABELS[status.source] },
+  ];
+
+  return (
+    <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Server className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-gray-900 dark:text-gray-100">Informations Backend</h3>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fetchInfo()}
+          disabled={loading}
+          className="gap-2 dark:border-gray-600 dark:text-gray-300"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Actualiser
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        {/* Backend status */}
+        <div className="p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg">
+          {loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Connexion au backend...</p>
+          ) : error ? (
+            <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
+              <XCircle className="w-5 h-5" />
+              <span className="text-sm">{error}</span>
+            </div>
+          ) : (
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />
+                <div>
+                  <p className="text-gray-900 dark:text-gray-100">{info?.name ?? 'Backend'}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Version {info?.version ?? 'inconnue'} · {info?.environment ?? 'environnement inconnu'}
+                  </p>
+                </div>
+              </div>
+              {latency !== null && (
+                <span className="text-sm text-gray-500 dark:text-gray-400">{latency} ms</span>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Effective configuration */}
+        <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-3">
+          {rows.map(row => (
+            <React.Fragment key={row.label}>
+              <dt className="text-sm text-gray-500 dark:text-gray-400">{row.label}</dt>
+              <dd className="sm:col-span-2 text-gray-900 dark:text-gray-100">{row.value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+
+        {/* Backend profiles */}
+        {status.profiles.length > 1 && (
+          <div className="p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg space-y-2">
+            <Label className="dark:text-gray-200">Profil backend</Label>
+            <Select value={status.profile ?? undefined} onValueChange={handleProfileChange}>
+              <SelectTrigger className="dark:bg-gray-900 dark:border-gray-600">
+                <SelectValue placeholder="Choisir un profil" />
+              </SelectTrigger>
+              <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
+                {status.profiles.map(profile => (
+                  <SelectItem key={profile.name} value={profile.name}>
+                    {profile.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Changer de profil recharge l'application et ferme la session.
+            </p>
+          </div>
+        )}
+
+        {/* Validation errors */}
+        {status.errors.length > 0 && (
+          <div className="p-4 bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-lg">
+            <div className="flex items-center gap-2 mb-2">
+              <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+              <h4 className="text-amber-800 dark:text-amber-300">Configuration ignorée</h4>
+            </div>
+            <ul className="list-disc pl-5 text-sm text-amber-700 dark:text-amber-400 space-y-1">
+              {status.errors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <LogoutDialog
+        open={pendingProfile !== null}
+        onOpenChange={(open: boolean) => !open && setPendingProfile(null)}
+        onLogout={() => pendingProfile && switchProfile(pendingProfile)}
+      />
+    </Card>
+  );
+}
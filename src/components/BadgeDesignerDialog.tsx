@@ -0,0 +1,414 @@
+/**
+ * ============================================================================
+ * BADGE DESIGNER DIALOG COMPONENT
+ * ============================================================================
+ *
+ * Designer of printable QR badge sheets (A4, vector PDF).
+ *
+ * Features:
+ * - Agents printed either from a selection or from a whole division
+ * - Configurable grid (columns × rows) and card size in mm
+ * - Organisation name, logo and optional lines (name, poste, division, matricule)
+ * - Live preview of the first page
+ * - QR codes encode the signed badge payload (agents whose badge is revoked are skipped)
+ * - PDF download or direct printing
+ * - Layout remembered in localStorage (logo included)
+ *
+ * Usage Example:
+ * ```tsx
+ * // Badges of the selected agents (division mode when `agents` is empty)
+ * <BadgeDesignerDialog
+ *   open={isBadgeDialogOpen}
+ *   onOpenChange={setIsBadgeDialogOpen}
+ *   agents={selectedAgents}
+ *   divisions={divisions}
+ * />
+ * ```
+ *
+ * @module components/BadgeDesignerDialog
+ */
+
+import React, { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Download, Printer, ImagePlus, X, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { agentsService, badgesService, getErrorMessage, queryKeys } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import type { Agent } from '../lib/api/types';
+import {
+  DEFAULT_BADGE_LAYOUT,
+  PAGE_WIDTH,
+  PAGE_HEIGHT,
+  generateBadgePdf,
+  getBadgeLines,
+  getCardPositions,
+  getLayoutErrors,
+  type BadgeLayout,
+} from '../lib/badge-pdf';
+
+/**
+ * localStorage key of the last used layout
+ */
+const LAYOUT_STORAGE_KEY = 'badge_layout';
+
+/**
+ * Preview scale (pixels per mm)
+ */
+const PREVIEW_SCALE = 1.6;
+
+/**
+ * Props for the BadgeDesignerDialog component
+ */
+interface BadgeDesignerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+
+  /**
+   * Agents to print; when empty, the agents of a division are chosen in the dialog
+   */
+  agents?: Agent[];
+
+  /**
+   * Divisions proposed in division mode
+   */
+  divisions: string[];
+}
+
+/**
+ * Read the saved layout (defaults for missing or invalid values)
+ */
+const loadLayout = (): BadgeLayout => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LAYOUT_STORAGE_KEY) || '{}');
+    const layout = { ...DEFAULT_BADGE_LAYOUT, ...saved };
+    return getLayoutErrors(layout).length === 0 ? layout : DEFAULT_BADGE_LAYOUT;
+  } catch {
+    return DEFAULT_BADGE_LAYOUT;
+  }
+};
+
+/**
+ * BadgeDesignerDialog Component
+ *
+ * @param {BadgeDesignerDialogProps} props - Component props
+ * @returns {JSX.Element} Badge designer dialog
+ */
+export function BadgeDesignerDialog({ open, onOpenChange, agents = [], divisions }: BadgeDesignerDialogProps) {
+  const [layout, setLayout] = useState<BadgeLayout>(loadLayout);
+  const [division, setDivision] = useState('');
+  const [divisionAgents, setDivisionAgents] = useState<Agent[]>([]);
+  const [loadingAgents, setLoadingAgents] = useState(false);
+
+  const divisionMode = agents.length === 0;
+  const selectedAgents = divisionMode ? divisionAgents : agents;
+  const layoutErrors = getLayoutErrors(layout);
+  const positions = layoutErrors.length === 0 ? getCardPositions(layout) : [];
+
+  // Signed QR payload of each agent (revoked badges have no token and are not printed)
+  const matricules = selectedAgents.map(agent => agent.matricule);
+  const badgesQuery = useApiQuery(
+    queryKeys.agents.badges(matricules),
+    signal => badgesService.getBadges(matricules, signal),
+    { enabled: open && matricules.length > 0 }
+  );
+  const tokens = new Map(
+    (badgesQuery.data ?? []).filter(badge => badge.token).map(badge => [badge.matricule, badge.token as string])
+  );
+  const printedAgents = selectedAgents.filter(agent => tokens.has(agent.matricule));
+  const skippedCount = badgesQuery.data ? selectedAgents.length - printedAgents.length : 0;
+  const pageCount = positions.length > 0 ? Math.ceil(printedAgents.length / positions.length) : 0;
+
+  // Division mode: load every agent of the chosen division
+  useEffect(() => {
+    if (!open || !divisionMode || !division) {
+      setDivisionAgents([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoadingAgents(true);
+    agentsService
+      .getAllAgents({ department: division, sortBy: 'nom' }, controller.signal)
+      .then(response => setDivisionAgents(response.data ?? []))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        toast.error('Chargement des agents impossible', { description: getErrorMessage(error) });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoadingAgents(false);
+      });
+    return () => controller.abort();
+  }, [open, divisionMode, division]);
+
+  // Remember the layout for the next sheets
+  useEffect(() => {
+    try {
+      localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+    } catch {
+      // Logo too large for localStorage: only the current session keeps it
+    }
+  }, [layout]);
+
+  const updateLayout = (changes: Partial<BadgeLayout>) => setLayout(prev => ({ ...prev, ...changes }));
+
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast.error('Le logo doit être une image PNG ou JPEG');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => updateLayout({ logo: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const buildPdf = () => {
+    if (layoutErrors.length > 0 || printedAgents.length === 0) return null;
+    try {
+      return generateBadgePdf(printedAgents, layout, { qrValue: agent => tokens.get(agent.matricule) ?? '' });
+    } catch (error) {
+      console.error('Error generating badges:', error);
+      toast.error('Génération des badges impossible', { description: getErrorMessage(error) });
+      return null;
+    }
+  };
+
+  const handleDownload = () => {
+    const doc = buildPdf();
+    if (!doc) return;
+    const name = divisionMode ? division : `${printedAgents.length}-agents`;
+    doc.save(`badges-${name.replace(/\s+/g, '-').toLowerCase()}.pdf`);
+    toast.success(`${printedAgents.length} badge(s) générés`);
+  };
+
+  const handlePrint = () => {
+    const doc = buildPdf();
+    if (!doc) return;
+    doc.autoPrint();
+    if (!window.open(doc.output('bloburl'), '_blank')) {
+      toast.error('Impossible d\'ouvrir la fenêtre d\'impression', {
+        description: 'Autorisez les fenêtres pop-up pour ce site.',
+      });
+    }
+  };
+
+  const numberField = (field: 'columns' | 'rows' | 'cardWidth' | 'cardHeight', label: string, unit?: string) => (
+    <div className="grid gap-2">
+      <Label htmlFor={`badge-${field}`} className="dark:text-gray-200">
+        {label} {unit && <span className="text-gray-500 dark:text-gray-400">({unit})</span>}
+      </Label>
+      <Input
+        id={`badge-${field}`}
+        type="number"
+        min={1}
+        value={Number.isNaN(layout[field]) ? '' : layout[field]}
+        onChange={(e) => updateLayout({ [field]: e.target.valueAsNumber })}
+        className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+      />
+    </div>
+  );
+
+  const lineSwitch = (field: 'showName' | 'showPoste' | 'showDivision' | 'showMatricule', label: string) => (
+    <div className="flex items-center justify-between">
+      <Label htmlFor={`badge-${field}`} className="dark:text-gray-200">{label}</Label>
+      <Switch
+        id={`badge-${field}`}
+        checked={layout[field]}
+        onCheckedChange={(checked: boolean) => updateLayout({ [field]: checked })}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[960px] max-h-[95vh] overflow-y-auto dark:bg-gray-800 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">Badges QR</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            {printedAgents.length} badge(s) · {pageCount} page(s) A4
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-6 md:grid-cols-[1fr_auto]">
+          {/* Settings */}
+          <div className="space-y-5">
+            {divisionMode ? (
+              <div className="grid gap-2">
+                <Label className="dark:text-gray-200">Division</Label>
+                <Select value={division} onValueChange={setDivision}>
+                  <SelectTrigger className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+                    <SelectValue placeholder="Choisir une division" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {divisions.map(name => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Sélection : {agents.slice(0, 3).map(agent => agent.nom).join(', ')}
+                {agents.length > 3 && ` et ${agents.length - 3} autre(s)`}
+              </p>
+            )}
+            {(loadingAgents || badgesQuery.loading) && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                <Loader2 className="w-4 h-4 mr-1 inline animate-spin" />
+                {loadingAgents ? 'Chargement des agents...' : 'Préparation des badges...'}
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              {numberField('columns', 'Colonnes')}
+              {numberField('rows', 'Lignes')}
+              {numberField('cardWidth', 'Largeur carte', 'mm')}
+              {numberField('cardHeight', 'Hauteur carte', 'mm')}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="badge-organization" className="dark:text-gray-200">Organisation</Label>
+              <Input
+                id="badge-organization"
+                value={layout.organization}
+                onChange={(e) => updateLayout({ organization: e.target.value })}
+                className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+              />
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Label
+                htmlFor="badge-logo"
+                className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md cursor-pointer text-sm dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <ImagePlus className="w-4 h-4" />
+                {layout.logo ? 'Changer le logo' : 'Ajouter un logo'}
+              </Label>
+              <input id="badge-logo" type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogoChange} />
+              {layout.logo && (
+                <>
+                  <img src={layout.logo} alt="Logo" className="h-8 object-contain" />
+                  <Button variant="ghost" size="icon" onClick={() => updateLayout({ logo: null })} title="Retirer le logo">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-3 p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg">
+              {lineSwitch('showName', 'Nom')}
+              {lineSwitch('showPoste', 'Poste')}
+              {lineSwitch('showDivision', 'Division')}
+              {lineSwitch('showMatricule', 'Matricule')}
+            </div>
+
+            {badgesQuery.error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{badgesQuery.error}</p>
+            )}
+            {skippedCount > 0 && (
+              <p className="text-sm text-amber-600 dark:text-amber-400">
+                {skippedCount} agent(s) sans badge valide (badge révoqué) ne seront pas imprimés.
+              </p>
+            )}
+
+            {layoutErrors.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-red-600 dark:text-red-400 space-y-1">
+                {layoutErrors.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Preview of the first page */}
+          <div
+            className="relative bg-white border border-gray-300 dark:border-gray-600 shadow-sm mx-auto overflow-hidden"
+            style={{ width: PAGE_WIDTH * PREVIEW_SCALE, height: PAGE_HEIGHT * PREVIEW_SCALE }}
+          >
+            {positions.map((position, index) => {
+              const agent = printedAgents[index];
+              if (!agent) return null;
+              const lines = getBadgeLines(agent, layout);
+              return (
+                <div
+                  key={agent.matricule}
+                  className="absolute flex flex-col items-center border border-gray-300 rounded-sm text-center"
+                  style={{
+                    left: position.x * PREVIEW_SCALE,
+                    top: position.y * PREVIEW_SCALE,
+                    width: layout.cardWidth * PREVIEW_SCALE,
+                    height: layout.cardHeight * PREVIEW_SCALE,
+                    padding: 3 * PREVIEW_SCALE,
+                  }}
+                >
+                  {(layout.logo || layout.organization) && (
+                    <div className="flex items-center gap-1 w-full" style={{ height: 8 * PREVIEW_SCALE }}>
+                      {layout.logo && <img src={layout.logo} alt="" className="h-full object-contain" />}
+                      <span className="flex-1 truncate text-gray-700" style={{ fontSize: 6 }}>{layout.organization}</span>
+                    </div>
+                  )}
+                  <div className="flex-1 min-h-0 flex items-center justify-center w-full">
+                    <QRCodeSVG value={tokens.get(agent.matricule) ?? ''} level="M" marginSize={0} style={{ height: '100%', width: 'auto', maxWidth: '100%' }} />
+                  </div>
+                  {lines.map(({ text, bold }) => (
+                    <span
+                      key={text}
+                      className={`w-full truncate ${bold ? 'text-gray-900 font-semibold' : 'text-gray-600'}`}
+                      style={{ fontSize: bold ? 8 : 7, lineHeight: `${4 * PREVIEW_SCALE}px` }}
+                    >
+                      {text}
+                    </span>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handlePrint}
+            disabled={layoutErrors.length > 0 || printedAgents.length === 0}
+            className="dark:border-gray-600 dark:text-gray-300"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Imprimer
+          </Button>
+          <Button
+            className="bg-blue-600 hover:bg-blue-700"
+            onClick={handleDownload}
+            disabled={layoutErrors.length > 0 || printedAgents.length === 0}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Télécharger le PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,7 +12,8 @@
  * - Logout functionality
  * - Responsive sidebar design
  * - Dark mode support
- * - Notification and help placeholders
+ * - In-app notifications (leave request workflow)
+ * - Offline banner (last sync, pending writes, conflict report)
  * 
  * @module Layout
  */
@@ -31,16 +32,22 @@ import {
   Settings,          // Settings icon
   LogOut,            // Logout icon
   User,              // User profile icon
-  Bell,              // Notifications icon
   HelpCircle,        // Help icon
   Shield,            // Role/security icon
   ChevronUp,         // Dropdown arrow
-  History            // Personal History icon
+  History,           // Personal History icon
+  ScanLine,          // Check-in kiosk icon
+  PenLine,           // Attendance corrections icon
+  CalendarClock,     // Leave requests icon
+  GanttChart,        // Team availability icon
+  Inbox              // Reports icon
 } from 'lucide-react';
 
 // --- Context Hooks ---
-import { useAuth } from '../lib/auth-context';
+import { useAuth, type CurrentUser } from '../lib/auth-context';
 import { useTheme } from '../lib/theme-context';
+import { isFeatureEnabled, type FeatureFlags } from '../lib/api';
+import { offlineManager } from '../lib/api/offline';
 
 // --- UI Components ---
 import { 
@@ -52,6 +59,9 @@ import {
   DropdownMenuTrigger 
 } from './ui/dropdown-menu';
 import { Badge } from './ui/badge';
+import { OfflineBanner } from './OfflineBanner';
+import { LogoutDialog } from './LogoutDialog';
+import { NotificationBell } from './NotificationBell';
 import { toast } from 'sonner';
 
 // --- Type Definitions ---
@@ -63,13 +73,15 @@ import { toast } from 'sonner';
  * @property {string} path - Route path
  * @property {string} label - Display label in navigation
  * @property {any} icon - Lucide icon component
- * @property {Array<'Admin' | 'Manager'>} roles - Roles allowed to see this nav item
+ * @property {Array<CurrentUser['role']>} roles - Roles allowed to see this nav item
+ * @property {keyof FeatureFlags} feature - Optional feature flag required to see this nav item
  */
 type NavItem = {
   path: string;
   label: string;
   icon: any;
-  roles: Array<'Admin' | 'Manager'>;
+  roles: Array<CurrentUser['role']>;
+  feature?: keyof FeatureFlags;
 };
 
 // --- Navigation Configuration ---
@@ -85,8 +97,13 @@ type NavItem = {
  * - Agents Management: Admin (full CRUD), Manager (view only)
  * - Work Schedules: Admin, Manager
  * - Calendar & Holidays: Admin, Manager
- * - Statistics & Reports: Admin, Manager
- * - Personal History: Agent only
+ * - Team Availability: Admin, Manager (absence timeline per division)
+ * - Attendance Corrections: Admin (apply, approve), Manager (propose, follow up)
+ * - Leave Requests: Admin, Manager (approval queue, requests on behalf of agents)
+ * - Statistics: Admin, Manager (attendance analytics, behind the STATISTICS feature flag, on by default)
+ * - Reports: Admin, Manager (scheduled and on-demand reports, download, preview, retention)
+ * - Check-in Kiosk: Admin (opens the full-screen kiosk; Kiosk sessions never see the layout)
+ * - Personal History: Agent only (own attendance, absences, leave requests, badge and monthly statement)
  * - Settings & Users: All roles (but different tab access)
  */
 const navItems: NavItem[] = [
@@ -94,8 +111,14 @@ const navItems: NavItem[] = [
   { path: '/agents', label: 'Agents', icon: Users, roles: ['Admin', 'Manager'] },
   { path: '/schedules', label: 'Horaire de Travail', icon: Calendar, roles: ['Admin', 'Manager'] },
   { path: '/calendar', label: 'Calendrier', icon: CalendarDays, roles: ['Admin', 'Manager'] },
-  /*{ path: '/statistics', label: 'Statistics & Reports', icon: BarChart3, roles: ['Admin', 'Manager'] },*/
-  { path: '/settings', label: 'Paramètres', icon: Settings, roles: ['Admin', 'Manager'] },
+  { path: '/team-availability', label: 'Disponibilités', icon: GanttChart, roles: ['Admin', 'Manager'] },
+  { path: '/corrections', label: 'Corrections', icon: PenLine, roles: ['Admin', 'Manager'] },
+  { path: '/leave-requests', label: 'Congés', icon: CalendarClock, roles: ['Admin', 'Manager'] },
+  { path: '/statistics', label: 'Statistiques', icon: BarChart3, roles: ['Admin', 'Manager'], feature: 'STATISTICS' },
+  { path: '/reports', label: 'Rapports', icon: Inbox, roles: ['Admin', 'Manager'] },
+  { path: '/kiosk', label: 'Borne de pointage', icon: ScanLine, roles: ['Admin'] },
+  { path: '/personal-history', label: 'Mon espace', icon: History, roles: ['Agent'] },
+  { path: '/settings', label: 'Paramètres', icon: Settings, roles: ['Admin', 'Manager', 'Agent'] },
 ];
 
 // --- Layout Component ---
@@ -120,6 +143,7 @@ export function Layout() {
   
   // --- State Management ---
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
+  const [isLogoutDialogOpen, setIsLogoutDialogOpen] = useState(false);
 
   // --- Safety Check ---
   // This should not happen due to ProtectedRoute, but ensures type safety
@@ -133,16 +157,28 @@ export function Layout() {
    * Based on the user's role (Admin, Manager, or Agent)
    */
   const filteredNavItems = navItems.filter(item => 
-    item.roles.includes(currentUser.role)
+    item.roles.includes(currentUser.role) &&
+    (!item.feature || isFeatureEnabled(item.feature))
   );
 
   // --- Event Handlers ---
   
   /**
    * Handle user logout
-   * Clears session, shows success message, and redirects to login
+   * Asks first what to do with the writes made offline, if any
    */
   const handleLogout = () => {
+    if (offlineManager.getState().pending > 0) {
+      setIsLogoutDialogOpen(true);
+      return;
+    }
+    completeLogout();
+  };
+
+  /**
+   * Clears session, shows success message, and redirects to login
+   */
+  const completeLogout = () => {
     logout();
     toast.success('Déconnexion Réussi', {
       description: 'Vous avez été déconnecté du system.',
@@ -194,9 +230,12 @@ export function Layout() {
       <aside className="w-64 bg-white dark:bg-gray-800 border-r border-gray-200 dark:border-gray-700 flex flex-col">
         
         {/* --- Application Logo/Header --- */}
-        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
-          <h1 className="text-blue-600 dark:text-blue-400">Gestion de Pointage</h1>
-          <p className="text-gray-500 dark:text-gray-400 text-sm mt-1">des Agents Publiques</p>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between gap-2">
+          <div>
+            <h1 className="text-blue-600 dark:text-blue-400">Gestion de Pointage</h1>
+            <p className="text-gray-500 dark:text-gray-400 text-sm mt-1">des Agents Publiques</p>
+          </div>
+          <NotificationBell />
         </div>
         
         {/* --- Navigation Menu --- */}
@@ -300,8 +339,11 @@ export function Layout() {
 
       {/* Main Content */}
       <main className="flex-1 overflow-auto bg-gray-50 dark:bg-gray-900">
+        <OfflineBanner />
         <Outlet />
       </main>
+
+      <LogoutDialog open={isLogoutDialogOpen} onOpenChange={setIsLogoutDialogOpen} onLogout={completeLogout} />
     </div>
   );
 }
@@ -0,0 +1,130 @@
+/**
+ * ============================================================================
+ * LEAVE BALANCE TABLE COMPONENT
+ * ============================================================================
+ *
+ * Balance of each absence type of one agent for a year, computed from their
+ * long absences (see lib/leave-balance).
+ *
+ * Features:
+ * - Year selection (current and two previous years)
+ * - Entitlement earned, carry-over, days used and remaining balance
+ * - Exceeded balances highlighted
+ *
+ * Usage Example:
+ * ```tsx
+ * <LeaveBalanceTable absences={absences} />
+ * ```
+ *
+ * @module components/LeaveBalanceTable
+ */
+
+import React, { useMemo, useState } from 'react';
+import { Card } from './ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Scale } from 'lucide-react';
+import { useLeaveEntitlements } from '../lib/hooks/useLeaveEntitlements';
+import { useAbsenceTypes } from '../lib/hooks/useAbsenceTypes';
+import { computeLeaveBalances } from '../lib/leave-balance';
+import type { LongAbsence } from '../lib/api/types';
+
+interface LeaveBalanceTableProps {
+  absences: LongAbsence[];
+}
+
+/**
+ * '12,5 j'
+ */
+const formatDays = (days: number): string => `${days.toLocaleString('fr-FR')} j`;
+
+/**
+ * LeaveBalanceTable Component
+ *
+ * @param {LeaveBalanceTableProps} props - Absences of the agent
+ * @returns {JSX.Element} Balance card
+ */
+export function LeaveBalanceTable({ absences }: LeaveBalanceTableProps) {
+  const { getLabel } = useAbsenceTypes();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const { entitlements, holidays, loading } = useLeaveEntitlements();
+
+  const balances = useMemo(
+    () => computeLeaveBalances(absences, entitlements, holidays, year),
+    [absences, entitlements, holidays, year]
+  );
+
+  return (
+    <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <h4 className="text-gray-900 dark:text-gray-100">Soldes de congé</h4>
+        </div>
+        <Select value={String(year)} onValueChange={(value: string) => setYear(Number(value))}>
+          <SelectTrigger className="w-28 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[currentYear, currentYear - 1, currentYear - 2].map(y => (
+              <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-4">Chargement...</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="dark:border-gray-700">
+              <TableHead className="dark:text-gray-300">Type</TableHead>
+              <TableHead className="text-right dark:text-gray-300">Droit acquis</TableHead>
+              <TableHead className="text-right dark:text-gray-300">Report</TableHead>
+              <TableHead className="text-right dark:text-gray-300">Pris / planifiés</TableHead>
+              <TableHead className="text-right dark:text-gray-300">Solde</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {balances.map(balance => (
+              <TableRow key={balance.type} className="dark:border-gray-700">
+                <TableCell className="text-gray-900 dark:text-gray-100">{getLabel(balance.type)}</TableCell>
+                <TableCell className="text-right text-gray-700 dark:text-gray-300">
+                  {balance.entitlement === null ? 'Sans quota' : formatDays(balance.entitlement)}
+                </TableCell>
+                <TableCell className="text-right text-gray-700 dark:text-gray-300">
+                  {balance.entitlement === null ? '-' : formatDays(balance.carriedOver)}
+                </TableCell>
+                <TableCell className="text-right text-gray-700 dark:text-gray-300">{formatDays(balance.used)}</TableCell>
+                <TableCell
+                  className={`text-right ${
+                    balance.remaining !== null && balance.remaining < 0
+                      ? 'text-red-600 dark:text-red-400'
+                      : 'text-gray-900 dark:text-gray-100'
+                  }`}
+                >
+                  {balance.remaining === null ? '-' : formatDays(balance.remaining)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * ============================================================================
+ * LEAVE REQUEST DIALOG COMPONENT
+ * ============================================================================
+ *
+ * Submission of a leave request, by an agent from the self-service portal or
+ * by a manager on behalf of an agent.
+ *
+ * Features:
+ * - Absence type from the catalogue, period and mandatory reason
+ * - Agent selection when `agents` is given (manager on behalf)
+ * - Warning when the request exceeds the leave balance of its type
+ * - Overlaps with existing absences or pending requests are refused by the
+ *   server and shown under the dates
+ *
+ * Usage Example:
+ * ```tsx
+ * <LeaveRequestDialog
+ *   open={isLeaveOpen}
+ *   onOpenChange={setIsLeaveOpen}
+ *   absences={ownAbsences}
+ *   onSubmit={payload => personalService.createLeaveRequest(payload)}
+ * />
+ * ```
+ *
+ * @module components/LeaveRequestDialog
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { agentsService, ApiError, getErrorMessage, queryClient, queryKeys } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import { useLeaveEntitlements } from '../lib/hooks/useLeaveEntitlements';
+import { useAbsenceTypes } from '../lib/hooks/useAbsenceTypes';
+import { checkLeaveBalance } from '../lib/leave-balance';
+import type { Agent, ApiResponse, LeaveRequest, LeaveRequestPayload, LongAbsence } from '../lib/api/types';
+
+interface LeaveRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  agents?: Agent[];                                // Agent choice (manager on behalf)
+  absences?: LongAbsence[];                        // Own absences (agent), loaded per agent otherwise
+  onSubmit: (payload: LeaveRequestPayload) => Promise<ApiResponse<LeaveRequest>>;
+  onSaved?: (request: LeaveRequest) => void;
+}
+
+const EMPTY_FORM: LeaveRequestPayload = { matricule: '', type: '', startDate: '', endDate: '', reason: '' };
+
+/**
+ * LeaveRequestDialog Component
+ *
+ * @param {LeaveRequestDialogProps} props - Optional agent list and submit call
+ * @returns {JSX.Element} Leave request form dialog
+ */
+export function LeaveRequestDialog({ open, onOpenChange, agents, absences, onSubmit, onSaved }: LeaveRequestDialogProps) {
+  const [form, setForm] = useState<LeaveRequestPayload>(EMPTY_FORM);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Chosen type, the first one of the catalogue by default
+  const { absenceTypes } = useAbsenceTypes();
+  const absenceType = absenceTypes.find(t => t.code === form.type) ?? absenceTypes[0];
+  const type = absenceType?.code ?? '';
+
+  // Balance of the selected type (absences of the chosen agent when not given)
+  const { entitlements, holidays } = useLeaveEntitlements();
+  const matricule = form.matricule ?? '';
+  const agentAbsencesQuery = useApiQuery(
+    queryKeys.agents.absences(matricule),
+    signal => agentsService.getLongAbsences(matricule, signal),
+    { enabled: open && !absences && !!matricule }
+  );
+  const balanceWarning = checkLeaveBalance(absences ?? agentAbsencesQuery.data ?? [], entitlements, holidays, { ...form, type });
+
+  // Start from an empty form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setForm(EMPTY_FORM);
+      setErrors({});
+    }
+  }, [open]);
+
+  const update = (field: keyof LeaveRequestPayload, value: string) => setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async () => {
+    const missing: Record<string, string> = {};
+    if (agents && !form.matricule) missing.matricule = 'Champ obligatoire';
+    if (!form.startDate) missing.startDate = 'Champ obligatoire';
+    if (!form.endDate) missing.endDate = 'Champ obligatoire';
+    else if (form.startDate && form.endDate < form.startDate) missing.endDate = 'La date de fin doit suivre la date de début';
+    if (!type) missing.type = 'Champ obligatoire';
+    if (absenceType?.requiresJustification && !form.reason.trim()) missing.reason = 'Justification obligatoire pour ce type';
+    if (Object.keys(missing).length) {
+      setErrors(missing);
+      return;
+    }
+
+    setSaving(true);
+    setErrors({});
+    try {
+      const response = await onSubmit({ ...form, type, matricule: agents ? form.matricule : undefined, reason: form.reason.trim() });
+      toast.success(response.message || 'Demande de congé envoyée');
+      queryClient.invalidate(queryKeys.leaveRequests.all);
+      queryClient.invalidate(queryKeys.personal.all);
+      queryClient.invalidate(queryKeys.notifications.all);
+      onOpenChange(false);
+      if (response.data) onSaved?.(response.data);
+    } catch (error) {
+      if (error instanceof ApiError) setErrors(error.fieldErrors);
+      toast.error(getErrorMessage(error, 'Envoi de la demande impossible'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fieldError = (key: string) =>
+    errors[key] && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{errors[key]}</p>;
+
+  return (
+    <Dialog open={open} onOpenChange={(value: boolean) => !saving && onOpenChange(value)}>
+      <DialogContent className="sm:max-w-[520px] dark:bg-gray-800 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">Demande de congé</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            La demande sera soumise à la validation d'un responsable.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {agents && (
+            <div>
+              <Label className="dark:text-gray-300">Agent *</Label>
+              <Select value={form.matricule} onValueChange={(value: string) => update('matricule', value)}>
+                <SelectTrigger className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100">
+                  <SelectValue placeholder="Choisir un agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agents.map(agent => (
+                    <SelectItem key={agent.matricule} value={agent.matricule}>
+                      {agent.nom} ({agent.matricule})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {fieldError('matricule')}
+            </div>
+          )}
+
+          <div>
+            <Label className="dark:text-gray-300">Type d'absence *</Label>
+            <Select value={type} onValueChange={(value: string) => update('type', value)}>
+              <SelectTrigger className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {absenceTypes.map(t => (
+                  <SelectItem key={t.code} value={t.code}>{t.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {fieldError('type')}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="leave-start" className="dark:text-gray-300">Du *</Label>
+              <Input
+                id="leave-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => update('startDate', e.target.value)}
+                className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+              />
+              {fieldError('startDate')}
+            </div>
+            <div>
+              <Label htmlFor="leave-end" className="dark:text-gray-300">Au *</Label>
+              <Input
+                id="leave-end"
+                type="date"
+                value={form.endDate}
+                min={form.startDate || undefined}
+                onChange={(e) => update('endDate', e.target.value)}
+                className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+              />
+              {fieldError('endDate')}
+            </div>
+          </div>
+
+          {balanceWarning && (
+            <p className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              Solde insuffisant : {balanceWarning}. La demande reste possible.
+            </p>
+          )}
+
+          <div>
+            <Label htmlFor="leave-reason" className="dark:text-gray-300">
+              Motif{absenceType?.requiresJustification && ' *'}
+            </Label>
+            <Textarea
+              id="leave-reason"
+              value={form.reason}
+              onChange={(e) => update('reason', e.target.value)}
+              rows={3}
+              className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+            />
+            {fieldError('reason')}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving} className="dark:border-gray-600 dark:text-gray-300">
+            Annuler
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving} className="bg-blue-600 hover:bg-blue-700">
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Envoyer la demande
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * ============================================================================
+ * LOGOUT DIALOG COMPONENT
+ * ============================================================================
+ *
+ * Asked on logout when writes made offline are still waiting to be sent.
+ * Queued writes are only replayed for their author, so the user chooses
+ * before leaving: send them now, or discard them.
+ *
+ * Usage Example:
+ * ```tsx
+ * const requestLogout = () => offlineManager.getState().pending > 0 ? setIsLogoutOpen(true) : doLogout();
+ *
+ * <LogoutDialog open={isLogoutOpen} onOpenChange={setIsLogoutOpen} onLogout={doLogout} />
+ * ```
+ *
+ * @module components/LogoutDialog
+ */
+
+import React, { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import { Button } from './ui/button';
+import { CloudUpload, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { offlineManager } from '../lib/api/offline';
+import { useOfflineStatus } from '../lib/hooks/useOfflineStatus';
+
+interface LogoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Ends the session once the pending writes are sent or discarded */
+  onLogout: () => void;
+}
+
+/**
+ * LogoutDialog Component
+ *
+ * @returns {JSX.Element} Choice between sending and discarding the pending writes
+ */
+export function LogoutDialog({ open, onOpenChange, onLogout }: LogoutDialogProps) {
+  const { pending } = useOfflineStatus();
+  const [busy, setBusy] = useState<'send' | 'discard' | null>(null);
+
+  const handleSend = async () => {
+    setBusy('send');
+    try {
+      await offlineManager.replay();
+    } finally {
+      setBusy(null);
+    }
+    if (offlineManager.getState().pending > 0) {
+      toast.error('Envoi impossible', {
+        description: 'Le serveur est injoignable : réessayez plus tard ou abandonnez les modifications.',
+      });
+      return;
+    }
+    onOpenChange(false);
+    onLogout();
+  };
+
+  const handleDiscard = async () => {
+    setBusy('discard');
+    try {
+      await offlineManager.discardPending();
+    } finally {
+      setBusy(null);
+    }
+    onOpenChange(false);
+    onLogout();
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={(next: boolean) => !busy && onOpenChange(next)}>
+      <AlertDialogContent className="sm:max-w-[480px]">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Modifications hors ligne en attente</AlertDialogTitle>
+          <AlertDialogDescription>
+            {pending} modification(s) faite(s) hors ligne n'ont pas encore été envoyées au serveur. Elles ne
+            seront jamais envoyées avec la session d'un autre utilisateur : envoyez-les maintenant ou
+            abandonnez-les avant de vous déconnecter.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter className="gap-2 sm:gap-2">
+          <Button variant="outline" disabled={!!busy} onClick={() => onOpenChange(false)}>
+            Annuler
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!!busy}
+            onClick={handleDiscard}
+            className="text-red-600 hover:text-red-700 dark:text-red-400"
+          >
+            {busy === 'discard' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+            Abandonner
+          </Button>
+          <Button disabled={!!busy} onClick={handleSend} className="bg-blue-600 hover:bg-blue-700">
+            {busy === 'send' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CloudUpload className="w-4 h-4 mr-2" />}
+            Envoyer et se déconnecter
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * NOTIFICATION BELL COMPONENT
+ * ============================================================================
+ *
+ * In-app notifications of the logged-in user, in the sidebar header.
+ *
+ * Features:
+ * - Unread counter on the bell, refreshed every minute
+ * - Opening a notification marks it as read and navigates to its page
+ * - "Tout marquer comme lu"
+ *
+ * Usage Example:
+ * ```tsx
+ * <NotificationBell />
+ * ```
+ *
+ * @module components/NotificationBell
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, CalendarClock, CheckCircle2, XCircle, Undo2, FileText } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { notificationsService, queryKeys } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import { useOptimisticMutation } from '../lib/hooks/useOptimisticMutation';
+import type { AppNotification } from '../lib/api/types';
+
+/**
+ * Refresh interval of the notifications
+ */
+const POLL_INTERVAL = 60_000;
+
+const NOTIFICATION_ICONS: Record<AppNotification['type'], React.ReactNode> = {
+  'leave-request': <CalendarClock className="w-4 h-4 text-blue-600 dark:text-blue-400" />,
+  'leave-approved': <CheckCircle2 className="w-4 h-4 text-green-600 dark:text-green-400" />,
+  'leave-rejected': <XCircle className="w-4 h-4 text-red-600 dark:text-red-400" />,
+  'leave-cancelled': <Undo2 className="w-4 h-4 text-gray-600 dark:text-gray-400" />,
+  'report-ready': <FileText className="w-4 h-4 text-blue-600 dark:text-blue-400" />,
+};
+
+/**
+ * NotificationBell Component
+ *
+ * @returns {JSX.Element} Bell button with the notification menu
+ */
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+
+  const notificationsKey = queryKeys.notifications.all;
+  const notificationsQuery = useApiQuery(notificationsKey, signal => notificationsService.getNotifications(signal));
+  const notifications = notificationsQuery.data ?? [];
+  const unread = notifications.filter(n => !n.read).length;
+
+  // Poll for new notifications
+  const { refetch } = notificationsQuery;
+  useEffect(() => {
+    const timer = window.setInterval(() => refetch(), POLL_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [refetch]);
+
+  const markAsRead = useOptimisticMutation({
+    queryKey: notificationsKey,
+    mutationFn: ({ id }: { id: string }) => notificationsService.markAsRead(id),
+    optimisticUpdate: (prev: AppNotification[] = [], { id }) => prev.map(n => (n.id === id ? { ...n, read: true } : n)),
+  });
+
+  const markAllAsRead = useOptimisticMutation({
+    queryKey: notificationsKey,
+    mutationFn: (_: void) => notificationsService.markAllAsRead(),
+    optimisticUpdate: (prev: AppNotification[] = []) => prev.map(n => ({ ...n, read: true })),
+    errorMessage: 'Mise à jour des notifications impossible',
+  });
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) markAsRead.mutate({ id: notification.id });
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="relative p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+          aria-label={unread ? `Notifications (${unread} non lues)` : 'Notifications'}
+        >
+          <Bell className="w-5 h-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-[10px] leading-[18px] text-center">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" sideOffset={8} className="w-80 dark:bg-gray-800 dark:border-gray-700 shadow-lg">
+        <DropdownMenuLabel className="flex items-center justify-between dark:text-gray-200">
+          <span>Notifications</span>
+          {unread > 0 && (
+            <button
+              onClick={() => markAllAsRead.mutate(undefined)}
+              className="text-xs font-normal text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Tout marquer comme lu
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="dark:bg-gray-700" />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500 dark:text-gray-400">Aucune notification</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onClick={() => handleOpen(notification)}
+                className={`cursor-pointer items-start gap-3 py-2 dark:hover:bg-gray-700 ${
+                  notification.read ? '' : 'bg-blue-50/60 dark:bg-blue-950/40'
+                }`}
+              >
+                <span className="mt-0.5">{NOTIFICATION_ICONS[notification.type]}</span>
+                <span className="flex-1">
+                  <span className="block text-sm text-gray-900 dark:text-gray-100">{notification.title}</span>
+                  <span className="block text-xs text-gray-600 dark:text-gray-400">{notification.message}</span>
+                  <span className="block text-[11px] text-gray-400 dark:text-gray-500 mt-1">
+                    {new Date(notification.createdAt).toLocaleString('fr-FR')}
+                  </span>
+                </span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * ============================================================================
+ * OFFLINE BANNER COMPONENT
+ * ============================================================================
+ *
+ * Connectivity banner displayed at the top of every page of the Layout.
+ *
+ * Features:
+ * - Offline: data shown is the last synced copy, with the sync date
+ * - Writes waiting to be sent, and their replay in progress
+ * - Conflict report: queued writes rejected by the server, with the reason
+ *
+ * Renders nothing while online with nothing pending.
+ *
+ * Usage Example:
+ * ```tsx
+ * <main>
+ *   <OfflineBanner />
+ *   <Outlet />
+ * </main>
+ * ```
+ *
+ * @module components/OfflineBanner
+ */
+
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import { WifiOff, RefreshCw, AlertTriangle, Loader2, CloudUpload } from 'lucide-react';
+import { offlineManager } from '../lib/api';
+import { useOfflineStatus } from '../lib/hooks/useOfflineStatus';
+
+/**
+ * Format a timestamp for display (e.g., '19/10/2026 à 14:05')
+ */
+const formatTimestamp = (value: number): string => {
+  const date = new Date(value);
+  return `${date.toLocaleDateString('fr-FR')} à ${date.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * 'N modification(s)' with the right plural
+ */
+const changes = (count: number): string => `${count} modification${count > 1 ? 's' : ''}`;
+
+/**
+ * OfflineBanner Component
+ *
+ * @returns {JSX.Element | null} Banner and conflict report dialog, or null when there is nothing to report
+ */
+export function OfflineBanner() {
+  const { online, lastSyncedAt, pending, syncing, conflicts } = useOfflineStatus();
+  const [reportOpen, setReportOpen] = useState(false);
+  const [retrying, setRetrying] = useState(false);
+
+  const handleRetry = async () => {
+    setRetrying(true);
+    try {
+      await offlineManager.retry();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const handleDismiss = async () => {
+    await offlineManager.dismissConflicts();
+    setReportOpen(false);
+  };
+
+  if (online && pending === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="sticky top-0 z-30">
+      {/* Offline / pending writes */}
+      {(!online || pending > 0) && (
+        <div
+          className={`flex flex-wrap items-center gap-3 px-6 py-2 text-sm border-b ${
+            online
+              ? 'bg-blue-50 dark:bg-blue-950 border-blue-200 dark:border-blue-900 text-blue-800 dark:text-blue-300'
+              : 'bg-amber-50 dark:bg-amber-950 border-amber-200 dark:border-amber-900 text-amber-800 dark:text-amber-300'
+          }`}
+          role="status"
+        >
+          {online ? (
+            syncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <CloudUpload className="w-4 h-4" />
+          ) : (
+            <WifiOff className="w-4 h-4" />
+          )}
+          <span className="flex-1">
+            {online
+              ? syncing
+                ? `Synchronisation de ${changes(pending)} enregistrée${pending > 1 ? 's' : ''} hors ligne…`
+                : `${changes(pending)} en attente d'envoi au serveur.`
+              : <>
+                  Mode hors ligne : données synchronisées
+                  {lastSyncedAt ? ` le ${formatTimestamp(lastSyncedAt)}` : ' lors de la dernière connexion'}.
+                  {pending > 0 && ` ${changes(pending)} en attente d'envoi.`}
+                </>}
+          </span>
+          {!syncing && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRetry}
+              disabled={retrying}
+              className="h-7 hover:bg-white/60 dark:hover:bg-white/10"
+            >
+              <RefreshCw className={`w-3 h-3 mr-1 ${retrying ? 'animate-spin' : ''}`} />
+              Réessayer
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Rejected writes */}
+      {conflicts.length > 0 && (
+        <div
+          className="flex flex-wrap items-center gap-3 px-6 py-2 text-sm border-b bg-red-50 dark:bg-red-950 border-red-200 dark:border-red-900 text-red-800 dark:text-red-300"
+          role="alert"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          <span className="flex-1">
+            {changes(conflicts.length)} enregistrée{conflicts.length > 1 ? 's' : ''} hors ligne{' '}
+            {conflicts.length > 1 ? 'ont été refusées' : 'a été refusée'} par le serveur.
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setReportOpen(true)}
+            className="h-7 hover:bg-white/60 dark:hover:bg-white/10"
+          >
+            Voir le rapport
+          </Button>
+        </div>
+      )}
+
+      {/* Conflict report */}
+      <Dialog open={reportOpen} onOpenChange={(open: boolean) => setReportOpen(open)}>
+        <DialogContent className="sm:max-w-[720px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">Rapport de conflits</DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              Ces modifications ont été enregistrées hors ligne mais refusées par le serveur lors
+              de la synchronisation. Elles n'ont pas été appliquées : ressaisissez-les si nécessaire.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[50vh] overflow-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow className="dark:border-gray-700">
+                  <TableHead className="dark:text-gray-300">Modification</TableHead>
+                  <TableHead className="dark:text-gray-300">Enregistrée le</TableHead>
+                  <TableHead className="dark:text-gray-300">Motif du refus</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conflicts.map(conflict => (
+                  <TableRow key={conflict.clientId} className="dark:border-gray-700">
+                    <TableCell className="text-gray-900 dark:text-gray-100">{conflict.label}</TableCell>
+                    <TableCell className="text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {formatTimestamp(conflict.queuedAt)}
+                    </TableCell>
+                    <TableCell className="text-red-600 dark:text-red-400">
+                      {conflict.message} <span className="text-xs text-gray-500">({conflict.status})</span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReportOpen(false)} className="dark:border-gray-600 dark:text-gray-300">
+              Fermer
+            </Button>
+            <Button onClick={handleDismiss} className="bg-blue-600 hover:bg-blue-700">
+              Effacer le rapport
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -87,6 +87,12 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     // No redirect needed - let them proceed to dashboard
   }
 
+  // --- Kiosk Confinement ---
+  // Kiosk sessions cannot open any page other than the kiosk
+  if (currentUser?.role === 'Kiosk' && location.pathname !== '/kiosk') {
+    return <Navigate to="/kiosk" replace />;
+  }
+
   // --- Render Protected Content ---
   // User is authenticated and on a valid route - render the protected content
   return <>{children}</>;
@@ -0,0 +1,402 @@
+/**
+ * ============================================================================
+ * REPORT GENERATOR DIALOG COMPONENT
+ * ============================================================================
+ *
+ * Report generation module opened from the Dashboard.
+ *
+ * Features:
+ * - Period: a month of any year, or any range of dates
+ * - Report type and format (PDF, Excel, CSV)
+ * - Scope: one division and, within it, some agents
+ * - In-app preview of the report before download
+ * - Progress of the generation and download
+ * - History of the generated reports, downloadable again
+ *
+ * Usage Example:
+ * ```tsx
+ * <ReportGeneratorDialog open={isReportDialogOpen} onOpenChange={setIsReportDialogOpen} />
+ * ```
+ *
+ * @module components/ReportGeneratorDialog
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Eye, FileText, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { agentsService, ApiError, getErrorMessage, queryClient, queryKeys, reportService, saveBlob } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import { REPORT_FORMAT_LABELS, REPORT_TYPE_LABELS } from '../lib/report-files';
+import { toIsoDate } from '../lib/utils';
+import { ReportHistory } from './ReportHistory';
+import { ReportPreviewTable } from './ReportPreviewTable';
+import type { ReportParams } from '../lib/api/types';
+
+type PeriodMode = 'month' | 'range';
+
+/** Years offered by the month selector (current year first) */
+const YEAR_COUNT = 5;
+
+
+const MONTHS = Array.from({ length: 12 }, (_, index) =>
+  new Date(2000, index, 1).toLocaleDateString('fr-FR', { month: 'long' })
+);
+
+interface ReportGeneratorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * ReportGeneratorDialog Component
+ *
+ * @returns {JSX.Element} Generation form, preview and history tabs
+ */
+export function ReportGeneratorDialog({ open, onOpenChange }: ReportGeneratorDialogProps) {
+  const now = new Date();
+  const [tab, setTab] = useState('new');
+
+  // Period
+  const [periodMode, setPeriodMode] = useState<PeriodMode>('month');
+  const [year, setYear] = useState(String(now.getFullYear()));
+  const [month, setMonth] = useState(String(now.getMonth() + 1));
+  const [from, setFrom] = useState(toIsoDate(new Date(now.getFullYear(), now.getMonth(), 1)));
+  const [to, setTo] = useState(toIsoDate(now));
+
+  // Content and scope
+  const [type, setType] = useState<ReportParams['type']>('monthly-report');
+  const [format, setFormat] = useState<ReportParams['format']>('pdf');
+  const [division, setDivision] = useState('all');
+  const [matricules, setMatricules] = useState<string[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Generation
+  const [generating, setGenerating] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const divisionsQuery = useApiQuery(queryKeys.agents.divisions(), signal => agentsService.getDivisions(signal), {
+    enabled: open,
+  });
+  const agentsParams = { department: division, status: 'Active', sortBy: 'nom' } as const;
+  const agentsQuery = useApiQuery(
+    queryKeys.agents.list({ ...agentsParams, all: true }),
+    signal => agentsService.getAllAgents(agentsParams, signal),
+    { enabled: open && division !== 'all' }
+  );
+  const divisionAgents = agentsQuery.data ?? [];
+
+  // Agents belong to the chosen division
+  useEffect(() => {
+    setMatricules([]);
+  }, [division]);
+
+  const params: ReportParams = {
+    type,
+    format,
+    ...(periodMode === 'month'
+      ? {
+          from: toIsoDate(new Date(Number(year), Number(month) - 1, 1)),
+          to: toIsoDate(new Date(Number(year), Number(month), 0)),
+        }
+      : { from, to }),
+    ...(division !== 'all' && { departments: [division] }),
+    ...(matricules.length > 0 && { matricules }),
+  };
+
+  // Preview of the requested parameters, hidden once they change
+  const [previewParams, setPreviewParams] = useState<ReportParams | null>(null);
+  const previewQuery = useApiQuery(
+    queryKeys.reports.preview(previewParams ?? {}),
+    signal => reportService.previewReport(previewParams as ReportParams, signal),
+    { enabled: open && previewParams !== null }
+  );
+  const previewStale = JSON.stringify(previewParams) !== JSON.stringify(params);
+  const preview = previewParams && !previewStale ? previewQuery.data : null;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      controllerRef.current?.abort();
+      setPreviewParams(null);
+      setErrors({});
+    }
+    onOpenChange(next);
+  };
+
+  const validate = () => {
+    if (params.from > params.to) {
+      setErrors({ to: 'La date de fin doit suivre la date de début' });
+      return false;
+    }
+    setErrors({});
+    return true;
+  };
+
+  const handlePreview = () => {
+    if (validate()) setPreviewParams(params);
+  };
+
+  const handleGenerate = async () => {
+    if (!validate()) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setGenerating(true);
+    setProgress(null);
+    try {
+      const { blob, filename } = await reportService.generateReport(params, {
+        onProgress: ({ percent }) => setProgress(percent),
+        signal: controller.signal,
+      });
+      saveBlob(blob, filename);
+      toast.success('Rapport généré', { description: filename });
+      queryClient.invalidate(queryKeys.reports.all);
+      setTab('history');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      if (error instanceof ApiError) setErrors(error.fieldErrors);
+      toast.error(getErrorMessage(error, 'Génération du rapport impossible'));
+    } finally {
+      controllerRef.current = null;
+      setGenerating(false);
+    }
+  };
+
+  const toggleAgent = (matricule: string, checked: boolean) =>
+    setMatricules(current => (checked ? [...current, matricule] : current.filter(m => m !== matricule)));
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{errors[field]}</p>;
+
+  const selectClassName = 'mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100';
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto dark:bg-gray-800 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">Rapports de présence</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Générez un rapport sur un mois ou une période, pour tout le personnel, une division ou quelques agents.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="dark:bg-gray-900">
+            <TabsTrigger value="new">Nouveau rapport</TabsTrigger>
+            <TabsTrigger value="history">Historique</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="new" className="space-y-4 pt-2">
+            {/* Period */}
+            <RadioGroup
+              value={periodMode}
+              onValueChange={(value: string) => setPeriodMode(value as PeriodMode)}
+              className="flex gap-6"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="month" id="report-month" />
+                <Label htmlFor="report-month" className="dark:text-gray-200">Mois</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="range" id="report-range" />
+                <Label htmlFor="report-range" className="dark:text-gray-200">Période libre</Label>
+              </div>
+            </RadioGroup>
+
+            {periodMode === 'month' ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label className="dark:text-gray-300">Mois</Label>
+                  <Select value={month} onValueChange={setMonth}>
+                    <SelectTrigger className={selectClassName}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MONTHS.map((label, index) => (
+                        <SelectItem key={label} value={String(index + 1)} className="capitalize">{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="dark:text-gray-300">Année</Label>
+                  <Select value={year} onValueChange={setYear}>
+                    <SelectTrigger className={selectClassName}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: YEAR_COUNT }, (_, index) => String(now.getFullYear() - index)).map(value => (
+                        <SelectItem key={value} value={value}>{value}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="report-from" className="dark:text-gray-300">Du</Label>
+                  <Input
+                    id="report-from"
+                    type="date"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    className={selectClassName}
+                  />
+                  {fieldError('from')}
+                </div>
+                <div>
+                  <Label htmlFor="report-to" className="dark:text-gray-300">Au</Label>
+                  <Input
+                    id="report-to"
+                    type="date"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    className={selectClassName}
+                  />
+                  {fieldError('to')}
+                </div>
+              </div>
+            )}
+            {periodMode === 'month' && fieldError('to')}
+
+            {/* Content */}
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label className="dark:text-gray-300">Type</Label>
+                <Select value={type} onValueChange={(value: string) => setType(value as ReportParams['type'])}>
+                  <SelectTrigger className={selectClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REPORT_TYPE_LABELS) as ReportParams['type'][]).map(value => (
+                      <SelectItem key={value} value={value}>{REPORT_TYPE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldError('type')}
+              </div>
+              <div>
+                <Label className="dark:text-gray-300">Format</Label>
+                <Select value={format} onValueChange={(value: string) => setFormat(value as ReportParams['format'])}>
+                  <SelectTrigger className={selectClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REPORT_FORMAT_LABELS) as ReportParams['format'][]).map(value => (
+                      <SelectItem key={value} value={value}>{REPORT_FORMAT_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldError('format')}
+              </div>
+              <div>
+                <Label className="dark:text-gray-300">Division</Label>
+                <Select value={division} onValueChange={setDivision}>
+                  <SelectTrigger className={selectClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Toutes les divisions</SelectItem>
+                    {(divisionsQuery.data ?? []).map(name => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Agents of the division */}
+            {division !== 'all' && (
+              <div>
+                <Label className="dark:text-gray-300">
+                  Agents ({matricules.length > 0 ? `${matricules.length} sélectionné(s)` : 'tous les agents de la division'})
+                </Label>
+                {agentsQuery.loading ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Chargement...</p>
+                ) : (
+                  <div className="mt-2 grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
+                    {divisionAgents.map(agent => (
+                      <label key={agent.matricule} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <Checkbox
+                          checked={matricules.includes(agent.matricule)}
+                          onCheckedChange={(checked: boolean | 'indeterminate') => toggleAgent(agent.matricule, checked === true)}
+                        />
+                        {agent.nom} <span className="text-xs text-gray-500">({agent.matricule})</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Preview */}
+            {previewParams && !previewStale && (
+              <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+                {previewQuery.loading ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Préparation de l'aperçu...</p>
+                ) : previewQuery.error ? (
+                  <p className="text-sm text-red-600 dark:text-red-400 text-center py-4">{previewQuery.error}</p>
+                ) : preview && (
+                  <ReportPreviewTable preview={preview} />
+                )}
+              </div>
+            )}
+
+            {generating && (
+              <div className="space-y-1">
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {progress === null ? 'Génération du rapport...' : `Téléchargement ${progress} %`}
+                </p>
+                <Progress value={progress ?? 0} className={progress === null ? 'animate-pulse' : undefined} />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="pt-2">
+            <ReportHistory />
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} className="dark:border-gray-600 dark:text-gray-300">
+            Fermer
+          </Button>
+          {tab === 'new' && (
+            <>
+              <Button variant="outline" onClick={handlePreview} disabled={generating} className="dark:border-gray-600 dark:text-gray-300">
+                <Eye className="w-4 h-4 mr-2" />
+                Aperçu
+              </Button>
+              <Button onClick={handleGenerate} disabled={generating} className="bg-blue-600 hover:bg-blue-700 text-white">
+                {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+                Générer
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
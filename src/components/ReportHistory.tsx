@@ -0,0 +1,258 @@
+/**
+ * ============================================================================
+ * REPORT HISTORY COMPONENT
+ * ============================================================================
+ *
+ * History of the generated reports (most recent first): title, parameters,
+ * author or schedule and size, with a download button fetching the report
+ * file from the server (GET /statistics/reports/:id/file), an in-app preview,
+ * the pin keeping a report out of the retention period and the removal of a
+ * report from the history.
+ *
+ * Usage Example:
+ * ```tsx
+ * <ReportHistory />
+ * <ReportHistory source="scheduled" />
+ * ```
+ *
+ * @module components/ReportHistory
+ */
+
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { Download, Trash2, Loader2, FileText, Eye, Pin, PinOff, CalendarClock } from 'lucide-react';
+import { toast } from 'sonner';
+import { getErrorMessage, queryClient, queryKeys, reportService, saveBlob } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import { REPORT_FORMAT_LABELS, REPORT_TYPE_LABELS } from '../lib/report-files';
+import { ConfirmDialog } from './ConfirmDialog';
+import { ReportPreviewTable } from './ReportPreviewTable';
+import type { GeneratedReport } from '../lib/api/types';
+
+export type ReportSource = 'all' | 'scheduled' | 'manual';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} o` : bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} Ko` : `${(bytes / 1024 / 1024).toFixed(1)} Mo`;
+
+interface ReportHistoryProps {
+  /** Reports listed: all, those of the schedules or those generated by hand */
+  source?: ReportSource;
+}
+
+/**
+ * ReportHistory Component
+ *
+ * @returns {JSX.Element} List of the generated reports
+ */
+export function ReportHistory({ source = 'all' }: ReportHistoryProps) {
+  const reportsQuery = useApiQuery(queryKeys.reports.all, signal => reportService.getReports(signal));
+  const reports = (reportsQuery.data ?? []).filter(
+    report => source === 'all' || (source === 'scheduled') === !!report.scheduleId
+  );
+
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [pinning, setPinning] = useState<string | null>(null);
+  const [toDelete, setToDelete] = useState<GeneratedReport | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  // Preview of a report (computed again from its parameters)
+  const [previewed, setPreviewed] = useState<GeneratedReport | null>(null);
+  const previewQuery = useApiQuery(
+    queryKeys.reports.preview(previewed?.params ?? {}),
+    signal => reportService.previewReport((previewed as GeneratedReport).params, signal),
+    { enabled: previewed !== null }
+  );
+
+  const handleDownload = async (report: GeneratedReport) => {
+    setDownloading(report.id);
+    try {
+      const { blob, filename } = await reportService.downloadReport(report);
+      saveBlob(blob, filename);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Téléchargement du rapport impossible'));
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const handlePin = async (report: GeneratedReport) => {
+    setPinning(report.id);
+    try {
+      const response = await reportService.setReportPinned(report.id, !report.pinned);
+      toast.success(response.message || (report.pinned ? 'Conservation retirée' : 'Rapport conservé'));
+      queryClient.invalidate(queryKeys.reports.all);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Modification du rapport impossible'));
+    } finally {
+      setPinning(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    setDeleting(true);
+    try {
+      const response = await reportService.deleteReport(toDelete.id);
+      toast.success(response.message || 'Rapport supprimé');
+      queryClient.invalidate(queryKeys.reports.all);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Suppression du rapport impossible'));
+    } finally {
+      setDeleting(false);
+      setToDelete(null);
+    }
+  };
+
+  if (reportsQuery.loading) {
+    return <p className="text-gray-500 dark:text-gray-400 text-center py-8">Chargement...</p>;
+  }
+
+  if (reportsQuery.error && reports.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-sm text-red-600 dark:text-red-400 mb-3">{reportsQuery.error}</p>
+        <Button variant="outline" size="sm" onClick={() => reportsQuery.refetch()} className="dark:border-gray-600 dark:text-gray-300">
+          Réessayer
+        </Button>
+      </div>
+    );
+  }
+
+  if (reports.length === 0) {
+    return (
+      <p className="text-gray-500 dark:text-gray-400 text-center py-8">
+        {source === 'scheduled' ? 'Aucun rapport planifié reçu' : 'Aucun rapport généré'}
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {reports.map(report => {
+          const filters = [...(report.params.departments ?? []), ...(report.params.matricules ?? [])];
+          return (
+            <li key={report.id} className="flex items-start justify-between gap-4 py-3">
+              <div className="flex items-start gap-3 min-w-0">
+                <FileText className="w-5 h-5 mt-0.5 shrink-0 text-blue-600 dark:text-blue-400" />
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-gray-100">{report.title}</p>
+                  <div className="flex flex-wrap items-center gap-1.5 mt-1">
+                    <Badge variant="outline" className="dark:border-gray-600 dark:text-gray-300">
+                      {REPORT_TYPE_LABELS[report.params.type]}
+                    </Badge>
+                    <Badge variant="outline" className="dark:border-gray-600 dark:text-gray-300">
+                      {REPORT_FORMAT_LABELS[report.params.format]}
+                    </Badge>
+                    {report.scheduleId && (
+                      <Badge className="bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300">
+                        <CalendarClock className="w-3 h-3 mr-1" />
+                        {report.scheduleName}
+                      </Badge>
+                    )}
+                    {report.pinned && (
+                      <Badge className="bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                        <Pin className="w-3 h-3 mr-1" />
+                        Conservé
+                      </Badge>
+                    )}
+                    {filters.length > 0 && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{filters.join(', ')}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {new Date(report.generatedAt).toLocaleString('fr-FR')} par {report.generatedBy} · {formatSize(report.size)}
+                  </p>
+                </div>
+              </div>
+              <div className="flex shrink-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPreviewed(report)}
+                  className="dark:text-gray-300"
+                  aria-label="Aperçu du rapport"
+                >
+                  <Eye className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={downloading === report.id}
+                  onClick={() => handleDownload(report)}
+                  className="dark:text-gray-300"
+                  aria-label="Télécharger le rapport"
+                >
+                  {downloading === report.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={pinning === report.id}
+                  onClick={() => handlePin(report)}
+                  className="dark:text-gray-300"
+                  aria-label={report.pinned ? 'Ne plus conserver le rapport' : 'Conserver le rapport'}
+                >
+                  {pinning === report.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : report.pinned ? (
+                    <PinOff className="w-4 h-4" />
+                  ) : (
+                    <Pin className="w-4 h-4" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setToDelete(report)}
+                  className="text-red-600 hover:text-red-700 dark:text-red-400"
+                  aria-label="Supprimer le rapport"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Preview */}
+      <Dialog open={!!previewed} onOpenChange={(open: boolean) => !open && setPreviewed(null)}>
+        <DialogContent className="sm:max-w-[760px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">Aperçu du rapport</DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              Données de présence actuelles de la période, telles qu'elles figurent dans le fichier téléchargé.
+            </DialogDescription>
+          </DialogHeader>
+          {previewQuery.loading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Préparation de l'aperçu...</p>
+          ) : previewQuery.error ? (
+            <p className="text-sm text-red-600 dark:text-red-400 text-center py-4">{previewQuery.error}</p>
+          ) : previewQuery.data && (
+            <ReportPreviewTable preview={previewQuery.data} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!toDelete}
+        onOpenChange={(open: boolean) => !open && setToDelete(null)}
+        title="Supprimer le rapport"
+        description="Le rapport est retiré de l'historique."
+        itemName={toDelete?.title ?? ''}
+        confirmText="Oui, supprimer"
+        onConfirm={handleDelete}
+        isLoading={deleting}
+      />
+    </>
+  );
+}
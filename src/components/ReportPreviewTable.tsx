@@ -0,0 +1,73 @@
+/**
+ * ============================================================================
+ * REPORT PREVIEW TABLE COMPONENT
+ * ============================================================================
+ *
+ * In-app preview of a report: title, totals and the rows of the file. Shared
+ * by the report generation dialog and the report history.
+ *
+ * Usage Example:
+ * ```tsx
+ * {preview && <ReportPreviewTable preview={preview} />}
+ * ```
+ *
+ * @module components/ReportPreviewTable
+ */
+
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import type { ReportPreview } from '../lib/api/types';
+
+interface ReportPreviewTableProps {
+  preview: ReportPreview;
+}
+
+/**
+ * ReportPreviewTable Component
+ *
+ * @returns {JSX.Element} Summary line and scrollable table of the report rows
+ */
+export function ReportPreviewTable({ preview }: ReportPreviewTableProps) {
+  const { summary } = preview;
+
+  return (
+    <>
+      <p className="text-sm text-gray-900 dark:text-gray-100">{preview.title}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 mb-3">
+        {summary.workingDays} jours ouvrés · {summary.agents} agents · {summary.present} présences ·{' '}
+        {summary.late} retards · {summary.absent} absences · {summary.leave} congés · taux de présence {summary.rate} %
+      </p>
+      {preview.rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">Aucune donnée de présence sur la période</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="dark:border-gray-700">
+                {preview.columns.map(column => (
+                  <TableHead key={column} className="dark:text-gray-300">{column}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.rows.map((row, index) => (
+                <TableRow key={index} className="dark:border-gray-700">
+                  {row.map((cell, cellIndex) => (
+                    <TableCell key={cellIndex} className="text-gray-700 dark:text-gray-300">{cell}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,447 @@
+/**
+ * ============================================================================
+ * REPORT SCHEDULES PANEL COMPONENT
+ * ============================================================================
+ *
+ * Settings panel of the recurring reports executed by the backend. Each run
+ * covers the last complete month or week and delivers its files to the
+ * "Rapports" page.
+ *
+ * Features:
+ * - Monthly (day 1-28) or weekly (day of the week) schedules
+ * - Report type, format and divisions, optionally one file per division
+ * - Next and last run, failure of the last run
+ * - Enable / disable, run now, edit and remove
+ *
+ * Usage Example:
+ * ```tsx
+ * {isManagerOrAdmin && <ReportSchedulesPanel />}
+ * ```
+ *
+ * @module components/ReportSchedulesPanel
+ */
+
+import React, { useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { CalendarClock, Plus, Pencil, Trash2, Play, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { agentsService, ApiError, getErrorMessage, queryClient, queryKeys, reportService } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import { REPORT_FORMAT_LABELS, REPORT_TYPE_LABELS } from '../lib/report-files';
+import { ConfirmDialog } from './ConfirmDialog';
+import type { ReportParams, ReportSchedule, ReportSchedulePayload } from '../lib/api/types';
+
+const EMPTY_SCHEDULE: ReportSchedulePayload = {
+  name: '',
+  frequency: 'monthly',
+  day: 1,
+  type: 'monthly-report',
+  format: 'pdf',
+  departments: [],
+  perDivision: false,
+  enabled: true,
+};
+
+/** Days of the week, from Monday (1) to Sunday (7) */
+const WEEK_DAYS = ['lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi', 'dimanche'];
+
+/**
+ * Recurrence of a schedule (e.g., 'Chaque mois, le 1er', 'Chaque lundi')
+ */
+const describeRecurrence = (schedule: Pick<ReportSchedule, 'frequency' | 'day'>) =>
+  schedule.frequency === 'weekly'
+    ? `Chaque ${WEEK_DAYS[schedule.day - 1]}`
+    : `Chaque mois, le ${schedule.day === 1 ? '1er' : schedule.day}`;
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+/**
+ * ReportSchedulesPanel Component
+ *
+ * @returns {JSX.Element} Schedule table with its add / edit dialog
+ */
+export function ReportSchedulesPanel() {
+  const schedulesQuery = useApiQuery(queryKeys.reports.schedules(), signal => reportService.getSchedules(signal));
+  const divisionsQuery = useApiQuery(queryKeys.agents.divisions(), signal => agentsService.getDivisions(signal));
+  const schedules = schedulesQuery.data ?? [];
+  const divisions = divisionsQuery.data ?? [];
+
+  // Add / edit dialog (editing: id of the edited schedule)
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ReportSchedulePayload>(EMPTY_SCHEDULE);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Row actions (id of the schedule being updated or run)
+  const [busy, setBusy] = useState<string | null>(null);
+  const [toDelete, setToDelete] = useState<ReportSchedule | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const openDialog = (schedule?: ReportSchedule) => {
+    setEditing(schedule?.id ?? null);
+    setForm(
+      schedule
+        ? {
+            name: schedule.name,
+            frequency: schedule.frequency,
+            day: schedule.day,
+            type: schedule.type,
+            format: schedule.format,
+            departments: schedule.departments ?? [],
+            perDivision: schedule.perDivision,
+            enabled: schedule.enabled,
+          }
+        : EMPTY_SCHEDULE
+    );
+    setErrors({});
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors({});
+    try {
+      const response = editing
+        ? await reportService.updateSchedule(editing, form)
+        : await reportService.createSchedule(form);
+      toast.success(response.message || 'Planification enregistrée');
+      queryClient.invalidate(queryKeys.reports.schedules());
+      setDialogOpen(false);
+    } catch (error) {
+      if (error instanceof ApiError) setErrors(error.fieldErrors);
+      toast.error(getErrorMessage(error, 'Enregistrement de la planification impossible'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (schedule: ReportSchedule, enabled: boolean) => {
+    setBusy(schedule.id);
+    try {
+      await reportService.updateSchedule(schedule.id, { enabled });
+      toast.success(enabled ? 'Planification activée' : 'Planification suspendue');
+      queryClient.invalidate(queryKeys.reports.schedules());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Modification de la planification impossible'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRun = async (schedule: ReportSchedule) => {
+    setBusy(schedule.id);
+    try {
+      const response = await reportService.runSchedule(schedule.id);
+      toast.success(response.message || 'Rapport généré', { description: 'Disponible dans la page Rapports' });
+      queryClient.invalidate(queryKeys.reports.all);
+      queryClient.invalidate(queryKeys.notifications.all);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Exécution de la planification impossible'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    setDeleting(true);
+    try {
+      const response = await reportService.deleteSchedule(toDelete.id);
+      toast.success(response.message || 'Planification supprimée');
+      queryClient.invalidate(queryKeys.reports.schedules());
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Suppression de la planification impossible'));
+    } finally {
+      setDeleting(false);
+      setToDelete(null);
+    }
+  };
+
+  const toggleDivision = (division: string, checked: boolean) =>
+    setForm(current => ({
+      ...current,
+      departments: checked
+        ? [...(current.departments ?? []), division]
+        : (current.departments ?? []).filter(d => d !== division),
+    }));
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{errors[field]}</p>;
+
+  const inputClassName = 'mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100';
+
+  return (
+    <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h3 className="text-gray-900 dark:text-gray-100">Rapports planifiés</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Générés automatiquement sur le dernier mois ou la dernière semaine complète, puis déposés dans la page Rapports.
+            </p>
+          </div>
+        </div>
+        <Button onClick={() => openDialog()} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="w-4 h-4 mr-2" />
+          Nouvelle planification
+        </Button>
+      </div>
+
+      {schedulesQuery.loading ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-4">Chargement...</p>
+      ) : schedulesQuery.error && schedules.length === 0 ? (
+        <p className="text-sm text-red-600 dark:text-red-400 text-center py-4">{schedulesQuery.error}</p>
+      ) : schedules.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-center py-4">Aucun rapport planifié</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="dark:border-gray-700">
+              <TableHead className="dark:text-gray-300">Planification</TableHead>
+              <TableHead className="dark:text-gray-300">Rapport</TableHead>
+              <TableHead className="dark:text-gray-300">Divisions</TableHead>
+              <TableHead className="dark:text-gray-300">Prochaine exécution</TableHead>
+              <TableHead className="dark:text-gray-300">Dernière exécution</TableHead>
+              <TableHead className="text-center dark:text-gray-300">Active</TableHead>
+              <TableHead className="text-right dark:text-gray-300">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedules.map(schedule => (
+              <TableRow key={schedule.id} className="dark:border-gray-700">
+                <TableCell>
+                  <p className="text-gray-900 dark:text-gray-100">{schedule.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{describeRecurrence(schedule)}</p>
+                </TableCell>
+                <TableCell className="text-sm text-gray-700 dark:text-gray-300">
+                  {REPORT_TYPE_LABELS[schedule.type]}
+                  <span className="text-xs text-gray-500 dark:text-gray-400"> · {REPORT_FORMAT_LABELS[schedule.format]}</span>
+                </TableCell>
+                <TableCell className="text-sm text-gray-700 dark:text-gray-300">
+                  {schedule.departments?.length ? schedule.departments.join(', ') : 'Toutes'}
+                  {schedule.perDivision && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Un fichier par division</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-gray-700 dark:text-gray-300">{formatDateTime(schedule.nextRunAt)}</TableCell>
+                <TableCell className="text-sm text-gray-700 dark:text-gray-300">
+                  {formatDateTime(schedule.lastRunAt)}
+                  {schedule.lastError && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{schedule.lastError}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={schedule.enabled}
+                    disabled={busy === schedule.id}
+                    onCheckedChange={(checked: boolean) => handleToggle(schedule, checked)}
+                  />
+                </TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy === schedule.id}
+                    onClick={() => handleRun(schedule)}
+                    className="dark:text-gray-300"
+                    aria-label="Exécuter maintenant"
+                  >
+                    {busy === schedule.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(schedule)} className="dark:text-gray-300">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setToDelete(schedule)}
+                    className="text-red-600 hover:text-red-700 dark:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Add / Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[520px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">
+              {editing ? 'Modifier la planification' : 'Nouvelle planification'}
+            </DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              Le rapport couvre le mois précédent (mensuel) ou la semaine précédente, du lundi au dimanche (hebdomadaire).
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="report-schedule-name" className="dark:text-gray-300">Nom *</Label>
+              <Input
+                id="report-schedule-name"
+                value={form.name}
+                placeholder="Rapport mensuel"
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClassName}
+              />
+              {fieldError('name')}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="dark:text-gray-300">Fréquence</Label>
+                <Select
+                  value={form.frequency}
+                  onValueChange={(value: string) =>
+                    setForm({ ...form, frequency: value as ReportSchedule['frequency'], day: 1 })
+                  }
+                >
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="monthly">Mensuelle</SelectItem>
+                    <SelectItem value="weekly">Hebdomadaire</SelectItem>
+                  </SelectContent>
+                </Select>
+                {fieldError('frequency')}
+              </div>
+              <div>
+                <Label className="dark:text-gray-300">{form.frequency === 'weekly' ? 'Jour de la semaine' : 'Jour du mois'}</Label>
+                <Select value={String(form.day)} onValueChange={(value: string) => setForm({ ...form, day: Number(value) })}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {form.frequency === 'weekly'
+                      ? WEEK_DAYS.map((label, index) => (
+                          <SelectItem key={label} value={String(index + 1)} className="capitalize">{label}</SelectItem>
+                        ))
+                      : Array.from({ length: 28 }, (_, index) => (
+                          <SelectItem key={index} value={String(index + 1)}>{index + 1}</SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+                {fieldError('day')}
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="dark:text-gray-300">Type</Label>
+                <Select value={form.type} onValueChange={(value: string) => setForm({ ...form, type: value as ReportParams['type'] })}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REPORT_TYPE_LABELS) as ReportParams['type'][]).map(value => (
+                      <SelectItem key={value} value={value}>{REPORT_TYPE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldError('type')}
+              </div>
+              <div>
+                <Label className="dark:text-gray-300">Format</Label>
+                <Select value={form.format} onValueChange={(value: string) => setForm({ ...form, format: value as ReportParams['format'] })}>
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REPORT_FORMAT_LABELS) as ReportParams['format'][]).map(value => (
+                      <SelectItem key={value} value={value}>{REPORT_FORMAT_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldError('format')}
+              </div>
+            </div>
+            <div>
+              <Label className="dark:text-gray-300">
+                Divisions ({form.departments?.length ? `${form.departments.length} sélectionnée(s)` : 'toutes'})
+              </Label>
+              <div className="mt-2 grid grid-cols-2 gap-2">
+                {divisions.map(division => (
+                  <label key={division} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <Checkbox
+                      checked={form.departments?.includes(division) ?? false}
+                      onCheckedChange={(checked: boolean | 'indeterminate') => toggleDivision(division, checked === true)}
+                    />
+                    {division}
+                  </label>
+                ))}
+              </div>
+              {fieldError('departments')}
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="dark:text-gray-200">Un fichier par division</Label>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Une feuille distincte pour chaque division couverte</p>
+              </div>
+              <Switch checked={form.perDivision} onCheckedChange={(checked: boolean) => setForm({ ...form, perDivision: checked })} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="dark:text-gray-200">Active</Label>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Une planification suspendue n'est plus exécutée</p>
+              </div>
+              <Switch checked={form.enabled} onCheckedChange={(checked: boolean) => setForm({ ...form, enabled: checked })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} className="dark:border-gray-600 dark:text-gray-300">
+              Annuler
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()} className="bg-blue-600 hover:bg-blue-700">
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!toDelete}
+        onOpenChange={(open: boolean) => !open && setToDelete(null)}
+        title="Supprimer la planification"
+        description="Les rapports déjà générés restent disponibles dans la page Rapports."
+        itemName={toDelete?.name ?? ''}
+        confirmText="Oui, supprimer"
+        onConfirm={handleDelete}
+        isLoading={deleting}
+      />
+    </Card>
+  );
+}
@@ -26,11 +26,11 @@ import { useAuth } from '../lib/auth-context';
  * 
  * @interface RoleBasedRouteProps
  * @property {React.ReactNode} children - The route content to protect
- * @property {Array<'Admin' | 'Manager' | 'Agent'>} allowedRoles - Roles allowed to access this route
+ * @property {Array<'Admin' | 'Manager' | 'Agent' | 'Kiosk'>} allowedRoles - Roles allowed to access this route
  */
 interface RoleBasedRouteProps {
   children: React.ReactNode;
-  allowedRoles: Array<'Admin' | 'Manager' | 'Agent'>;
+  allowedRoles: Array<'Admin' | 'Manager' | 'Agent' | 'Kiosk'>;
 }
 
 // --- Role-Based Route Component ---
@@ -51,6 +51,7 @@ interface RoleBasedRouteProps {
  * 
  * Redirect Logic:
  * - Agent trying to access unauthorized route → /personal-history
+ * - Kiosk trying to access unauthorized route → /kiosk
  * - Manager trying to access unauthorized route → / (dashboard)
  * - Admin trying to access unauthorized route → / (dashboard)
  * 
@@ -91,6 +92,9 @@ export function RoleBasedRoute({ children, allowedRoles }: RoleBasedRouteProps)
     if (currentUser.role === 'Agent') {
       // Agents should go to their personal history page
       return <Navigate to="/personal-history" replace />;
+    } else if (currentUser.role === 'Kiosk') {
+      // Kiosk sessions only show the check-in kiosk
+      return <Navigate to="/kiosk" replace />;
     } else if (currentUser.role === 'Manager') {
       // Managers should go to the dashboard
       return <Navigate to="/" replace />;
@@ -0,0 +1,356 @@
+/**
+ * ============================================================================
+ * STATISTICS EXPORT DIALOG COMPONENT
+ * ============================================================================
+ *
+ * Export dialog of the Statistics page. Every export is described by a
+ * ReportParams (type, format, period, departments, matricules).
+ *
+ * Two sources:
+ * - Displayed statistics: the tables of the displayed period, written in the
+ *   browser (jsPDF with the charts embedded as images, XLSX, RFC 4180 CSV)
+ * - Detailed report: generated and downloaded from the server
+ *   (POST /statistics/export), filtered by division and by agent
+ *
+ * Usage Example:
+ * ```tsx
+ * <StatisticsExportDialog
+ *   open={exportFormat !== null}
+ *   onOpenChange={(open) => !open && setExportFormat(null)}
+ *   format={exportFormat ?? 'pdf'}
+ *   range={range}
+ *   periodLabel="30 derniers jours"
+ *   tables={tables}
+ *   chartsRef={chartsRef}
+ * />
+ * ```
+ *
+ * @module components/StatisticsExportDialog
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Progress } from './ui/progress';
+import { RadioGroup, RadioGroupItem } from './ui/radio-group';
+import { Switch } from './ui/switch';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { agentsService, ApiError, getErrorMessage, queryKeys, saveBlob, statisticsService } from '../lib/api';
+import { useApiQuery } from '../lib/hooks/useApi';
+import {
+  buildReportBlob,
+  captureChart,
+  REPORT_EXTENSIONS,
+  REPORT_FORMAT_LABELS,
+  REPORT_TYPE_LABELS,
+  type ReportImage,
+  type ReportTable,
+} from '../lib/report-files';
+import type { ReportParams, StatisticsRangeParams } from '../lib/api/types';
+
+type ExportSource = 'displayed' | 'server';
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR');
+
+interface StatisticsExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Format preselected by the button that opened the dialog */
+  format: ReportParams['format'];
+  /** Displayed period (default period of the detailed report) */
+  range: StatisticsRangeParams;
+  periodLabel: string;
+  /** Displayed statistics */
+  tables: ReportTable[];
+  /** Charts embedded in the PDF: elements marked with data-report-chart="<title>" */
+  chartsRef: React.RefObject<HTMLElement | null>;
+}
+
+/**
+ * StatisticsExportDialog Component
+ *
+ * @returns {JSX.Element} Export dialog
+ */
+export function StatisticsExportDialog({
+  open,
+  onOpenChange,
+  format: initialFormat,
+  range,
+  periodLabel,
+  tables,
+  chartsRef,
+}: StatisticsExportDialogProps) {
+  const [source, setSource] = useState<ExportSource>('displayed');
+  const [format, setFormat] = useState<ReportParams['format']>(initialFormat);
+  const [includeCharts, setIncludeCharts] = useState(true);
+
+  // Detailed report parameters
+  const [type, setType] = useState<ReportParams['type']>('attendance');
+  const [from, setFrom] = useState(range.from);
+  const [to, setTo] = useState(range.to);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [matricules, setMatricules] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const divisionsQuery = useApiQuery(queryKeys.agents.divisions(), signal => agentsService.getDivisions(signal), {
+    enabled: open,
+  });
+  const divisions = divisionsQuery.data ?? [];
+
+  // Reset on opening, with the format of the clicked button and the displayed period
+  useEffect(() => {
+    if (!open) return;
+    setFormat(initialFormat);
+    setFrom(range.from);
+    setTo(range.to);
+    setErrors({});
+    setProgress(null);
+  }, [open]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) controllerRef.current?.abort();
+    onOpenChange(next);
+  };
+
+  const toggleDepartment = (division: string, checked: boolean) =>
+    setDepartments(current => (checked ? [...current, division] : current.filter(d => d !== division)));
+
+  const buildParams = (): ReportParams => {
+    if (source === 'displayed') return { type: 'attendance', format, from: range.from, to: range.to };
+    const selectedMatricules = matricules.split(/[\s,;]+/).filter(Boolean);
+    return {
+      type,
+      format,
+      from,
+      to,
+      ...(departments.length > 0 && { departments }),
+      ...(selectedMatricules.length > 0 && { matricules: selectedMatricules }),
+    };
+  };
+
+  const exportDisplayed = async (params: ReportParams) => {
+    let images: ReportImage[] = [];
+    if (params.format === 'pdf' && includeCharts && chartsRef.current) {
+      const charts = Array.from(chartsRef.current.querySelectorAll('[data-report-chart]'));
+      images = (
+        await Promise.all(charts.map(chart => captureChart(chart, chart.getAttribute('data-report-chart') ?? '')))
+      ).filter((image): image is ReportImage => image !== null);
+    }
+    const blob = buildReportBlob(
+      {
+        title: 'Statistiques de présence',
+        subtitle: `${periodLabel} : du ${formatDate(params.from)} au ${formatDate(params.to)}`,
+        tables,
+        images,
+      },
+      params.format
+    );
+    saveBlob(blob, `statistiques_${params.from}_${params.to}.${REPORT_EXTENSIONS[params.format]}`);
+  };
+
+  const exportFromServer = async (params: ReportParams) => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { blob, filename } = await statisticsService.exportReport(params, {
+      onProgress: ({ percent }) => setProgress(percent),
+      signal: controller.signal,
+    });
+    saveBlob(blob, filename);
+  };
+
+  const handleExport = async () => {
+    const params = buildParams();
+    if (params.from > params.to) {
+      setErrors({ to: 'La date de fin doit suivre la date de début' });
+      return;
+    }
+    setExporting(true);
+    setErrors({});
+    setProgress(null);
+    try {
+      await (source === 'displayed' ? exportDisplayed(params) : exportFromServer(params));
+      toast.success('Export téléchargé');
+      onOpenChange(false);
+    } catch (error) {
+      if (controllerRef.current?.signal.aborted) return;
+      if (error instanceof ApiError) setErrors(error.fieldErrors);
+      toast.error(getErrorMessage(error, "Échec de l'export"));
+    } finally {
+      controllerRef.current = null;
+      setExporting(false);
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{errors[field]}</p>;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[520px] dark:bg-gray-800 dark:border-gray-700">
+        <DialogHeader>
+          <DialogTitle className="dark:text-gray-100">Exporter les statistiques</DialogTitle>
+          <DialogDescription className="dark:text-gray-400">
+            Choisissez le contenu et le format du fichier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={source} onValueChange={(value: string) => setSource(value as ExportSource)}>
+            <div className="flex items-start gap-3">
+              <RadioGroupItem value="displayed" id="export-displayed" className="mt-1" />
+              <Label htmlFor="export-displayed" className="flex-col items-start gap-0.5 dark:text-gray-200">
+                Statistiques affichées
+                <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                  {periodLabel}, générées dans le navigateur avec les graphiques
+                </span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-3">
+              <RadioGroupItem value="server" id="export-server" className="mt-1" />
+              <Label htmlFor="export-server" className="flex-col items-start gap-0.5 dark:text-gray-200">
+                Rapport détaillé
+                <span className="text-xs font-normal text-gray-500 dark:text-gray-400">
+                  Généré par le serveur, filtrable par division et par agent
+                </span>
+              </Label>
+            </div>
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="dark:text-gray-300">Format</Label>
+              <Select value={format} onValueChange={(value: string) => setFormat(value as ReportParams['format'])}>
+                <SelectTrigger className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REPORT_FORMAT_LABELS) as ReportParams['format'][]).map(value => (
+                    <SelectItem key={value} value={value}>{REPORT_FORMAT_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {fieldError('format')}
+            </div>
+            {source === 'server' && (
+              <div>
+                <Label className="dark:text-gray-300">Type de rapport</Label>
+                <Select value={type} onValueChange={(value: string) => setType(value as ReportParams['type'])}>
+                  <SelectTrigger className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(REPORT_TYPE_LABELS) as ReportParams['type'][]).map(value => (
+                      <SelectItem key={value} value={value}>{REPORT_TYPE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldError('type')}
+              </div>
+            )}
+          </div>
+
+          {source === 'displayed' && format === 'pdf' && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="export-charts" className="dark:text-gray-200">Inclure les graphiques</Label>
+              <Switch id="export-charts" checked={includeCharts} onCheckedChange={(checked: boolean) => setIncludeCharts(checked)} />
+            </div>
+          )}
+          {source === 'displayed' && format === 'csv' && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Les tableaux sont réunis en un seul fichier : une ligne par tableau, ligne et indicateur.
+            </p>
+          )}
+
+          {source === 'server' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="export-from" className="dark:text-gray-300">Du</Label>
+                  <Input
+                    id="export-from"
+                    type="date"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                  />
+                  {fieldError('from')}
+                </div>
+                <div>
+                  <Label htmlFor="export-to" className="dark:text-gray-300">Au</Label>
+                  <Input
+                    id="export-to"
+                    type="date"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                  />
+                  {fieldError('to')}
+                </div>
+              </div>
+
+              <div>
+                <Label className="dark:text-gray-300">Divisions (toutes si aucune n'est cochée)</Label>
+                <div className="mt-2 grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
+                  {divisions.map(division => (
+                    <label key={division} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <Checkbox
+                        checked={departments.includes(division)}
+                        onCheckedChange={(checked: boolean | 'indeterminate') => toggleDepartment(division, checked === true)}
+                      />
+                      {division}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="export-matricules" className="dark:text-gray-300">Matricules (optionnel)</Label>
+                <Input
+                  id="export-matricules"
+                  value={matricules}
+                  placeholder="AG001, AG002"
+                  onChange={(e) => setMatricules(e.target.value)}
+                  className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+                />
+              </div>
+
+              {exporting && progress !== null && <Progress value={progress} />}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} className="dark:border-gray-600 dark:text-gray-300">
+            Annuler
+          </Button>
+          <Button onClick={handleExport} disabled={exporting} className="bg-blue-600 hover:bg-blue-700">
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Exporter
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,32 +35,98 @@ import {
 } from '../ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
 import { Calendar as CalendarComponent } from '../ui/calendar';
-import { QRCodeCanvas, QRCodeSVG  } from 'qrcode.react';
 import { Textarea } from '../ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Label } from '../ui/label';
-import { Search, Plus, Pencil, Trash2, Filter, Eye, Calendar, Clock, TrendingUp, Award, QrCode, Printer, AlertCircle, CheckCircle, XCircle } from 'lucide-react';
-import { agentsService } from '../../lib/api';
-import type { Agent, DailyAttendanceDetails, TemporaryExit, LongAbsence } from '../../lib/api/types';
+import { Checkbox } from '../ui/checkbox';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '../ui/pagination';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Search, Plus, Pencil, Trash2, Filter, Eye, Calendar, Clock, TrendingUp, Award, QrCode, AlertCircle, CheckCircle, XCircle, ArrowUp, ArrowDown, ArrowUpDown, Loader2, Upload, PenLine, Paperclip, AlertTriangle } from 'lucide-react';
+import { agentsService, attendanceService, getErrorMessage, queryKeys, saveBlob } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useDebounce } from '../../lib/hooks/useDebounce';
+import { useOptimisticMutation } from '../../lib/hooks/useOptimisticMutation';
+import type { Agent, AgentListParams, AttendanceCorrection, CorrectionPunches, DailyAttendanceDetails, TemporaryExit, LongAbsence, PaginatedResponse } from '../../lib/api/types';
 import { useAuth } from '../../lib/auth-context';
 import { getInitials } from '../../lib/utils';
+import { getAgentErrors, AGENT_STATUS_LABELS } from '../../lib/agent-import';
 import { ConfirmDialog } from '../ConfirmDialog';
+import { AgentImportDialog } from '../AgentImportDialog';
+import { AgentBulkActions } from '../AgentBulkActions';
+import { BadgeDesignerDialog } from '../BadgeDesignerDialog';
+import { AgentBadgeCard } from '../AgentBadgeCard';
+import { AttendanceCorrectionDialog } from '../AttendanceCorrectionDialog';
+import { AgentAttendanceHistory } from '../AgentAttendanceHistory';
+import { LeaveBalanceTable } from '../LeaveBalanceTable';
+import { checkLeaveBalance } from '../../lib/leave-balance';
+import { useLeaveEntitlements } from '../../lib/hooks/useLeaveEntitlements';
+import { useAbsenceTypes } from '../../lib/hooks/useAbsenceTypes';
 import { toast } from 'sonner';
 
+// Nombre d'agents par page
+const PAGE_SIZE = 20;
+
+type SortColumn = NonNullable<AgentListParams['sortBy']>;
+
+const SORT_COLUMNS: SortColumn[] = ['matricule', 'nom', 'division', 'poste', 'status'];
+
+const STATUS_STYLES: Record<Agent['status'], string> = {
+  Active: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400 border-green-200 dark:border-green-700',
+  Inactive: 'bg-gray-50 dark:bg-gray-900/30 text-gray-600 dark:text-gray-400 border-gray-200 dark:border-gray-600',
+  'On Leave': 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-700',
+};
+
+/**
+ * Page numbers shown in the pagination bar ('…' = ellipsis)
+ * e.g. current 6 of 12 → [1, '…', 5, 6, 7, '…', 12]
+ */
+const getPageItems = (current: number, total: number): Array<number | '…'> => {
+  const pages = [1, current - 1, current, current + 1, total].filter(
+    (page, index, all) => page >= 1 && page <= total && all.indexOf(page) === index
+  ).sort((a, b) => a - b);
+
+  return pages.flatMap((page, index) =>
+    index > 0 && page - pages[index - 1] > 1 ? ['…' as const, page] : [page]
+  );
+};
+
 export function AgentsManagement() {
-  const { isAdmin } = useAuth();
-  const [agents, setAgents] = useState<Agent[]>([]);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [filterDivision, setFilterDivision] = useState<string>('all');
+  const { isAdmin, isManagerOrAdmin } = useAuth();
+
+  // Filtres, tri et page dans l'URL (une vue filtrée peut être mise en favori)
+  // ?q=rakoto&division=DSI&status=Active&sort=nom&order=desc&page=2
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filterDivision = searchParams.get('division') || 'all';
+  const filterStatus = searchParams.get('status') || 'all';
+  const sortParam = searchParams.get('sort') as SortColumn | null;
+  const sortBy: SortColumn = sortParam && SORT_COLUMNS.includes(sortParam) ? sortParam : 'nom';
+  const sortOrder = searchParams.get('order') === 'desc' ? 'desc' : 'asc';
+  const currentPage = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+
+  const [searchQuery, setSearchQuery] = useState(searchParams.get('q') ?? '');
+  const debouncedSearch = useDebounce(searchQuery.trim(), 400);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+
+  // Agents of the badge designer (null = closed, empty = choose a division)
+  const [badgeAgents, setBadgeAgents] = useState<Agent[] | null>(null);
+
+  // Selected agents, by matricule (kept when changing page or filters)
+  const [selectedAgents, setSelectedAgents] = useState<Map<string, Agent>>(new Map());
   const [editingAgent, setEditingAgent] = useState<Agent | null>(null);
   const [viewingAgent, setViewingAgent] = useState<Agent | null>(null);
-  const [loading, setLoading] = useState(true);
   
   // Confirm dialog state for delete operations
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [agentToDelete, setAgentToDelete] = useState<Agent | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
 
   // Form states for Add Dialog
   const [newAgent, setNewAgent] = useState<Agent>({
@@ -70,11 +136,18 @@ export function AgentsManagement() {
     poste: ''
   });
   
+  // Active tab of the detail sheet (back to "Information Personnel" for each agent)
+  const [detailTab, setDetailTab] = useState('personal');
+  useEffect(() => setDetailTab('personal'), [viewingAgent?.matricule]);
+
   // Attendance Section State
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [dailyAttendance, setDailyAttendance] = useState<DailyAttendanceDetails | null>(null);
   const [temporaryExits, setTemporaryExits] = useState<TemporaryExit[]>([]);
   const [loadingAttendance, setLoadingAttendance] = useState(false);
+  const [pendingCorrection, setPendingCorrection] = useState<AttendanceCorrection | null>(null);
+  const [isCorrectionOpen, setIsCorrectionOpen] = useState(false);
+  const [attendanceVersion, setAttendanceVersion] = useState(0); // Bumped to refetch the day after a correction
   
   // Absence Section State
   const [absences, setAbsences] = useState<LongAbsence[]>([]);
@@ -85,32 +158,122 @@ export function AgentsManagement() {
   const [confirmAbsenceDialogOpen, setConfirmAbsenceDialogOpen] = useState(false);
   const [isDeletingAbsence, setIsDeletingAbsence] = useState(false);
   
-  const [listeTypeAbsences, setListeTypeAbsences] = useState(["Congé","Autorisation d'absence","Permission","Mission", "Formation", "Repos médical"])
+  const { absenceTypes: listeTypeAbsences, getType: getAbsenceType, getLabel: getAbsenceLabel } = useAbsenceTypes();
+  const { entitlements, holidays } = useLeaveEntitlements();
   // Absence Form State
   const [absenceForm, setAbsenceForm] = useState({
     startDate: '',
     endDate: '',
-    type: 'Congé' as LongAbsence['type'],
+    type: '' as LongAbsence['type'],
     reason: '',
   });
 
-  // Fetch agents from API
+  // Update URL params ('' or 'all' removes the param); any filter change goes back to page 1
+  const updateSearchParams = (changes: Record<string, string>, resetPage = true) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([name, value]) => {
+        if (!value || value === 'all') next.delete(name);
+        else next.set(name, value);
+      });
+      if (resetPage) next.delete('page');
+      return next;
+    }, { replace: true });
+  };
+
+  // Push the debounced search to the URL
   useEffect(() => {
-    const fetchAgents = async () => {
-      try {
-        setLoading(true);
-        const response = await agentsService.getAgents({ page: 1, pageSize: 100 });
-        if (response.success && response.data) {
-          setAgents(response.data);
-        }
-      } catch (error) {
-        console.error('Failed to fetch agents:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchAgents();
-  }, []);
+    if (debouncedSearch !== (searchParams.get('q') ?? '')) {
+      updateSearchParams({ q: debouncedSearch });
+    }
+  }, [debouncedSearch]);
+
+  const handleSort = (column: SortColumn) => {
+    const order = column === sortBy && sortOrder === 'asc' ? 'desc' : 'asc';
+    updateSearchParams({ sort: column, order });
+  };
+
+  // Fetch the current page from API (filtered, sorted and paginated server-side)
+  const agentsParams: AgentListParams = {
+    page: currentPage,
+    pageSize: PAGE_SIZE,
+    search: debouncedSearch || undefined,
+    department: filterDivision === 'all' ? undefined : filterDivision,
+    status: filterStatus === 'all' ? undefined : (filterStatus as Agent['status']),
+    sortBy,
+    sortOrder,
+  };
+  const agentsKey = queryKeys.agents.list(agentsParams);
+  const agentsQuery = useApiQuery(
+    agentsKey,
+    signal => agentsService.getAgents(agentsParams, signal),
+    { keepPreviousData: true }
+  );
+  const agents = agentsQuery.data?.data ?? [];
+  const totalAgents = agentsQuery.data?.total ?? 0;
+  const totalPages = agentsQuery.data?.totalPages ?? 1;
+
+  // Page beyond the last one (e.g., after deleting the last agent of the page)
+  useEffect(() => {
+    if (agentsQuery.data && currentPage > totalPages) {
+      updateSearchParams({ page: String(totalPages) }, false);
+    }
+  }, [agentsQuery.data, currentPage, totalPages]);
+
+  // Divisions of all agents (not only those of the current page)
+  const divisionsQuery = useApiQuery(queryKeys.agents.divisions(), signal => agentsService.getDivisions(signal));
+  const divisions = ['all', ...(divisionsQuery.data ?? [])];
+
+  // Selection helpers (header checkbox = every agent of the current page)
+  const allPageSelected = agents.length > 0 && agents.every(agent => selectedAgents.has(agent.matricule));
+  const somePageSelected = agents.some(agent => selectedAgents.has(agent.matricule));
+
+  const toggleAgentSelection = (agent: Agent, checked: boolean) => {
+    setSelectedAgents(prev => {
+      const next = new Map(prev);
+      if (checked) next.set(agent.matricule, agent);
+      else next.delete(agent.matricule);
+      return next;
+    });
+  };
+
+  const togglePageSelection = (checked: boolean) => {
+    setSelectedAgents(prev => {
+      const next = new Map(prev);
+      agents.forEach(agent => (checked ? next.set(agent.matricule, agent) : next.delete(agent.matricule)));
+      return next;
+    });
+  };
+
+  // Mutations: the list is updated immediately and rolled back if the server refuses
+  const createMutation = useOptimisticMutation({
+    queryKey: agentsKey,
+    mutationFn: (agent: Agent) => agentsService.createAgent(agent),
+    optimisticUpdate: (prev: PaginatedResponse<Agent> | undefined, agent) =>
+      prev && { ...prev, data: [...prev.data, agent], total: prev.total + 1 },
+    invalidates: [queryKeys.agents.all],
+    successMessage: 'Agent ajouté avec succès !',
+    errorMessage: 'Erreur lors de la création de l’agent',
+  });
+
+  const updateMutation = useOptimisticMutation({
+    queryKey: agentsKey,
+    mutationFn: (agent: Agent) => agentsService.updateAgent(agent.matricule, agent),
+    optimisticUpdate: (prev: PaginatedResponse<Agent> | undefined, agent) =>
+      prev && { ...prev, data: prev.data.map(a => (a.matricule === agent.matricule ? agent : a)) },
+    invalidates: [queryKeys.agents.all],
+    errorMessage: 'Echec mis a jour Agent',
+  });
+
+  const deleteMutation = useOptimisticMutation({
+    queryKey: agentsKey,
+    mutationFn: (agent: Agent) => agentsService.deleteAgent(agent.matricule),
+    optimisticUpdate: (prev: PaginatedResponse<Agent> | undefined, agent) =>
+      prev && { ...prev, data: prev.data.filter(a => a.matricule !== agent.matricule), total: prev.total - 1 },
+    invalidates: [queryKeys.agents.all],
+    errorMessage: "Effacement d'agent échoué",
+    undo: { message: agent => `${agent.nom} a été éffacé du système.` },
+  });
   
   // Fetch daily attendance when date or viewing agent changes
   useEffect(() => {
@@ -121,10 +284,14 @@ export function AgentsManagement() {
       const dateStr = selectedDate.toISOString().split('T')[0];
       
       try {
-        const [attendanceResponse, exitsResponse] = await Promise.all([
+        const [attendanceResponse, exitsResponse, correctionsResponse] = await Promise.all([
           agentsService.getDailyAttendance(viewingAgent.matricule, dateStr),
           agentsService.getTemporaryExits(viewingAgent.matricule, dateStr),
+          isManagerOrAdmin
+            ? attendanceService.getCorrections({ status: 'Pending', matricule: viewingAgent.matricule, date: dateStr })
+            : Promise.resolve(null),
         ]);
+        setPendingCorrection(correctionsResponse?.data?.[0] ?? null);
         
         if (attendanceResponse.success && attendanceResponse.data) {
           setDailyAttendance(attendanceResponse.data);
@@ -141,13 +308,14 @@ export function AgentsManagement() {
         console.error('Failed to fetch daily attendance:', error);
         setDailyAttendance(null);
         setTemporaryExits([]);
+        setPendingCorrection(null);
       } finally {
         setLoadingAttendance(false);
       }
     };
     
     fetchDailyAttendance();
-  }, [viewingAgent, selectedDate]);
+  }, [viewingAgent, selectedDate, attendanceVersion, isManagerOrAdmin]);
   
   // Fetch absences when viewing agent changes
   useEffect(() => {
@@ -175,16 +343,6 @@ export function AgentsManagement() {
     fetchAbsences();
   }, [viewingAgent]);
 
-  const divisionsDbl = ["all", ...new Set(agents.map(agent => agent.division))];
-  const divisions = [...new Set(divisionsDbl)];;
-
-  const filteredAgents = agents.filter(agent => {
-    const matchesSearch = agent.nom.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         agent.matricule.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesDivision = filterDivision === 'all' || agent.division === filterDivision;
-    return matchesSearch && matchesDivision;
-  });
-
   // Show delete confirmation dialog
   const handleDeleteClick = (agent: Agent) => {
     setAgentToDelete(agent);
@@ -194,99 +352,41 @@ export function AgentsManagement() {
   // Perform the actual deletion after confirmation
   const handleDeleteConfirm = async () => {
     if (!agentToDelete) return;
-    
-    try {
-      setIsDeleting(true);
-      const response = await agentsService.deleteAgent(agentToDelete.matricule);
-      
-      if (response.success) {
-        setAgents(agents.filter(agent => agent.matricule !== agentToDelete.matricule));
-        toast.success('Agent éffacé avec succès', {
-          description: `${agentToDelete.nom} a été éffacer du système.`,
-        });
-      } else {
-        toast.error("Effacement d'agent échoué", {
-          description: response.error || 'An error occurred while deleting the agent.',
-        });
-      }
-    } catch (error) {
-      console.error("Effacement d'agent échoué:", error);
-      toast.error("Effacement d'agent échoué", {
-        description: 'An unexpected error occurred. Please try again.',
-      });
-    } finally {
-      setIsDeleting(false);
-      setAgentToDelete(null);
-    }
+
+    const agent = agentToDelete;
+    setAgentToDelete(null);
+    // Suppression annulable pendant quelques secondes (voir le toast)
+    await deleteMutation.mutate(agent);
   };
 
+  // Same rules as the bulk import (see lib/agent-import)
   const validateAgent = (agent: Agent): boolean => {
-    const matriculeRegex = /^[A-Za-z0-9]+$/;
-    const nameRegex = /^[A-Za-zÀ-ÖØ-öø-ÿ\s'-]+$/;
-    const departmentRegex = /^[A-Za-zÀ-ÖØ-öø-ÿ\s'-]+$/;
-    const positionRegex = /^[A-Za-zÀ-ÖØ-öø-ÿ\s'-]+$/;
-  
-    if (!agent.matricule?.trim()) {
-      toast.error('Le matricule est obligatoire');
-      return false;
-    }
-    if (!matriculeRegex.test(agent.matricule)) {
-      toast.error('Le matricule ne doit contenir que des lettres et chiffres');
-      return false;
-    }
-  
-    if (!agent.nom?.trim()) {
-      toast.error('Le nom est obligatoire');
-      return false;
-    }
-    if (!nameRegex.test(agent.nom)) {
-      toast.error('Le nom contient des caractères non valides');
-      return false;
-    }
-  
-    if (!agent.division?.trim()) {
-      toast.error('Le département est obligatoire');
-      return false;
-    }
-    if (!departmentRegex.test(agent.division)) {
-      toast.error('Le département contient des caractères non valides');
-      return false;
-    }
-  
-    if (!agent.poste?.trim()) {
-      toast.error('Le poste est obligatoire');
-      return false;
-    }
-    if (!positionRegex.test(agent.poste)) {
-      toast.error('Le poste contient des caractères non valides');
+    const [error] = getAgentErrors(agent);
+    if (error) {
+      toast.error(error);
       return false;
     }
-  
     return true;
   };
 
   const handleAddAgent = async () => {
     if (!validateAgent(newAgent)) return;
   
-    // Si tout est OK → on envoie
-    try {
-      const response = await agentsService.createAgent(newAgent);
-      if (response.success && response.data) {
-        setAgents([...agents, response.data]);
-        setIsAddDialogOpen(false);
-        toast.success('Agent ajouté avec succès !');
-  
-        // Reset du formulaire
-        setNewAgent({
-          matricule: '',
-          name: '',
-          division: '',
-          poste: ''
-        });
-      }
-    } catch (error) {
-      console.error('Erreur lors de la création de l’agent :', error);
-      toast.error('Erreur lors de la création de l’agent');
+    // Si tout est OK → on envoie (l'agent apparaît tout de suite dans la liste)
+    const agent = newAgent;
+    setIsAddDialogOpen(false);
+    const created = await createMutation.mutate(agent);
+    if (created) {
+      // Reset du formulaire
+      setNewAgent({
+        matricule: '',
+        name: '',
+        division: '',
+        poste: ''
+      });
+    } else {
+      // Rouvre le formulaire pour corriger la saisie
+      setIsAddDialogOpen(true);
     }
   };
 
@@ -294,17 +394,17 @@ export function AgentsManagement() {
     if (!editingAgent) return;
     if (!validateAgent(editingAgent)) return;
     
-    try {
-      const response = await agentsService.updateAgent(editingAgent.matricule, editingAgent);
-      if (response.success && response.data) {
-        setAgents(agents.map(a => a.matricule === editingAgent.matricule ? response.data! : a));
-        setEditingAgent(null);
-      }
-    } catch (error) {
-      console.error("Echec mis a jour Agent:", error);
-    }
+    const agent = editingAgent;
+    setEditingAgent(null);
+    const updated = await updateMutation.mutate(agent);
+    if (!updated) setEditingAgent(agent);
   };
   
+  // Balance check of the absence being entered (warning only)
+  const absenceBalanceWarning = showAbsenceDialog
+    ? checkLeaveBalance(absences, entitlements, holidays, { ...absenceForm, excludeId: editingAbsence?.id })
+    : null;
+
   // Absence CRUD handlers
   const handleOpenAbsenceDialog = (absence?: LongAbsence) => {
     if (absence) {
@@ -321,7 +421,7 @@ export function AgentsManagement() {
       setAbsenceForm({
         startDate: '',
         endDate: '',
-        type: 'Congé',
+        type: listeTypeAbsences[0]?.code ?? '',
         reason: '',
       });
     }
@@ -334,7 +434,7 @@ export function AgentsManagement() {
     setAbsenceForm({
       startDate: '',
       endDate: '',
-      type: 'Congé',
+      type: listeTypeAbsences[0]?.code ?? '',
       reason: '',
     });
   };
@@ -342,10 +442,11 @@ export function AgentsManagement() {
   const handleSaveAbsence = async () => {
     if (!viewingAgent) return;
   
-    const { startDate, endDate, reason } = absenceForm;
+    const { startDate, endDate, type, reason } = absenceForm;
+    const requiresJustification = getAbsenceType(type)?.requiresJustification ?? true;
   
-    // Vérifie les champs obligatoires
-    if (!startDate || !endDate || !reason) {
+    // Vérifie les champs obligatoires (motif selon le type d'absence)
+    if (!startDate || !endDate || !type || (requiresJustification && !reason.trim())) {
       toast.error('Veuillez remplir tous les champs obligatoires');
       return;
     }
@@ -361,7 +462,7 @@ export function AgentsManagement() {
   
     // Validation du motif (avec accents et apostrophes)
     const reasonRegex = /^[A-Za-zÀ-ÖØ-öø-ÿ\s'’.,()\-]{3,100}$/;
-    if (!reasonRegex.test(reason.trim())) {
+    if (reason.trim() && !reasonRegex.test(reason.trim())) {
       toast.error("Le motif d'absence contient des caractères non valides");
       return;
     }
@@ -382,7 +483,11 @@ export function AgentsManagement() {
           viewingAgent.matricule,
           absenceForm
         );
-        if (response.success && response.data) {
+        if (response.queued) {
+          // Not on the server yet: shown as entered, with the client ID of the queued write
+          toast.info(response.message);
+          setAbsences([...absences, { ...absenceForm, id: response.clientId!, matricule: viewingAgent.matricule }]);
+        } else if (response.success && response.data) {
           toast.success('Absence ajoutée avec succès');
           setAbsences([...absences, response.data]);
         }
@@ -391,7 +496,9 @@ export function AgentsManagement() {
       handleCloseAbsenceDialog();
     } catch (error) {
       console.error('Erreur lors de la sauvegarde de l’absence :', error);
-      toast.error('Erreur lors de la sauvegarde');
+      toast.error('Erreur lors de la sauvegarde', {
+        description: getErrorMessage(error),
+      });
     }
   };
   
@@ -420,7 +527,9 @@ export function AgentsManagement() {
       }
     } catch (error) {
       console.error('Echec effacement absence:', error);
-      toast.error('Echec effacement absence');
+      toast.error('Echec effacement absence', {
+        description: getErrorMessage(error),
+      });
     } finally {
       setIsDeletingAbsence(false);
       setConfirmAbsenceDialogOpen(false);
@@ -468,6 +577,29 @@ export function AgentsManagement() {
     return `${h}h ${m}`;
   }
 
+  // Badge value of a punch changed by a manual correction (null when unchanged)
+  const renderCorrectedPunch = (key: Exclude<keyof CorrectionPunches, 'temporaryExits'>) => {
+    const correction = dailyAttendance?.correction;
+    if (!correction || correction.original[key]?.slice(0, 5) === dailyAttendance?.[key]?.slice(0, 5)) return null;
+    return (
+      <p className="text-xs text-purple-700 dark:text-purple-400 mt-2">
+        <Badge variant="outline" className="mr-1 px-1.5 py-0 text-[10px] bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400">
+          Corrigé
+        </Badge>
+        badge : {formatTimeToHourMinute(correction.original[key] ?? null) || 'aucun'}
+      </p>
+    );
+  };
+
+  const handleDownloadCorrectionAttachment = async (correctionId: string) => {
+    try {
+      const { blob, filename } = await attendanceService.downloadCorrectionAttachment(correctionId);
+      saveBlob(blob, filename);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Téléchargement du justificatif impossible'));
+    }
+  };
+
   return (
     <div className="p-8">
       <div className="mb-8">
@@ -494,7 +626,7 @@ export function AgentsManagement() {
                 className="pl-10 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100 rounded-lg"
               />
             </div>
-            <Select value={filterDivision} onValueChange={setFilterDivision}>
+            <Select value={filterDivision} onValueChange={value => updateSearchParams({ division: value })}>
               <SelectTrigger className="w-full sm:w-[180px] bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100 rounded-lg">
                 <Filter className="w-4 h-4 mr-2" />
                 <SelectValue placeholder="Filter by division" />
@@ -507,34 +639,133 @@ export function AgentsManagement() {
                 ))}
               </SelectContent>
             </Select>
+            <Select value={filterStatus} onValueChange={value => updateSearchParams({ status: value })}>
+              <SelectTrigger className="w-full sm:w-[180px] bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100 rounded-lg">
+                <Filter className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Filtrer par statut" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Tous les statuts</SelectItem>
+                {Object.entries(AGENT_STATUS_LABELS).map(([status, label]) => (
+                  <SelectItem key={status} value={status}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
-          {isAdmin && (
-            <Button 
-              onClick={() => setIsAddDialogOpen(true)}
-              className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg w-full sm:w-auto"
+          <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+            <Button
+              variant="outline"
+              onClick={() => setBadgeAgents([])}
+              className="rounded-lg w-full sm:w-auto dark:border-gray-600 dark:text-gray-300"
             >
-              <Plus className="w-4 h-4 mr-2" />
-              Nouvel Agent
+              <QrCode className="w-4 h-4 mr-2" />
+              Badges
             </Button>
-          )}
+            {isAdmin && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsImportDialogOpen(true)}
+                  className="rounded-lg w-full sm:w-auto dark:border-gray-600 dark:text-gray-300"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  Importer
+                </Button>
+                <Button 
+                  onClick={() => setIsAddDialogOpen(true)}
+                  className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg w-full sm:w-auto"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nouvel Agent
+                </Button>
+              </>
+            )}
+          </div>
         </div>
       </Card>
 
+      {/* Bulk actions on the selected agents */}
+      <AgentBulkActions
+        selected={[...selectedAgents.values()]}
+        divisions={divisions.filter(division => division !== 'all')}
+        absenceTypes={listeTypeAbsences}
+        onSelectionChange={(agents) => setSelectedAgents(new Map(agents.map(agent => [agent.matricule, agent])))}
+      />
+
       {/* Agents Table */}
       <Card className="border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden">
         <Table>
           <TableHeader>
             <TableRow className="bg-gray-50 dark:bg-gray-900/50 border-b dark:border-gray-700">
-              <TableHead className="dark:text-gray-300">Matricule</TableHead>
-              <TableHead className="dark:text-gray-300">Nom complet</TableHead>
-              <TableHead className="dark:text-gray-300">Division</TableHead>
-              <TableHead className="dark:text-gray-300">Poste</TableHead>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allPageSelected ? true : somePageSelected ? 'indeterminate' : false}
+                  onCheckedChange={(checked: boolean | 'indeterminate') => togglePageSelection(checked === true)}
+                  aria-label="Sélectionner les agents de la page"
+                />
+              </TableHead>
+              {([
+                ['matricule', 'Matricule'],
+                ['nom', 'Nom complet'],
+                ['division', 'Division'],
+                ['poste', 'Poste'],
+                ['status', 'Statut'],
+              ] as Array<[SortColumn, string]>).map(([column, label]) => (
+                <TableHead
+                  key={column}
+                  className="dark:text-gray-300"
+                  aria-sort={sortBy === column ? (sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'}
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleSort(column)}
+                    className="inline-flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100"
+                  >
+                    {label}
+                    {sortBy !== column ? (
+                      <ArrowUpDown className="w-3.5 h-3.5 opacity-40" />
+                    ) : sortOrder === 'asc' ? (
+                      <ArrowUp className="w-3.5 h-3.5" />
+                    ) : (
+                      <ArrowDown className="w-3.5 h-3.5" />
+                    )}
+                  </button>
+                </TableHead>
+              ))}
               <TableHead className="text-right dark:text-gray-300">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredAgents.map((agent) => (
-              <TableRow key={agent.matricule} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b dark:border-gray-700">
+            {agentsQuery.loading && (
+              <TableRow>
+                <TableCell colSpan={7} className="py-10 text-center text-gray-500 dark:text-gray-400">
+                  <Loader2 className="w-5 h-5 mr-2 inline animate-spin" />
+                  Chargement des agents...
+                </TableCell>
+              </TableRow>
+            )}
+            {!agentsQuery.loading && agents.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="py-10 text-center text-gray-500 dark:text-gray-400">
+                  Aucun agent ne correspond aux filtres
+                </TableCell>
+              </TableRow>
+            )}
+            {agents.map((agent) => (
+              <TableRow
+                key={agent.matricule}
+                data-state={selectedAgents.has(agent.matricule) ? 'selected' : undefined}
+                className="hover:bg-gray-50 dark:hover:bg-gray-700/50 border-b dark:border-gray-700"
+              >
+                <TableCell>
+                  <Checkbox
+                    checked={selectedAgents.has(agent.matricule)}
+                    onCheckedChange={(checked: boolean | 'indeterminate') => toggleAgentSelection(agent, checked === true)}
+                    aria-label={`Sélectionner ${agent.nom}`}
+                  />
+                </TableCell>
                 <TableCell>
                   <span className="text-gray-900 dark:text-gray-100">{agent.matricule}</span>
                 </TableCell>
@@ -552,6 +783,13 @@ export function AgentsManagement() {
                   </Badge>
                 </TableCell>
                 <TableCell className="text-gray-600 dark:text-gray-400">{agent.poste}</TableCell>
+                <TableCell>
+                  {agent.status && (
+                    <Badge variant="outline" className={STATUS_STYLES[agent.status]}>
+                      {AGENT_STATUS_LABELS[agent.status]}
+                    </Badge>
+                  )}
+                </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end gap-2">
                     <Button
@@ -591,8 +829,81 @@ export function AgentsManagement() {
             ))}
           </TableBody>
         </Table>
+
+        {/* Pagination */}
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-3 px-6 py-4 border-t dark:border-gray-700">
+          <p className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+            {totalAgents === 0
+              ? 'Aucun agent'
+              : `${(currentPage - 1) * PAGE_SIZE + 1}–${Math.min(currentPage * PAGE_SIZE, totalAgents)} sur ${totalAgents} agent(s)`}
+            {agentsQuery.fetching && !agentsQuery.loading && (
+              <Loader2 className="w-4 h-4 ml-2 inline animate-spin" />
+            )}
+          </p>
+          {totalPages > 1 && (
+            <Pagination className="mx-0 w-auto justify-end">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    size="default"
+                    aria-disabled={currentPage === 1}
+                    className={currentPage === 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      updateSearchParams({ page: String(currentPage - 1) }, false);
+                    }}
+                  />
+                </PaginationItem>
+                {getPageItems(currentPage, totalPages).map((item, index) => (
+                  <PaginationItem key={`${item}-${index}`}>
+                    {item === '…' ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink
+                        href="#"
+                        size="icon"
+                        isActive={item === currentPage}
+                        className="cursor-pointer"
+                        onClick={(e) => {
+                          e.preventDefault();
+                          updateSearchParams({ page: String(item) }, false);
+                        }}
+                      >
+                        {item}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    size="default"
+                    aria-disabled={currentPage === totalPages}
+                    className={currentPage === totalPages ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      updateSearchParams({ page: String(currentPage + 1) }, false);
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </div>
       </Card>
 
+      {/* Bulk Import Dialog */}
+      <AgentImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
+
+      {/* Badge Designer Dialog */}
+      <BadgeDesignerDialog
+        open={badgeAgents !== null}
+        onOpenChange={(open: boolean) => !open && setBadgeAgents(null)}
+        agents={badgeAgents ?? []}
+        divisions={divisions.filter(division => division !== 'all')}
+      />
+
       {/* Add Agent Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent className="sm:max-w-[500px] dark:bg-gray-800 dark:border-gray-700">
@@ -757,10 +1068,11 @@ export function AgentsManagement() {
                 </Card>
 
                 {/* Tabs for different sections */}
-                <Tabs defaultValue="personal" className="w-full">
-                  <TabsList className="grid w-full grid-cols-3 dark:bg-gray-900">
+                <Tabs value={detailTab} onValueChange={(value: string) => setDetailTab(value)} className="w-full">
+                  <TabsList className="grid w-full grid-cols-4 dark:bg-gray-900">
                     <TabsTrigger value="personal" className="dark:data-[state=active]:bg-gray-700">Information Personnel</TabsTrigger>
                     <TabsTrigger value="attendance" className="dark:data-[state=active]:bg-gray-700">Pointage</TabsTrigger>
+                    <TabsTrigger value="history" className="dark:data-[state=active]:bg-gray-700">Historique</TabsTrigger>
                     <TabsTrigger value="absence" className="dark:data-[state=active]:bg-gray-700">Absence</TabsTrigger>
                   </TabsList>
 
@@ -782,121 +1094,8 @@ export function AgentsManagement() {
                       </div>
                     </Card>
 
-                    {/* QR Code Section */}
-                    <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-900">
-                      <div className="flex items-center gap-2 mb-4">
-                        <QrCode className="w-5 h-5 text-blue-600 dark:text-blue-400" />
-                        <h4 className="text-gray-900 dark:text-gray-100">QR Code de l'agent</h4>
-                      </div>
-                      <div className="flex flex-col items-center gap-4">
-                        {/* QR Code Display */}
-                        <div 
-                          id="qr-code-container" 
-                          className="bg-white p-6 rounded-lg border-2 border-gray-200 dark:border-gray-600"
-                        >
-                          <QRCodeSVG 
-                            value={viewingAgent.matricule}
-                            size={200}
-                            bgColor="#FFFFFF"
-                            fgColor="#000000"
-                            level="H"
-                            includeMargin={false}
-                          />
-                        </div>
-                        
-                        {/* Agent Info Below QR Code */}
-                        <div className="text-center space-y-1">
-                          <p className="text-sm text-gray-900 dark:text-gray-100">{viewingAgent.name}</p>
-                          <p className="text-xs text-gray-600 dark:text-gray-400">{viewingAgent.matricule}</p>
-                          <p className="text-xs text-gray-500 dark:text-gray-500">{viewingAgent.department}</p>
-                        </div>
-
-                        {/* Print Button */}
-                        <Button 
-                          onClick={() => {
-                            const printContent = document.getElementById('qr-code-container');
-                            if (!printContent) return;
-                            
-                            const printWindow = window.open('', '_blank');
-                            if (!printWindow) return;
-                            
-                            printWindow.document.write(`
-                              <!DOCTYPE html>
-                              <html>
-                                <head>
-                                  <title>QR Code - ${viewingAgent.nom}</title>
-                                  <style>
-                                    body {
-                                      display: flex;
-                                      flex-direction: column;
-                                      align-items: center;
-                                      justify-content: center;
-                                      min-height: 100vh;
-                                      margin: 0;
-                                      padding: 20px;
-                                      font-family: system-ui, -apple-system, sans-serif;
-                                      background: white;
-                                    }
-                                    .qr-container {
-                                      text-align: center;
-                                      padding: 40px;
-                                      border: 2px solid #e5e7eb;
-                                      border-radius: 12px;
-                                      background: white;
-                                    }
-                                    .qr-code {
-                                      margin: 0 auto 20px;
-                                    }
-                                    h2 {
-                                      margin: 10px 0 5px;
-                                      font-size: 20px;
-                                      color: #1f2937;
-                                    }
-                                    .matricule {
-                                      font-size: 14px;
-                                      color: #6b7280;
-                                      margin: 5px 0;
-                                    }
-                                    .division {
-                                      font-size: 12px;
-                                      color: #9ca3af;
-                                      margin: 5px 0;
-                                    }
-                                    @media print {
-                                      body {
-                                        padding: 0;
-                                      }
-                                    }
-                                  </style>
-                                </head>
-                                <body>
-                                  <div class="qr-container">
-                                    ${printContent.innerHTML}
-                                    <h2>${viewingAgent.nom}</h2>
-                                    <p class="matricule">Matricule: ${viewingAgent.matricule}</p>
-                                    <p class="division">${viewingAgent.division}</p>
-                                  </div>
-                                  <script>
-                                    window.onload = function() {
-                                      window.print();
-                                      window.onafterprint = function() {
-                                        window.close();
-                                      };
-                                    };
-                                  </script>
-                                </body>
-                              </html>
-                            `);
-                            printWindow.document.close();
-                          }}
-                          className="w-full bg-blue-600 hover:bg-blue-700 text-white rounded-lg"
-                        >
-                          <Printer className="w-4 h-4 mr-2" />
-                          Imprimer QR Code
-                        </Button>
-
-                      </div>
-                    </Card>
+                    {/* QR Badge Section */}
+                    <AgentBadgeCard agent={viewingAgent} onPrint={() => setBadgeAgents([viewingAgent])} />
                   </TabsContent>
 
                   {/* Attendance Details Tab */}
@@ -907,27 +1106,56 @@ export function AgentsManagement() {
                           <Clock className="w-6 h-6 text-blue-600 dark:text-blue-400" />
                           <h4 className="text-gray-900 dark:text-gray-100">Details pointage Journalier</h4>
                         </div>
-                        <Input
-                          type="date"
-                          value={selectedDate.toISOString().split('T')[0]}
-                          onChange={(e) => {
-                            if (e.target.value) {
-                              setSelectedDate(new Date(e.target.value));
-                            }
-                          }}
-                          max={new Date().toISOString().split('T')[0]}
-                          min="2020-01-01"
-                          className="w-auto bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100 rounded-lg"
-                        />
+                        <div className="flex items-center gap-2">
+                          {isManagerOrAdmin && dailyAttendance && !loadingAttendance && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setIsCorrectionOpen(true)}
+                              disabled={!!pendingCorrection}
+                              className="dark:border-gray-600 dark:text-gray-300"
+                            >
+                              <PenLine className="w-4 h-4 mr-1" />
+                              {isAdmin ? 'Corriger' : 'Proposer une correction'}
+                            </Button>
+                          )}
+                          <Input
+                            type="date"
+                            value={selectedDate.toISOString().split('T')[0]}
+                            onChange={(e) => {
+                              if (e.target.value) {
+                                setSelectedDate(new Date(e.target.value));
+                              }
+                            }}
+                            max={new Date().toISOString().split('T')[0]}
+                            min="2020-01-01"
+                            className="w-auto bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100 rounded-lg"
+                          />
+                        </div>
                       </div>
 
+                      {/* Correction awaiting approval */}
+                      {pendingCorrection && !loadingAttendance && (
+                        <div className="mb-4 flex flex-wrap items-center gap-2 p-3 text-sm bg-amber-50 dark:bg-amber-950 border border-amber-200 dark:border-amber-900 text-amber-800 dark:text-amber-300 rounded-lg">
+                          <AlertCircle className="w-4 h-4" />
+                          <span className="flex-1">
+                            Correction proposée par {pendingCorrection.requestedBy} en attente de validation : {pendingCorrection.reason}
+                          </span>
+                          {isAdmin && (
+                            <Button asChild variant="ghost" size="sm" className="h-7 hover:bg-white/60 dark:hover:bg-white/10">
+                              <Link to="/corrections">Examiner</Link>
+                            </Button>
+                          )}
+                        </div>
+                      )}
+
                       {loadingAttendance ? (
                         <p className="text-gray-500 dark:text-gray-400 text-center py-8">Chargement des données...</p>
                       ) : dailyAttendance ? (
                         <>
                         {dailyAttendance.conge ? (
                           <div className="text-center py-8">
-                            <p className="text-gray-500 dark:text-gray-400">Agent en {dailyAttendance.type_abs}</p>
+                            <p className="text-gray-500 dark:text-gray-400">Agent en {getAbsenceLabel(dailyAttendance.type_abs)}</p>
                           </div>
                         ) : (
                           <>
@@ -953,6 +1181,7 @@ export function AgentsManagement() {
                               {dailyAttendance.morningCheckIn && formatTimeWithStatus(dailyAttendance.morningCheckIn, dailyAttendance.entree_matin, 'arrival', dailyAttendance.tolerance).status === 'late' && (
                                 <p className="text-xs text-red-600 dark:text-red-400 mt-2">Arrivé tardive</p>
                               )}
+                              {renderCorrectedPunch('morningCheckIn')}
                             </div>
 
                             {/* Morning Departure */}
@@ -975,6 +1204,7 @@ export function AgentsManagement() {
                               {dailyAttendance.morningCheckOut && formatTimeWithStatus(dailyAttendance.morningCheckOut, dailyAttendance.sortie_matin, 'departure').status === 'early' && (
                                 <p className="text-xs text-orange-600 dark:text-orange-400 mt-2">Départ tôt</p>
                               )}
+                              {renderCorrectedPunch('morningCheckOut')}
                             </div>
 
                             {/* Afternoon Arrival */}
@@ -997,6 +1227,7 @@ export function AgentsManagement() {
                               {dailyAttendance.afternoonCheckIn && formatTimeWithStatus(dailyAttendance.afternoonCheckIn, dailyAttendance.entree_aprem, 'arrival', dailyAttendance.tolerance).status === 'late' && (
                                 <p className="text-xs text-red-600 dark:text-red-400 mt-2">Arrivé tardive</p>
                               )}
+                              {renderCorrectedPunch('afternoonCheckIn')}
                             </div>
 
                             {/* Afternoon Departure */}
@@ -1019,13 +1250,23 @@ export function AgentsManagement() {
                               {dailyAttendance.afternoonCheckOut && formatTimeWithStatus(dailyAttendance.afternoonCheckOut, dailyAttendance.sortie_aprem, 'departure').status === 'early' && (
                                 <p className="text-xs text-orange-600 dark:text-orange-400 mt-2">Départ tôt</p>
                               )}
+                              {renderCorrectedPunch('afternoonCheckOut')}
                             </div>
                           </div>
 
                           {/* Temporary Exits */}
                           {temporaryExits.length > 0 && (
                             <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
-                              <h4 className="text-gray-900 dark:text-gray-100 mb-3">Sortie Temporaire(s)</h4>
+                              <h4 className="text-gray-900 dark:text-gray-100 mb-3">
+                                Sortie Temporaire(s)
+                                {dailyAttendance.correction &&
+                                  JSON.stringify(dailyAttendance.correction.original.temporaryExits.map(e => [e.exitTime, e.returnTime, e.description])) !==
+                                    JSON.stringify(temporaryExits.map(e => [e.exitTime, e.returnTime, e.description])) && (
+                                  <Badge variant="outline" className="ml-2 px-1.5 py-0 text-[10px] bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400">
+                                    Corrigé
+                                  </Badge>
+                                )}
+                              </h4>
                               <div className="space-y-2">
                                 {temporaryExits.map((exit) => (
                                   <div key={exit.id} className="p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
@@ -1073,6 +1314,28 @@ export function AgentsManagement() {
                               </p>
                             )}
                           </div>
+
+                          {/* Manual correction */}
+                          {dailyAttendance.correction && (
+                            <div className="mt-4 p-3 text-sm bg-purple-50 dark:bg-purple-950/40 border border-purple-200 dark:border-purple-900 rounded-lg">
+                              <p className="text-purple-800 dark:text-purple-300">
+                                Pointages corrigés par {dailyAttendance.correction.correctedBy} le{' '}
+                                {new Date(dailyAttendance.correction.correctedAt).toLocaleString('fr-FR')}
+                              </p>
+                              <p className="text-gray-600 dark:text-gray-400 mt-1">Justification : {dailyAttendance.correction.reason}</p>
+                              {dailyAttendance.correction.hasAttachment && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDownloadCorrectionAttachment(dailyAttendance.correction!.correctionId)}
+                                  className="mt-1 h-7 px-2 text-purple-700 dark:text-purple-400"
+                                >
+                                  <Paperclip className="w-3 h-3 mr-1" />
+                                  Justificatif
+                                </Button>
+                              )}
+                            </div>
+                          )}
                           </>
                           )}
                         </>
@@ -1084,6 +1347,17 @@ export function AgentsManagement() {
                     </Card>
                   </TabsContent>
 
+                  {/* Attendance History Tab */}
+                  <TabsContent value="history" className="space-y-4 mt-4">
+                    <AgentAttendanceHistory
+                      matricule={viewingAgent.matricule}
+                      onSelectDate={(date) => {
+                        setSelectedDate(new Date(date));
+                        setDetailTab('attendance');
+                      }}
+                    />
+                  </TabsContent>
+
                   {/* Absence Management Tab */}
                   <TabsContent value="absence" className="space-y-4 mt-4">
                     <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-900">
@@ -1138,8 +1412,9 @@ export function AgentsManagement() {
                                   })}
                                 </TableCell>
                                 <TableCell>
-                                  <Badge variant="outline" className="bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400">
-                                    {absence.type}
+                                  <Badge variant="outline" className="gap-1.5 dark:text-gray-200">
+                                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getAbsenceType(absence.type)?.color }} />
+                                    {getAbsenceLabel(absence.type)}
                                   </Badge>
                                 </TableCell>
                                 <TableCell className="max-w-xs truncate">{absence.reason}</TableCell>
@@ -1195,6 +1470,8 @@ export function AgentsManagement() {
                         </div>
                       )}
                     </Card>
+
+                    <LeaveBalanceTable absences={absences} />
                   </TabsContent>
                 </Tabs>
               </div>
@@ -1248,16 +1525,25 @@ export function AgentsManagement() {
                 </SelectTrigger>
                 <SelectContent>
                   {listeTypeAbsences.map((typeAbsence) => (
-                    <SelectItem key={typeAbsence} value={typeAbsence}>
-                      {typeAbsence}
+                    <SelectItem key={typeAbsence.code} value={typeAbsence.code}>
+                      {typeAbsence.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
             
+            {absenceBalanceWarning && (
+              <p className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                Solde insuffisant : {absenceBalanceWarning}
+              </p>
+            )}
+
             <div className="grid gap-2">
-              <Label htmlFor="reason" className="dark:text-gray-200">Raison / Motif</Label>
+              <Label htmlFor="reason" className="dark:text-gray-200">
+                Raison / Motif{getAbsenceType(absenceForm.type)?.requiresJustification && ' *'}
+              </Label>
               <Textarea
                 id="reason"
                 placeholder="Enter the reason for this absence..."
@@ -1295,7 +1581,7 @@ export function AgentsManagement() {
         itemName={agentToDelete ? `${agentToDelete.nom} (${agentToDelete.matricule})` : ''}
         confirmText="Oui, supprimer cet Agent"
         onConfirm={handleDeleteConfirm}
-        isLoading={isDeleting}
+        isLoading={deleteMutation.pending}
       />
 
       {/* Delete Absence Confirmation Dialog */}
@@ -1304,11 +1590,24 @@ export function AgentsManagement() {
         onOpenChange={setConfirmAbsenceDialogOpen}
         title="Supprimer Absence"
         description="Etes vous sûr de supprimer cet Absence? Cette action est irréversible."
-        itemName={absenceToDelete ? `${absenceToDelete.type} (${formatDateForInput(absenceToDelete.startDate)} - ${formatDateForInput(absenceToDelete.endDate)})` : ''}
+        itemName={absenceToDelete ? `${getAbsenceLabel(absenceToDelete.type)} (${formatDateForInput(absenceToDelete.startDate)} - ${formatDateForInput(absenceToDelete.endDate)})` : ''}
         confirmText="Oui, supprimer cet Absence"
         onConfirm={handleDeleteAbsenceConfirm}
         isLoading={isDeletingAbsence}
       />
+
+      {/* Attendance Correction Dialog */}
+      {viewingAgent && (
+        <AttendanceCorrectionDialog
+          open={isCorrectionOpen}
+          onOpenChange={setIsCorrectionOpen}
+          agent={viewingAgent}
+          date={selectedDate.toISOString().split('T')[0]}
+          attendance={dailyAttendance}
+          exits={temporaryExits}
+          onSaved={() => setAttendanceVersion(version => version + 1)}
+        />
+      )}
     </div>
   );
 }
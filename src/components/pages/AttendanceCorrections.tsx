@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Check, X, Paperclip, PenLine } from 'lucide-react';
+import { attendanceService, getErrorMessage, queryKeys, saveBlob } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useOptimisticMutation } from '../../lib/hooks/useOptimisticMutation';
+import { useAuth } from '../../lib/auth-context';
+import type { AttendanceCorrection, CorrectionPunches, CorrectionStatus } from '../../lib/api/types';
+import { toast } from 'sonner';
+
+const STATUS_LABELS: Record<CorrectionStatus, string> = {
+  Pending: 'En attente',
+  Approved: 'Appliquée',
+  Rejected: 'Refusée',
+};
+
+const STATUS_CLASSES: Record<CorrectionStatus, string> = {
+  Pending: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400',
+  Approved: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  Rejected: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+};
+
+const PUNCH_LABELS: Array<[Exclude<keyof CorrectionPunches, 'temporaryExits'>, string]> = [
+  ['morningCheckIn', 'Arrivée matin'],
+  ['morningCheckOut', 'Départ matin'],
+  ['afternoonCheckIn', 'Arrivée après-midi'],
+  ['afternoonCheckOut', 'Départ après-midi'],
+];
+
+/**
+ * Changed values of a correction, e.g. 'Arrivée matin : — → 08:05'
+ */
+const describeChanges = (correction: AttendanceCorrection): string[] => {
+  const { original, corrected } = correction;
+  const changes = PUNCH_LABELS.filter(([key]) => original[key] !== corrected[key]).map(
+    ([key, label]) => `${label} : ${original[key] ?? '—'} → ${corrected[key] ?? '—'}`
+  );
+  const exits = (punches: CorrectionPunches) =>
+    punches.temporaryExits.map(e => `${e.exitTime}-${e.returnTime ?? '…'}`).join(', ') || '—';
+  if (exits(original) !== exits(corrected)) {
+    changes.push(`Sorties : ${exits(original)} → ${exits(corrected)}`);
+  }
+  return changes;
+};
+
+export function AttendanceCorrections() {
+  const { isAdmin } = useAuth();
+  const [statusFilter, setStatusFilter] = useState<CorrectionStatus | 'all'>('Pending');
+
+  // Corrections (cached, revalidated in the background)
+  const params = statusFilter === 'all' ? {} : { status: statusFilter };
+  const correctionsKey = queryKeys.corrections.list(params);
+  const correctionsQuery = useApiQuery(correctionsKey, signal => attendanceService.getCorrections(params, signal));
+  const corrections = correctionsQuery.data ?? [];
+
+  // Reject dialog
+  const [rejecting, setRejecting] = useState<AttendanceCorrection | null>(null);
+  const [rejectComment, setRejectComment] = useState('');
+
+  // Reviews: the row leaves the "En attente" list immediately
+  const review = (status: CorrectionStatus) => (prev: AttendanceCorrection[] = [], { correction }: { correction: AttendanceCorrection }) =>
+    statusFilter === 'Pending' ? prev.filter(c => c.id !== correction.id) : prev.map(c => (c.id === correction.id ? { ...c, status } : c));
+
+  const approveMutation = useOptimisticMutation({
+    queryKey: correctionsKey,
+    mutationFn: ({ correction }: { correction: AttendanceCorrection }) => attendanceService.approveCorrection(correction.id),
+    optimisticUpdate: review('Approved'),
+    invalidates: [queryKeys.corrections.all, queryKeys.agents.all, queryKeys.statistics.all],
+    successMessage: 'Correction appliquée',
+    errorMessage: 'Validation de la correction impossible',
+  });
+
+  const rejectMutation = useOptimisticMutation({
+    queryKey: correctionsKey,
+    mutationFn: ({ correction, comment }: { correction: AttendanceCorrection; comment: string }) =>
+      attendanceService.rejectCorrection(correction.id, comment),
+    optimisticUpdate: review('Rejected'),
+    invalidates: [queryKeys.corrections.all],
+    successMessage: 'Correction refusée',
+    errorMessage: 'Refus de la correction impossible',
+  });
+
+  const handleReject = () => {
+    if (!rejecting || !rejectComment.trim()) {
+      toast.error('Le motif du refus est obligatoire');
+      return;
+    }
+    rejectMutation.mutate({ correction: rejecting, comment: rejectComment.trim() });
+    setRejecting(null);
+    setRejectComment('');
+  };
+
+  const handleDownload = async (correction: AttendanceCorrection) => {
+    try {
+      const { blob, filename } = await attendanceService.downloadCorrectionAttachment(correction.id);
+      saveBlob(blob, filename);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Téléchargement du justificatif impossible'));
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-gray-900 dark:text-gray-100">Corrections de pointage</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          {isAdmin
+            ? 'Corrections manuelles des pointages et propositions des managers à valider.'
+            : 'Suivi des corrections de pointage proposées.'}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex justify-end mb-6">
+        <Select value={statusFilter} onValueChange={(value: string) => setStatusFilter(value as CorrectionStatus | 'all')}>
+          <SelectTrigger className="w-48 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="Pending">En attente</SelectItem>
+            <SelectItem value="Approved">Appliquées</SelectItem>
+            <SelectItem value="Rejected">Refusées</SelectItem>
+            <SelectItem value="all">Toutes</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Corrections Table */}
+      <Card className="border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50 dark:bg-gray-900/50 border-b dark:border-gray-700">
+              <TableHead className="dark:text-gray-300">Agent</TableHead>
+              <TableHead className="dark:text-gray-300">Jour</TableHead>
+              <TableHead className="dark:text-gray-300">Modifications</TableHead>
+              <TableHead className="dark:text-gray-300">Justification</TableHead>
+              <TableHead className="dark:text-gray-300">Demandée par</TableHead>
+              <TableHead className="dark:text-gray-300">Statut</TableHead>
+              <TableHead className="text-right dark:text-gray-300">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {correctionsQuery.loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-500 dark:text-gray-400">
+                  Chargement...
+                </TableCell>
+              </TableRow>
+            ) : corrections.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-500 dark:text-gray-400">
+                  <PenLine className="w-6 h-6 mx-auto mb-2 opacity-50" />
+                  Aucune correction
+                </TableCell>
+              </TableRow>
+            ) : (
+              corrections.map(correction => (
+                <TableRow key={correction.id} className="dark:border-gray-700 align-top">
+                  <TableCell>
+                    <p className="text-gray-900 dark:text-gray-100">{correction.agentName}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{correction.matricule}</p>
+                  </TableCell>
+                  <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    {new Date(`${correction.date}T00:00:00`).toLocaleDateString('fr-FR')}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700 dark:text-gray-300">
+                    {describeChanges(correction).map(change => (
+                      <p key={change}>{change}</p>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700 dark:text-gray-300 max-w-xs">
+                    <p>{correction.reason}</p>
+                    {correction.attachment && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDownload(correction)}
+                        className="mt-1 h-7 px-2 text-blue-600 dark:text-blue-400"
+                      >
+                        <Paperclip className="w-3 h-3 mr-1" />
+                        {correction.attachment.name}
+                      </Button>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    <p>{correction.requestedBy}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(correction.requestedAt).toLocaleString('fr-FR')}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={STATUS_CLASSES[correction.status]}>
+                      {STATUS_LABELS[correction.status]}
+                    </Badge>
+                    {correction.reviewComment && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{correction.reviewComment}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {isAdmin && correction.status === 'Pending' && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => approveMutation.mutate({ correction })}
+                          className="bg-green-600 hover:bg-green-700 text-white"
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Valider
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRejecting(correction)}
+                          className="text-red-600 border-red-200 hover:bg-red-50 dark:border-red-900 dark:hover:bg-red-950"
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Refuser
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {/* Reject Dialog */}
+      <Dialog open={!!rejecting} onOpenChange={(open: boolean) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-[480px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">Refuser la correction</DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              {rejecting && `${rejecting.agentName} — ${new Date(`${rejecting.date}T00:00:00`).toLocaleDateString('fr-FR')}. `}
+              Le motif sera visible par {rejecting?.requestedBy}.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="reject-comment" className="dark:text-gray-300">Motif du refus *</Label>
+            <Textarea
+              id="reject-comment"
+              value={rejectComment}
+              onChange={(e) => setRejectComment(e.target.value)}
+              rows={3}
+              className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)} className="dark:border-gray-600 dark:text-gray-300">
+              Annuler
+            </Button>
+            <Button onClick={handleReject} className="bg-red-600 hover:bg-red-700 text-white">
+              Refuser
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,7 +3,8 @@ import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
-import { Calendar as CalendarIcon, Plus, Download, Upload, Trash2, Users, UserCheck, UserX, Clock, TrendingUp } from 'lucide-react';
+import { Calendar as CalendarIcon, Plus, Download, Upload, Trash2, Users, UserCheck, UserX, Clock, TrendingUp, GanttChart } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import jsPDF from "jspdf";
 import autoTable from "jspdf-autotable";
 import {
@@ -30,9 +31,12 @@ import {
 } from '../ui/table';
 import { Label } from '../ui/label';
 import { Switch } from '../ui/switch';
-import { calendarService } from '../../lib/api';
-import type { Holiday } from '../../lib/api/types';
-import { getDayStatistics, type DayStatistics } from '../../lib/api/legacy-types';
+import { calendarService, attendanceService, queryKeys } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useOptimisticMutation } from '../../lib/hooks/useOptimisticMutation';
+import { useAbsenceTypes } from '../../lib/hooks/useAbsenceTypes';
+import { divisionLoads } from '../../lib/team-availability';
+import type { Holiday, DayStatistics, PointageRecord } from '../../lib/api/types';
 import { ConfirmDialog } from '../ConfirmDialog';
 import { toast } from 'sonner';
 import { getInitials } from '../../lib/utils';
@@ -40,8 +44,18 @@ import { getInitials } from '../../lib/utils';
 const daysOfWeek = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
 const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
 
+type CorrectedField = NonNullable<PointageRecord['correctedFields']>[number];
+
+// Marker of a value corrected manually (the badge punch is kept by the server)
+function CorrectedMark({ record, field }: { record: PointageRecord; field: CorrectedField }) {
+  if (!record.correctedFields?.includes(field)) return null;
+  return (
+    <span title="Corrigé manuellement" className="ml-1 text-purple-600 dark:text-purple-400">*</span>
+  );
+}
+
 export function CalendarHolidays() {
-  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const { getLabel: getAbsenceLabel, getColor: getAbsenceColor } = useAbsenceTypes();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [currentDate, setCurrentDate] = useState(() => {
     const now = new Date();
@@ -49,14 +63,12 @@ export function CalendarHolidays() {
   });
     const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [dayDetails, setDayDetails] = useState<DayStatistics | null>(null);
-  const [loading, setLoading] = useState(true);
 
   const [dayStatsMap, setDayStatsMap] = useState<Record<string, DayStatistics>>({});
   
   // Confirm dialog state for delete operations
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [holidayToDelete, setHolidayToDelete] = useState<Holiday | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
 
   // état du formulaire d'ajout
   const [newHoliday, setNewHoliday] = useState({
@@ -66,7 +78,6 @@ export function CalendarHolidays() {
   });
 
   // état envoi
-  const [isSubmittingHoliday, setIsSubmittingHoliday] = useState(false);
 
   //--------------------------
 
@@ -85,8 +96,8 @@ export function CalendarHolidays() {
   
       for (let day = 1; day <= daysInMonth; day++) {
         const date = new Date(year, month, day);
-        const stats = await getDayStatistics(date);
-        statsByDate[date.toISOString().split('T')[0]] = stats;
+        const response = await attendanceService.getDayStatistics(date);
+        if (response.data) statsByDate[date.toISOString().split('T')[0]] = response.data;
       }
   
       setDayStatsMap(statsByDate);
@@ -96,25 +107,49 @@ export function CalendarHolidays() {
   }, [currentDate]);
   
 
-  // Fetch holidays from API
-  useEffect(() => {
-    const fetchHolidays = async () => {
-      try {
-        setLoading(true);
-        const response = await calendarService.getHolidays({
-          year: currentDate.getFullYear(),
-        });
-        if (response.success && response.data) {
-          setHolidays(response.data);
-        }
-      } catch (error) {
-        console.error('Failed to fetch holidays:', error);
-      } finally {
-        setLoading(false);
-      }
+  // Fetch holidays from API (cached per year, refetched when the year changes)
+  const holidaysParams = { year: currentDate.getFullYear() };
+  const holidaysKey = queryKeys.holidays.list(holidaysParams);
+  const holidaysQuery = useApiQuery(holidaysKey, signal => calendarService.getHolidays(holidaysParams, signal));
+  const holidays = holidaysQuery.data ?? [];
+
+  // Long absences of the month (overlay: agents away and divisions beyond the alert threshold)
+  const monthPrefix = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`;
+  const availabilityParams = {
+    from: `${monthPrefix}-01`,
+    to: `${monthPrefix}-${String(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0).getDate()).padStart(2, '0')}`,
+  };
+  const availabilityQuery = useApiQuery(queryKeys.agents.availability(availabilityParams), signal =>
+    calendarService.getTeamAvailability(availabilityParams, signal)
+  );
+  const getDayAvailability = (day: number | null) => {
+    const availability = availabilityQuery.data;
+    if (day === null || !availability) return null;
+    const loads = divisionLoads(availability, `${monthPrefix}-${String(day).padStart(2, '0')}`);
+    return {
+      away: loads.reduce((sum, load) => sum + load.away, 0),
+      overloaded: loads.filter(load => load.away > 0 && load.percent > availability.thresholdPercent),
     };
-    fetchHolidays();
-  }, [currentDate]);
+  };
+
+  // Mutations: the calendar is updated immediately and rolled back if the server refuses
+  const createMutation = useOptimisticMutation({
+    queryKey: holidaysKey,
+    mutationFn: (holiday: Omit<Holiday, 'id'>) => calendarService.createHoliday(holiday),
+    optimisticUpdate: (prev: Holiday[] = [], holiday) => [...prev, { ...holiday, id: `tmp-${Date.now()}` }],
+    invalidates: [queryKeys.holidays.all],
+    successMessage: 'Holiday added',
+    errorMessage: 'Failed to create holiday',
+  });
+
+  const deleteMutation = useOptimisticMutation({
+    queryKey: holidaysKey,
+    mutationFn: (holiday: Holiday) => calendarService.deleteHoliday(holiday.id),
+    optimisticUpdate: (prev: Holiday[] = [], holiday) => prev.filter(h => h.id !== holiday.id),
+    invalidates: [queryKeys.holidays.all],
+    errorMessage: 'Echec Suppréssion Jour férier',
+    undo: { message: holiday => `${holiday.name} a été éffacer du calendrier.` },
+  });
 
 
 // simple validation minimale
@@ -145,37 +180,17 @@ const handleAddHoliday = async () => {
     return;
   }
 
-  try {
-    setIsSubmittingHoliday(true);
-
-    // appelle ton service back
-    const response = await calendarService.createHoliday({
-      name: newHoliday.name,
-      date: newHoliday.date,
-      recurring: newHoliday.recurring,
-    });
-
-    // réponse attendue: { success: true, data: Holiday }
-    if (response?.success && response.data) {
-      // Met à jour la liste locale (optimistic / client-side)
-      setHolidays(prev => [ ...prev, response.data ]);
-
-      // feedback
-      toast?.success ? toast.success('Holiday added') : console.log('Holiday added');
+  // appelle ton service back (le jour férié apparaît tout de suite dans le calendrier)
+  const created = await createMutation.mutate({
+    name: newHoliday.name,
+    date: newHoliday.date,
+    recurring: newHoliday.recurring,
+  });
 
-      // reset form + fermer modal
-      setNewHoliday({ name: '', date: '', recurring: false });
-      setIsAddDialogOpen(false);
-    } else {
-      // Backend a renvoyé une erreur contrôlée
-      const message = response?.error || response?.message || 'Failed to create holiday';
-      toast?.error ? toast.error(message) : console.error(message);
-    }
-  } catch (error: any) {
-    console.error('Error creating holiday:', error);
-    toast?.error ? toast.error(error?.message || 'Network error') : alert(error?.message || 'Network error');
-  } finally {
-    setIsSubmittingHoliday(false);
+  if (created) {
+    // reset form + fermer modal
+    setNewHoliday({ name: '', date: '', recurring: false });
+    setIsAddDialogOpen(false);
   }
 };
 
@@ -272,30 +287,11 @@ const handleAddHoliday = async () => {
   // Perform the actual deletion after confirmation
   const handleDeleteConfirm = async () => {
     if (!holidayToDelete) return;
-    
-    try {
-      setIsDeleting(true);
-      const response = await calendarService.deleteHoliday(holidayToDelete.id);
-      
-      if (response.success) {
-        setHolidays(holidays.filter(h => h.id !== holidayToDelete.id));
-        toast.success('Jour férier supprimer avec succès', {
-          description: `${holidayToDelete.name} a été éffacer du calendrier.`,
-        });
-      } else {
-        toast.error('Echec Suppréssion Jour férier', {
-          description: response.error || 'An error occurred while deleting the holiday.',
-        });
-      }
-    } catch (error) {
-      console.error('Echec de Suppréssion:', error);
-      toast.error('Failed to delete holiday', {
-        description: 'An unexpected error occurred. Please try again.',
-      });
-    } finally {
-      setIsDeleting(false);
-      setHolidayToDelete(null);
-    }
+
+    const holiday = holidayToDelete;
+    setHolidayToDelete(null);
+    // Suppression annulable pendant quelques secondes (voir le toast)
+    await deleteMutation.mutate(holiday);
   };
 
   const handleDateClick = async (day: number | null) => {
@@ -305,8 +301,8 @@ const handleAddHoliday = async () => {
     setDateDeb(clickedDate);
   
     try {
-      const data = await getDayStatistics(clickedDate);
-      setDayDetails(data);
+      const { data } = await attendanceService.getDayStatistics(clickedDate);
+      setDayDetails(data ?? null);
       console.log("Day details:", data);
     } catch (error) {
       console.error("Error fetching day statistics:", error);
@@ -342,12 +338,14 @@ const handleAddHoliday = async () => {
     let d = new Date(startDate);
   
     while (d <= endDate) {
-      const dayData = await getDayStatistics(new Date(d));
+      const { data: dayData } = await attendanceService.getDayStatistics(new Date(d));
   
-      results.push({
-        ...dayData,
-        date: d.toISOString().split("T")[0],  // écrase proprement
-      });
+      if (dayData) {
+        results.push({
+          ...dayData,
+          date: d.toISOString().split("T")[0],  // écrase proprement
+        });
+      }
   
       d.setDate(d.getDate() + 1);
     }
@@ -497,14 +495,28 @@ const handleAddHoliday = async () => {
       doc.text(`Date : ${formattedDate}`, 14, currentY);
       currentY += 8;
   
+      // Valeurs corrigées manuellement marquées d'un astérisque
+      const cell = (item: PointageRecord, field: CorrectedField, value: string | number) =>
+        item.correctedFields?.includes(field) ? `${value} *` : value;
+      // Agents en absence : type d'absence (libellé et couleur du catalogue) à la place des pointages
       const tableRows = day.pointageRecords.map((item) => [
         item.agentName,
         item.division,
-        formatTimeToHourMinute(item.checkInAM) || "-",
-        formatTimeToHourMinute(item.checkOutAM) || "-",
-        formatTimeToHourMinute(item.checkInPM) || "-",
-        formatTimeToHourMinute(item.checkOutPM) || "-",
-        item.temporaryExits ? item.temporaryExits.length : 0,
+        ...(item.absenceType
+          ? [
+              {
+                content: getAbsenceLabel(item.absenceType),
+                colSpan: 4,
+                styles: { halign: "center" as const, fontStyle: "bold" as const, textColor: getAbsenceColor(item.absenceType) },
+              },
+            ]
+          : [
+              cell(item, "checkInAM", formatTimeToHourMinute(item.checkInAM) || "-"),
+              cell(item, "checkOutAM", formatTimeToHourMinute(item.checkOutAM) || "-"),
+              cell(item, "checkInPM", formatTimeToHourMinute(item.checkInPM) || "-"),
+              cell(item, "checkOutPM", formatTimeToHourMinute(item.checkOutPM) || "-"),
+            ]),
+        cell(item, "temporaryExits", item.temporaryExits ? item.temporaryExits.length : 0),
         item.totalMissedTime || "0h 00m",
       ]);
   
@@ -533,6 +545,18 @@ const handleAddHoliday = async () => {
       });
   
       currentY = (doc as any).lastAutoTable.finalY + 10;
+
+      if (day.pointageRecords.some((item) => item.correctedFields?.length)) {
+        doc.setFontSize(8);
+        doc.setFont("helvetica", "italic");
+        doc.setTextColor(100);
+        doc.text(
+          "* Valeur corrigée manuellement ; le pointage d'origine du badge est conservé dans l'historique.",
+          14,
+          currentY - 5
+        );
+        currentY += 3;
+      }
   
       if (currentY > pageHeight - 40) {
         doc.addPage();
@@ -592,6 +616,7 @@ const handleAddHoliday = async () => {
               ))}
               {getDaysInMonth(currentDate).map((day, index) => {
                 const stats = getDayStats(day);
+                const away = getDayAvailability(day);
                 console.log(stats);
                 
                 return (
@@ -627,6 +652,17 @@ const handleAddHoliday = async () => {
                                 <div className={`w-1 h-1 rounded-full ${stats.attendanceRate >= 90 ? 'bg-green-500' : stats.attendanceRate >= 80 ? 'bg-yellow-500' : 'bg-red-500'}`} />
                               </div>
                             )}
+                            {!isHoliday(day) && !isWeekend(day) && away && away.away > 0 && (
+                              <span
+                                className={`mt-1 px-1 rounded text-[10px] leading-4 ${
+                                  away.overloaded.length
+                                    ? 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+                                    : 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
+                                }`}
+                              >
+                                {away.away} abs.
+                              </span>
+                            )}
                           </div>
                         )}
                       </div>
@@ -663,6 +699,17 @@ const handleAddHoliday = async () => {
                               <span className="text-gray-600 dark:text-gray-400">Absent:</span>
                               <span className="text-gray-900 dark:text-gray-100">{stats.absent}</span>
                             </div>
+                            {away && away.away > 0 && (
+                              <div className="flex items-center justify-between gap-4">
+                                <span className="text-gray-600 dark:text-gray-400">En absence longue:</span>
+                                <span className="text-gray-900 dark:text-gray-100">{away.away}</span>
+                              </div>
+                            )}
+                            {away?.overloaded.map(load => (
+                              <p key={load.division} className="text-red-600 dark:text-red-400">
+                                {load.division} : {load.away}/{load.total} absents ({load.percent} %)
+                              </p>
+                            ))}
                           </div>
                           <p className="text-xs text-blue-600 dark:text-blue-400 pt-1 border-t border-gray-200 dark:border-gray-600">
                             Appuyer pour plus de Détails
@@ -688,6 +735,16 @@ const handleAddHoliday = async () => {
                 <div className="w-4 h-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-700 rounded"></div>
                 <span className="text-sm text-gray-600 dark:text-gray-400">Jour Férier</span>
               </div>
+              <div className="flex items-center gap-2">
+                <span className="px-1 rounded text-[10px] leading-4 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">n abs.</span>
+                <span className="text-sm text-gray-600 dark:text-gray-400">Seuil d'absence dépassé</span>
+              </div>
+              <Button asChild variant="outline" size="sm" className="ml-auto dark:border-gray-600 dark:text-gray-300">
+                <Link to="/team-availability">
+                  <GanttChart className="w-4 h-4 mr-1" />
+                  Disponibilités
+                </Link>
+              </Button>
             </div>
           </Card>
 
@@ -835,9 +892,9 @@ const handleAddHoliday = async () => {
               <Button
                 className="bg-blue-600 hover:bg-blue-700"
                 onClick={handleAddHoliday}
-                disabled={isSubmittingHoliday}
+                disabled={createMutation.pending}
               >
-                {isSubmittingHoliday ? 'Ajout...' : 'Ajouter Jour ferié'}
+                {createMutation.pending ? 'Ajout...' : 'Ajouter Jour ferié'}
               </Button>
             </DialogFooter>
           </DialogContent>
@@ -988,19 +1045,38 @@ const handleAddHoliday = async () => {
                                   {record.division}
                                 </Badge>
                               </TableCell>
-                              <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
-                                {formatTimeToHourMinute(record.checkInAM) || '-'}
-                              </TableCell>
-                              <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
-                                {formatTimeToHourMinute(record.checkOutAM)|| '-'}
-                              </TableCell>
-                              <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
-                                {formatTimeToHourMinute(record.checkInPM) || '-'}
-                              </TableCell>
-                              <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
-                                {formatTimeToHourMinute(record.checkOutPM) || '-'}
-                              </TableCell>
+                              {record.absenceType ? (
+                                <TableCell colSpan={4} className="text-center">
+                                  <Badge
+                                    variant="outline"
+                                    className="whitespace-nowrap"
+                                    style={{ color: getAbsenceColor(record.absenceType), borderColor: getAbsenceColor(record.absenceType) }}
+                                  >
+                                    {getAbsenceLabel(record.absenceType)}
+                                  </Badge>
+                                </TableCell>
+                              ) : (
+                                <>
+                                  <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                                    {formatTimeToHourMinute(record.checkInAM) || '-'}
+                                    <CorrectedMark record={record} field="checkInAM" />
+                                  </TableCell>
+                                  <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                                    {formatTimeToHourMinute(record.checkOutAM)|| '-'}
+                                    <CorrectedMark record={record} field="checkOutAM" />
+                                  </TableCell>
+                                  <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                                    {formatTimeToHourMinute(record.checkInPM) || '-'}
+                                    <CorrectedMark record={record} field="checkInPM" />
+                                  </TableCell>
+                                  <TableCell className="text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                                    {formatTimeToHourMinute(record.checkOutPM) || '-'}
+                                    <CorrectedMark record={record} field="checkOutPM" />
+                                  </TableCell>
+                                </>
+                              )}
                               <TableCell className="text-center">
+                                <CorrectedMark record={record} field="temporaryExits" />
                                 {record.temporaryExits && record.temporaryExits.length > 0 ? (
                                   <Tooltip>
                                     <TooltipTrigger asChild>
@@ -1091,7 +1167,7 @@ const handleAddHoliday = async () => {
           itemName={holidayToDelete ? `${holidayToDelete.name} (${formatLocalMD(holidayToDelete.date)})` : ''}
           confirmText="Oui, supprimer ce Jour Férier"
           onConfirm={handleDeleteConfirm}
-          isLoading={isDeleting}
+          isLoading={deleteMutation.pending}
         />
       </div>
     </TooltipProvider>
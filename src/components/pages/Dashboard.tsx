@@ -17,82 +17,53 @@ import {
   AlertCircle,
   TrendingUp,
   AlertTriangle,
-  RefreshCcw
+  RefreshCcw,
+  Loader2
 } from 'lucide-react';
 import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { statisticsService } from '../../lib/api';
-import { useApi } from '../../lib/hooks/useApi';
+import { statisticsService, reportService, queryClient, queryKeys, getErrorMessage, saveBlob } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
 import type { DashboardStats, RecentActivity } from '../../lib/api/types';
 import { toast } from 'sonner';
-import { Label } from '../ui/label';
-
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '../ui/select';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogFooter,
-  DialogHeader,
-  DialogTitle,
-} from '../ui/dialog';
-import { generateMonthlyReport } from '../../lib/api/report.service';
+import { ReportGeneratorDialog } from '../ReportGeneratorDialog';
 
 export function Dashboard() {
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [activities, setActivities] = useState<RecentActivity[]>([]);
-  const [chartData, setChartData] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
-
+  // Cached queries: revisiting the dashboard shows the last data immediately
+  const statsQuery = useApiQuery(queryKeys.statistics.dashboard(), signal =>
+    statisticsService.getDashboardStats(signal)
+  );
+  const activitiesQuery = useApiQuery(queryKeys.statistics.activities(5), signal =>
+    statisticsService.getRecentActivities(5, signal)
+  );
+  const attendanceQuery = useApiQuery(queryKeys.statistics.attendance(), signal =>
+    statisticsService.getAttendanceStats(undefined, signal)
+  );
 
-  const [selectedMonth, setSelectedMonth] = useState<string>(String(new Date().getMonth() + 1));
-  const [selectedYear, setSelectedYear] = useState<string>(String(new Date().getFullYear()));
-  // Fetch all dashboard data
-  const fetchDashboardData = async () => {
-    setLoading(true);
-    setError(null);
+  const stats: DashboardStats | null = statsQuery.data;
+  const activities: RecentActivity[] = activitiesQuery.data ?? [];
+  const chartData: any = attendanceQuery.data;
+  const error = statsQuery.error || activitiesQuery.error || attendanceQuery.error;
+  const loading = statsQuery.loading;
 
-    try {
-      // Fetch dashboard stats
-      const statsResponse = await statisticsService.getDashboardStats();
-      if (statsResponse.success && statsResponse.data) {
-        setStats(statsResponse.data);
-      }
+  // Report of the current month (quick action) and report generation module
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
 
-      // Fetch recent activities
-      const activitiesResponse = await statisticsService.getRecentActivities(5);
-      if (activitiesResponse.success && activitiesResponse.data) {
-        setActivities(activitiesResponse.data);
-      }
+  // Refetch all dashboard data
+  const fetchDashboardData = () => {
+    statsQuery.refetch();
+    activitiesQuery.refetch();
+    attendanceQuery.refetch();
+  };
 
-      // Fetch attendance stats for charts
-      const attendanceResponse = await statisticsService.getAttendanceStats();
-      if (attendanceResponse.success && attendanceResponse.data) {
-        setChartData(attendanceResponse.data);
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to load dashboard data';
-      setError(errorMessage);
+  // Notify load failures
+  useEffect(() => {
+    if (error) {
       toast.error('Failed to load dashboard', {
-        description: errorMessage,
+        description: error,
       });
-    } finally {
-      setLoading(false);
     }
-  };
-
-  // Load data on mount
-  useEffect(() => {
-    fetchDashboardData();
-  }, []);
+  }, [error]);
 
   // KPI configuration
   const kpiData = stats ? [
@@ -208,39 +179,30 @@ export function Dashboard() {
     );
   }
   
-    // Exemple : mois actuel
-     // car janvier == 0
-  
-    const handleGenerate = async () => {
+  // Generate the report of the current month (recorded in the report history)
+  const handleGenerate = async () => {
     const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth() + 1;
-      setLoading(true);
-      try {
-        await generateMonthlyReport(currentYear, currentMonth);
-      } catch (err) {
-        console.error(err);
-      }
-      setLoading(false);
-      toast.success("Rapport Génerer avec Succes");
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const from = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-01`;
+    const lastDay = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+    setIsGenerating(true);
+    try {
+      const { blob, filename } = await reportService.generateReport({
+        type: 'monthly-report',
+        format: 'pdf',
+        from,
+        to: `${from.slice(0, 8)}${pad(lastDay)}`,
+      });
+      saveBlob(blob, filename);
+      queryClient.invalidate(queryKeys.reports.all);
+      toast.success('Rapport du mois généré', { description: filename });
+    } catch (err) {
+      toast.error(getErrorMessage(err, 'Génération du rapport impossible'));
+    } finally {
+      setIsGenerating(false);
     }
+  };
 
-      // Handle report generation
-    const handleGenerateReport = async() => {
-      const now = new Date(2025, parseInt(selectedMonth) - 1, 1);
-      const currentYear = now.getFullYear();
-      const currentMonth = now.getMonth() + 1;
-      setLoading(true);
-      try {
-        await generateMonthlyReport(currentYear, currentMonth);
-      } catch (err) {
-        console.error(err);
-      }
-      setLoading(false);
-      setIsReportDialogOpen(false);
-      toast.success("Rapport Génerer avec Succes");
-    }
-        
   return (
     <div className="p-8">
       <div className="mb-8 flex items-center justify-between">
@@ -367,7 +329,11 @@ export function Dashboard() {
                       </span>
                     </div>
                     <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{activity.description}</p>
-                    
+                    {activity.status === 'pending' && (
+                      <Badge variant="outline" className="mt-2 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                        En attente
+                      </Badge>
+                    )}
                   </div>
                 </div>
               ))}
@@ -383,13 +349,13 @@ export function Dashboard() {
         <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
           <h3 className="text-gray-900 dark:text-gray-100 mb-4">Actions rapide</h3>
           <div className="space-y-3">
-            <Button variant="outline" onClick={handleGenerate} className="w-full justify-start border-gray-300 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg">
-              <FileText className="w-4 h-4 mr-2" />
-              Generer Rapport du Mois
+            <Button variant="outline" onClick={handleGenerate} disabled={isGenerating} className="w-full justify-start border-gray-300 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg">
+              {isGenerating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+              Générer le rapport du mois
             </Button>
             <Button variant="outline" onClick={() => setIsReportDialogOpen(true)} className="w-full justify-start border-gray-300 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg">
               <FileText className="w-4 h-4 mr-2" />
-              Generer Rapport personalisé
+              Rapport personnalisé et historique
             </Button>
           </div>
 
@@ -419,71 +385,7 @@ export function Dashboard() {
       </div>
 
       {/* Report Dialog */}
-      <Dialog open={isReportDialogOpen} onOpenChange={setIsReportDialogOpen}>
-        <DialogContent className="sm:max-w-[425px] dark:bg-gray-800 dark:border-gray-700">
-          <DialogHeader>
-            <DialogTitle className="dark:text-gray-100">Generate Report</DialogTitle>
-            <DialogDescription className="dark:text-gray-400">
-              Select the month and year for the report.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="grid grid-cols-2 gap-4 py-4">
-            <div className="space-y-2">
-              <Label htmlFor="month" className="dark:text-gray-300">Month</Label>
-              <Select value={selectedMonth} onValueChange={setSelectedMonth}>
-                <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
-                  <SelectValue placeholder="Select month" />
-                </SelectTrigger>
-                <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
-                  <SelectItem value="1">January</SelectItem>
-                  <SelectItem value="2">February</SelectItem>
-                  <SelectItem value="3">March</SelectItem>
-                  <SelectItem value="4">April</SelectItem>
-                  <SelectItem value="5">May</SelectItem>
-                  <SelectItem value="6">June</SelectItem>
-                  <SelectItem value="7">July</SelectItem>
-                  <SelectItem value="8">August</SelectItem>
-                  <SelectItem value="9">September</SelectItem>
-                  <SelectItem value="10">October</SelectItem>
-                  <SelectItem value="11">November</SelectItem>
-                  <SelectItem value="12">December</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="year" className="dark:text-gray-300">Year</Label>
-              <Select value={selectedYear} onValueChange={setSelectedYear}>
-                <SelectTrigger className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-200">
-                  <SelectValue placeholder="Select year" />
-                </SelectTrigger>
-                <SelectContent className="dark:bg-gray-800 dark:border-gray-700">
-                  <SelectItem value="2023">2023</SelectItem>
-                  <SelectItem value="2024">2024</SelectItem>
-                  <SelectItem value="2025">2025</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-          <DialogFooter className="gap-2">
-            <Button 
-              type="button" 
-              variant="outline" 
-              onClick={() => setIsReportDialogOpen(false)}
-              className="dark:bg-gray-700 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-600"
-            >
-              Annulé
-            </Button>
-            <Button 
-              type="button" 
-              className="bg-blue-600 hover:bg-blue-700 text-white" 
-              onClick={handleGenerateReport}
-            >
-              <FileText className="w-4 h-4 mr-2" />
-              Generer
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      <ReportGeneratorDialog open={isReportDialogOpen} onOpenChange={setIsReportDialogOpen} />
     </div>
   );
 }
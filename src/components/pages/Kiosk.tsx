@@ -0,0 +1,372 @@
+/**
+ * ============================================================================
+ * KIOSK PAGE
+ * ============================================================================
+ *
+ * Full-screen check-in kiosk: agents present their QR badge and the punch
+ * is recorded immediately.
+ *
+ * Features:
+ * - Camera scanning (BarcodeDetector) and keyboard-wedge barcode scanners
+ * - Punch type decided from the active work schedule and today's punches
+ *   (see lib/punch)
+ * - Large confirmation with the agent name, punch and late / on-time status
+ * - "Départ anticipé" button for agents leaving before the end of the period
+ * - Full-screen toggle; leaving the kiosk logs the kiosk session out
+ *
+ * Reserved to the Kiosk role (kiosk sessions cannot open any other page)
+ * and to administrators for testing.
+ *
+ * @module pages/Kiosk
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '../ui/button';
+import { ConfirmDialog } from '../ConfirmDialog';
+import { Camera, CameraOff, CheckCircle2, Clock, LogOut, Maximize, ScanLine, XCircle, Loader2, DoorOpen } from 'lucide-react';
+import {
+  ApiError,
+  agentsService,
+  attendanceService,
+  badgesService,
+  getErrorMessage,
+  queryKeys,
+  schedulesService,
+  SessionExpiredError,
+} from '../../lib/api';
+import { toIsoDate } from '../../lib/utils';
+import type { Agent, AttendancePunch, DailyAttendanceDetails, TemporaryExit } from '../../lib/api/types';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useCameraScanner, useKeyboardWedge, type CameraStatus } from '../../lib/hooks/useBadgeScanner';
+import { decidePunchType, PUNCH_TYPE_LABELS } from '../../lib/punch';
+import { useAuth } from '../../lib/auth-context';
+
+/**
+ * Time the confirmation stays on screen (ms)
+ */
+const RESULT_DURATION = 4000;
+
+/**
+ * The same badge scanned again within this delay is ignored (ms)
+ */
+const SAME_BADGE_COOLDOWN = 8000;
+
+/**
+ * Messages shown when the camera cannot be used
+ */
+const CAMERA_MESSAGES: Partial<Record<CameraStatus, string>> = {
+  unsupported: 'Caméra non prise en charge par ce navigateur : utilisez le lecteur de badges.',
+  denied: 'Accès à la caméra refusé : autorisez-le dans le navigateur ou utilisez le lecteur de badges.',
+  error: 'Caméra indisponible : utilisez le lecteur de badges.',
+};
+
+type KioskState =
+  | { phase: 'ready' }
+  | { phase: 'processing' }
+  | { phase: 'success'; agent: Agent; punch: AttendancePunch }
+  | { phase: 'error'; title: string; message: string };
+
+/**
+ * True for network errors, timeouts and server errors (the scan may be retried)
+ */
+const isTransportError = (error: unknown): boolean =>
+  error instanceof ApiError
+    ? error.status === 0 || error.status === 408 || error.status >= 500
+    : !(error instanceof SessionExpiredError);
+
+/**
+ * Punctuality line of the confirmation
+ */
+const describePunctuality = (punch: AttendancePunch): string => {
+  if (punch.punctuality === 'Late') return `En retard de ${punch.minutes} min`;
+  if (punch.punctuality === 'Early') return `Départ anticipé de ${punch.minutes} min`;
+  return punch.type.endsWith('In') ? 'À l\'heure' : 'Bonne journée';
+};
+
+/**
+ * Kiosk Component
+ *
+ * @returns {JSX.Element} Full-screen kiosk
+ */
+export function Kiosk() {
+  const { currentUser, logout } = useAuth();
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const [state, setState] = useState<KioskState>({ phase: 'ready' });
+  const [now, setNow] = useState(() => new Date());
+  const [cameraEnabled, setCameraEnabled] = useState(true);
+  const [earlyDeparture, setEarlyDeparture] = useState(false);
+  const [isExitDialogOpen, setIsExitDialogOpen] = useState(false);
+
+  const busyRef = useRef(false);
+  const lastScanRef = useRef<{ token: string; at: number } | null>(null);
+
+  const scheduleQuery = useApiQuery(
+    queryKeys.schedules.active(),
+    signal => schedulesService.getActiveSchedule(signal),
+    { staleTime: 5 * 60 * 1000 }
+  );
+  const schedule = scheduleQuery.data;
+
+  // Clock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Back to the scan screen after a confirmation or an error
+  useEffect(() => {
+    if (state.phase !== 'success' && state.phase !== 'error') return;
+    const timer = setTimeout(() => setState({ phase: 'ready' }), RESULT_DURATION);
+    return () => clearTimeout(timer);
+  }, [state]);
+
+  const handleScan = useCallback(
+    async (rawToken: string) => {
+      const token = rawToken.trim();
+      const last = lastScanRef.current;
+      if (busyRef.current || !token) return;
+      if (last && last.token === token && Date.now() - last.at < SAME_BADGE_COOLDOWN) return;
+      if (!schedule) {
+        setState({ phase: 'error', title: 'Pointage impossible', message: 'Aucun horaire de travail actif.' });
+        return;
+      }
+
+      busyRef.current = true;
+      lastScanRef.current = { token, at: Date.now() };
+      setState({ phase: 'processing' });
+
+      let agent: Agent | null = null;
+      try {
+        const { data: verification } = await badgesService.verifyBadge(token);
+        agent = verification!.agent;
+        const scannedAt = new Date();
+        const date = toIsoDate(scannedAt);
+
+        // Today's punches (404 = nothing recorded yet)
+        const [day, exits] = await Promise.all([
+          agentsService
+            .getDailyAttendance(agent.matricule, date)
+            .then(response => response.data ?? {})
+            .catch((error: unknown) => {
+              if (error instanceof ApiError && error.status === 404) return {};
+              throw error;
+            }),
+          agentsService
+            .getTemporaryExits(agent.matricule, date)
+            .then(response => response.data ?? [])
+            .catch((error: unknown) => {
+              if (error instanceof ApiError && error.status === 404) return [];
+              throw error;
+            }),
+        ]);
+
+        const type = decidePunchType(
+          schedule,
+          day as Partial<DailyAttendanceDetails>,
+          exits as TemporaryExit[],
+          scannedAt,
+          earlyDeparture
+        );
+        if (!type) {
+          setState({
+            phase: 'error',
+            title: agent.nom,
+            message: 'Les pointages de cette demi-journée sont déjà complets.',
+          });
+          return;
+        }
+
+        const { data: punch } = await attendanceService.recordPunch({
+          token,
+          type,
+          timestamp: scannedAt.toISOString(),
+        });
+        setState({ phase: 'success', agent, punch: punch! });
+      } catch (error) {
+        if (isTransportError(error)) {
+          // Nothing was recorded: the same badge may be presented again at once
+          lastScanRef.current = null;
+          setState({
+            phase: 'error',
+            title: 'Serveur injoignable',
+            message: "Le pointage n'a pas été enregistré. Présentez à nouveau votre badge dans un instant.",
+          });
+        } else {
+          // Before verification the badge itself was rejected (signature, revocation, unknown agent)
+          setState({ phase: 'error', title: agent ? agent.nom : 'Badge refusé', message: getErrorMessage(error) });
+        }
+      } finally {
+        busyRef.current = false;
+        setEarlyDeparture(false);
+      }
+    },
+    [schedule, earlyDeparture]
+  );
+
+  useKeyboardWedge(handleScan);
+  const cameraStatus = useCameraScanner(videoRef, handleScan, cameraEnabled);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    } else {
+      document.documentElement.requestFullscreen().catch(() => undefined);
+    }
+  };
+
+  const handleExit = () => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+    if (currentUser?.role === 'Kiosk') {
+      logout();
+      navigate('/login', { replace: true });
+    } else {
+      navigate('/', { replace: true });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-950 text-white flex flex-col select-none">
+      {/* Header: clock and kiosk controls */}
+      <header className="flex items-center justify-between px-8 py-5 border-b border-white/10">
+        <div className="flex items-center gap-3">
+          <ScanLine className="w-8 h-8 text-blue-400" />
+          <div>
+            <p className="text-xl">Borne de pointage</p>
+            <p className="text-sm text-gray-400">{schedule ? schedule.name : 'Chargement de l\'horaire...'}</p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-4xl tabular-nums">
+            {now.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+          </p>
+          <p className="text-sm text-gray-400 capitalize">
+            {now.toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+          </p>
+        </div>
+      </header>
+
+      {/* Main area */}
+      <main className="relative flex-1 flex items-center justify-center p-8">
+        <div className="flex flex-col items-center gap-6 w-full max-w-3xl">
+          <div className="relative w-full aspect-video rounded-3xl overflow-hidden bg-black border-4 border-white/10">
+            <video
+              ref={videoRef}
+              muted
+              playsInline
+              className={`w-full h-full object-cover -scale-x-100 ${cameraStatus === 'active' && cameraEnabled ? '' : 'hidden'}`}
+            />
+            {(cameraStatus !== 'active' || !cameraEnabled) && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-8 text-center text-gray-300">
+                {cameraEnabled && cameraStatus === 'starting' ? (
+                  <Loader2 className="w-16 h-16 animate-spin" />
+                ) : (
+                  <CameraOff className="w-16 h-16" />
+                )}
+                <p className="text-xl">
+                  {cameraEnabled ? CAMERA_MESSAGES[cameraStatus] ?? 'Démarrage de la caméra...' : 'Caméra désactivée : utilisez le lecteur de badges.'}
+                </p>
+              </div>
+            )}
+            {state.phase === 'processing' && (
+              <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+                <Loader2 className="w-20 h-20 animate-spin" />
+              </div>
+            )}
+          </div>
+          <p className="text-3xl text-center">Présentez votre badge</p>
+          <Button
+            size="lg"
+            variant="outline"
+            onClick={() => setEarlyDeparture(value => !value)}
+            className={`h-14 px-8 text-lg ${
+              earlyDeparture
+                ? 'bg-amber-500 border-amber-500 text-white hover:bg-amber-600'
+                : 'bg-transparent border-white/30 text-white hover:bg-white/10'
+            }`}
+          >
+            <DoorOpen className="w-6 h-6 mr-2" />
+            {earlyDeparture ? 'Départ anticipé : scannez votre badge' : 'Départ anticipé'}
+          </Button>
+        </div>
+
+        {/* Result of the scan, drawn over the camera so that the video keeps its stream */}
+        {state.phase === 'success' ? (
+          <div className="absolute inset-0 z-10 flex items-center justify-center p-8 bg-gray-950">
+            <div
+              className={`w-full max-w-3xl rounded-3xl p-12 text-center ${
+                state.punch.punctuality === 'OnTime' ? 'bg-green-600' : 'bg-amber-500'
+              }`}
+            >
+              <CheckCircle2 className="w-24 h-24 mx-auto mb-6" />
+              <p className="text-5xl mb-4">{state.agent.nom}</p>
+              <p className="text-3xl mb-2">
+                {PUNCH_TYPE_LABELS[state.punch.type]} · {state.punch.time}
+              </p>
+              <p className="text-2xl opacity-90">{describePunctuality(state.punch)}</p>
+            </div>
+          </div>
+        ) : state.phase === 'error' ? (
+          <div className="absolute inset-0 z-10 flex items-center justify-center p-8 bg-gray-950">
+            <div className="w-full max-w-3xl rounded-3xl p-12 text-center bg-red-600">
+              <XCircle className="w-24 h-24 mx-auto mb-6" />
+              <p className="text-5xl mb-4">{state.title}</p>
+              <p className="text-2xl opacity-90">{state.message}</p>
+            </div>
+          </div>
+        ) : null}
+      </main>
+
+      {/* Footer: camera, full screen, exit */}
+      <footer className="flex items-center justify-between px-8 py-4 border-t border-white/10 text-gray-400">
+        <p className="flex items-center gap-2 text-sm">
+          <Clock className="w-4 h-4" />
+          {schedule && `Matin ${schedule.morningStart}-${schedule.morningEnd} · Après-midi ${schedule.afternoonStart}-${schedule.afternoonEnd} · Tolérance ${schedule.tolerance} min`}
+        </p>
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setCameraEnabled(value => !value)}
+            title={cameraEnabled ? 'Désactiver la caméra' : 'Activer la caméra'}
+            className="text-gray-400 hover:text-white hover:bg-white/10"
+          >
+            {cameraEnabled ? <Camera className="w-5 h-5" /> : <CameraOff className="w-5 h-5" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={toggleFullscreen}
+            title="Plein écran"
+            className="text-gray-400 hover:text-white hover:bg-white/10"
+          >
+            <Maximize className="w-5 h-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsExitDialogOpen(true)}
+            title="Quitter la borne"
+            className="text-gray-400 hover:text-white hover:bg-white/10"
+          >
+            <LogOut className="w-5 h-5" />
+          </Button>
+        </div>
+      </footer>
+
+      <ConfirmDialog
+        open={isExitDialogOpen}
+        onOpenChange={setIsExitDialogOpen}
+        title="Quitter la borne de pointage"
+        description={currentUser?.role === 'Kiosk'
+          ? 'La session de la borne sera fermée. Un compte borne devra se reconnecter pour reprendre les pointages.'
+          : 'Les pointages par badge ne seront plus enregistrés sur cet appareil.'}
+        confirmText="Quitter"
+        cancelText="Annuler"
+        onConfirm={handleExit}
+      />
+    </div>
+  );
+}
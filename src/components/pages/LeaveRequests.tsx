@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { Check, X, Plus, CalendarClock } from 'lucide-react';
+import { agentsService, leaveService, queryKeys } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useOptimisticMutation } from '../../lib/hooks/useOptimisticMutation';
+import { useAbsenceTypes } from '../../lib/hooks/useAbsenceTypes';
+import { LEAVE_STATUS_CLASSES, LEAVE_STATUS_LABELS, formatLeavePeriod } from '../../lib/leave';
+import type { LeaveRequest, LeaveRequestStatus } from '../../lib/api/types';
+import { LeaveRequestDialog } from '../LeaveRequestDialog';
+import { toast } from 'sonner';
+
+type Decision = 'Approved' | 'Rejected';
+
+export function LeaveRequests() {
+  const { getLabel: getAbsenceLabel } = useAbsenceTypes();
+  const [statusFilter, setStatusFilter] = useState<LeaveRequestStatus | 'all'>('Pending');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  // Leave requests (cached, revalidated in the background)
+  const params = statusFilter === 'all' ? {} : { status: statusFilter };
+  const requestsKey = queryKeys.leaveRequests.list(params);
+  const requestsQuery = useApiQuery(requestsKey, signal => leaveService.getLeaveRequests(params, signal));
+  const requests = requestsQuery.data ?? [];
+
+  // Active agents, only loaded for a request on behalf of an agent
+  const agentsParams = { status: 'Active', sortBy: 'nom' } as const;
+  const agentsQuery = useApiQuery(
+    queryKeys.agents.list({ ...agentsParams, all: true }),
+    signal => agentsService.getAllAgents(agentsParams, signal),
+    { enabled: isCreateOpen }
+  );
+
+  // Review dialog
+  const [reviewing, setReviewing] = useState<{ request: LeaveRequest; decision: Decision } | null>(null);
+  const [comment, setComment] = useState('');
+
+  // Reviews: the row leaves the "En attente" list immediately
+  const review = (status: Decision) => (prev: LeaveRequest[] = [], { request }: { request: LeaveRequest }) =>
+    statusFilter === 'Pending' ? prev.filter(r => r.id !== request.id) : prev.map(r => (r.id === request.id ? { ...r, status } : r));
+
+  const approveMutation = useOptimisticMutation({
+    queryKey: requestsKey,
+    mutationFn: ({ request, comment }: { request: LeaveRequest; comment: string }) =>
+      leaveService.approveLeaveRequest(request.id, comment || undefined),
+    optimisticUpdate: review('Approved'),
+    invalidates: [queryKeys.leaveRequests.all, queryKeys.agents.all, queryKeys.statistics.all, queryKeys.notifications.all],
+    successMessage: 'Demande approuvée, absence créée',
+    errorMessage: 'Approbation de la demande impossible',
+  });
+
+  const rejectMutation = useOptimisticMutation({
+    queryKey: requestsKey,
+    mutationFn: ({ request, comment }: { request: LeaveRequest; comment: string }) =>
+      leaveService.rejectLeaveRequest(request.id, comment),
+    optimisticUpdate: review('Rejected'),
+    invalidates: [queryKeys.leaveRequests.all, queryKeys.notifications.all],
+    successMessage: 'Demande refusée',
+    errorMessage: 'Refus de la demande impossible',
+  });
+
+  const openReview = (request: LeaveRequest, decision: Decision) => {
+    setReviewing({ request, decision });
+    setComment('');
+  };
+
+  const handleReview = () => {
+    if (!reviewing) return;
+    if (reviewing.decision === 'Rejected' && !comment.trim()) {
+      toast.error('Le motif du refus est obligatoire');
+      return;
+    }
+    const mutation = reviewing.decision === 'Approved' ? approveMutation : rejectMutation;
+    mutation.mutate({ request: reviewing.request, comment: comment.trim() });
+    setReviewing(null);
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-gray-900 dark:text-gray-100">Demandes de congé</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          Validez les demandes des agents ; l'absence est créée automatiquement à l'approbation.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex justify-between mb-6">
+        <Button onClick={() => setIsCreateOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+          <Plus className="w-4 h-4 mr-2" />
+          Nouvelle demande
+        </Button>
+        <Select value={statusFilter} onValueChange={(value: string) => setStatusFilter(value as LeaveRequestStatus | 'all')}>
+          <SelectTrigger className="w-48 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="Pending">En attente</SelectItem>
+            <SelectItem value="Approved">Approuvées</SelectItem>
+            <SelectItem value="Rejected">Refusées</SelectItem>
+            <SelectItem value="Cancelled">Annulées</SelectItem>
+            <SelectItem value="all">Toutes</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Requests Table */}
+      <Card className="border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50 dark:bg-gray-900/50 border-b dark:border-gray-700">
+              <TableHead className="dark:text-gray-300">Agent</TableHead>
+              <TableHead className="dark:text-gray-300">Type</TableHead>
+              <TableHead className="dark:text-gray-300">Période</TableHead>
+              <TableHead className="dark:text-gray-300">Motif</TableHead>
+              <TableHead className="dark:text-gray-300">Demandée par</TableHead>
+              <TableHead className="dark:text-gray-300">Statut</TableHead>
+              <TableHead className="text-right dark:text-gray-300">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requestsQuery.loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-500 dark:text-gray-400">
+                  Chargement...
+                </TableCell>
+              </TableRow>
+            ) : requests.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-500 dark:text-gray-400">
+                  <CalendarClock className="w-6 h-6 mx-auto mb-2 opacity-50" />
+                  Aucune demande
+                </TableCell>
+              </TableRow>
+            ) : (
+              requests.map(request => (
+                <TableRow key={request.id} className="dark:border-gray-700 align-top">
+                  <TableCell>
+                    <p className="text-gray-900 dark:text-gray-100">{request.agentName}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{request.matricule}</p>
+                  </TableCell>
+                  <TableCell className="text-gray-900 dark:text-gray-100">{getAbsenceLabel(request.type)}</TableCell>
+                  <TableCell className="text-sm text-gray-700 dark:text-gray-300">
+                    <p>{formatLeavePeriod(request)}</p>
+                    {request.holidays.length > 0 && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Jours fériés inclus : {request.holidays.join(', ')}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-700 dark:text-gray-300 max-w-xs">{request.reason}</TableCell>
+                  <TableCell className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    <p>{request.requestedBy}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {new Date(request.requestedAt).toLocaleString('fr-FR')}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={LEAVE_STATUS_CLASSES[request.status]}>
+                      {LEAVE_STATUS_LABELS[request.status]}
+                    </Badge>
+                    {request.reviewComment && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{request.reviewComment}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {request.status === 'Pending' && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => openReview(request, 'Approved')}
+                          className="bg-green-600 hover:bg-green-700 text-white"
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Approuver
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openReview(request, 'Rejected')}
+                          className="text-red-600 border-red-200 hover:bg-red-50 dark:border-red-900 dark:hover:bg-red-950"
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Refuser
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={!!reviewing} onOpenChange={(open: boolean) => !open && setReviewing(null)}>
+        <DialogContent className="sm:max-w-[480px] dark:bg-gray-800 dark:border-gray-700">
+          <DialogHeader>
+            <DialogTitle className="dark:text-gray-100">
+              {reviewing?.decision === 'Approved' ? 'Approuver la demande' : 'Refuser la demande'}
+            </DialogTitle>
+            <DialogDescription className="dark:text-gray-400">
+              {reviewing && `${reviewing.request.agentName} — ${getAbsenceLabel(reviewing.request.type)} ${formatLeavePeriod(reviewing.request)}. `}
+              L'agent sera notifié de la décision.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="review-comment" className="dark:text-gray-300">
+              {reviewing?.decision === 'Approved' ? 'Commentaire (optionnel)' : 'Motif du refus *'}
+            </Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              className="mt-1 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} className="dark:border-gray-600 dark:text-gray-300">
+              Annuler
+            </Button>
+            {reviewing?.decision === 'Approved' ? (
+              <Button onClick={handleReview} className="bg-green-600 hover:bg-green-700 text-white">
+                Approuver
+              </Button>
+            ) : (
+              <Button onClick={handleReview} className="bg-red-600 hover:bg-red-700 text-white">
+                Refuser
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <LeaveRequestDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        agents={agentsQuery.data ?? []}
+        onSubmit={payload => leaveService.createLeaveRequest(payload)}
+      />
+    </div>
+  );
+}
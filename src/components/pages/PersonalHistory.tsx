@@ -0,0 +1,436 @@
+import React, { useState } from 'react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Label } from '../ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { QRCodeSVG } from 'qrcode.react';
+import { Clock, Download, FileText, Loader2, QrCode, AlertCircle, Plus, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getErrorMessage, personalService, queryKeys, saveBlob } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useOptimisticMutation } from '../../lib/hooks/useOptimisticMutation';
+import { useAuth } from '../../lib/auth-context';
+import { useAbsenceTypes } from '../../lib/hooks/useAbsenceTypes';
+import { getInitials, toIsoDate } from '../../lib/utils';
+import { DEFAULT_BADGE_LAYOUT, generateBadgePdf } from '../../lib/badge-pdf';
+import { LEAVE_STATUS_CLASSES, LEAVE_STATUS_LABELS, formatLeavePeriod } from '../../lib/leave';
+import type { CorrectionPunches, DailyAttendanceDetails, LeaveRequest } from '../../lib/api/types';
+import { AgentAttendanceHistory } from '../AgentAttendanceHistory';
+import { LeaveRequestDialog } from '../LeaveRequestDialog';
+import { LeaveBalanceTable } from '../LeaveBalanceTable';
+
+const STATUS_LABELS: Record<DailyAttendanceDetails['status'], string> = {
+  Present: 'Présent',
+  Late: 'En retard',
+  Absent: 'Absent',
+  Leave: 'Congé',
+  'Half-day': 'Demi-journée',
+};
+
+const PUNCHES: Array<[Exclude<keyof CorrectionPunches, 'temporaryExits'>, string]> = [
+  ['morningCheckIn', 'Arrivée matinée'],
+  ['morningCheckOut', 'Départ matinée'],
+  ['afternoonCheckIn', 'Arrivée après-midi'],
+  ['afternoonCheckOut', 'Départ après-midi'],
+];
+
+/**
+ * 'HH:mm:ss' or 'HH:mm' → 'HHhmm'
+ */
+const formatTime = (time?: string): string => (time ? time.slice(0, 5).replace(':', 'h') : '-');
+
+const formatDate = (date: string): string => new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR');
+
+export function PersonalHistory() {
+  const { currentUser } = useAuth();
+  const { getLabel: getAbsenceLabel } = useAbsenceTypes();
+  const today = toIsoDate(new Date());
+  const [tab, setTab] = useState('history');
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [statementMonth, setStatementMonth] = useState(today.slice(0, 7));
+  const [downloading, setDownloading] = useState(false);
+  const [isLeaveOpen, setIsLeaveOpen] = useState(false);
+
+  // Own data (scoped to the linked agent by the backend)
+  const agentQuery = useApiQuery(queryKeys.personal.agent(), signal => personalService.getAgent(signal));
+  const dailyQuery = useApiQuery(queryKeys.personal.daily(selectedDate), signal =>
+    personalService.getDailyAttendance(selectedDate, signal)
+  );
+  const exitsQuery = useApiQuery(queryKeys.personal.exits(selectedDate), signal =>
+    personalService.getTemporaryExits(selectedDate, signal)
+  );
+  const absencesQuery = useApiQuery(queryKeys.personal.absences(), signal => personalService.getAbsences(signal));
+  const badgeQuery = useApiQuery(queryKeys.personal.badge(), signal => personalService.getBadge(signal));
+  const leaveKey = queryKeys.personal.leaveRequests();
+  const leaveQuery = useApiQuery(leaveKey, signal => personalService.getLeaveRequests(signal));
+
+  const cancelLeaveMutation = useOptimisticMutation({
+    queryKey: leaveKey,
+    mutationFn: ({ request }: { request: LeaveRequest }) => personalService.cancelLeaveRequest(request.id),
+    optimisticUpdate: (prev: LeaveRequest[] = [], { request }) =>
+      prev.map(r => (r.id === request.id ? { ...r, status: 'Cancelled' as const } : r)),
+    invalidates: [queryKeys.notifications.all],
+    successMessage: 'Demande annulée',
+    errorMessage: "Annulation de la demande impossible",
+  });
+
+  const agent = agentQuery.data;
+  const daily = dailyQuery.error ? null : dailyQuery.data;
+  const exits = exitsQuery.data ?? [];
+  const badge = badgeQuery.data;
+
+  const handleDownloadStatement = async () => {
+    const [year, month] = statementMonth.split('-').map(Number);
+    if (!year || !month) {
+      toast.error('Choisissez un mois');
+      return;
+    }
+    setDownloading(true);
+    try {
+      const { blob, filename } = await personalService.downloadStatement(year, month);
+      saveBlob(blob, filename);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Téléchargement du relevé impossible'));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleDownloadBadge = () => {
+    if (!agent || !badge?.token) return;
+    const token = badge.token;
+    generateBadgePdf([agent], { ...DEFAULT_BADGE_LAYOUT, columns: 1, rows: 1 }, { qrValue: () => token })
+      .save(`badge_${agent.matricule}.pdf`);
+  };
+
+  if (agentQuery.error) {
+    return (
+      <div className="p-8">
+        <Card className="p-8 text-center border border-gray-200 dark:border-gray-700 dark:bg-gray-800">
+          <AlertCircle className="w-8 h-8 mx-auto mb-3 text-red-500" />
+          <p className="text-gray-900 dark:text-gray-100">Aucun agent n'est associé au compte {currentUser?.username}.</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Contactez un administrateur.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-gray-900 dark:text-gray-100">Mon espace</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          Consultez vos pointages, vos absences et votre badge.
+        </p>
+      </div>
+
+      {/* Profile and monthly statement */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        <Card className="p-6 lg:col-span-2 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl">
+          {agent ? (
+            <div className="flex items-center gap-4">
+              <div className="w-16 h-16 rounded-full bg-blue-100 dark:bg-blue-900 flex items-center justify-center text-blue-600 dark:text-blue-400 text-xl">
+                {getInitials(agent.nom)}
+              </div>
+              <div>
+                <h3 className="text-xl text-gray-900 dark:text-gray-100">{agent.nom}</h3>
+                <p className="text-gray-600 dark:text-gray-400">{agent.poste}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {agent.matricule} · {agent.division}
+                </p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400">Chargement...</p>
+          )}
+        </Card>
+
+        <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl">
+          <div className="flex items-center gap-2 mb-3">
+            <FileText className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+            <h4 className="text-gray-900 dark:text-gray-100">Relevé mensuel</h4>
+          </div>
+          <Label htmlFor="statement-month" className="dark:text-gray-300">Mois</Label>
+          <div className="flex gap-2 mt-1">
+            <Input
+              id="statement-month"
+              type="month"
+              value={statementMonth}
+              max={today.slice(0, 7)}
+              onChange={(e) => setStatementMonth(e.target.value)}
+              className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+            />
+            <Button onClick={handleDownloadStatement} disabled={downloading} className="bg-blue-600 hover:bg-blue-700">
+              {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            </Button>
+          </div>
+        </Card>
+      </div>
+
+      <Tabs value={tab} onValueChange={(value: string) => setTab(value)} className="w-full">
+        <TabsList className="grid w-full grid-cols-5 dark:bg-gray-900">
+          <TabsTrigger value="history" className="dark:data-[state=active]:bg-gray-700">Historique</TabsTrigger>
+          <TabsTrigger value="day" className="dark:data-[state=active]:bg-gray-700">Pointage du jour</TabsTrigger>
+          <TabsTrigger value="absences" className="dark:data-[state=active]:bg-gray-700">Absences</TabsTrigger>
+          <TabsTrigger value="leave" className="dark:data-[state=active]:bg-gray-700">Demandes de congé</TabsTrigger>
+          <TabsTrigger value="badge" className="dark:data-[state=active]:bg-gray-700">Badge</TabsTrigger>
+        </TabsList>
+
+        {/* Attendance History Tab */}
+        <TabsContent value="history" className="mt-4">
+          <AgentAttendanceHistory
+            onSelectDate={(date) => {
+              setSelectedDate(date);
+              setTab('day');
+            }}
+          />
+        </TabsContent>
+
+        {/* Daily Details Tab */}
+        <TabsContent value="day" className="mt-4">
+          <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-2">
+                <Clock className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+                <h4 className="text-gray-900 dark:text-gray-100">Détail du {formatDate(selectedDate)}</h4>
+              </div>
+              <Input
+                type="date"
+                value={selectedDate}
+                max={today}
+                onChange={(e) => e.target.value && setSelectedDate(e.target.value)}
+                className="w-auto bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+              />
+            </div>
+
+            {dailyQuery.loading ? (
+              <p className="text-gray-500 dark:text-gray-400 text-center py-8">Chargement des données...</p>
+            ) : !daily ? (
+              <p className="text-gray-500 dark:text-gray-400 text-center py-8">Aucun pointage pour ce jour</p>
+            ) : daily.conge ? (
+              <p className="text-gray-500 dark:text-gray-400 text-center py-8">En {getAbsenceLabel(daily.type_abs)}</p>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4 mb-6">
+                  {PUNCHES.map(([key, label]) => {
+                    const original = daily.correction?.original[key];
+                    const corrected = !!daily.correction && original?.slice(0, 5) !== daily[key]?.slice(0, 5);
+                    return (
+                      <div key={key} className="p-4 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">{label}</p>
+                        <p className="text-gray-900 dark:text-gray-100">{formatTime(daily[key])}</p>
+                        {corrected && (
+                          <p className="text-xs text-purple-700 dark:text-purple-400 mt-2">
+                            Corrigé · badge : {original ? formatTime(original) : 'aucun'}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {exits.length > 0 && (
+                  <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mb-4">
+                    <h4 className="text-gray-900 dark:text-gray-100 mb-3">Sorties temporaires</h4>
+                    <div className="space-y-2">
+                      {exits.map(exit => (
+                        <div key={exit.id} className="p-3 bg-gray-50 dark:bg-gray-900 rounded-lg">
+                          <p className="text-sm text-gray-900 dark:text-gray-100">
+                            {formatTime(exit.exitTime)} - {exit.returnTime ? formatTime(exit.returnTime) : 'non revenu'}
+                            {exit.duration ? ` (${exit.duration} min)` : ''}
+                          </p>
+                          <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{exit.description}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Statut :</p>
+                  <Badge variant="outline">{STATUS_LABELS[daily.status]}</Badge>
+                  {daily.workHours && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">• {daily.workHours} travaillé</p>
+                  )}
+                </div>
+                {daily.correction && (
+                  <p className="text-sm text-purple-700 dark:text-purple-400 mt-3">
+                    Pointages corrigés le {new Date(daily.correction.correctedAt).toLocaleDateString('fr-FR')} : {daily.correction.reason}
+                  </p>
+                )}
+              </>
+            )}
+          </Card>
+        </TabsContent>
+
+        {/* Long Absences Tab */}
+        <TabsContent value="absences" className="mt-4 space-y-4">
+          <LeaveBalanceTable absences={absencesQuery.data ?? []} />
+          <Card className="border border-gray-200 dark:border-gray-700 dark:bg-gray-800 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50 dark:bg-gray-900/50 border-b dark:border-gray-700">
+                  <TableHead className="dark:text-gray-300">Type</TableHead>
+                  <TableHead className="dark:text-gray-300">Du</TableHead>
+                  <TableHead className="dark:text-gray-300">Au</TableHead>
+                  <TableHead className="dark:text-gray-300">Durée</TableHead>
+                  <TableHead className="dark:text-gray-300">Motif</TableHead>
+                  <TableHead className="dark:text-gray-300">Statut</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {absencesQuery.loading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-gray-500 dark:text-gray-400">Chargement...</TableCell>
+                  </TableRow>
+                ) : (absencesQuery.data ?? []).length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-gray-500 dark:text-gray-400">Aucune absence</TableCell>
+                  </TableRow>
+                ) : (
+                  [...(absencesQuery.data ?? [])]
+                    .sort((a, b) => b.startDate.localeCompare(a.startDate))
+                    .map(absence => (
+                      <TableRow key={absence.id} className="dark:border-gray-700">
+                        <TableCell className="text-gray-900 dark:text-gray-100">{getAbsenceLabel(absence.type)}</TableCell>
+                        <TableCell className="text-gray-900 dark:text-gray-100">{formatDate(absence.startDate)}</TableCell>
+                        <TableCell className="text-gray-900 dark:text-gray-100">{formatDate(absence.endDate)}</TableCell>
+                        <TableCell className="text-gray-600 dark:text-gray-400">{absence.duration} j</TableCell>
+                        <TableCell className="text-gray-600 dark:text-gray-400">{absence.reason}</TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={absence.status === 'Active'
+                              ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400'
+                              : 'bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}
+                          >
+                            {absence.status === 'Active' ? 'En cours / à venir' : 'Passée'}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                )}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+
+        {/* Leave Requests Tab */}
+        <TabsContent value="leave" className="mt-4">
+          <div className="flex justify-end mb-4">
+            <Button onClick={() => setIsLeaveOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="w-4 h-4 mr-2" />
+              Nouvelle demande
+            </Button>
+          </div>
+          <Card className="border border-gray-200 dark:border-gray-700 dark:bg-gray-800 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50 dark:bg-gray-900/50 border-b dark:border-gray-700">
+                  <TableHead className="dark:text-gray-300">Type</TableHead>
+                  <TableHead className="dark:text-gray-300">Période</TableHead>
+                  <TableHead className="dark:text-gray-300">Motif</TableHead>
+                  <TableHead className="dark:text-gray-300">Statut</TableHead>
+                  <TableHead className="text-right dark:text-gray-300">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leaveQuery.loading ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-gray-500 dark:text-gray-400">Chargement...</TableCell>
+                  </TableRow>
+                ) : (leaveQuery.data ?? []).length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-gray-500 dark:text-gray-400">Aucune demande</TableCell>
+                  </TableRow>
+                ) : (
+                  (leaveQuery.data ?? []).map(request => (
+                    <TableRow key={request.id} className="dark:border-gray-700 align-top">
+                      <TableCell className="text-gray-900 dark:text-gray-100">{getAbsenceLabel(request.type)}</TableCell>
+                      <TableCell className="text-sm text-gray-700 dark:text-gray-300">{formatLeavePeriod(request)}</TableCell>
+                      <TableCell className="text-sm text-gray-600 dark:text-gray-400">{request.reason}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={LEAVE_STATUS_CLASSES[request.status]}>
+                          {LEAVE_STATUS_LABELS[request.status]}
+                        </Badge>
+                        {request.reviewComment && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{request.reviewComment}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {request.status === 'Pending' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => cancelLeaveMutation.mutate({ request })}
+                            className="dark:border-gray-600 dark:text-gray-300"
+                          >
+                            <Undo2 className="w-4 h-4 mr-1" />
+                            Annuler
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </Card>
+        </TabsContent>
+
+        {/* QR Badge Tab */}
+        <TabsContent value="badge" className="mt-4">
+          <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800">
+            <div className="flex items-center gap-2 mb-4">
+              <QrCode className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+              <h4 className="text-gray-900 dark:text-gray-100">Mon badge</h4>
+            </div>
+            {badgeQuery.loading ? (
+              <p className="text-gray-500 dark:text-gray-400 text-center py-8">Chargement...</p>
+            ) : badge?.status === 'Active' && badge.token ? (
+              <div className="flex flex-col sm:flex-row items-center gap-6">
+                <div className="p-4 bg-white rounded-lg border border-gray-200">
+                  <QRCodeSVG value={badge.token} size={200} bgColor="#FFFFFF" fgColor="#000000" level="M" marginSize={0} />
+                </div>
+                <div className="space-y-2">
+                  <p className="text-gray-900 dark:text-gray-100">Version {badge.version}</p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Émis le {new Date(badge.issuedAt).toLocaleDateString('fr-FR')}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Seule la dernière version de votre badge est acceptée par les bornes.
+                  </p>
+                  <Button onClick={handleDownloadBadge} disabled={!agent} className="bg-blue-600 hover:bg-blue-700">
+                    <Download className="w-4 h-4 mr-2" />
+                    Télécharger le badge (PDF)
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-red-600 dark:text-red-400 text-center py-8">
+                Votre badge a été révoqué. Contactez un administrateur pour en obtenir un nouveau.
+              </p>
+            )}
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <LeaveRequestDialog
+        open={isLeaveOpen}
+        onOpenChange={setIsLeaveOpen}
+        absences={absencesQuery.data ?? []}
+        onSubmit={payload => personalService.createLeaveRequest(payload)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { FileText, Loader2, RefreshCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { getErrorMessage, queryClient, queryKeys, systemService } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useAuth } from '../../lib/auth-context';
+import { ReportHistory, type ReportSource } from '../ReportHistory';
+import { ReportGeneratorDialog } from '../ReportGeneratorDialog';
+
+export function Reports() {
+  const { isAdmin } = useAuth();
+  const [source, setSource] = useState<ReportSource>('all');
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+
+  // Retention period of the history (editable by the Admin)
+  const settingsQuery = useApiQuery(queryKeys.settings.all, signal => systemService.getSettings(signal));
+  const retentionDays = settingsQuery.data?.reportRetentionDays;
+  const [retention, setRetention] = useState('');
+  const [savingRetention, setSavingRetention] = useState(false);
+  useEffect(() => {
+    if (retentionDays !== undefined) setRetention(String(retentionDays));
+  }, [retentionDays]);
+
+  const handleSaveRetention = async () => {
+    setSavingRetention(true);
+    try {
+      const response = await systemService.updateSettings({ reportRetentionDays: Number(retention) });
+      toast.success(response.message || 'Durée de conservation enregistrée');
+      queryClient.invalidate(queryKeys.settings.all);
+      queryClient.invalidate(queryKeys.reports.all);
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Enregistrement de la durée de conservation impossible'));
+    } finally {
+      setSavingRetention(false);
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-gray-900 dark:text-gray-100">Rapports</h1>
+          <p className="text-gray-500 dark:text-gray-400 mt-1">
+            Rapports générés à la demande et rapports planifiés (configurés dans Paramètres › Rapports planifiés).
+          </p>
+        </div>
+        <Button onClick={() => setIsReportDialogOpen(true)} className="bg-blue-600 hover:bg-blue-700">
+          <FileText className="w-4 h-4 mr-2" />
+          Nouveau rapport
+        </Button>
+      </div>
+
+      {/* Filters and retention */}
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <Select value={source} onValueChange={(value: string) => setSource(value as ReportSource)}>
+          <SelectTrigger className="w-52 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les rapports</SelectItem>
+            <SelectItem value="scheduled">Rapports planifiés</SelectItem>
+            <SelectItem value="manual">Rapports à la demande</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={() => queryClient.invalidate(queryKeys.reports.all)}
+          className="dark:border-gray-600 dark:text-gray-300"
+        >
+          <RefreshCcw className="w-4 h-4 mr-2" />
+          Actualiser
+        </Button>
+        <div className="ml-auto flex items-end gap-2">
+          <div>
+            <Label htmlFor="report-retention" className="text-xs dark:text-gray-300">Conservation (jours)</Label>
+            <Input
+              id="report-retention"
+              type="number"
+              min={1}
+              max={730}
+              value={retention}
+              disabled={!isAdmin}
+              onChange={(e) => setRetention(e.target.value)}
+              className="mt-1 w-28 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+            />
+          </div>
+          {isAdmin && (
+            <Button
+              onClick={handleSaveRetention}
+              disabled={savingRetention || !retention || Number(retention) === retentionDays}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {savingRetention && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Enregistrer
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
+        {retentionDays !== undefined && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            Les rapports sont supprimés après {retentionDays} jours, sauf ceux marqués « Conservé ».
+          </p>
+        )}
+        <ReportHistory source={source} />
+      </Card>
+
+      <ReportGeneratorDialog open={isReportDialogOpen} onOpenChange={setIsReportDialogOpen} />
+    </div>
+  );
+}
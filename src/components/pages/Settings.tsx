@@ -40,17 +40,21 @@ import {
 } from '../ui/alert-dialog';
 import { Label } from '../ui/label';
 import { Plus, Pencil, Trash2, Key, Shield, Moon, Sun, Eye, EyeOff, Copy, CheckCircle, AlertTriangle, Clock } from 'lucide-react';
-import { usersService } from '../../lib/api';
+import { usersService, getErrorMessage } from '../../lib/api';
 import type { SystemUser, PasswordResetRequest } from '../../lib/api/types';
 import { useTheme } from '../../lib/theme-context';
 import { useAuth } from '../../lib/auth-context';
 import { toast } from 'sonner';
 import { ConfirmDialog } from '../ConfirmDialog';
+import { BackendInfoPanel } from '../BackendInfoPanel';
+import { AbsenceEntitlementsPanel } from '../AbsenceEntitlementsPanel';
+import { AbsenceTypesPanel } from '../AbsenceTypesPanel';
+import { ReportSchedulesPanel } from '../ReportSchedulesPanel';
 import { User } from '../../lib/api/legacy-types';
 
 export function Settings() {
   const { theme, toggleTheme } = useTheme();
-  const { currentUser, isAdmin } = useAuth();
+  const { currentUser, isAdmin, isManagerOrAdmin } = useAuth();
   const [users, setUsers] = useState<SystemUser[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -156,10 +160,12 @@ const [isResetting, setIsResetting] = useState(false);
   const [newUsername, setNewUsername] = useState('');
   const [newEmail, setNewEmail] = useState('');
   const [newRole, setNewRole] = useState('');
+  const [newMatricule, setNewMatricule] = useState('');
 
   const [editUsername, setEditUsername] = useState('');
   const [editEmail, setEditEmail] = useState('');
   const [editRole, setEditRole] = useState('');
+  const [editMatricule, setEditMatricule] = useState('');
 
   // Loading states pour Add/Update
   const [isAdding, setIsAdding] = useState(false);
@@ -171,6 +177,7 @@ const [isResetting, setIsResetting] = useState(false);
       setNewUsername('');
       setNewEmail('');
       setNewRole('');
+      setNewMatricule('');
     }
   }, [isAddDialogOpen]);
 
@@ -180,10 +187,12 @@ const [isResetting, setIsResetting] = useState(false);
       setEditUsername(editingUser.username);
       setEditEmail(editingUser.email);
       setEditRole(editingUser.role);
+      setEditMatricule(editingUser.matricule ?? '');
     } else {
       setEditUsername('');
       setEditEmail('');
       setEditRole('');
+      setEditMatricule('');
     }
   }, [editingUser]);
 
@@ -200,7 +209,7 @@ const [isResetting, setIsResetting] = useState(false);
     return re.test(username);
   };
   
-  const validRoles = ['Admin', 'Manager'];
+  const validRoles = ['Admin', 'Manager', 'Kiosk', 'Agent'];
   
   const handleAddUser = async () => {
     if (!newUsername || !newEmail || !newRole) {
@@ -222,6 +231,11 @@ const [isResetting, setIsResetting] = useState(false);
       toast.error('Please select a valid role.');
       return;
     }
+
+    if (newRole === 'Agent' && !newMatricule.trim()) {
+      toast.error("Le matricule de l'agent est obligatoire pour un compte Agent.");
+      return;
+    }
   
     try {
       setIsAdding(true);
@@ -230,6 +244,7 @@ const [isResetting, setIsResetting] = useState(false);
         username: newUsername,
         email: newEmail,
         role: newRole,
+        matricule: newRole === 'Agent' ? newMatricule.trim() : undefined,
       });
   
       if (response.success && response.data) {
@@ -243,7 +258,9 @@ const [isResetting, setIsResetting] = useState(false);
       }
     } catch (error) {
       console.error('Add user error:', error);
-      toast.error('Unexpected error while adding user');
+      toast.error('Unexpected error while adding user', {
+        description: getErrorMessage(error),
+      });
     } finally {
       setIsAdding(false);
     }
@@ -271,6 +288,11 @@ const [isResetting, setIsResetting] = useState(false);
       toast.error('Please select a valid role.');
       return;
     }
+
+    if (editRole === 'Agent' && !editMatricule.trim()) {
+      toast.error("Le matricule de l'agent est obligatoire pour un compte Agent.");
+      return;
+    }
   
     try {
       setIsUpdating(true);
@@ -278,6 +300,7 @@ const [isResetting, setIsResetting] = useState(false);
         username: editUsername,
         email: editEmail,
         role: editRole,
+        matricule: editRole === 'Agent' ? editMatricule.trim() : undefined,
       });
   
       if (response.success && response.data) {
@@ -291,7 +314,9 @@ const [isResetting, setIsResetting] = useState(false);
       }
     } catch (error) {
       console.error('Update user error:', error);
-      toast.error('Unexpected error while updating user');
+      toast.error('Unexpected error while updating user', {
+        description: getErrorMessage(error),
+      });
     } finally {
       setIsUpdating(false);
     }
@@ -415,9 +440,14 @@ const [isResetting, setIsResetting] = useState(false);
           {isAdmin && (
             <>
               <TabsTrigger value="users" className="dark:data-[state=active]:bg-gray-700">Gestion Utilisateur</TabsTrigger>
+              <TabsTrigger value="absence-types" className="dark:data-[state=active]:bg-gray-700">Types d'absence</TabsTrigger>
+              <TabsTrigger value="entitlements" className="dark:data-[state=active]:bg-gray-700">Droits à congé</TabsTrigger>
               
             </>
           )}
+          {isManagerOrAdmin && (
+            <TabsTrigger value="report-schedules" className="dark:data-[state=active]:bg-gray-700">Rapports planifiés</TabsTrigger>
+          )}
           <><TabsTrigger value="security" className="dark:data-[state=active]:bg-gray-700">Securité</TabsTrigger></>
         </TabsList>
 
@@ -444,8 +474,36 @@ const [isResetting, setIsResetting] = useState(false);
               </div>
             </div>
           </Card>
+
+          {/* Backend Info - Only for Admins */}
+          {isAdmin && (
+            <div className="mt-6">
+              <BackendInfoPanel />
+            </div>
+          )}
         </TabsContent>
 
+        {/* Absence Types - Only for Admins */}
+        {isAdmin && (
+          <TabsContent value="absence-types">
+            <AbsenceTypesPanel />
+          </TabsContent>
+        )}
+
+        {/* Absence Entitlements - Only for Admins */}
+        {isAdmin && (
+          <TabsContent value="entitlements">
+            <AbsenceEntitlementsPanel />
+          </TabsContent>
+        )}
+
+        {/* Report Schedules - Admins and Managers */}
+        {isManagerOrAdmin && (
+          <TabsContent value="report-schedules">
+            <ReportSchedulesPanel />
+          </TabsContent>
+        )}
+
         {/* User Management - Only for Admins */}
         {isAdmin && (
           <TabsContent value="users">
@@ -497,12 +555,19 @@ const [isResetting, setIsResetting] = useState(false);
                             ? 'bg-purple-50 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400 border-purple-200 dark:border-purple-700'
                             : user.role === 'Manager'
                             ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400 border-blue-200 dark:border-blue-700'
+                            : user.role === 'Kiosk'
+                            ? 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-700'
+                            : user.role === 'Agent'
+                            ? 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400 border-green-200 dark:border-green-700'
                             : 'bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-600'
                         }
                       >
                         <Shield className="w-3 h-3 mr-1" />
                         {user.role}
                       </Badge>
+                      {user.matricule && (
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{user.matricule}</span>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
@@ -646,9 +711,23 @@ const [isResetting, setIsResetting] = useState(false);
                 <SelectContent>
                   <SelectItem value="Admin">Admin</SelectItem>
                   <SelectItem value="Manager">Manager</SelectItem>
+                  <SelectItem value="Kiosk">Kiosk (borne de pointage)</SelectItem>
+                  <SelectItem value="Agent">Agent (espace personnel)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
+            {newRole === 'Agent' && (
+              <div className="grid gap-2">
+                <Label htmlFor="matricule" className="dark:text-gray-200">Matricule de l'agent</Label>
+                <Input
+                  id="matricule"
+                  placeholder="AG0001"
+                  value={newMatricule}
+                  onChange={(e) => setNewMatricule(e.target.value)}
+                  className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+                />
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button
@@ -712,9 +791,22 @@ const [isResetting, setIsResetting] = useState(false);
                   <SelectContent>
                     <SelectItem value="Admin">Admin</SelectItem>
                     <SelectItem value="Manager">Manager</SelectItem>
+                    <SelectItem value="Kiosk">Kiosk (borne de pointage)</SelectItem>
+                    <SelectItem value="Agent">Agent (espace personnel)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+              {editRole === 'Agent' && (
+                <div className="grid gap-2">
+                  <Label htmlFor="edit-matricule" className="dark:text-gray-200">Matricule de l'agent</Label>
+                  <Input
+                    id="edit-matricule"
+                    value={editMatricule}
+                    onChange={(e) => setEditMatricule(e.target.value)}
+                    className="bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100"
+                  />
+                </div>
+              )}
             </div>
           )}
           <DialogFooter>
@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
+import { Skeleton } from '../ui/skeleton';
 import {
   Select,
   SelectContent,
@@ -8,240 +9,384 @@ import {
   SelectTrigger,
   SelectValue,
 } from '../ui/select';
-import { FileText, Download } from 'lucide-react';
-import { 
-  BarChart, 
-  Bar, 
-  LineChart, 
-  Line, 
-  PieChart, 
-  Pie, 
+import { FileText, Download, AlertTriangle, RefreshCcw, Loader2 } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  PieChart,
+  Pie,
   Cell,
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  Legend, 
-  ResponsiveContainer 
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer
 } from 'recharts';
+import { statisticsService, queryKeys } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { toIsoDate } from '../../lib/utils';
+import type { ReportTable } from '../../lib/report-files';
+import type { ReportParams, StatisticsPeriod, StatisticsRangeParams } from '../../lib/api/types';
+import { StatisticsExportDialog } from '../StatisticsExportDialog';
+
+const PERIOD_LABELS: Record<StatisticsPeriod, string> = {
+  weekly: '7 derniers jours',
+  monthly: '30 derniers jours',
+  yearly: '12 derniers mois',
+};
+
+const STATUS_COLORS = {
+  onTime: '#3b82f6',
+  late: '#f59e0b',
+  absent: '#ef4444',
+  leave: '#8b5cf6',
+};
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'rgb(31, 41, 55)',
+  border: '1px solid rgb(55, 65, 81)',
+  borderRadius: '8px',
+  color: 'rgb(229, 231, 235)',
+};
+
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR');
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' });
+
+const formatPercent = (value: number) => `${value.toLocaleString('fr-FR')} %`;
+
+/**
+ * Range analysed for a period, ending today (one trend point per day,
+ * week or month)
+ */
+function periodRange(period: StatisticsPeriod): StatisticsRangeParams {
+  const today = new Date();
+  const to = toIsoDate(today);
+  if (period === 'weekly') {
+    return { from: toIsoDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 6)), to, groupBy: 'day' };
+  }
+  if (period === 'monthly') {
+    return { from: toIsoDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() - 29)), to, groupBy: 'week' };
+  }
+  return { from: toIsoDate(new Date(today.getFullYear(), today.getMonth() - 11, 1)), to, groupBy: 'month' };
+}
 
-// Placeholder data for charts - replace with API data in production
-const divisionAttendanceData = [
-  { division: 'IT', rate: 95 },
-  { division: 'HR', rate: 92 },
-  { division: 'Finance', rate: 94 },
-  { division: 'Sales', rate: 88 },
-  { division: 'Marketing', rate: 91 },
-];
-
-const punctualityTrends = [
-  { week: 'Week 1', onTime: 85, late: 10, absent: 5 },
-  { week: 'Week 2', onTime: 88, late: 8, absent: 4 },
-  { week: 'Week 3', onTime: 90, late: 6, absent: 4 },
-  { week: 'Week 4', onTime: 87, late: 9, absent: 4 },
-];
-
-const absenceData = [
-  { month: 'Jan', rate: 8 },
-  { month: 'Feb', rate: 11 },
-  { month: 'Mar', rate: 6 },
-  { month: 'Apr', rate: 9 },
-  { month: 'May', rate: 7 },
-  { month: 'Jun', rate: 10 },
-  { month: 'Jul', rate: 12 },
-  { month: 'Aug', rate: 8 },
-  { month: 'Sep', rate: 5 },
-  { month: 'Oct', rate: 7 },
-];
-
-const statusDistribution = [
-  { name: 'Present', value: 87, color: '#3b82f6' },
-  { name: 'Absent', value: 5, color: '#ef4444' },
-  { name: 'Late', value: 8, color: '#f59e0b' },
-];
+/**
+ * Chart card with its loading, error and empty states (marked for the PDF
+ * export once the chart is displayed)
+ */
+function ChartCard({
+  title,
+  query,
+  isEmpty,
+  children,
+}: {
+  title: string;
+  query: { loading: boolean; error: string | null; refetch: () => void };
+  isEmpty: boolean;
+  children: React.ReactNode;
+}) {
+  let content: React.ReactNode = children;
+  if (query.loading) {
+    content = <Skeleton className="h-[300px] dark:bg-gray-700" />;
+  } else if (query.error) {
+    content = (
+      <div className="h-[300px] flex flex-col items-center justify-center gap-3 text-center">
+        <AlertTriangle className="w-8 h-8 text-red-500" />
+        <p className="text-sm text-gray-600 dark:text-gray-400">{query.error}</p>
+        <Button variant="outline" size="sm" onClick={query.refetch} className="dark:border-gray-600 dark:text-gray-300">
+          <RefreshCcw className="w-4 h-4 mr-2" />
+          Réessayer
+        </Button>
+      </div>
+    );
+  } else if (isEmpty) {
+    content = (
+      <div className="h-[300px] flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+        Aucune donnée de présence sur la période
+      </div>
+    );
+  }
+
+  return (
+    <Card
+      data-report-chart={content === children ? title : undefined}
+      className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm"
+    >
+      <h3 className="text-gray-900 dark:text-gray-100 mb-4">{title}</h3>
+      {content}
+    </Card>
+  );
+}
 
 export function Statistics() {
-  const [timePeriod, setTimePeriod] = useState('monthly');
+  const [timePeriod, setTimePeriod] = useState<StatisticsPeriod>('monthly');
+  const range = periodRange(timePeriod);
+
+  // Export dialog (format of the clicked button) and charts embedded in the PDF
+  const [exportFormat, setExportFormat] = useState<ReportParams['format'] | null>(null);
+  const chartsRef = useRef<HTMLDivElement>(null);
+
+  // Analytics of the selected period (previous period kept while switching)
+  const divisionsQuery = useApiQuery(
+    queryKeys.statistics.divisions(range),
+    signal => statisticsService.getDivisionAttendance(range, signal),
+    { keepPreviousData: true }
+  );
+  const punctualityQuery = useApiQuery(
+    queryKeys.statistics.punctuality(range),
+    signal => statisticsService.getPunctualityTrends(range, signal),
+    { keepPreviousData: true }
+  );
+  const absenceRatesQuery = useApiQuery(
+    queryKeys.statistics.absenceRates(range),
+    signal => statisticsService.getAbsenceRates(range, signal),
+    { keepPreviousData: true }
+  );
+  const distributionQuery = useApiQuery(
+    queryKeys.statistics.statusDistribution(range),
+    signal => statisticsService.getStatusDistribution(range, signal),
+    { keepPreviousData: true }
+  );
+  const fetching = [divisionsQuery, punctualityQuery, absenceRatesQuery, distributionQuery].some(q => q.fetching);
+
+  const divisions = divisionsQuery.data ?? [];
+  const punctuality = punctualityQuery.data ?? [];
+  const absenceRates = (absenceRatesQuery.data ?? []).map(r => ({ ...r, label: formatMonth(r.month) }));
+  const distribution = distributionQuery.data;
+  const statusData = distribution
+    ? [
+        { name: "À l'heure", value: distribution.onTime, color: STATUS_COLORS.onTime },
+        { name: 'En retard', value: distribution.late, color: STATUS_COLORS.late },
+        { name: 'Absent', value: distribution.absent, color: STATUS_COLORS.absent },
+        { name: 'En congé', value: distribution.leave, color: STATUS_COLORS.leave },
+      ].filter(s => s.value > 0)
+    : [];
+  const statusTotal = statusData.reduce((sum, s) => sum + s.value, 0);
+
+  // Summary of the period
+  const present = divisions.reduce((sum, d) => sum + d.present, 0);
+  const expected = divisions.reduce((sum, d) => sum + d.expected, 0);
+  const averageRate = expected ? Math.round((present / expected) * 1000) / 10 : null;
+  const bestDivision = divisions[0];
+  const latePerDay = distribution?.workingDays
+    ? Math.round((distribution.late / distribution.workingDays) * 10) / 10
+    : null;
+
+  // Displayed statistics as export tables
+  const loading = [divisionsQuery, punctualityQuery, absenceRatesQuery, distributionQuery].some(q => q.loading);
+  const exportTables: ReportTable[] = [
+    {
+      title: 'Présence par division',
+      head: ['Division', 'Agents', 'Présents', 'Retards', 'Absents', 'Attendus', 'Taux de présence (%)'],
+      rows: divisions.map(d => [d.division, d.agents, d.present, d.late, d.absent, d.expected, d.rate]),
+    },
+    {
+      title: 'Ponctualité',
+      head: ['Période', 'Du', 'Au', "À l'heure (%)", 'En retard (%)', 'Absent (%)'],
+      rows: punctuality.map(p => [p.label, p.from, p.to, p.onTime, p.late, p.absent]),
+    },
+    {
+      title: "Taux d'absence par mois",
+      head: ['Mois', 'Absents', 'Attendus', "Taux d'absence (%)"],
+      rows: absenceRates.map(r => [r.month, r.absent, r.expected, r.rate]),
+    },
+    {
+      title: 'Répartition des statuts',
+      head: ['Statut', 'Jours-agent'],
+      rows: statusData.map(s => [s.name, s.value]),
+    },
+  ];
 
   return (
     <div className="p-8">
       <div className="mb-8">
-        <h1 className="text-gray-900 dark:text-gray-100">Statistics & Reports</h1>
-        <p className="text-gray-500 dark:text-gray-400 mt-1">Analyze attendance trends and generate reports.</p>
+        <h1 className="text-gray-900 dark:text-gray-100">Statistiques</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">Analysez les tendances de présence et générez des rapports.</p>
       </div>
 
       {/* Filters and Export */}
       <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm mb-6">
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
           <div className="flex items-center gap-3">
-            <span className="text-sm text-gray-600 dark:text-gray-400">Time Period:</span>
-            <Select value={timePeriod} onValueChange={setTimePeriod}>
-              <SelectTrigger className="w-[150px] bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100 rounded-lg">
+            <span className="text-sm text-gray-600 dark:text-gray-400">Période :</span>
+            <Select value={timePeriod} onValueChange={(value: string) => setTimePeriod(value as StatisticsPeriod)}>
+              <SelectTrigger className="w-[180px] bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100 rounded-lg">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="weekly">Weekly</SelectItem>
-                <SelectItem value="monthly">Monthly</SelectItem>
-                <SelectItem value="yearly">Yearly</SelectItem>
+                {(Object.keys(PERIOD_LABELS) as StatisticsPeriod[]).map(period => (
+                  <SelectItem key={period} value={period}>{PERIOD_LABELS[period]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              Du {formatDate(range.from)} au {formatDate(range.to)}
+            </span>
+            {fetching && <Loader2 className="w-4 h-4 animate-spin text-gray-400" />}
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" className="border-gray-300 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg">
+            <Button
+              variant="outline"
+              disabled={loading}
+              onClick={() => setExportFormat('pdf')}
+              className="border-gray-300 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg"
+            >
               <FileText className="w-4 h-4 mr-2" />
-              Export as PDF
+              Exporter en PDF
             </Button>
-            <Button variant="outline" className="border-gray-300 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg">
+            <Button
+              variant="outline"
+              disabled={loading}
+              onClick={() => setExportFormat('excel')}
+              className="border-gray-300 dark:border-gray-600 dark:text-gray-300 dark:hover:bg-gray-700 rounded-lg"
+            >
               <Download className="w-4 h-4 mr-2" />
-              Export as Excel
+              Exporter en Excel
             </Button>
           </div>
         </div>
       </Card>
 
       {/* Charts Grid */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+      <div ref={chartsRef} className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         {/* Attendance Rate by Division */}
-        <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
-          <h3 className="text-gray-900 dark:text-gray-100 mb-4">Attendance Rate by Division</h3>
+        <ChartCard title="Taux de présence par division" query={divisionsQuery} isEmpty={divisions.length === 0}>
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={divisionAttendanceData} layout="vertical">
+            <BarChart data={divisions} layout="vertical">
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" className="dark:stroke-gray-700" />
-              <XAxis type="number" domain={[0, 100]} stroke="#6b7280" className="dark:stroke-gray-400" />
-              <YAxis type="category" dataKey="division" stroke="#6b7280" className="dark:stroke-gray-400" />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'rgb(31, 41, 55)', 
-                  border: '1px solid rgb(55, 65, 81)',
-                  borderRadius: '8px',
-                  color: 'rgb(229, 231, 235)'
-                }}
-              />
+              <XAxis type="number" domain={[0, 100]} unit=" %" stroke="#6b7280" className="dark:stroke-gray-400" />
+              <YAxis type="category" dataKey="division" width={110} stroke="#6b7280" className="dark:stroke-gray-400" />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => [formatPercent(value), 'Présence']} />
               <Bar dataKey="rate" fill="#3b82f6" radius={[0, 8, 8, 0]}>
-                {divisionAttendanceData.map((entry, index) => (
-                  <Cell 
-                    key={`cell-${index}`} 
-                    fill={entry.rate >= 90 ? '#10b981' : entry.rate >= 85 ? '#3b82f6' : '#f59e0b'} 
+                {divisions.map((entry, index) => (
+                  <Cell
+                    key={`cell-${index}`}
+                    fill={entry.rate >= 90 ? '#10b981' : entry.rate >= 85 ? '#3b82f6' : '#f59e0b'}
                   />
                 ))}
               </Bar>
             </BarChart>
           </ResponsiveContainer>
-        </Card>
+        </ChartCard>
 
-        {/* Today's Status Distribution */}
-        <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
-          <h3 className="text-gray-900 dark:text-gray-100 mb-4">Today's Status Distribution</h3>
+        {/* Status Distribution */}
+        <ChartCard title="Répartition des statuts" query={distributionQuery} isEmpty={statusTotal === 0}>
           <ResponsiveContainer width="100%" height={300}>
             <PieChart>
               <Pie
-                data={statusDistribution}
+                data={statusData}
                 cx="50%"
                 cy="50%"
                 labelLine={false}
-                label={({ name, value }) => `${name}: ${value}%`}
+                label={({ name, value }) => `${name} : ${formatPercent(Math.round((value / statusTotal) * 1000) / 10)}`}
                 outerRadius={100}
                 fill="#8884d8"
                 dataKey="value"
               >
-                {statusDistribution.map((entry, index) => (
+                {statusData.map((entry, index) => (
                   <Cell key={`cell-${index}`} fill={entry.color} />
                 ))}
               </Pie>
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'rgb(31, 41, 55)', 
-                  border: '1px solid rgb(55, 65, 81)',
-                  borderRadius: '8px',
-                  color: 'rgb(229, 231, 235)'
-                }}
-              />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => `${value} jours-agent`} />
             </PieChart>
           </ResponsiveContainer>
-        </Card>
+        </ChartCard>
 
         {/* Punctuality Trends */}
-        <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
-          <h3 className="text-gray-900 dark:text-gray-100 mb-4">Punctuality Trends</h3>
+        <ChartCard title="Évolution de la ponctualité" query={punctualityQuery} isEmpty={punctuality.length === 0}>
           <ResponsiveContainer width="100%" height={300}>
-            <LineChart data={punctualityTrends}>
+            <LineChart data={punctuality}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" className="dark:stroke-gray-700" />
-              <XAxis dataKey="week" stroke="#6b7280" className="dark:stroke-gray-400" />
-              <YAxis stroke="#6b7280" className="dark:stroke-gray-400" />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'rgb(31, 41, 55)', 
-                  border: '1px solid rgb(55, 65, 81)',
-                  borderRadius: '8px',
-                  color: 'rgb(229, 231, 235)'
-                }}
-              />
+              <XAxis dataKey="label" stroke="#6b7280" className="dark:stroke-gray-400" />
+              <YAxis unit=" %" stroke="#6b7280" className="dark:stroke-gray-400" />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => formatPercent(value)} />
               <Legend />
-              <Line 
-                type="monotone" 
-                dataKey="onTime" 
-                stroke="#10b981" 
+              <Line
+                type="monotone"
+                dataKey="onTime"
+                name="À l'heure"
+                stroke="#10b981"
                 strokeWidth={2}
                 dot={{ fill: '#10b981', r: 4 }}
               />
-              <Line 
-                type="monotone" 
-                dataKey="late" 
-                stroke="#f59e0b" 
+              <Line
+                type="monotone"
+                dataKey="late"
+                name="En retard"
+                stroke="#f59e0b"
                 strokeWidth={2}
                 dot={{ fill: '#f59e0b', r: 4 }}
               />
-              <Line 
-                type="monotone" 
-                dataKey="absent" 
-                stroke="#ef4444" 
+              <Line
+                type="monotone"
+                dataKey="absent"
+                name="Absent"
+                stroke="#ef4444"
                 strokeWidth={2}
                 dot={{ fill: '#ef4444', r: 4 }}
               />
             </LineChart>
           </ResponsiveContainer>
-        </Card>
+        </ChartCard>
 
         {/* Monthly Absence Rates */}
-        <Card className="p-6 border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm">
-          <h3 className="text-gray-900 dark:text-gray-100 mb-4">Monthly Absence Rates</h3>
+        <ChartCard title="Taux d'absence par mois" query={absenceRatesQuery} isEmpty={absenceRates.length === 0}>
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={absenceData}>
+            <BarChart data={absenceRates}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" className="dark:stroke-gray-700" />
-              <XAxis dataKey="month" stroke="#6b7280" className="dark:stroke-gray-400" />
-              <YAxis stroke="#6b7280" className="dark:stroke-gray-400" />
-              <Tooltip 
-                contentStyle={{ 
-                  backgroundColor: 'rgb(31, 41, 55)', 
-                  border: '1px solid rgb(55, 65, 81)',
-                  borderRadius: '8px',
-                  color: 'rgb(229, 231, 235)'
-                }}
-              />
+              <XAxis dataKey="label" stroke="#6b7280" className="dark:stroke-gray-400" />
+              <YAxis unit=" %" stroke="#6b7280" className="dark:stroke-gray-400" />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => [formatPercent(value), 'Absence']} />
               <Bar dataKey="rate" fill="#ef4444" radius={[8, 8, 0, 0]} />
             </BarChart>
           </ResponsiveContainer>
-        </Card>
+        </ChartCard>
       </div>
 
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <Card className="p-6 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm bg-gradient-to-br from-blue-50 to-white dark:from-blue-950/30 dark:to-gray-800">
-          <h4 className="text-gray-600 dark:text-gray-400 text-sm mb-2">Average Attendance Rate</h4>
-          <p className="text-3xl text-blue-600 dark:text-blue-400 mb-1">92.3%</p>
-          <p className="text-xs text-gray-500 dark:text-gray-400">+2.1% from last month</p>
+          <h4 className="text-gray-600 dark:text-gray-400 text-sm mb-2">Taux de présence moyen</h4>
+          <p className="text-3xl text-blue-600 dark:text-blue-400 mb-1">
+            {averageRate === null ? '—' : formatPercent(averageRate)}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {present} jours présents sur {expected} attendus
+          </p>
         </Card>
         <Card className="p-6 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm bg-gradient-to-br from-green-50 to-white dark:from-green-950/30 dark:to-gray-800">
-          <h4 className="text-gray-600 dark:text-gray-400 text-sm mb-2">Best Performing Division</h4>
-          <p className="text-3xl text-green-600 dark:text-green-400 mb-1">IT</p>
-          <p className="text-xs text-gray-500 dark:text-gray-400">95% attendance rate</p>
+          <h4 className="text-gray-600 dark:text-gray-400 text-sm mb-2">Meilleure division</h4>
+          <p className="text-3xl text-green-600 dark:text-green-400 mb-1">{bestDivision?.division ?? '—'}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {bestDivision ? `${formatPercent(bestDivision.rate)} de présence` : 'Aucune donnée'}
+          </p>
         </Card>
         <Card className="p-6 border border-gray-200 dark:border-gray-700 rounded-xl shadow-sm bg-gradient-to-br from-orange-50 to-white dark:from-orange-950/30 dark:to-gray-800">
-          <h4 className="text-gray-600 dark:text-gray-400 text-sm mb-2">Average Late Arrivals</h4>
-          <p className="text-3xl text-orange-600 dark:text-orange-400 mb-1">8 / day</p>
-          <p className="text-xs text-gray-500 dark:text-gray-400">-1 from last month</p>
+          <h4 className="text-gray-600 dark:text-gray-400 text-sm mb-2">Retards moyens</h4>
+          <p className="text-3xl text-orange-600 dark:text-orange-400 mb-1">
+            {latePerDay === null ? '—' : `${latePerDay.toLocaleString('fr-FR')} / jour`}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {distribution ? `${distribution.late} retards sur ${distribution.workingDays} jours ouvrés` : 'Aucune donnée'}
+          </p>
         </Card>
       </div>
+
+      <StatisticsExportDialog
+        open={exportFormat !== null}
+        onOpenChange={(open: boolean) => !open && setExportFormat(null)}
+        format={exportFormat ?? 'pdf'}
+        range={range}
+        periodLabel={PERIOD_LABELS[timePeriod]}
+        tables={exportTables}
+        chartsRef={chartsRef}
+      />
     </div>
   );
 }
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import { AlertTriangle, ChevronLeft, ChevronRight, GanttChart, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  agentsService,
+  calendarService,
+  getErrorMessage,
+  queryClient,
+  queryKeys,
+  systemService,
+} from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useAbsenceTypes } from '../../lib/hooks/useAbsenceTypes';
+import { useAuth } from '../../lib/auth-context';
+import {
+  absenceOn,
+  datesBetween,
+  divisionLoads,
+  findAvailabilityAlerts,
+} from '../../lib/team-availability';
+import { findHoliday, isNonWorkingDay, toIsoDate } from '../../lib/utils';
+import type { AvailabilityAgent } from '../../lib/api/types';
+
+/** Width of one day column of the timeline (px) */
+const DAY_WIDTH = 28;
+
+/** Alerts listed before "et N autres" */
+const MAX_ALERTS = 8;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR', { weekday: 'short', day: '2-digit', month: '2-digit' });
+
+export function TeamAvailability() {
+  const { isAdmin } = useAuth();
+  const { absenceTypes, getLabel, getColor } = useAbsenceTypes();
+
+  // Displayed month and filters
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [division, setDivision] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+
+  const from = toIsoDate(month);
+  const to = toIsoDate(new Date(month.getFullYear(), month.getMonth() + 1, 0));
+  const dates = useMemo(() => datesBetween(from, to), [from, to]);
+
+  // Absences of the month, divisions and holidays (cached)
+  const params = division === 'all' ? { from, to } : { from, to, division };
+  const availabilityQuery = useApiQuery(
+    queryKeys.agents.availability(params),
+    signal => calendarService.getTeamAvailability(params, signal),
+    { keepPreviousData: true }
+  );
+  const divisionsQuery = useApiQuery(queryKeys.agents.divisions(), signal => agentsService.getDivisions(signal));
+  const holidaysQuery = useApiQuery(queryKeys.holidays.list({}), signal => calendarService.getHolidays(undefined, signal));
+  const availability = availabilityQuery.data;
+  const holidays = holidaysQuery.data ?? [];
+
+  // Warning threshold (editable by the Admin)
+  const [threshold, setThreshold] = useState('');
+  const [savingThreshold, setSavingThreshold] = useState(false);
+  useEffect(() => {
+    if (availability) setThreshold(String(availability.thresholdPercent));
+  }, [availability?.thresholdPercent]);
+
+  const handleSaveThreshold = async () => {
+    setSavingThreshold(true);
+    try {
+      const response = await systemService.updateSettings({ availabilityThresholdPercent: Number(threshold) });
+      toast.success(response.message || "Seuil d'alerte enregistré");
+      queryClient.invalidate(queryKeys.settings.all);
+      queryClient.invalidate(queryKeys.agents.all);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Enregistrement du seuil d'alerte impossible"));
+    } finally {
+      setSavingThreshold(false);
+    }
+  };
+
+  // Warnings are computed on every absence, whatever the type filter
+  const alerts = useMemo(
+    () => (availability ? findAvailabilityAlerts(availability, holidays) : []),
+    [availability, holidays]
+  );
+  const alertKeys = useMemo(() => new Set(alerts.map(a => `${a.division}|${a.date}`)), [alerts]);
+
+  // Agents grouped by division (sorted by the backend)
+  const groups = useMemo(() => {
+    const byDivision = new Map<string, AvailabilityAgent[]>();
+    availability?.agents.forEach(agent => byDivision.set(agent.division, [...(byDivision.get(agent.division) ?? []), agent]));
+    return [...byDivision.entries()];
+  }, [availability]);
+
+  const holidayName = (date: string) =>
+    findHoliday(holidays, date)?.name;
+
+  const dayClass = (date: string) =>
+    holidayName(date)
+      ? 'bg-red-50 dark:bg-red-900/30'
+      : isNonWorkingDay(date, holidays)
+        ? 'bg-gray-100 dark:bg-gray-900/60'
+        : '';
+
+  // Absence bars of an agent, clipped to the month
+  const bars = (agent: AvailabilityAgent) =>
+    agent.absences
+      .filter(a => typeFilter === 'all' || a.type === typeFilter)
+      .map(a => {
+        const start = dates.indexOf(a.startDate < from ? from : a.startDate);
+        const end = dates.indexOf(a.endDate > to ? to : a.endDate);
+        return { ...a, left: start * DAY_WIDTH, width: (end - start + 1) * DAY_WIDTH };
+      });
+
+  const changeMonth = (offset: number) => setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + offset, 1));
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-gray-900 dark:text-gray-100">Disponibilités de l'équipe</h1>
+        <p className="text-gray-500 dark:text-gray-400 mt-1">
+          Absences de longue durée de tous les agents par division, avec les week-ends et les jours fériés.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => changeMonth(-1)} className="dark:border-gray-600 dark:text-gray-300">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="w-40 text-center text-gray-900 dark:text-gray-100 capitalize">
+            {month.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' })}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => changeMonth(1)} className="dark:border-gray-600 dark:text-gray-300">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+        <Select value={division} onValueChange={(value: string) => setDivision(value)}>
+          <SelectTrigger className="w-48 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Toutes les divisions</SelectItem>
+            {(divisionsQuery.data ?? []).map(d => (
+              <SelectItem key={d} value={d}>{d}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={typeFilter} onValueChange={(value: string) => setTypeFilter(value)}>
+          <SelectTrigger className="w-52 bg-white dark:bg-gray-900 border-gray-300 dark:border-gray-600 dark:text-gray-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Tous les types d'absence</SelectItem>
+            {absenceTypes.map(t => (
+              <SelectItem key={t.code} value={t.code}>{t.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex items-end gap-2">
+          <div>
+            <Label htmlFor="availability-threshold" className="text-xs dark:text-gray-300">Seuil d'alerte (% d'une division)</Label>
+            <Input
+              id="availability-threshold"
+              type="number"
+              min={1}
+              max={100}
+              value={threshold}
+              disabled={!isAdmin}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="mt-1 w-28 dark:bg-gray-900 dark:border-gray-600 dark:text-gray-100"
+            />
+          </div>
+          {isAdmin && (
+            <Button
+              onClick={handleSaveThreshold}
+              disabled={savingThreshold || !threshold || Number(threshold) === availability?.thresholdPercent}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {savingThreshold && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Enregistrer
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Understaffing warnings */}
+      {alerts.length > 0 && (
+        <Card className="p-4 mb-6 border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 rounded-xl">
+          <p className="flex items-center gap-2 text-amber-800 dark:text-amber-300">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {alerts.length} jour(s) où plus de {availability?.thresholdPercent} % d'une division est absente
+          </p>
+          <ul className="mt-2 ml-6 text-sm text-amber-700 dark:text-amber-400 list-disc">
+            {alerts.slice(0, MAX_ALERTS).map(alert => (
+              <li key={`${alert.division}|${alert.date}`}>
+                {formatDay(alert.date)} — {alert.division} : {alert.away}/{alert.total} agents absents ({alert.percent} %)
+              </li>
+            ))}
+            {alerts.length > MAX_ALERTS && <li>et {alerts.length - MAX_ALERTS} autre(s)</li>}
+          </ul>
+        </Card>
+      )}
+
+      {/* Timeline */}
+      <Card className="border border-gray-200 dark:border-gray-700 dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden">
+        {availabilityQuery.loading ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">Chargement...</p>
+        ) : groups.length === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <GanttChart className="w-6 h-6 mx-auto mb-2 opacity-50" />
+            Aucun agent
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <div style={{ minWidth: 220 + dates.length * DAY_WIDTH }}>
+              {/* Days */}
+              <div className="flex border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50">
+                <div className="w-[220px] shrink-0 px-4 py-2 text-sm text-gray-600 dark:text-gray-300">Agent</div>
+                {dates.map(date => (
+                  <div
+                    key={date}
+                    title={holidayName(date)}
+                    className={`shrink-0 py-1 text-center text-[10px] leading-tight text-gray-600 dark:text-gray-400 ${dayClass(date)}`}
+                    style={{ width: DAY_WIDTH }}
+                  >
+                    <div>{new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR', { weekday: 'narrow' })}</div>
+                    <div className="text-xs text-gray-900 dark:text-gray-100">{Number(date.slice(8))}</div>
+                  </div>
+                ))}
+              </div>
+
+              {groups.map(([divisionName, agents]) => (
+                <div key={divisionName}>
+                  {/* Division load: agents away each day */}
+                  <div className="flex border-b border-gray-200 dark:border-gray-700 bg-blue-50/60 dark:bg-blue-900/20">
+                    <div className="w-[220px] shrink-0 px-4 py-1.5 text-sm text-blue-800 dark:text-blue-300">
+                      {divisionName} <span className="text-xs text-gray-500 dark:text-gray-400">({agents.length})</span>
+                    </div>
+                    {dates.map(date => {
+                      const load = availability && divisionLoads({ ...availability, agents }, date)[0];
+                      const alert = alertKeys.has(`${divisionName}|${date}`);
+                      return (
+                        <div
+                          key={date}
+                          title={load && load.away ? `${load.away}/${load.total} absent(s) (${load.percent} %)` : undefined}
+                          className={`shrink-0 py-1.5 text-center text-[10px] ${
+                            alert ? 'bg-red-500 text-white' : `text-gray-500 dark:text-gray-400 ${dayClass(date)}`
+                          }`}
+                          style={{ width: DAY_WIDTH }}
+                        >
+                          {load && load.away > 0 ? load.away : ''}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {/* One row per agent */}
+                  {agents.map(agent => (
+                    <div key={agent.matricule} className="flex border-b border-gray-100 dark:border-gray-700/60">
+                      <div className="w-[220px] shrink-0 px-4 py-1.5 truncate">
+                        <span className="text-sm text-gray-900 dark:text-gray-100">{agent.nom}</span>
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{agent.matricule}</span>
+                      </div>
+                      <div className="relative flex">
+                        {dates.map(date => (
+                          <div key={date} className={`shrink-0 h-full ${dayClass(date)}`} style={{ width: DAY_WIDTH }} />
+                        ))}
+                        {bars(agent).map(bar => (
+                          <div
+                            key={bar.id}
+                            title={`${getLabel(bar.type)} du ${formatDay(bar.startDate)} au ${formatDay(bar.endDate)}`}
+                            className="absolute top-1 bottom-1 rounded px-1 text-[10px] leading-5 text-white truncate opacity-90"
+                            style={{ left: bar.left, width: bar.width, backgroundColor: getColor(bar.type) }}
+                          >
+                            {getLabel(bar.type)}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </Card>
+
+      {/* Legend */}
+      <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+        {absenceTypes.map(t => (
+          <span key={t.code} className="flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded" style={{ backgroundColor: t.color }} />
+            {t.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded bg-gray-100 dark:bg-gray-900/60 border border-gray-200 dark:border-gray-600" />
+          Week-end
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-700" />
+          Jour férié
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded bg-red-500" />
+          Seuil d'alerte dépassé
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
@@ -22,21 +22,54 @@ import {
 } from '../ui/dialog';
 import { Label } from '../ui/label';
 import { Plus, Pencil, Trash2, Clock } from 'lucide-react';
-import { schedulesService } from '../../lib/api';
+import { schedulesService, queryKeys } from '../../lib/api';
+import { useApiQuery } from '../../lib/hooks/useApi';
+import { useOptimisticMutation } from '../../lib/hooks/useOptimisticMutation';
 import type { WorkSchedule } from '../../lib/api/types';
 import { ConfirmDialog } from '../ConfirmDialog';
 import { toast } from 'sonner';
 
 export function WorkSchedules() {
-  const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Schedules (cached, revalidated in the background)
+  const schedulesQuery = useApiQuery(queryKeys.schedules.list(), signal => schedulesService.getSchedules(signal));
+  const schedules = schedulesQuery.data ?? [];
+  const loading = schedulesQuery.loading;
+
+  // Mutations: the list is updated immediately and rolled back if the server refuses
+  const createMutation = useOptimisticMutation({
+    queryKey: queryKeys.schedules.list(),
+    mutationFn: (schedule: WorkSchedule) => schedulesService.createSchedule(schedule),
+    optimisticUpdate: (prev: WorkSchedule[] = [], schedule) => [
+      ...prev.map(s => (schedule.isActive ? { ...s, isActive: false } : s)),
+      { ...schedule, id: `tmp-${Date.now()}`, deletable: true },
+    ],
+    successMessage: 'Horaire créé avec succès !',
+    errorMessage: 'Échec de la création de l’horaire',
+  });
+
+  const updateMutation = useOptimisticMutation({
+    queryKey: queryKeys.schedules.list(),
+    mutationFn: (schedule: WorkSchedule) => schedulesService.updateSchedule(schedule.id, schedule),
+    optimisticUpdate: (prev: WorkSchedule[] = [], schedule) =>
+      prev.map(s =>
+        s.id === schedule.id ? schedule : schedule.isActive ? { ...s, isActive: false } : s
+      ),
+    errorMessage: 'Echec du Mis a jour',
+  });
+
+  const deleteMutation = useOptimisticMutation({
+    queryKey: queryKeys.schedules.list(),
+    mutationFn: (schedule: WorkSchedule) => schedulesService.deleteSchedule(schedule.id),
+    optimisticUpdate: (prev: WorkSchedule[] = [], schedule) => prev.filter(s => s.id !== schedule.id),
+    errorMessage: 'La suppression a échoué',
+    undo: { message: schedule => `Horaire « ${schedule.name} » supprimé` },
+  });
 
   // States for dialogs
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<WorkSchedule | null>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
   const [scheduleToDelete, setScheduleToDelete] = useState<WorkSchedule | null>(null);
-  const [isDeleting, setIsDeleting] = useState(false);
 
   // Form states for new and editing schedules
   const [newSchedule, setNewSchedule] = useState<WorkSchedule>({
@@ -50,24 +83,6 @@ export function WorkSchedules() {
     isActive: false,
   });
 
-  // Fetch schedules
-  useEffect(() => {
-    const fetchSchedules = async () => {
-      try {
-        setLoading(true);
-        const response = await schedulesService.getSchedules();
-        if (response.success && response.data) {
-          setSchedules(response.data);
-        }
-      } catch (error) {
-        console.error('Failed to fetch schedules:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    fetchSchedules();
-  }, []);
-
   // Handlers for Add
   const handleAddChange = (field: keyof WorkSchedule, value: any) => {
     setNewSchedule((prev) => ({ ...prev, [field]: value }));
@@ -108,29 +123,25 @@ export function WorkSchedules() {
   const handleCreateSchedule = async () => {
 
     if (!validateSchedule(newSchedule)) return;
-    
-    try {
-      const response = await schedulesService.createSchedule(newSchedule);
-      if (response.success && response.data) {
-        setSchedules((prev) => [...prev, response.data]);
-        toast.success("Horaire créé avec succès !");
-        setIsAddDialogOpen(false);
-        setNewSchedule({
-          id: '',
-          name: '',
-          morningStart: '08:00',
-          morningEnd: '12:00',
-          afternoonStart: '13:00',
-          afternoonEnd: '17:00',
-          tolerance: 15,
-          isActive: false,
-        });
-      } else {
-        toast.error('Échec de la création de l’horaire');
-      }
-    } catch (error) {
-      console.error('Error creating schedule:', error);
-      toast.error('Une erreur inattendue est survenue');
+
+    // Fermeture immédiate, l'horaire apparaît déjà dans la liste
+    const schedule = newSchedule;
+    setIsAddDialogOpen(false);
+    const created = await createMutation.mutate(schedule);
+    if (created) {
+      setNewSchedule({
+        id: '',
+        name: '',
+        morningStart: '08:00',
+        morningEnd: '12:00',
+        afternoonStart: '13:00',
+        afternoonEnd: '17:00',
+        tolerance: 15,
+        isActive: false,
+      });
+    } else {
+      // Rouvre le formulaire pour corriger la saisie
+      setIsAddDialogOpen(true);
     }
   };
   
@@ -147,20 +158,13 @@ export function WorkSchedules() {
 
     if (!validateSchedule(editingSchedule)) return; 
 
-    try {
-      const response = await schedulesService.updateSchedule(editingSchedule.id, editingSchedule);
-      if (response.success && response.data) {
-        setSchedules((prev) =>
-          prev.map((s) => (s.id === editingSchedule.id ? response.data : s))
-        );
-        toast.success('Horaire mis a Jour avec Succès');
-        setEditingSchedule(null);
-      } else {
-        toast.error('Echec du Mis a jour');
-      }
-    } catch (error) {
-      console.error('Error updating schedule:', error);
-      toast.error('An unexpected error occurred');
+    const schedule = editingSchedule;
+    setEditingSchedule(null);
+    const updated = await updateMutation.mutate(schedule);
+    if (updated) {
+      toast.success('Horaire mis a Jour avec Succès');
+    } else {
+      setEditingSchedule(schedule);
     }
   };
 
@@ -172,37 +176,18 @@ export function WorkSchedules() {
 
   const handleDeleteConfirm = async () => {
     if (!scheduleToDelete) return;
-    try {
-      setIsDeleting(true);
-      const response = await schedulesService.deleteSchedule(scheduleToDelete.id);
-      if (response.success) {
-        setSchedules((prev) => prev.filter((s) => s.id !== scheduleToDelete.id));
-        toast.success('Horaire éffacer avec Succès');
-      } else {
-        toast.error('La suppression a échoué');
-      }
-    } catch (error) {
-      console.error('Error deleting schedule:', error);
-      toast.error('An unexpected error occurred');
-    } finally {
-      setIsDeleting(false);
-      setConfirmDialogOpen(false);
-      setScheduleToDelete(null);
-    }
+    const schedule = scheduleToDelete;
+    setConfirmDialogOpen(false);
+    setScheduleToDelete(null);
+    // Suppression annulable pendant quelques secondes (voir le toast)
+    await deleteMutation.mutate(schedule);
   };
 
-  const toggleActive = async (id: string) => {
-    const updated = schedules.map((s) => ({
-      ...s,
-      isActive: s.id === id ? !s.isActive : false,
-    }));
-    setSchedules(updated);
-
-    // Update active status via API
-    const active = updated.find((s) => s.id === id);
-    if (active) {
-      await schedulesService.updateSchedule(id, { ...active });
-    }
+  // Activation exclusive : un seul horaire actif, annulée si le serveur refuse
+  const toggleActive = (id: string) => {
+    const schedule = schedules.find((s) => s.id === id);
+    if (!schedule) return;
+    updateMutation.mutate({ ...schedule, isActive: !schedule.isActive });
   };
 
   const formatTimeToHourMinute = (time: string | null): string | null => {
@@ -497,7 +482,7 @@ export function WorkSchedules() {
         itemName={scheduleToDelete?.name || ''}
         confirmText="Oui supprimer cet Horaire"
         onConfirm={handleDeleteConfirm}
-        isLoading={isDeleting}
+        isLoading={deleteMutation.pending}
       />
     </div>
   );
@@ -0,0 +1,387 @@
+/**
+ * ============================================================================
+ * AGENT IMPORT
+ * ============================================================================
+ *
+ * Parsing, validation and reporting helpers for the bulk agent import
+ * (see components/AgentImportDialog) and the CSV export of agents.
+ *
+ * Key Features:
+ * - CSV parsing (RFC 4180 quoting, ',' or ';' separator, UTF-8 BOM)
+ * - XLSX / XLS parsing (first sheet) with SheetJS, from the official CDN build
+ *   (the npm registry stops at 0.18.5, affected by CVE-2023-30533 and CVE-2024-22363)
+ * - Automatic mapping of file columns to Agent fields
+ * - Validation rules shared with the add/edit agent dialogs
+ * - Duplicate detection (inside the file and against existing matricules)
+ * - CSV error report
+ * - CSV export of agents (same columns as the import, so it can be re-imported)
+ *
+ * @module lib/agent-import
+ */
+
+// --- Dependencies ---
+import * as XLSX from 'xlsx';
+import type { Agent } from './api/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Agent field that can be imported
+ */
+export type ImportField = keyof Agent;
+
+/**
+ * Parsed file: header row and data rows (all values as strings)
+ */
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Column mapping: Agent field → index of the file column (null = not mapped)
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/**
+ * Row of the preview grid
+ *
+ * @property {number} line - Line number in the file (header = line 1)
+ * @property {Agent} agent - Agent built from the mapped columns
+ * @property {string[]} errors - Validation errors (empty = row can be imported)
+ */
+export interface ImportRow {
+  line: number;
+  agent: Agent;
+  errors: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Importable fields, with their label and accepted column names
+ * (compared without case, accents and punctuation)
+ */
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean; aliases: string[] }> = [
+  { field: 'matricule', label: 'Matricule', required: true, aliases: ['matricule', 'mat', 'id', 'numero'] },
+  { field: 'nom', label: 'Nom complet', required: true, aliases: ['nom', 'nomcomplet', 'name', 'nomprenom', 'nomprenoms'] },
+  { field: 'division', label: 'Division', required: true, aliases: ['division', 'departement', 'department', 'service'] },
+  { field: 'poste', label: 'Poste', required: true, aliases: ['poste', 'fonction', 'position', 'job'] },
+  { field: 'status', label: 'Statut', required: false, aliases: ['status', 'statut', 'etat'] },
+];
+
+/**
+ * French labels of the agent statuses
+ */
+export const AGENT_STATUS_LABELS: Record<Agent['status'], string> = {
+  Active: 'Actif',
+  Inactive: 'Inactif',
+  'On Leave': 'En congé',
+};
+
+/**
+ * Accepted status values (French labels included) → Agent status
+ * (a Map, so that cell text such as "constructor" never matches an Object member)
+ */
+const STATUS_VALUES = new Map<string, Agent['status']>([
+  ['active', 'Active'],
+  ['actif', 'Active'],
+  ['inactive', 'Inactive'],
+  ['inactif', 'Inactive'],
+  ['onleave', 'On Leave'],
+  ['enconge', 'On Leave'],
+  ['conge', 'On Leave'],
+]);
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const MATRICULE_REGEX = /^[A-Za-z0-9]+$/;
+const NAME_REGEX = /^[A-Za-zÀ-ÖØ-öø-ÿ\s'-]+$/;
+
+/**
+ * Validate an agent
+ *
+ * Same rules as the add/edit agent dialogs.
+ *
+ * @param {Agent} agent - Agent to validate
+ * @returns {string[]} Error messages (empty if the agent is valid)
+ *
+ * @example
+ * getAgentErrors({ matricule: 'A-1', nom: 'Rakoto', division: 'DSI', poste: 'Dev' })
+ * // ['Le matricule ne doit contenir que des lettres et chiffres']
+ */
+export function getAgentErrors(agent: Agent): string[] {
+  const errors: string[] = [];
+
+  if (!agent.matricule?.trim()) {
+    errors.push('Le matricule est obligatoire');
+  } else if (!MATRICULE_REGEX.test(agent.matricule)) {
+    errors.push('Le matricule ne doit contenir que des lettres et chiffres');
+  }
+
+  if (!agent.nom?.trim()) {
+    errors.push('Le nom est obligatoire');
+  } else if (!NAME_REGEX.test(agent.nom)) {
+    errors.push('Le nom contient des caractères non valides');
+  }
+
+  if (!agent.division?.trim()) {
+    errors.push('Le département est obligatoire');
+  } else if (!NAME_REGEX.test(agent.division)) {
+    errors.push('Le département contient des caractères non valides');
+  }
+
+  if (!agent.poste?.trim()) {
+    errors.push('Le poste est obligatoire');
+  } else if (!NAME_REGEX.test(agent.poste)) {
+    errors.push('Le poste contient des caractères non valides');
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Normalize a header or value for comparisons
+ * e.g. 'Département ' → 'departement', 'En congé' → 'enconge'
+ */
+const normalize = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Parse CSV text (RFC 4180)
+ *
+ * The separator is detected on the first line (';' is what Excel writes
+ * with French regional settings, ',' otherwise).
+ *
+ * @param {string} text - File content
+ * @returns {string[][]} Rows of cells (empty lines removed)
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const separator = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Read an import file (CSV, XLSX or XLS)
+ *
+ * @param {File} file - File chosen by the user
+ * @returns {Promise<ParsedSheet>} Header row and data rows
+ * @throws {Error} If the format is not supported or the file has no data row
+ */
+export async function readImportFile(file: File): Promise<ParsedSheet> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let rows: string[][];
+
+  if (extension === 'csv' || extension === 'txt') {
+    rows = parseCsv(await file.text());
+  } else if (extension === 'xlsx' || extension === 'xls') {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error('Le classeur ne contient aucune feuille');
+    rows = XLSX.utils
+      .sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' })
+      .map(cells => cells.map(value => String(value ?? '')))
+      .filter(cells => cells.some(value => value.trim() !== ''));
+  } else {
+    throw new Error('Format non supporté (fichiers .csv, .xlsx ou .xls uniquement)');
+  }
+
+  if (rows.length < 2) {
+    throw new Error('Le fichier doit contenir une ligne d\'en-tête et au moins un agent');
+  }
+
+  const [headers, ...data] = rows;
+  return { headers: headers.map(header => header.trim()), rows: data };
+}
+
+/**
+ * Guess the column of each field from the file headers
+ *
+ * @param {string[]} headers - Header row of the file
+ * @returns {ColumnMapping} Mapping (null for fields without a matching column)
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalize);
+  return IMPORT_FIELDS.reduce((mapping, { field, aliases }) => {
+    const index = normalized.findIndex(header => aliases.includes(header));
+    mapping[field] = index === -1 ? null : index;
+    return mapping;
+  }, {} as ColumnMapping);
+}
+
+/**
+ * Build and validate the rows to import
+ *
+ * @param {ParsedSheet} sheet - Parsed file
+ * @param {ColumnMapping} mapping - Column of each field
+ * @param {Set<string>} existingMatricules - Matricules already in the system
+ * @returns {ImportRow[]} One row per data line, with its errors
+ */
+export function buildImportRows(
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  existingMatricules: Set<string>
+): ImportRow[] {
+  const cell = (cells: string[], field: ImportField) => {
+    const index = mapping[field];
+    // ' added by the CSV export in front of formula characters
+    return index === null ? '' : (cells[index] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+  };
+
+  // Count matricules to flag duplicates inside the file
+  const occurrences = new Map<string, number>();
+  sheet.rows.forEach(cells => {
+    const matricule = cell(cells, 'matricule').toUpperCase();
+    if (matricule) occurrences.set(matricule, (occurrences.get(matricule) ?? 0) + 1);
+  });
+
+  return sheet.rows.map((cells, index) => {
+    const rawStatus = cell(cells, 'status');
+    const status = rawStatus ? STATUS_VALUES.get(normalize(rawStatus)) : 'Active';
+    const agent: Agent = {
+      matricule: cell(cells, 'matricule'),
+      nom: cell(cells, 'nom'),
+      division: cell(cells, 'division'),
+      poste: cell(cells, 'poste'),
+      status: status ?? 'Active',
+    };
+
+    const errors = getAgentErrors(agent);
+    if (rawStatus && !status) {
+      errors.push(`Statut inconnu « ${rawStatus} » (Actif, Inactif ou En congé)`);
+    }
+    const matricule = agent.matricule.toUpperCase();
+    if (matricule && existingMatricules.has(matricule)) {
+      errors.push('Matricule déjà existant dans le système');
+    } else if (matricule && (occurrences.get(matricule) ?? 0) > 1) {
+      errors.push('Matricule en double dans le fichier');
+    }
+
+    return { line: index + 2, agent, errors };
+  });
+}
+
+// ============================================================================
+// ERROR REPORT AND EXPORT
+// ============================================================================
+
+/**
+ * First characters that make spreadsheets read a cell as a formula
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV cell when needed (RFC 4180)
+ *
+ * Text read from imported files is written back out: a leading ' keeps
+ * spreadsheets from evaluating it as a formula (removed again on import).
+ */
+const csvCell = (value: string | number): string => {
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build the CSV error report
+ *
+ * @param {ImportRow[]} rows - Rows that were not imported
+ * @returns {Blob} CSV file
+ */
+export function buildErrorReport(rows: ImportRow[]): Blob {
+  const lines = [
+    ['Ligne', 'Matricule', 'Nom complet', 'Division', 'Poste', 'Statut', 'Erreurs'],
+    ...rows.map(({ line, agent, errors }) => [
+      line,
+      agent.matricule,
+      agent.nom,
+      agent.division,
+      agent.poste,
+      agent.status,
+      errors.join(' | '),
+    ]),
+  ];
+  return toCsvBlob(lines);
+}
+
+/**
+ * Export agents as CSV
+ *
+ * Uses the import column names, so the file can be edited and re-imported.
+ *
+ * @param {Agent[]} agents - Agents to export
+ * @returns {Blob} CSV file
+ */
+export function buildAgentsCsv(agents: Agent[]): Blob {
+  return toCsvBlob([
+    IMPORT_FIELDS.map(({ label }) => label),
+    ...agents.map(agent => [
+      agent.matricule,
+      agent.nom,
+      agent.division,
+      agent.poste,
+      AGENT_STATUS_LABELS[agent.status] ?? agent.status ?? '',
+    ]),
+  ]);
+}
+
+/**
+ * Build a CSV file from rows of cells
+ *
+ * ';' separated with a BOM so that Excel opens it with the right encoding.
+ */
+const toCsvBlob = (lines: Array<Array<string | number>>): Blob => {
+  const csv = lines.map(cells => cells.map(csvCell).join(';')).join('\r\n');
+  return new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+};
@@ -11,18 +11,18 @@
  * - Get detailed agent information
  * - Create, update, and delete agents
  * - Retrieve agent attendance history
- * - Automatic JWT authentication
+ * - Automatic JWT authentication (via the shared apiClient)
  * 
- * All methods return standardized ApiResponse wrappers and throw errors
- * that can be caught by calling components.
+ * All methods return standardized ApiResponse wrappers and throw ApiError
+ * (status, backend message, field errors) that can be caught by calling components.
  * 
  * @module api/agents.service
  */
 
 // --- Dependencies ---
 import { API_CONFIG } from './config';
-import { fetchWithAuth } from './fetchWithAuth';
-import type { Agent, AgentDetails, AgentAttendance, DailyAttendanceDetails, TemporaryExit, LongAbsence, ApiResponse, PaginatedResponse } from './types';
+import { apiClient } from './client';
+import type { Agent, AgentDetails, AgentAttendance, AgentListParams, DailyAttendanceDetails, TemporaryExit, LongAbsence, ApiResponse, PaginatedApiResponse, PaginatedResponse } from './types';
 
 /**
  * Agents Service Class
@@ -35,70 +35,116 @@ class AgentsService {
    * Get All Agents
    * 
    * Fetches a paginated list of agents with optional filtering.
-   * Supports search by name/email, filtering by department/status, and pagination.
+   * Supports search by name/matricule, filtering by department/status,
+   * sorting and pagination (all done server-side).
    * 
    * API Endpoint: GET /agents
    * Authentication: Required (JWT Bearer token)
    * 
-   * @param {Object} params - Optional query parameters
+   * The backend sends the items in `data` and the page metadata in a
+   * sibling `pagination` object; both are merged into a PaginatedResponse.
+   * 
+   * @param {AgentListParams} params - Optional query parameters
    * @param {number} params.page - Page number (1-indexed)
    * @param {number} params.pageSize - Number of items per page
-   * @param {string} params.search - Search term (searches name, email, employeeId)
-   * @param {string} params.department - Filter by department (e.g., 'IT', 'HR')
+   * @param {string} params.search - Search term (searches name, matricule)
+   * @param {string} params.department - Filter by division (e.g., 'DSI', 'RH')
    * @param {string} params.status - Filter by status ('Active', 'Inactive', 'On Leave')
+   * @param {string} params.sortBy - Sorted column ('matricule', 'nom', 'division', 'poste', 'status')
+   * @param {string} params.sortOrder - Sort direction ('asc' or 'desc')
+   * @param {AbortSignal} signal - Optional signal to cancel the request
    * 
    * @returns {Promise<ApiResponse<PaginatedResponse<Agent>>>} Paginated agent list
    * 
-   * @throws {Error} If the API request fails or returns non-OK status
+   * @throws {ApiError} If the API request fails or returns non-OK status
    * 
    * @example
    * // Get first page of agents
    * const response = await agentsService.getAgents({ page: 1, pageSize: 10 });
    * if (response.success && response.data) {
    *   console.log(`Total agents: ${response.data.total}`);
-   *   response.data.data.forEach(agent => console.log(agent.name));
+   *   response.data.data.forEach(agent => console.log(agent.nom));
    * }
    * 
    * @example
-   * // Search for agents in IT department
+   * // Search for agents in IT department, sorted by name
    * const response = await agentsService.getAgents({ 
    *   search: 'john',
-   *   department: 'IT'
+   *   department: 'IT',
+   *   sortBy: 'nom',
+   *   sortOrder: 'asc'
    * });
    */
-  async getAgents(params?: {
-    page?: number;
-    pageSize?: number;
-    search?: string;
-    department?: string;
-    status?: string;
-  }): Promise<ApiResponse<PaginatedResponse<Agent>>> {
-    try {
-      // Build query string from parameters
-      const queryParams = new URLSearchParams();
-      
-      if (params?.page) queryParams.append('page', params.page.toString());
-      if (params?.pageSize) queryParams.append('pageSize', params.pageSize.toString());
-      if (params?.search) queryParams.append('search', params.search);
-      if (params?.department) queryParams.append('department', params.department);
-      if (params?.status) queryParams.append('status', params.status);
-      
-      // Construct full URL with query string
-      const url = `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.AGENTS}${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      
-      const response = await fetchWithAuth(url, { method: 'GET' });
-      
-      // Check for HTTP errors
-      if (!response.ok) {
-        throw new Error(`Failed to fetch agents: ${response.statusText}`);
-      }
-      
-      // Parse and return JSON response
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching agents:', error);
-      throw error;
-    }
+  async getAgents(
+    params?: AgentListParams,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<PaginatedResponse<Agent>>> {
+    const { pagination, ...response } = await apiClient.get<PaginatedApiResponse<Agent>>(
+      API_CONFIG.ENDPOINTS.AGENTS,
+      { params: { ...params }, signal }
+    );
+    const items = response.data ?? [];
+
+    return {
+      ...response,
+      data: {
+        data: items,
+        // Backend without pagination support: everything is on one page
+        ...(pagination ?? { total: items.length, page: 1, pageSize: items.length, totalPages: 1 }),
+      },
+    };
+  }
+
+  /**
+   * Get All Agents
+   * 
+   * Fetches every page of the agents list (bulk operations: import
+   * duplicates check, badge sheets of a division, ...).
+   * 
+   * API Endpoint: GET /agents (one request per page)
+   * Authentication: Required (JWT Bearer token)
+   * 
+   * @param {AgentListParams} params - Filters and sort (page and pageSize are ignored)
+   * @param {AbortSignal} signal - Optional signal to cancel the requests
+   * 
+   * @returns {Promise<ApiResponse<Agent[]>>} All matching agents
+   * 
+   * @example
+   * const response = await agentsService.getAllAgents({ department: 'DSI', sortBy: 'nom' });
+   */
+  async getAllAgents(
+    params: Omit<AgentListParams, 'page' | 'pageSize'> = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<Agent[]>> {
+    const agents: Agent[] = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await this.getAgents({ ...params, page, pageSize: 500 }, signal);
+      agents.push(...(response.data?.data ?? []));
+      totalPages = response.data?.totalPages ?? 1;
+      page++;
+    } while (page <= totalPages);
+
+    return { success: true, data: agents };
+  }
+
+  /**
+   * Get Divisions
+   * 
+   * Fetches the distinct divisions of all agents (for filters and forms,
+   * independently of the page currently displayed).
+   * 
+   * API Endpoint: GET /agents/division
+   * Authentication: Required (JWT Bearer token)
+   * 
+   * @param {AbortSignal} signal - Optional signal to cancel the request
+   * 
+   * @returns {Promise<ApiResponse<string[]>>} Sorted division names
+   */
+  async getDivisions(signal?: AbortSignal): Promise<ApiResponse<string[]>> {
+    return apiClient.get<ApiResponse<string[]>>(API_CONFIG.ENDPOINTS.DIVISION, { signal });
   }
   
   /**
@@ -114,7 +160,7 @@ class AgentsService {
    * 
    * @returns {Promise<ApiResponse<AgentDetails>>} Detailed agent information
    * 
-   * @throws {Error} If the API request fails or agent is not found
+   * @throws {ApiError} If the API request fails or agent is not found
    * 
    * @example
    * const response = await agentsService.getAgentById('EMP001');
@@ -125,26 +171,7 @@ class AgentsService {
    * }
    */
   async getAgentById(matricule: string): Promise<ApiResponse<AgentDetails>> {
-    try {
-      // Make HTTP request with dynamic matricule in path
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.AGENT_BY_ID(matricule)}`,
-        {
-          method: 'GET'
-        }
-      );
-      
-      // Check for HTTP errors (e.g., 404 if agent not found)
-      if (!response.ok) {
-        throw new Error(`Failed to fetch agent: ${response.statusText}`);
-      }
-      
-      // Parse and return JSON response
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching agent by matricule:', error);
-      throw error;
-    }
+    return apiClient.get<ApiResponse<AgentDetails>>(API_CONFIG.ENDPOINTS.AGENT_BY_ID(matricule));
   }
   
   /**
@@ -161,7 +188,7 @@ class AgentsService {
    * 
    * @returns {Promise<ApiResponse<Agent>>} Created agent
    * 
-   * @throws {Error} If the API request fails or validation fails
+   * @throws {ApiError} If the API request fails or validation fails
    * 
    * @example
    * const newAgent = {
@@ -178,27 +205,7 @@ class AgentsService {
    * }
    */
   async createAgent(agent: Agent): Promise<ApiResponse<Agent>> {
-    try {
-      // Send POST request with agent data in body
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.AGENTS}`,
-        {
-          method: 'POST',
-          body: JSON.stringify(agent)
-        }
-      );
-      
-      // Check for HTTP errors (e.g., 400 for validation errors, 403 for permission denied)
-      if (!response.ok) {
-        throw new Error(`Failed to create agent: ${response.statusText}`);
-      }
-      
-      // Parse and return JSON response with created agent
-      return await response.json();
-    } catch (error) {
-      console.error('Error creating agent:', error);
-      throw error;
-    }
+    return apiClient.post<ApiResponse<Agent>>(API_CONFIG.ENDPOINTS.AGENTS, agent);
   }
   
   /**
@@ -216,8 +223,9 @@ class AgentsService {
    * @param {Partial<Agent>} updates - Fields to update (only changed fields)
    * 
    * @returns {Promise<ApiResponse<Agent>>} Updated agent data
+   *          (`queued` when the backend is unreachable, see api/offline)
    * 
-   * @throws {Error} If the API request fails or agent is not found
+   * @throws {ApiError} If the API request fails or agent is not found
    * 
    * @example
    * // Update only the status
@@ -233,28 +241,9 @@ class AgentsService {
    * });
    */
   async updateAgent(matricule: string, updates: Partial<Agent>): Promise<ApiResponse<Agent>> {
-    try {
-      // Send PUT request with partial updates
-      console.log(updates);
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.AGENT_BY_ID(matricule)}`,
-        {
-          method: 'PUT',
-          body: JSON.stringify(updates)
-        }
-      );
-      
-      // Check for HTTP errors
-      if (!response.ok) {
-        throw new Error(`Failed to update agent: ${response.statusText}`);
-      }
-      
-      // Parse and return JSON response with updated agent
-      return await response.json();
-    } catch (error) {
-      console.error('Error updating agent:', error);
-      throw error;
-    }
+    return apiClient.put<ApiResponse<Agent>>(API_CONFIG.ENDPOINTS.AGENT_BY_ID(matricule), updates, {
+      offline: { label: `Modification de l'agent ${matricule}` },
+    });
   }
   
   /**
@@ -272,7 +261,7 @@ class AgentsService {
    * 
    * @returns {Promise<ApiResponse<void>>} Success response (no data)
    * 
-   * @throws {Error} If the API request fails or agent is not found
+   * @throws {ApiError} If the API request fails or agent is not found
    * 
    * @example
    * try {
@@ -288,26 +277,7 @@ class AgentsService {
    *       instead of hard delete for data integrity and audit trail.
    */
   async deleteAgent(matricule: string): Promise<ApiResponse<void>> {
-    try {
-      // Send DELETE request
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.AGENT_BY_ID(matricule)}`,
-        {
-          method: 'DELETE'
-        }
-      );
-      
-      // Check for HTTP errors
-      if (!response.ok) {
-        throw new Error(`Failed to delete agent: ${response.statusText}`);
-      }
-      
-      // Parse and return JSON response (typically just success message)
-      return await response.json();
-    } catch (error) {
-      console.error('Error deleting agent:', error);
-      throw error;
-    }
+    return apiClient.delete<ApiResponse<void>>(API_CONFIG.ENDPOINTS.AGENT_BY_ID(matricule));
   }
   
   /**
@@ -324,10 +294,11 @@ class AgentsService {
    * @param {Object} params - Optional date range parameters
    * @param {string} params.from - Start date (YYYY-MM-DD format)
    * @param {string} params.to - End date (YYYY-MM-DD format)
+   * @param {AbortSignal} signal - Optional signal to cancel the request
    * 
    * @returns {Promise<ApiResponse<AgentAttendance[]>>} Array of attendance records
    * 
-   * @throws {Error} If the API request fails or agent is not found
+   * @throws {ApiError} If the API request fails or agent is not found
    * 
    * @example
    * // Get attendance for the current month
@@ -348,34 +319,13 @@ class AgentsService {
    */
   async getAgentAttendance(
     matricule: string,
-    params?: { from?: string; to?: string }
+    params?: { from?: string; to?: string },
+    signal?: AbortSignal
   ): Promise<ApiResponse<AgentAttendance[]>> {
-    try {
-      // Build query string for date range filtering
-      const queryParams = new URLSearchParams();
-      
-      if (params?.from) queryParams.append('from', params.from);
-      if (params?.to) queryParams.append('to', params.to);
-      
-      // Construct full URL with agent matricule and optional query parameters
-      const url = `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.AGENT_ATTENDANCE(matricule)}${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      
-      // Make HTTP request
-      const response = await fetchWithAuth(url, {
-        method: 'GET'
-      });
-      
-      // Check for HTTP errors
-      if (!response.ok) {
-        throw new Error(`Failed to fetch agent attendance: ${response.statusText}`);
-      }
-      
-      // Parse and return JSON response with attendance records
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching agent attendance:', error);
-      throw error;
-    }
+    return apiClient.get<ApiResponse<AgentAttendance[]>>(API_CONFIG.ENDPOINTS.AGENT_ATTENDANCE(matricule), {
+      params,
+      signal,
+    });
   }
   
   /**
@@ -389,6 +339,7 @@ class AgentsService {
    * 
    * @param {string} matricule - Agent's unique identifier (matricule)
    * @param {string} date - Date to retrieve (YYYY-MM-DD format)
+   * @param {AbortSignal} signal - Optional signal to cancel the request
    * 
    * @returns {Promise<ApiResponse<DailyAttendanceDetails>>} Detailed attendance for the date
    * 
@@ -401,25 +352,13 @@ class AgentsService {
    */
   async getDailyAttendance(
     matricule: string,
-    date: string
+    date: string,
+    signal?: AbortSignal
   ): Promise<ApiResponse<DailyAttendanceDetails>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}/agents/${matricule}/attendance/${date}`,
-        {
-          method: 'GET'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch daily attendance: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching daily attendance:', error);
-      throw error;
-    }
+    return apiClient.get<ApiResponse<DailyAttendanceDetails>>(
+      API_CONFIG.ENDPOINTS.AGENT_DAILY_ATTENDANCE(matricule, date),
+      { signal }
+    );
   }
   
   /**
@@ -432,30 +371,19 @@ class AgentsService {
    * 
    * @param {string} matricule - Agent's unique identifier (matricule)
    * @param {string} date - Date to retrieve exits for (YYYY-MM-DD format)
+   * @param {AbortSignal} signal - Optional signal to cancel the request
    * 
    * @returns {Promise<ApiResponse<TemporaryExit[]>>} List of temporary exits for the date
    */
   async getTemporaryExits(
     matricule: string,
-    date: string
+    date: string,
+    signal?: AbortSignal
   ): Promise<ApiResponse<TemporaryExit[]>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}/agents/${matricule}/temporary-exits/${date}`,
-        {
-          method: 'GET'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch temporary exits: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching temporary exits:', error);
-      throw error;
-    }
+    return apiClient.get<ApiResponse<TemporaryExit[]>>(
+      API_CONFIG.ENDPOINTS.AGENT_TEMPORARY_EXITS(matricule, date),
+      { signal }
+    );
   }
   
   /**
@@ -467,27 +395,12 @@ class AgentsService {
    * Authentication: Required (JWT Bearer token)
    * 
    * @param {string} matricule - Agent's unique identifier (matricule)
+   * @param {AbortSignal} signal - Optional signal to cancel the request
    * 
    * @returns {Promise<ApiResponse<LongAbsence[]>>} List of long absences
    */
-  async getLongAbsences(matricule: string): Promise<ApiResponse<LongAbsence[]>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}/agents/${matricule}/absences`,
-        {
-          method: 'GET'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch long absences: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching long absences:', error);
-      throw error;
-    }
+  async getLongAbsences(matricule: string, signal?: AbortSignal): Promise<ApiResponse<LongAbsence[]>> {
+    return apiClient.get<ApiResponse<LongAbsence[]>>(API_CONFIG.ENDPOINTS.AGENT_ABSENCES(matricule), { signal });
   }
   
   /**
@@ -502,29 +415,15 @@ class AgentsService {
    * @param {Omit<LongAbsence, 'id' | 'matricule'>} absence - Absence data
    * 
    * @returns {Promise<ApiResponse<LongAbsence>>} Created absence record
+   *          (`queued` when the backend is unreachable, see api/offline)
    */
   async createLongAbsence(
     matricule: string,
     absence: Omit<LongAbsence, 'id' | 'matricule'>
   ): Promise<ApiResponse<LongAbsence>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}/agents/${matricule}/absences`,
-        {
-          method: 'POST',
-          body: JSON.stringify(absence),
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to create absence: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error creating absence:', error);
-      throw error;
-    }
+    return apiClient.post<ApiResponse<LongAbsence>>(API_CONFIG.ENDPOINTS.AGENT_ABSENCES(matricule), absence, {
+      offline: { label: `Absence de ${matricule} du ${absence.startDate} au ${absence.endDate}` },
+    });
   }
   
   /**
@@ -546,24 +445,10 @@ class AgentsService {
     absenceId: string,
     updates: Partial<LongAbsence>
   ): Promise<ApiResponse<LongAbsence>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}/agents/${matricule}/absences/${absenceId}`,
-        {
-          method: 'PUT',
-          body: JSON.stringify(updates),
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to update absence: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error updating absence:', error);
-      throw error;
-    }
+    return apiClient.put<ApiResponse<LongAbsence>>(
+      API_CONFIG.ENDPOINTS.AGENT_ABSENCE_BY_ID(matricule, absenceId),
+      updates
+    );
   }
   
   /**
@@ -583,23 +468,9 @@ class AgentsService {
     matricule: string,
     absenceId: string
   ): Promise<ApiResponse<void>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}/agents/${matricule}/absences/${absenceId}`,
-        {
-          method: 'DELETE'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to delete absence: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error deleting absence:', error);
-      throw error;
-    }
+    return apiClient.delete<ApiResponse<void>>(
+      API_CONFIG.ENDPOINTS.AGENT_ABSENCE_BY_ID(matricule, absenceId)
+    );
   }
 }
 
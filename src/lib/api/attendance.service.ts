@@ -0,0 +1,94 @@
+/**
+ * Attendance API Service
+ * Handles organization-wide daily attendance API calls,
+ * kiosk punches and manual attendance corrections
+ */
+
+import { API_CONFIG } from './config';
+import { apiClient, type DownloadResult } from './client';
+import type {
+  DayStatistics,
+  AttendancePunch,
+  AttendancePunchRequest,
+  AttendanceCorrection,
+  AttendanceCorrectionParams,
+  AttendanceCorrectionRequest,
+  ApiResponse,
+} from './types';
+import { toIsoDate } from '../utils';
+
+/**
+ * Format a date as YYYY-MM-DD (local time)
+ */
+const toDateParam = (date: Date | string): string => (typeof date === 'string' ? date : toIsoDate(date));
+
+class AttendanceService {
+  /**
+   * Get attendance summary and punches of every agent for a date
+   */
+  async getDayStatistics(date: Date | string, signal?: AbortSignal): Promise<ApiResponse<DayStatistics>> {
+    return apiClient.get<ApiResponse<DayStatistics>>(API_CONFIG.ENDPOINTS.ATTENDANCE, {
+      params: { date: toDateParam(date) },
+      signal,
+    });
+  }
+
+  /**
+   * Record a badge punch (check-in kiosk)
+   */
+  async recordPunch(punch: AttendancePunchRequest): Promise<ApiResponse<AttendancePunch>> {
+    return apiClient.post<ApiResponse<AttendancePunch>>(API_CONFIG.ENDPOINTS.ATTENDANCE_PUNCH, punch);
+  }
+
+  /**
+   * List manual corrections (most recent first)
+   */
+  async getCorrections(
+    params: AttendanceCorrectionParams = {},
+    signal?: AbortSignal
+  ): Promise<ApiResponse<AttendanceCorrection[]>> {
+    return apiClient.get<ApiResponse<AttendanceCorrection[]>>(API_CONFIG.ENDPOINTS.ATTENDANCE_CORRECTIONS, {
+      params: { ...params },
+      signal,
+    });
+  }
+
+  /**
+   * Correct the punches of a day
+   * (applied immediately for Admins, submitted for approval for Managers)
+   */
+  async createCorrection(correction: AttendanceCorrectionRequest): Promise<ApiResponse<AttendanceCorrection>> {
+    return apiClient.post<ApiResponse<AttendanceCorrection>>(API_CONFIG.ENDPOINTS.ATTENDANCE_CORRECTIONS, correction);
+  }
+
+  /**
+   * Apply a pending correction (Admin only)
+   */
+  async approveCorrection(id: string, comment?: string): Promise<ApiResponse<AttendanceCorrection>> {
+    return apiClient.post<ApiResponse<AttendanceCorrection>>(
+      API_CONFIG.ENDPOINTS.ATTENDANCE_CORRECTION_APPROVE(id),
+      { comment }
+    );
+  }
+
+  /**
+   * Refuse a pending correction (Admin only, comment mandatory)
+   */
+  async rejectCorrection(id: string, comment: string): Promise<ApiResponse<AttendanceCorrection>> {
+    return apiClient.post<ApiResponse<AttendanceCorrection>>(
+      API_CONFIG.ENDPOINTS.ATTENDANCE_CORRECTION_REJECT(id),
+      { comment }
+    );
+  }
+
+  /**
+   * Download the supporting document of a correction
+   */
+  async downloadCorrectionAttachment(id: string): Promise<DownloadResult> {
+    return apiClient.download('GET', API_CONFIG.ENDPOINTS.ATTENDANCE_CORRECTION_ATTACHMENT(id), {
+      fallbackFilename: `justificatif_${id}`,
+    });
+  }
+}
+
+export const attendanceService = new AttendanceService();
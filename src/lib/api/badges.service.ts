@@ -0,0 +1,112 @@
+/**
+ * ============================================================================
+ * BADGES API SERVICE
+ * ============================================================================
+ *
+ * Handles the signed QR badges of the agents.
+ *
+ * Key Features:
+ * - Current badge of an agent (version, issue date, signed QR payload)
+ * - Badges of several agents at once (badge sheets)
+ * - Reissue (new version, every previous badge becomes invalid) and revocation
+ * - Verification of a scanned QR payload
+ *
+ * Tokens are signed and checked by the backend only; the application never
+ * builds a QR payload itself (see AgentBadge for the token format).
+ *
+ * @module api/badges.service
+ */
+
+// --- Dependencies ---
+import { API_CONFIG } from './config';
+import { apiClient } from './client';
+import type { AgentBadge, BadgeVerification, ApiResponse } from './types';
+
+/**
+ * Badges Service Class
+ */
+class BadgesService {
+  /**
+   * Get the current badge of an agent
+   *
+   * API Endpoint: GET /agents/:matricule/badge
+   *
+   * @param {string} matricule - Agent's unique identifier (matricule)
+   * @param {AbortSignal} signal - Optional signal to cancel the request
+   *
+   * @returns {Promise<ApiResponse<AgentBadge>>} Current badge (version 1 is issued on first request)
+   */
+  async getBadge(matricule: string, signal?: AbortSignal): Promise<ApiResponse<AgentBadge>> {
+    return apiClient.get<ApiResponse<AgentBadge>>(API_CONFIG.ENDPOINTS.AGENT_BADGE(matricule), { signal });
+  }
+
+  /**
+   * Get the current badges of several agents
+   *
+   * API Endpoint: POST /badges/batch
+   *
+   * @param {string[]} matricules - Agents to print
+   * @param {AbortSignal} signal - Optional signal to cancel the request
+   *
+   * @returns {Promise<ApiResponse<AgentBadge[]>>} One badge per matricule (revoked badges have no token)
+   */
+  async getBadges(matricules: string[], signal?: AbortSignal): Promise<ApiResponse<AgentBadge[]>> {
+    return apiClient.post<ApiResponse<AgentBadge[]>>(API_CONFIG.ENDPOINTS.BADGES_BATCH, { matricules }, { signal });
+  }
+
+  /**
+   * Issue a new badge version
+   *
+   * Every badge printed before (all previous versions) is rejected from now on.
+   *
+   * API Endpoint: POST /agents/:matricule/badge/reissue
+   *
+   * @param {string} matricule - Agent's unique identifier (matricule)
+   * @param {string} reason - Reason (e.g., 'Badge perdu')
+   *
+   * @returns {Promise<ApiResponse<AgentBadge>>} New badge
+   */
+  async reissueBadge(matricule: string, reason: string): Promise<ApiResponse<AgentBadge>> {
+    return apiClient.post<ApiResponse<AgentBadge>>(API_CONFIG.ENDPOINTS.AGENT_BADGE_REISSUE(matricule), { reason });
+  }
+
+  /**
+   * Revoke the current badge
+   *
+   * The agent has no valid badge until the next reissue.
+   *
+   * API Endpoint: POST /agents/:matricule/badge/revoke
+   *
+   * @param {string} matricule - Agent's unique identifier (matricule)
+   * @param {string} reason - Reason (e.g., 'Départ de l\'agent')
+   *
+   * @returns {Promise<ApiResponse<AgentBadge>>} Revoked badge
+   */
+  async revokeBadge(matricule: string, reason: string): Promise<ApiResponse<AgentBadge>> {
+    return apiClient.post<ApiResponse<AgentBadge>>(API_CONFIG.ENDPOINTS.AGENT_BADGE_REVOKE(matricule), { reason });
+  }
+
+  /**
+   * Verify a scanned QR payload
+   *
+   * API Endpoint: POST /badges/verify
+   *
+   * @param {string} token - Content of the scanned QR code
+   * @param {AbortSignal} signal - Optional signal to cancel the request
+   *
+   * @returns {Promise<ApiResponse<BadgeVerification>>} Badge holder and badge
+   * @throws {ApiError} 400 if the badge is not recognized, 410 if it was revoked or replaced
+   */
+  async verifyBadge(token: string, signal?: AbortSignal): Promise<ApiResponse<BadgeVerification>> {
+    return apiClient.post<ApiResponse<BadgeVerification>>(API_CONFIG.ENDPOINTS.BADGE_VERIFY, { token }, { signal });
+  }
+}
+
+/**
+ * Singleton Instance Export
+ *
+ * @example
+ * import { badgesService } from '../lib/api';
+ * const { data: badge } = await badgesService.getBadge('AG0001');
+ */
+export const badgesService = new BadgesService();
@@ -4,8 +4,8 @@
  */
 
 import { API_CONFIG } from './config';
-import { fetchWithAuth } from './fetchWithAuth';
-import type { Holiday, CalendarEvent, ApiResponse } from './types';
+import { apiClient } from './client';
+import type { Holiday, CalendarEvent, TeamAvailability, ApiResponse } from './types';
 
 class CalendarService {
   /**
@@ -15,29 +15,8 @@ class CalendarService {
     year?: number;
     month?: number;
     type?: string;
-  }): Promise<ApiResponse<Holiday[]>> {
-    try {
-      const queryParams = new URLSearchParams();
-      
-      if (params?.year) queryParams.append('year', params.year.toString());
-      if (params?.month) queryParams.append('month', params.month.toString());
-      if (params?.type) queryParams.append('type', params.type);
-      
-      const url = `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.HOLIDAYS}${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      
-      const response = await fetchWithAuth(url, {
-        method: 'GET'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch holidays: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching holidays:', error);
-      throw error;
-    }
+  }, signal?: AbortSignal): Promise<ApiResponse<Holiday[]>> {
+    return apiClient.get<ApiResponse<Holiday[]>>(API_CONFIG.ENDPOINTS.HOLIDAYS, { params, signal });
   }
   
   /**
@@ -47,99 +26,41 @@ class CalendarService {
     from?: string;
     to?: string;
   }): Promise<ApiResponse<CalendarEvent[]>> {
-    try {
-      const queryParams = new URLSearchParams();
-      
-      if (params?.from) queryParams.append('from', params.from);
-      if (params?.to) queryParams.append('to', params.to);
-      
-      const url = `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.CALENDAR_EVENTS}${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      
-      const response = await fetchWithAuth
-      (url, {
-        method: 'GET'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch calendar events: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching calendar events:', error);
-      throw error;
-    }
+    return apiClient.get<ApiResponse<CalendarEvent[]>>(API_CONFIG.ENDPOINTS.CALENDAR_EVENTS, { params });
   }
   
   /**
-   * Create a new holiday
+   * Get the long absences of every active agent over a period (team availability)
+   */
+  async getTeamAvailability(params: {
+    from: string;
+    to: string;
+    division?: string;
+  }, signal?: AbortSignal): Promise<ApiResponse<TeamAvailability>> {
+    return apiClient.get<ApiResponse<TeamAvailability>>(API_CONFIG.ENDPOINTS.CALENDAR_AVAILABILITY, { params, signal });
+  }
+  
+  /**
+   * Create a new holiday (queued when the backend is unreachable, see api/offline)
    */
   async createHoliday(holiday: Omit<Holiday, 'id' | 'createdAt'>): Promise<ApiResponse<Holiday>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.HOLIDAYS}`,
-        {
-          method: 'POST',
-          body: JSON.stringify(holiday),
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to create holiday: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error creating holiday:', error);
-      throw error;
-    }
+    return apiClient.post<ApiResponse<Holiday>>(API_CONFIG.ENDPOINTS.HOLIDAYS, holiday, {
+      offline: { label: `Jour férié ${holiday.name} (${holiday.date})` },
+    });
   }
   
   /**
    * Update an existing holiday
    */
   async updateHoliday(id: string, updates: Partial<Holiday>): Promise<ApiResponse<Holiday>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.HOLIDAY_BY_ID(id)}`,
-        {
-          method: 'PUT',
-          body: JSON.stringify(updates),
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to update holiday: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error updating holiday:', error);
-      throw error;
-    }
+    return apiClient.put<ApiResponse<Holiday>>(API_CONFIG.ENDPOINTS.HOLIDAY_BY_ID(id), updates);
   }
   
   /**
    * Delete a holiday
    */
   async deleteHoliday(id: string): Promise<ApiResponse<void>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.HOLIDAY_BY_ID(id)}`,
-        {
-          method: 'DELETE'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to delete holiday: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error deleting holiday:', error);
-      throw error;
-    }
+    return apiClient.delete<ApiResponse<void>>(API_CONFIG.ENDPOINTS.HOLIDAY_BY_ID(id));
   }
 }
 
@@ -0,0 +1,626 @@
+/**
+ * ============================================================================
+ * API CLIENT
+ * ============================================================================
+ *
+ * Shared HTTP client used by every API service.
+ * Centralizes URL building, query-string serialization, JSON parsing and
+ * error handling so that services only describe endpoints and payloads.
+ *
+ * Key Features:
+ * - Typed get/post/put/delete helpers
+ * - Query-string serialization (skips empty values, supports arrays)
+ * - Automatic JWT authentication through fetchWithAuth
+ * - Typed ApiError carrying HTTP status, backend error/message and
+ *   field validation details
+ * - Binary downloads (blob, filename from Content-Disposition, progress, abort)
+ * - Offline mode: cached GET responses served and opted-in writes queued
+ *   when the backend is unreachable (see api/offline)
+ *
+ * @module api/client
+ */
+
+// --- Dependencies ---
+import { API_CONFIG } from './config';
+import { fetchWithAuth, SessionExpiredError } from './fetchWithAuth';
+import { offlineManager } from './offline';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Primitive value accepted in a query string
+ */
+type QueryValue = string | number | boolean | null | undefined;
+
+/**
+ * Query parameters accepted by the client
+ *
+ * Arrays are serialized as repeated keys (e.g., `status=Active&status=Inactive`).
+ * `undefined`, `null` and empty strings are skipped.
+ */
+export type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
+/**
+ * Per-request options
+ *
+ * @interface RequestOptions
+ * @property {QueryParams} params - Query parameters appended to the URL
+ * @property {unknown} body - Request payload (serialized as JSON)
+ * @property {AbortSignal} signal - Optional signal to cancel the request
+ * @property {HeadersInit} headers - Extra headers merged with the defaults
+ * @property {Object} offline - Writes only: queue the request when the backend is unreachable
+ *                              instead of failing (label = description shown to the user)
+ */
+export interface RequestOptions {
+  params?: QueryParams;
+  body?: unknown;
+  signal?: AbortSignal;
+  headers?: HeadersInit;
+  offline?: { label: string };
+}
+
+/**
+ * Download progress information
+ *
+ * @property {number} loaded - Bytes received so far
+ * @property {number} total - Total size in bytes (null if the server does not send Content-Length)
+ * @property {number} percent - Progress from 0 to 100 (null if total is unknown)
+ */
+export interface DownloadProgress {
+  loaded: number;
+  total: number | null;
+  percent: number | null;
+}
+
+/**
+ * Options for binary downloads
+ *
+ * @interface DownloadOptions
+ * @property {string} accept - Accept header (e.g., 'application/pdf')
+ * @property {Function} onProgress - Called each time a chunk is received
+ * @property {string} fallbackFilename - Filename used when Content-Disposition is missing
+ */
+export interface DownloadOptions extends RequestOptions {
+  accept?: string;
+  onProgress?: (progress: DownloadProgress) => void;
+  fallbackFilename?: string;
+}
+
+/**
+ * Result of a binary download
+ */
+export interface DownloadResult {
+  blob: Blob;
+  filename: string;
+  contentType: string;
+}
+
+/**
+ * HTTP methods supported by the client
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+/**
+ * Validation errors indexed by field name
+ *
+ * @example
+ * { matricule: 'Matricule déjà utilisé', division: 'Champ requis' }
+ */
+export type FieldErrors = Record<string, string>;
+
+// ============================================================================
+// API ERROR
+// ============================================================================
+
+/**
+ * API Error
+ *
+ * Thrown by the client whenever the backend answers with a non-OK status.
+ * Keeps everything the backend sent back so that pages can display the
+ * real reason instead of the generic HTTP status text.
+ *
+ * @property {number} status - HTTP status code (0 for network failures)
+ * @property {string} error - Backend `error` field, if any
+ * @property {string} message - Backend `message`, `error` or HTTP status text
+ * @property {FieldErrors} fieldErrors - Validation errors indexed by field
+ * @property {unknown} details - Raw response body for debugging
+ *
+ * @example
+ * try {
+ *   await agentsService.createAgent(agent);
+ * } catch (err) {
+ *   if (err instanceof ApiError && err.status === 400) {
+ *     console.log(err.fieldErrors.matricule);
+ *   }
+ * }
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly error?: string;
+  readonly fieldErrors: FieldErrors;
+  readonly details?: unknown;
+  readonly method: HttpMethod;
+  readonly endpoint: string;
+
+  constructor(init: {
+    status: number;
+    message: string;
+    method: HttpMethod;
+    endpoint: string;
+    error?: string;
+    fieldErrors?: FieldErrors;
+    details?: unknown;
+  }) {
+    super(init.message);
+    this.name = 'ApiError';
+    this.status = init.status;
+    this.error = init.error;
+    this.fieldErrors = init.fieldErrors ?? {};
+    this.details = init.details;
+    this.method = init.method;
+    this.endpoint = init.endpoint;
+  }
+
+  /**
+   * True when the backend rejected the payload (400 / 422)
+   */
+  get isValidationError(): boolean {
+    return this.status === 400 || this.status === 422;
+  }
+
+  /**
+   * True when the request never reached the backend
+   */
+  get isNetworkError(): boolean {
+    return this.status === 0;
+  }
+}
+
+/**
+ * Get a user-facing message from any thrown value
+ *
+ * Uses the backend message for ApiError, appends the first field error
+ * when available, and falls back to the provided default otherwise.
+ *
+ * @param {unknown} error - Caught value
+ * @param {string} fallback - Message used when nothing better is available
+ * @returns {string} Message to display in a toast or form
+ */
+export function getErrorMessage(error: unknown, fallback = 'Une erreur inattendue est survenue'): string {
+  if (error instanceof ApiError) {
+    const [firstField] = Object.entries(error.fieldErrors);
+    if (firstField && !error.message.includes(firstField[1])) {
+      return `${error.message} (${firstField[0]} : ${firstField[1]})`;
+    }
+    return error.message || fallback;
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Serialize query parameters
+ *
+ * @param {QueryParams} params - Parameters to serialize
+ * @returns {string} Query string including the leading '?', or '' if empty
+ *
+ * @example
+ * buildQueryString({ page: 1, search: '', status: ['Active', 'On Leave'] })
+ * // Returns: '?page=1&status=Active&status=On+Leave'
+ */
+export function buildQueryString(params?: QueryParams): string {
+  if (!params) return '';
+
+  const query = new URLSearchParams();
+  const append = (key: string, value: QueryValue) => {
+    if (value === undefined || value === null || value === '') return;
+    query.append(key, String(value));
+  };
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach(item => append(key, item));
+    } else {
+      append(key, value);
+    }
+  });
+
+  const serialized = query.toString();
+  return serialized ? `?${serialized}` : '';
+}
+
+/**
+ * Normalize the validation details sent by the backend
+ *
+ * Accepts either an object map (`{ field: 'message' }` or `{ field: ['message'] }`)
+ * or an array of `{ field | path | param, message | msg }` entries.
+ */
+function extractFieldErrors(raw: unknown): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  if (!raw || typeof raw !== 'object') return fieldErrors;
+
+  if (Array.isArray(raw)) {
+    raw.forEach((entry: any) => {
+      const field = entry?.field ?? entry?.path ?? entry?.param;
+      const message = entry?.message ?? entry?.msg;
+      if (field && message) fieldErrors[String(field)] = String(message);
+    });
+    return fieldErrors;
+  }
+
+  Object.entries(raw as Record<string, unknown>).forEach(([field, message]) => {
+    if (Array.isArray(message)) {
+      if (message.length) fieldErrors[field] = String(message[0]);
+    } else if (message !== undefined && message !== null) {
+      fieldErrors[field] = String(message);
+    }
+  });
+  return fieldErrors;
+}
+
+/**
+ * Parse a response body as JSON when possible
+ *
+ * Returns undefined for empty bodies (e.g., 204 No Content) and
+ * the raw text when the body is not JSON.
+ */
+async function parseBody(response: Response): Promise<unknown> {
+  if (response.status === 204) return undefined;
+
+  const text = await response.text();
+  if (!text) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Build an ApiError from a non-OK response and its parsed body
+ */
+function toApiError(response: Response, body: unknown, method: HttpMethod, endpoint: string): ApiError {
+  const payload = (body && typeof body === 'object' ? body : {}) as Record<string, any>;
+  const backendError = typeof payload.error === 'string' ? payload.error : undefined;
+  const backendMessage = typeof payload.message === 'string' ? payload.message : undefined;
+
+  return new ApiError({
+    status: response.status,
+    error: backendError,
+    message:
+      backendMessage ||
+      backendError ||
+      (typeof body === 'string' && body) ||
+      response.statusText ||
+      `HTTP ${response.status}`,
+    fieldErrors: extractFieldErrors(payload.errors ?? payload.details ?? payload.fields),
+    details: body,
+    method,
+    endpoint,
+  });
+}
+
+/**
+ * Extract the filename from a Content-Disposition header
+ *
+ * Supports both `filename="report.pdf"` and RFC 5987 `filename*=UTF-8''rapport%20mensuel.pdf`.
+ *
+ * @param {string | null} header - Content-Disposition header value
+ * @returns {string | null} Decoded filename, or null if absent
+ */
+export function getFilenameFromContentDisposition(header: string | null): string | null {
+  if (!header) return null;
+
+  const encoded = /filename\*\s*=\s*(?:[\w-]+'[^']*')?([^;]+)/i.exec(header);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Mauvais encodage : on retombe sur filename=
+    }
+  }
+
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header);
+  if (plain) return (plain[2] ?? plain[1]).trim();
+
+  return null;
+}
+
+/**
+ * Trigger a browser download for a blob
+ *
+ * @param {Blob} blob - File content
+ * @param {string} filename - Name proposed to the user
+ */
+export function saveBlob(blob: Blob, filename: string): void {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Laisse le temps au navigateur de démarrer le téléchargement
+  setTimeout(() => window.URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Read a response body while reporting progress
+ */
+async function readBlobWithProgress(
+  response: Response,
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<Blob> {
+  const contentType = response.headers.get('Content-Type') || 'application/octet-stream';
+  const lengthHeader = response.headers.get('Content-Length');
+  const total = lengthHeader ? parseInt(lengthHeader, 10) || null : null;
+
+  if (!onProgress || !response.body) {
+    const blob = await response.blob();
+    onProgress?.({ loaded: blob.size, total: blob.size, percent: 100 });
+    return blob;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  onProgress({ loaded: 0, total, percent: total ? 0 : null });
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value) {
+      chunks.push(value);
+      loaded += value.length;
+      onProgress({ loaded, total, percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : null });
+    }
+  }
+  onProgress({ loaded, total: loaded, percent: 100 });
+
+  return new Blob(chunks as BlobPart[], { type: contentType });
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/**
+ * API Client Class
+ *
+ * Thin typed layer over fetchWithAuth. Every method resolves with the parsed
+ * response body (usually an ApiResponse<T>) or throws an ApiError.
+ */
+class ApiClient {
+  /**
+   * Perform a request
+   *
+   * @param {HttpMethod} method - HTTP method
+   * @param {string} endpoint - Endpoint path relative to BASE_URL
+   * @param {RequestOptions} options - Query params, body, signal and headers
+   * @returns {Promise<T>} Parsed response body
+   * @throws {ApiError} If the request fails or the backend returns a non-OK status
+   */
+  async request<T>(method: HttpMethod, endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const url = this.buildUrl(endpoint, options.params);
+
+    let response: Response;
+    try {
+      response = await this.send(method, endpoint, options);
+    } catch (error) {
+      if (!(error instanceof ApiError && error.isNetworkError)) throw error;
+      offlineManager.markOffline();
+      const fallback = await this.offlineFallback<T>(method, endpoint, url, options);
+      if (fallback === undefined) throw error;
+      return fallback;
+    }
+
+    offlineManager.markOnline();
+    const body = await parseBody(response);
+
+    if (!response.ok) {
+      const apiError = toApiError(response, body, method, endpoint);
+      console.error(`Error ${method} ${endpoint}:`, apiError);
+      throw apiError;
+    }
+
+    if (method === 'GET' && offlineManager.isCached(endpoint)) {
+      offlineManager.saveResponse(url, body);
+    }
+    return body as T;
+  }
+
+  /**
+   * Answer a request that could not reach the backend:
+   * the last cached response for GET, a queued write when `offline` is set
+   *
+   * @returns {Promise<T | undefined>} Response to return, undefined to throw the network error
+   */
+  private async offlineFallback<T>(
+    method: HttpMethod,
+    endpoint: string,
+    url: string,
+    options: RequestOptions
+  ): Promise<T | undefined> {
+    if (method === 'GET') {
+      return offlineManager.isCached(endpoint) ? offlineManager.readResponse<T>(url) : undefined;
+    }
+    if (!options.offline) return undefined;
+
+    let queued;
+    try {
+      queued = await offlineManager.enqueue({
+        method,
+        endpoint,
+        body: options.body,
+        label: options.offline.label,
+      });
+    } catch {
+      return undefined;
+    }
+
+    // No data: the server entity does not exist yet, callers branch on `queued`
+    return {
+      success: true,
+      queued: true,
+      clientId: queued.clientId,
+      message: `Hors ligne : « ${queued.label} » sera envoyé au retour de la connexion`,
+      data: undefined,
+    } as T;
+  }
+
+  /**
+   * Download a binary file (PDF, XLSX, CSV...)
+   *
+   * The filename is read from the Content-Disposition header when present.
+   * Use `signal` to cancel and `onProgress` to follow the download.
+   *
+   * @param {HttpMethod} method - HTTP method (GET or POST)
+   * @param {string} endpoint - Endpoint path relative to BASE_URL
+   * @param {DownloadOptions} options - Query params, body, accept, progress and abort options
+   * @returns {Promise<DownloadResult>} Blob, filename and content type
+   * @throws {ApiError} If the request fails or the backend returns a non-OK status
+   *
+   * @example
+   * const { blob, filename } = await apiClient.download('GET', '/report/monthly/pdf', {
+   *   params: { year: 2025, month: 10 },
+   *   accept: 'application/pdf',
+   *   onProgress: ({ percent }) => setProgress(percent ?? 0),
+   * });
+   * saveBlob(blob, filename);
+   */
+  async download(method: HttpMethod, endpoint: string, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const { accept, onProgress, fallbackFilename, ...requestOptions } = options;
+    const response = await this.send(method, endpoint, {
+      ...requestOptions,
+      headers: {
+        ...(requestOptions.headers as Record<string, string> | undefined),
+        ...(accept ? { Accept: accept } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      const apiError = toApiError(response, await parseBody(response), method, endpoint);
+      console.error(`Error ${method} ${endpoint}:`, apiError);
+      throw apiError;
+    }
+
+    const blob = await readBlobWithProgress(response, onProgress);
+    return {
+      blob,
+      filename:
+        getFilenameFromContentDisposition(response.headers.get('Content-Disposition')) ||
+        fallbackFilename ||
+        'download',
+      contentType: blob.type || response.headers.get('Content-Type') || 'application/octet-stream',
+    };
+  }
+
+  /**
+   * Send the request through fetchWithAuth, turning network failures
+   * and timeouts (API_CONFIG.REQUEST_TIMEOUT) into ApiError
+   */
+  private async send(method: HttpMethod, endpoint: string, options: RequestOptions): Promise<Response> {
+    const url = this.buildUrl(endpoint, options.params);
+
+    // Timeout: abort our own controller, forwarding aborts from the caller
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    const timer =
+      API_CONFIG.REQUEST_TIMEOUT > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, API_CONFIG.REQUEST_TIMEOUT)
+        : null;
+
+    try {
+      return await fetchWithAuth(url, {
+        method,
+        headers: options.headers,
+        signal: controller.signal,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+    } catch (error) {
+      if (timedOut) {
+        throw new ApiError({
+          status: 408,
+          message: 'Le serveur met trop de temps à répondre. Réessayez plus tard.',
+          method,
+          endpoint,
+          details: error,
+        });
+      }
+      // Abort and session expiry are propagated untouched
+      if (error instanceof DOMException && error.name === 'AbortError') throw error;
+      if (error instanceof ApiError) throw error;
+      if (error instanceof SessionExpiredError) throw error;
+      throw new ApiError({
+        status: 0,
+        message: 'Serveur injoignable. Vérifiez votre connexion.',
+        method,
+        endpoint,
+        details: error,
+      });
+    } finally {
+      // Headers received: the body (e.g., a download) may take longer.
+      // The caller's signal stays linked so that it can still cancel the read.
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Absolute URL of an endpoint with its query string
+   */
+  private buildUrl(endpoint: string, params?: QueryParams): string {
+    return `${API_CONFIG.BASE_URL}${endpoint}${buildQueryString(params)}`;
+  }
+
+  /**
+   * GET request
+   */
+  get<T>(endpoint: string, options?: Omit<RequestOptions, 'body'>): Promise<T> {
+    return this.request<T>('GET', endpoint, options);
+  }
+
+  /**
+   * POST request with JSON body
+   */
+  post<T>(endpoint: string, body?: unknown, options?: Omit<RequestOptions, 'body'>): Promise<T> {
+    return this.request<T>('POST', endpoint, { ...options, body });
+  }
+
+  /**
+   * PUT request with JSON body
+   */
+  put<T>(endpoint: string, body?: unknown, options?: Omit<RequestOptions, 'body'>): Promise<T> {
+    return this.request<T>('PUT', endpoint, { ...options, body });
+  }
+
+  /**
+   * DELETE request
+   */
+  delete<T>(endpoint: string, options?: Omit<RequestOptions, 'body'>): Promise<T> {
+    return this.request<T>('DELETE', endpoint, options);
+  }
+}
+
+/**
+ * Singleton Instance Export
+ *
+ * @example
+ * import { apiClient } from './client';
+ * const response = await apiClient.get<ApiResponse<Agent[]>>(API_CONFIG.ENDPOINTS.AGENTS, {
+ *   params: { page: 1, pageSize: 20 },
+ * });
+ */
+export const apiClient = new ApiClient();
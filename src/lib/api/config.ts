@@ -9,34 +9,125 @@
  * 
  * Key Features:
  * - Centralized endpoint definitions
- * - Environment-aware configuration
+ * - Environment-aware configuration (Vite env variables + runtime config.json)
+ * - Validated configuration with multi-backend profiles
  * - URL building utilities
  * - Endpoint path generators
  * 
+ * Configuration precedence (highest wins):
+ * 1. Runtime config.json (selected profile, then top-level values)
+ * 2. Vite environment variables (VITE_API_URL, VITE_USE_MOCK, ...)
+ * 3. Defaults below
+ * 
  * @module api/config
  */
 
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Feature flags
+ * 
+ * @property {boolean} STATISTICS - Show the Statistics & Reports page in the navigation
+ */
+export interface FeatureFlags {
+  STATISTICS: boolean;
+}
+
+/**
+ * Overridable configuration values
+ * 
+ * Shape of a backend profile, of the top level of config.json,
+ * and of the values read from the Vite environment.
+ * 
+ * @property {string} apiUrl - Base URL of the API (e.g., 'https://rh-tana.example.mg/api')
+ * @property {boolean} useMock - Serve requests from the in-browser mock backend
+ * @property {number} mockDelay - Simulated latency of the mock backend (ms)
+ * @property {number} mockErrorRate - Share of mock requests failing with a 500 (0 to 1)
+ * @property {number} requestTimeout - Request timeout (ms, 0 = none)
+ * @property {Partial<FeatureFlags>} features - Feature flag overrides
+ */
+export interface RuntimeConfig {
+  apiUrl?: string;
+  useMock?: boolean;
+  mockDelay?: number;
+  mockErrorRate?: number;
+  requestTimeout?: number;
+  features?: Partial<FeatureFlags>;
+}
+
+/**
+ * Named backend profile (e.g., one per regional office)
+ */
+export interface BackendProfile extends RuntimeConfig {
+  label?: string;
+}
+
+/**
+ * Runtime configuration file (public config.json)
+ * 
+ * @example
+ * {
+ *   "requestTimeout": 20000,
+ *   "defaultProfile": "tana",
+ *   "profiles": {
+ *     "tana": { "label": "Antananarivo", "apiUrl": "https://rh-tana.example.mg/api" },
+ *     "tamatave": { "label": "Toamasina", "apiUrl": "https://rh-tmv.example.mg/api" },
+ *     "demo": { "label": "Démonstration", "useMock": true }
+ *   }
+ * }
+ */
+export interface RuntimeConfigFile extends RuntimeConfig {
+  defaultProfile?: string;
+  profiles?: Record<string, BackendProfile>;
+}
+
+/**
+ * Where the effective configuration comes from
+ * 
+ * @property {string} source - 'default', 'env' (Vite variables) or 'runtime' (config.json)
+ * @property {string | null} configUrl - URL of the loaded config.json (null if not loaded)
+ * @property {string | null} profile - Active profile name
+ * @property {Array} profiles - Available profiles
+ * @property {string[]} errors - Validation errors (invalid values are ignored)
+ */
+export interface ConfigStatus {
+  source: 'default' | 'env' | 'runtime';
+  configUrl: string | null;
+  profile: string | null;
+  profiles: Array<{ name: string; label: string }>;
+  errors: string[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
 /**
  * Main API Configuration Object
  * 
  * Controls all aspects of API communication including base URL,
  * mock mode settings, and endpoint paths.
+ * Values are overridden at startup by the environment and config.json
+ * (see loadRuntimeConfig), do not cache them at module load.
  * 
  * Configuration Options:
  * - BASE_URL: The root URL for all API requests
  * - MOCK_DELAY: Artificial delay for mock API calls (milliseconds)
+ * - MOCK_ERROR_RATE: Share of mock API calls that fail with a 500
  * - USE_MOCK: Toggle between mock data and real API calls
+ * - REQUEST_TIMEOUT: Request timeout (milliseconds)
+ * - FEATURES: Feature flags
  * - ENDPOINTS: All API endpoint paths organized by feature
  */
 export const API_CONFIG = {
   /**
    * Base URL for API requests
    * 
-   * In development: http://localhost:3000/api
-   * In production: Update to your production API URL
+   * In development: http://localhost:5000/api
    * 
-   * Can be overridden with environment variable:
-   * import.meta.env.VITE_API_URL
+   * Overridden by VITE_API_URL or `apiUrl` in config.json
    */
   BASE_URL: 'http://localhost:5000/api',
   
@@ -46,18 +137,49 @@ export const API_CONFIG = {
    * Used only when USE_MOCK is true to simulate real network latency.
    * Set to 0 for instant responses in testing.
    * Typical values: 300-1000ms for realistic simulation
+   * (each response waits between 50% and 150% of this value)
    */
-  MOCK_DELAY: 0,
+  MOCK_DELAY: 400,
+
+  /**
+   * Simulated error rate (0 to 1)
+   * 
+   * Used only when USE_MOCK is true. Authenticated requests fail with
+   * a 500 at this rate, to exercise error states in the UI.
+   * Use `mockBackend.failNext(status)` in the console for a one-off error.
+   */
+  MOCK_ERROR_RATE: 0,
   
   /**
    * Mock Mode Toggle
    * 
-   * When true: Uses mock data (no backend required)
+   * When true: Requests are served by the in-browser mock backend
+   *            (see mock-backend.ts, no server required)
    * When false: Makes real HTTP requests to BASE_URL
    * 
-   * Note: Currently set to false as application uses real API calls
+   * Demo accounts in mock mode: admin / admin123, manager / manager123
+   * 
+   * Overridden by VITE_USE_MOCK or `useMock` in config.json
    */
   USE_MOCK: false,
+
+  /**
+   * Request timeout in milliseconds
+   * 
+   * Requests still pending after this delay fail with an ApiError (408).
+   * Set to 0 to disable. Downloads are only timed until the headers arrive.
+   */
+  REQUEST_TIMEOUT: 30000,
+
+  /**
+   * Feature flags
+   * 
+   * Overridden by VITE_FEATURE_<NAME> (e.g., VITE_FEATURE_STATISTICS=true)
+   * or `features` in config.json
+   */
+  FEATURES: {
+    STATISTICS: true,
+  } as FeatureFlags,
   
   /**
    * API Endpoint Definitions
@@ -130,7 +252,278 @@ export const API_CONFIG = {
      * @returns {string} Formatted endpoint path
      */
     AGENT_ATTENDANCE: (matricule: string) => `/agents/${matricule}/attendance`,
-    
+
+    /**
+     * GET /agents/:matricule/attendance/:date - Get agent's detailed punches for one day
+     *
+     * @param {string} matricule - Agent's unique identifier (matricule)
+     * @param {string} date - Date (YYYY-MM-DD)
+     * @returns {string} Formatted endpoint path
+     */
+    AGENT_DAILY_ATTENDANCE: (matricule: string, date: string) => `/agents/${matricule}/attendance/${date}`,
+
+    /**
+     * GET /agents/:matricule/temporary-exits/:date - Get agent's temporary exits for one day
+     *
+     * @param {string} matricule - Agent's unique identifier (matricule)
+     * @param {string} date - Date (YYYY-MM-DD)
+     * @returns {string} Formatted endpoint path
+     */
+    AGENT_TEMPORARY_EXITS: (matricule: string, date: string) => `/agents/${matricule}/temporary-exits/${date}`,
+
+    /**
+     * GET /agents/:matricule/absences - List agent's long absences
+     * POST /agents/:matricule/absences - Create long absence
+     *
+     * @param {string} matricule - Agent's unique identifier (matricule)
+     * @returns {string} Formatted endpoint path
+     */
+    AGENT_ABSENCES: (matricule: string) => `/agents/${matricule}/absences`,
+
+    /**
+     * PUT /agents/:matricule/absences/:id - Update long absence
+     * DELETE /agents/:matricule/absences/:id - Delete long absence
+     *
+     * @param {string} matricule - Agent's unique identifier (matricule)
+     * @param {string} absenceId - Absence unique identifier
+     * @returns {string} Formatted endpoint path
+     */
+    AGENT_ABSENCE_BY_ID: (matricule: string, absenceId: string) => `/agents/${matricule}/absences/${absenceId}`,
+
+    /**
+     * GET /agents/:matricule/badge - Get the current QR badge (issued on first request)
+     *
+     * @param {string} matricule - Agent's unique identifier (matricule)
+     * @returns {string} Formatted endpoint path
+     */
+    AGENT_BADGE: (matricule: string) => `/agents/${matricule}/badge`,
+
+    /**
+     * POST /agents/:matricule/badge/reissue - Issue a new badge version
+     * Every previously printed badge of the agent becomes invalid
+     *
+     * Body: { reason }
+     *
+     * @param {string} matricule - Agent's unique identifier (matricule)
+     * @returns {string} Formatted endpoint path
+     */
+    AGENT_BADGE_REISSUE: (matricule: string) => `/agents/${matricule}/badge/reissue`,
+
+    /**
+     * POST /agents/:matricule/badge/revoke - Revoke the current badge
+     * The agent has no valid badge until the next reissue
+     *
+     * Body: { reason }
+     *
+     * @param {string} matricule - Agent's unique identifier (matricule)
+     * @returns {string} Formatted endpoint path
+     */
+    AGENT_BADGE_REVOKE: (matricule: string) => `/agents/${matricule}/badge/revoke`,
+
+    // ========================================
+    // Badge Endpoints
+    // ========================================
+
+    /**
+     * POST /badges/batch - Get the current badges of several agents (badge printing)
+     *
+     * Body: { matricules }
+     */
+    BADGES_BATCH: '/badges/batch',
+
+    /**
+     * POST /badges/verify - Check a scanned QR payload
+     * Returns: BadgeVerification; 400 if the signature is invalid,
+     * 410 if the badge was revoked or replaced by a newer version
+     *
+     * Body: { token }
+     */
+    BADGE_VERIFY: '/badges/verify',
+
+    // ========================================
+    // Self-Service Endpoints (Agent portal)
+    // ========================================
+    // Scoped by the backend to the agent linked to the logged-in account:
+    // no matricule is ever sent. 403 when the account has no linked agent.
+
+    /**
+     * GET /me/agent - Agent linked to the logged-in account
+     */
+    ME_AGENT: '/me/agent',
+
+    /**
+     * GET /me/attendance - Own attendance history
+     * Query params: from, to (YYYY-MM-DD, default: last 30 days)
+     */
+    ME_ATTENDANCE: '/me/attendance',
+
+    /**
+     * GET /me/attendance/:date - Own punches of a day
+     *
+     * @param {string} date - Date (YYYY-MM-DD)
+     * @returns {string} Formatted endpoint path
+     */
+    ME_DAILY_ATTENDANCE: (date: string) => `/me/attendance/${date}`,
+
+    /**
+     * GET /me/temporary-exits/:date - Own temporary exits of a day
+     *
+     * @param {string} date - Date (YYYY-MM-DD)
+     * @returns {string} Formatted endpoint path
+     */
+    ME_TEMPORARY_EXITS: (date: string) => `/me/temporary-exits/${date}`,
+
+    /**
+     * GET /me/absences - Own long absences
+     */
+    ME_ABSENCES: '/me/absences',
+
+    /**
+     * GET /me/badge - Own current QR badge
+     */
+    ME_BADGE: '/me/badge',
+
+    /**
+     * GET /me/statement - Own monthly attendance statement (PDF download)
+     * Query params: year, month (1-12)
+     */
+    ME_STATEMENT: '/me/statement',
+
+    /**
+     * GET /me/leave-requests - Own leave requests (most recent first)
+     * POST /me/leave-requests - Submit a leave request for the linked agent
+     * Body: LeaveRequestPayload (matricule ignored)
+     */
+    ME_LEAVE_REQUESTS: '/me/leave-requests',
+
+    /**
+     * POST /me/leave-requests/:id/cancel - Withdraw an own pending request
+     *
+     * @param {string} id - Leave request ID
+     * @returns {string} Formatted endpoint path
+     */
+    ME_LEAVE_REQUEST_CANCEL: (id: string) => `/me/leave-requests/${id}/cancel`,
+
+    // ========================================
+    // Attendance Endpoints
+    // ========================================
+
+    /**
+     * GET /attendance - Get organization-wide attendance for one day
+     * Returns: Day summary with the punches of every agent
+     *
+     * Query params: date (YYYY-MM-DD)
+     */
+    ATTENDANCE: '/attendance',
+
+    /**
+     * POST /attendance/punch - Record a badge punch (check-in kiosk)
+     * Returns: AttendancePunch (time and late / on-time status);
+     * 400 / 410 if the badge is invalid, 409 if the punch is not expected
+     *
+     * Body: AttendancePunchRequest { token, type, timestamp }
+     */
+    ATTENDANCE_PUNCH: '/attendance/punch',
+
+    /**
+     * GET /attendance/corrections - List manual corrections
+     * Query params: status, matricule, date
+     * Returns: AttendanceCorrection[] (most recent first)
+     *
+     * POST /attendance/corrections - Correct the punches of a day
+     * Body: AttendanceCorrectionRequest { matricule, date, punches, reason, attachment? }
+     * Admin: applied immediately; Manager: proposal waiting for an Admin
+     * 409 if a proposal is already pending for that day
+     */
+    ATTENDANCE_CORRECTIONS: '/attendance/corrections',
+
+    /**
+     * POST /attendance/corrections/:id/approve - Apply a pending proposal (Admin only)
+     * Body: { comment? }
+     */
+    ATTENDANCE_CORRECTION_APPROVE: (id: string) => `/attendance/corrections/${id}/approve`,
+
+    /**
+     * POST /attendance/corrections/:id/reject - Refuse a pending proposal (Admin only)
+     * Body: { comment } (mandatory)
+     */
+    ATTENDANCE_CORRECTION_REJECT: (id: string) => `/attendance/corrections/${id}/reject`,
+
+    /**
+     * GET /attendance/corrections/:id/attachment - Download the supporting document
+     * Returns: the file (Content-Disposition: attachment)
+     */
+    ATTENDANCE_CORRECTION_ATTACHMENT: (id: string) => `/attendance/corrections/${id}/attachment`,
+
+    // ========================================
+    // Leave Request Endpoints
+    // ========================================
+
+    /**
+     * GET /leave-requests - List leave requests (Manager / Admin)
+     * Query params: status, matricule
+     * Returns: LeaveRequest[] (most recent first)
+     *
+     * POST /leave-requests - Submit a leave request on behalf of an agent
+     * Body: LeaveRequestPayload
+     * 409 if the period overlaps an absence or a pending request of the agent
+     */
+    LEAVE_REQUESTS: '/leave-requests',
+
+    /**
+     * POST /leave-requests/:id/approve - Approve a pending request and create the absence
+     * Body: { comment? }
+     */
+    LEAVE_REQUEST_APPROVE: (id: string) => `/leave-requests/${id}/approve`,
+
+    /**
+     * POST /leave-requests/:id/reject - Reject a pending request
+     * Body: { comment } (mandatory)
+     */
+    LEAVE_REQUEST_REJECT: (id: string) => `/leave-requests/${id}/reject`,
+
+    /**
+     * GET /absence-types - Absence type catalogue (every role)
+     * POST /absence-types - Add a type (Admin only)
+     * Body: AbsenceType
+     */
+    ABSENCE_TYPES: '/absence-types',
+
+    /**
+     * PUT /absence-types/:code - Update a type, the code cannot change (Admin only)
+     * DELETE /absence-types/:code - Remove a type no absence or request uses (Admin only)
+     */
+    ABSENCE_TYPE_BY_CODE: (code: string) => `/absence-types/${encodeURIComponent(code)}`,
+
+    /**
+     * GET /absence-entitlements - Annual entitlement of each absence type
+     * PUT /absence-entitlements - Replace the entitlements (Admin only)
+     * Body: AbsenceEntitlement[]
+     */
+    ABSENCE_ENTITLEMENTS: '/absence-entitlements',
+
+    // ========================================
+    // Notification Endpoints
+    // ========================================
+
+    /**
+     * GET /notifications - Notifications of the logged-in user (most recent first)
+     */
+    NOTIFICATIONS: '/notifications',
+
+    /**
+     * POST /notifications/:id/read - Mark one notification as read
+     *
+     * @param {string} id - Notification ID
+     * @returns {string} Formatted endpoint path
+     */
+    NOTIFICATION_READ: (id: string) => `/notifications/${id}/read`,
+
+    /**
+     * POST /notifications/read-all - Mark every notification as read
+     */
+    NOTIFICATIONS_READ_ALL: '/notifications/read-all',
+
     // ========================================
     // Work Schedule Endpoints
     // ========================================
@@ -186,6 +579,14 @@ export const API_CONFIG = {
      * Query params: startDate, endDate
      */
     CALENDAR_EVENTS: '/calendar/events',
+
+    /**
+     * GET /calendar/availability - Long absences of every active agent over a period
+     * (team availability timeline, Manager / Admin)
+     * 
+     * Query params: from, to (YYYY-MM-DD), division
+     */
+    CALENDAR_AVAILABILITY: '/calendar/availability',
     
     // ========================================
     // Statistics & Reporting Endpoints
@@ -206,24 +607,104 @@ export const API_CONFIG = {
     ATTENDANCE_STATS: '/dashboard/attendance-stats',
     
     /**
-     * GET /statistics/reports - Get recent activity reports
+     * GET /dashboard/activities - Get recent activities
      * Returns: Recent check-ins, absences, and system activities
      * 
      * Query params: limit, offset
      */
-
     RECENT_ACTIVITY: '/dashboard/activities',
 
-
+    /**
+     * GET /statistics/reports - History of the generated reports (most recent first)
+     * POST /statistics/reports - Generate a report and record it in the history
+     * Returns: GeneratedReport[] (GET), the generated file (POST, binary)
+     *
+     * Body (POST): ReportParams { type, format, from, to, matricules, departments }
+     */
     REPORTS: '/statistics/reports',
+
+    /**
+     * POST /statistics/reports/preview - Preview a report before generating it
+     * Returns: ReportPreview
+     *
+     * Body: ReportParams
+     */
+    REPORT_PREVIEW: '/statistics/reports/preview',
+
+    /**
+     * GET /statistics/reports/:id/file - Download a report of the history again
+     * PUT /statistics/reports/:id - Pin or unpin a report (Body: { pinned })
+     * DELETE /statistics/reports/:id - Remove a report from the history
+     */
+    REPORT_FILE: (id: string) => `/statistics/reports/${id}/file`,
+    REPORT_BY_ID: (id: string) => `/statistics/reports/${id}`,
+
+    /**
+     * GET /statistics/report-schedules - Recurring reports executed by the backend
+     * POST /statistics/report-schedules - Create a schedule
+     * Returns: ReportSchedule[] (GET), ReportSchedule (POST)
+     *
+     * Body (POST): ReportSchedulePayload { name, frequency, day, type, format, departments, perDivision, enabled }
+     */
+    REPORT_SCHEDULES: '/statistics/report-schedules',
+
+    /**
+     * PUT /statistics/report-schedules/:id - Update a schedule
+     * DELETE /statistics/report-schedules/:id - Remove a schedule (its reports stay in the history)
+     * POST /statistics/report-schedules/:id/run - Run a schedule now
+     * Returns: ReportSchedule (PUT), GeneratedReport[] (run)
+     */
+    REPORT_SCHEDULE_BY_ID: (id: string) => `/statistics/report-schedules/${id}`,
+    REPORT_SCHEDULE_RUN: (id: string) => `/statistics/report-schedules/${id}/run`,
+
+    /**
+     * GET /statistics/divisions - Attendance rate of each division over a range
+     * Returns: DivisionAttendance[] (best rate first)
+     *
+     * Query params: from, to (YYYY-MM-DD)
+     */
+    STATISTICS_DIVISIONS: '/statistics/divisions',
+
+    /**
+     * GET /statistics/punctuality - On-time / late / absent shares over a range
+     * Returns: PunctualityTrend[] (one point per day, week or month)
+     *
+     * Query params: from, to (YYYY-MM-DD), groupBy (day/week/month)
+     */
+    STATISTICS_PUNCTUALITY: '/statistics/punctuality',
+
+    /**
+     * GET /statistics/absence-rates - Absence rate of each month of a range
+     * Returns: MonthlyAbsenceRate[]
+     *
+     * Query params: from, to (YYYY-MM-DD)
+     */
+    STATISTICS_ABSENCE_RATES: '/statistics/absence-rates',
+
+    /**
+     * GET /statistics/status-distribution - Agent-days of a range by status
+     * Returns: StatusDistribution
+     *
+     * Query params: from, to (YYYY-MM-DD)
+     */
+    STATISTICS_STATUS_DISTRIBUTION: '/statistics/status-distribution',
     
     /**
      * POST /statistics/export - Export attendance reports
      * Generates downloadable reports in PDF, Excel, or CSV format
+     * Returns: The generated file (binary)
      * 
-     * Body: { format, startDate, endDate, filters }
+     * Body: ReportParams { type, format, from, to, matricules, departments }
      */
     EXPORT_REPORT: '/statistics/export',
+
+    /**
+     * GET /report/monthly/pdf - Download the monthly attendance report
+     * Returns: PDF file (Content-Disposition gives the filename)
+     *
+     * Query params: year, month (1-12)
+     */
+    MONTHLY_REPORT_PDF: '/report/monthly/pdf',
     
     // ========================================
     // User Management Endpoints
@@ -281,9 +762,244 @@ export const API_CONFIG = {
      * Query params: userId, action, startDate, endDate, limit
      */
     AUDIT_LOGS: '/audit-logs',
+
+    /**
+     * GET /system/info - Get backend name, version and environment
+     * Displayed in the backend info panel of the Settings page
+     */
+    SYSTEM_INFO: '/system/info',
   },
 };
 
+// ============================================================================
+// ENVIRONMENT & RUNTIME CONFIGURATION
+// ============================================================================
+
+/**
+ * LocalStorage key of the backend profile chosen by an administrator
+ */
+const PROFILE_STORAGE_KEY = 'api_profile';
+
+/**
+ * Current configuration status (see getConfigStatus)
+ */
+const configStatus: ConfigStatus = {
+  source: 'default',
+  configUrl: null,
+  profile: null,
+  profiles: [],
+  errors: [],
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a configuration object
+ * 
+ * Unknown keys and invalid values are reported in `errors` and dropped,
+ * so that a typo in config.json never breaks the application.
+ * 
+ * @param {unknown} raw - Untrusted configuration object
+ * @param {string} origin - Label used in error messages (e.g., 'config.json')
+ * @returns {{ config: RuntimeConfig, errors: string[] }} Sanitized configuration and errors
+ * 
+ * @example
+ * validateRuntimeConfig({ apiUrl: 'ftp://x', requestTimeout: 5000 }, 'config.json')
+ * // → { config: { requestTimeout: 5000 }, errors: ['config.json: apiUrl doit être une URL http(s)'] }
+ */
+export function validateRuntimeConfig(raw: unknown, origin: string): { config: RuntimeConfig; errors: string[] } {
+  const config: RuntimeConfig = {};
+  const errors: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    return { config, errors: [`${origin}: la configuration doit être un objet`] };
+  }
+
+  const allowed = ['apiUrl', 'useMock', 'mockDelay', 'mockErrorRate', 'requestTimeout', 'features', 'label', 'profiles', 'defaultProfile'];
+  Object.keys(raw)
+    .filter(key => !allowed.includes(key))
+    .forEach(key => errors.push(`${origin}: clé inconnue "${key}"`));
+
+  if (raw.apiUrl !== undefined) {
+    if (typeof raw.apiUrl === 'string' && /^(https?:\/\/|\/)/.test(raw.apiUrl)) {
+      config.apiUrl = raw.apiUrl.replace(/\/+$/, '');
+    } else {
+      errors.push(`${origin}: apiUrl doit être une URL http(s) ou un chemin absolu`);
+    }
+  }
+
+  if (raw.useMock !== undefined) {
+    if (typeof raw.useMock === 'boolean') config.useMock = raw.useMock;
+    else errors.push(`${origin}: useMock doit être un booléen`);
+  }
+
+  const numberField = (key: 'mockDelay' | 'mockErrorRate' | 'requestTimeout', max: number) => {
+    const value = raw[key];
+    if (value === undefined) return;
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max) {
+      config[key] = value;
+    } else {
+      errors.push(`${origin}: ${key} doit être un nombre entre 0 et ${max}`);
+    }
+  };
+  numberField('mockDelay', 60000);
+  numberField('mockErrorRate', 1);
+  numberField('requestTimeout', 600000);
+
+  if (raw.features !== undefined) {
+    if (isPlainObject(raw.features)) {
+      const features: Partial<FeatureFlags> = {};
+      Object.entries(raw.features).forEach(([name, enabled]) => {
+        if (!(name in API_CONFIG.FEATURES)) {
+          errors.push(`${origin}: fonctionnalité inconnue "${name}"`);
+        } else if (typeof enabled !== 'boolean') {
+          errors.push(`${origin}: features.${name} doit être un booléen`);
+        } else {
+          features[name as keyof FeatureFlags] = enabled;
+        }
+      });
+      config.features = features;
+    } else {
+      errors.push(`${origin}: features doit être un objet`);
+    }
+  }
+
+  return { config, errors };
+}
+
+/**
+ * Apply validated values to API_CONFIG
+ */
+function applyConfig(config: RuntimeConfig): void {
+  if (config.apiUrl !== undefined) API_CONFIG.BASE_URL = config.apiUrl;
+  if (config.useMock !== undefined) API_CONFIG.USE_MOCK = config.useMock;
+  if (config.mockDelay !== undefined) API_CONFIG.MOCK_DELAY = config.mockDelay;
+  if (config.mockErrorRate !== undefined) API_CONFIG.MOCK_ERROR_RATE = config.mockErrorRate;
+  if (config.requestTimeout !== undefined) API_CONFIG.REQUEST_TIMEOUT = config.requestTimeout;
+  if (config.features) API_CONFIG.FEATURES = { ...API_CONFIG.FEATURES, ...config.features };
+}
+
+/**
+ * Read the configuration from Vite environment variables
+ * 
+ * Supported variables: VITE_API_URL, VITE_USE_MOCK, VITE_MOCK_DELAY,
+ * VITE_MOCK_ERROR_RATE, VITE_REQUEST_TIMEOUT, VITE_FEATURE_<NAME>
+ */
+function readEnvConfig(): Record<string, unknown> {
+  const env = (import.meta.env ?? {}) as Record<string, string | undefined>;
+  const raw: Record<string, unknown> = {};
+
+  const toBoolean = (value: string) => (['true', '1'].includes(value.toLowerCase()) ? true : ['false', '0'].includes(value.toLowerCase()) ? false : value);
+  const toNumber = (value: string) => (value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value);
+
+  if (env.VITE_API_URL) raw.apiUrl = env.VITE_API_URL;
+  if (env.VITE_USE_MOCK) raw.useMock = toBoolean(env.VITE_USE_MOCK);
+  if (env.VITE_MOCK_DELAY) raw.mockDelay = toNumber(env.VITE_MOCK_DELAY);
+  if (env.VITE_MOCK_ERROR_RATE) raw.mockErrorRate = toNumber(env.VITE_MOCK_ERROR_RATE);
+  if (env.VITE_REQUEST_TIMEOUT) raw.requestTimeout = toNumber(env.VITE_REQUEST_TIMEOUT);
+
+  const features: Record<string, unknown> = {};
+  Object.keys(env)
+    .filter(key => key.startsWith('VITE_FEATURE_') && env[key])
+    .forEach(key => (features[key.slice('VITE_FEATURE_'.length)] = toBoolean(env[key]!)));
+  if (Object.keys(features).length) raw.features = features;
+
+  return raw;
+}
+
+// Apply the environment immediately so that API_CONFIG is usable before loadRuntimeConfig
+(() => {
+  const raw = readEnvConfig();
+  if (!Object.keys(raw).length) return;
+  const { config, errors } = validateRuntimeConfig(raw, 'env');
+  applyConfig(config);
+  configStatus.source = 'env';
+  configStatus.errors.push(...errors);
+})();
+
+/**
+ * Load the runtime configuration (config.json served next to index.html)
+ * 
+ * Called once at startup, before the first render (see main.tsx).
+ * A missing file is not an error; an invalid one is reported in
+ * getConfigStatus().errors and its invalid values are ignored.
+ * The file location can be changed with VITE_CONFIG_URL.
+ * 
+ * @returns {Promise<ConfigStatus>} Resulting configuration status
+ */
+export async function loadRuntimeConfig(): Promise<ConfigStatus> {
+  const configUrl = (import.meta.env?.VITE_CONFIG_URL as string | undefined) || 'config.json';
+
+  let file: unknown;
+  try {
+    const response = await fetch(configUrl, { cache: 'no-store' });
+    if (!response.ok) return configStatus;
+    file = await response.json();
+  } catch {
+    // Pas de config.json (ou réponse non JSON, ex: index.html du serveur de dev)
+    return configStatus;
+  }
+
+  const { config, errors } = validateRuntimeConfig(file, 'config.json');
+  configStatus.source = 'runtime';
+  configStatus.configUrl = configUrl;
+  configStatus.errors.push(...errors);
+  applyConfig(config);
+
+  if (!isPlainObject(file)) return configStatus;
+
+  // --- Backend profiles ---
+  const profiles = isPlainObject(file.profiles) ? file.profiles : {};
+  if (file.profiles !== undefined && !isPlainObject(file.profiles)) {
+    configStatus.errors.push('config.json: profiles doit être un objet');
+  }
+
+  configStatus.profiles = Object.entries(profiles).map(([name, profile]) => ({
+    name,
+    label: isPlainObject(profile) && typeof profile.label === 'string' ? profile.label : name,
+  }));
+
+  const storedProfile = localStorage.getItem(PROFILE_STORAGE_KEY);
+  const defaultProfile = typeof file.defaultProfile === 'string' ? file.defaultProfile : undefined;
+  if (defaultProfile && !(defaultProfile in profiles)) {
+    configStatus.errors.push(`config.json: defaultProfile "${defaultProfile}" introuvable`);
+  }
+
+  const profileName = [storedProfile, defaultProfile].find(name => name && name in profiles);
+  if (profileName) {
+    const profile = validateRuntimeConfig(profiles[profileName], `config.json (profil ${profileName})`);
+    configStatus.profile = profileName;
+    configStatus.errors.push(...profile.errors);
+    applyConfig(profile.config);
+  }
+
+  return configStatus;
+}
+
+/**
+ * Get the origin of the effective configuration (for the backend info panel)
+ */
+export const getConfigStatus = (): ConfigStatus => configStatus;
+
+/**
+ * Select the backend profile to use after the next reload
+ * 
+ * @param {string | null} name - Profile name (null = default profile)
+ */
+export const selectBackendProfile = (name: string | null): void => {
+  if (name) localStorage.setItem(PROFILE_STORAGE_KEY, name);
+  else localStorage.removeItem(PROFILE_STORAGE_KEY);
+};
+
+/**
+ * Check whether a feature flag is enabled
+ * 
+ * @example
+ * isFeatureEnabled('STATISTICS')  // → true unless disabled by env or config.json
+ */
+export const isFeatureEnabled = (feature: keyof FeatureFlags): boolean => API_CONFIG.FEATURES[feature];
+
 /**
  * Build Full URL
  * 
@@ -1,78 +1,253 @@
 import { API_CONFIG } from './config';
 
+/**
+ * Marge avant l'expiration du JWT à partir de laquelle on rafraîchit
+ * le token de manière proactive (en millisecondes)
+ */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Clés localStorage des tokens et de la session
+ */
+const ACCESS_TOKEN_KEY = 'access_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+const AUTH_STORAGE_KEY = 'staff_attendance_auth';
+
+/**
+ * Refresh en cours, partagé par toutes les requêtes (single-flight).
+ * Tant qu'il n'est pas résolu, les autres requêtes attendent son résultat
+ * au lieu de lancer leur propre refresh avec un refresh token déjà consommé.
+ */
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Timer du refresh proactif
+ */
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Évite plusieurs redirections simultanées vers /login
+ */
+let sessionExpired = false;
+
+/**
+ * Erreur levée lorsque la session a expiré (refresh impossible) :
+ * l'utilisateur est redirigé vers /login, la requête n'est pas réessayée
+ */
+export class SessionExpiredError extends Error {
+  constructor() {
+    super('Session expirée');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/**
+ * Send a request to the backend, or to the in-browser mock backend
+ * when API_CONFIG.USE_MOCK is enabled (loaded lazily so that it is
+ * never downloaded in real API mode)
+ */
+export async function rawFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  if (API_CONFIG.USE_MOCK) {
+    const { mockFetch } = await import('./mock-backend');
+    return mockFetch(url, options);
+  }
+  return fetch(url, options);
+}
+
+/**
+ * Read the `exp` claim (in ms) of a JWT, or null if it cannot be decoded
+ */
+function getTokenExpiry(token: string | null): number | null {
+  if (!token) return null;
+
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = JSON.parse(atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=')));
+    return typeof json.exp === 'number' ? json.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True if the token expires within the refresh margin
+ */
+function isTokenExpiringSoon(token: string | null): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() <= REFRESH_MARGIN_MS;
+}
+
 /**
  * Refresh the access token using the refresh token
+ *
+ * Returns the new access token, or null if the refresh token was rejected
+ * (or is missing). Network errors are rethrown so that callers do not
+ * log the user out because of a temporary outage.
  */
 async function refreshAccessToken(): Promise<string | null> {
-  const refreshToken = localStorage.getItem('refresh_token');
+  const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
   if (!refreshToken) return null;
 
+  let response: Response;
   try {
-    const response = await fetch(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.REFRESH}`, {
+    response = await rawFetch(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.REFRESH}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ refresh_token: refreshToken }),
     });
+  } catch (err) {
+    console.error('Erreur réseau lors du refresh token :', err);
+    throw err;
+  }
 
-    if (!response.ok) {
-      console.error('Erreur lors du refresh token :', response.statusText);
-      return null;
-    }
+  if (!response.ok) {
+    console.error('Erreur lors du refresh token :', response.statusText);
+    return null;
+  }
 
-    const data = await response.json();
-    const newAccessToken = data.data?.accessToken;
-    const newRefreshToken = data.data?.refreshToken;
+  const data = await response.json();
+  const newAccessToken = data.data?.accessToken;
+  const newRefreshToken = data.data?.refreshToken;
 
-    if (newAccessToken && newRefreshToken) {
-      localStorage.setItem('access_token', newAccessToken);
-      localStorage.setItem('refresh_token', newRefreshToken);
-      return newAccessToken;
-    }
+  if (newAccessToken && newRefreshToken) {
+    storeTokens(newAccessToken, newRefreshToken);
+    return newAccessToken;
+  }
 
-    return null;
-  } catch (err) {
-    console.error('Erreur réseau lors du refresh token :', err);
-    return null;
+  return null;
+}
+
+/**
+ * Coordinate token refreshes: only one refresh runs at a time,
+ * every concurrent caller waits for (and reuses) its result.
+ */
+function refreshAccessTokenOnce(): Promise<string | null> {
+  if (!refreshPromise) {
+    refreshPromise = refreshAccessToken().finally(() => {
+      refreshPromise = null;
+    });
   }
+  return refreshPromise;
 }
 
 /**
- * Wrapper around fetch() that automatically refreshes the token on 401
+ * Schedule a proactive refresh shortly before the current access token expires
  */
-export async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
-  const accessToken = localStorage.getItem('access_token');
+export function scheduleTokenRefresh(): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
 
-  // Première tentative
-  let response = await fetch(url, {
+  const expiry = getTokenExpiry(localStorage.getItem(ACCESS_TOKEN_KEY));
+  if (expiry === null || !localStorage.getItem(REFRESH_TOKEN_KEY)) return;
+
+  const delay = Math.max(expiry - Date.now() - REFRESH_MARGIN_MS, 0);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshAccessTokenOnce()
+      .then(token => {
+        if (!token) expireSession();
+      })
+      .catch(() => {
+        // Réseau indisponible : on retentera à la prochaine requête
+      });
+  }, delay);
+}
+
+/**
+ * Store a new token pair and (re)schedule the proactive refresh
+ */
+export function storeTokens(accessToken: string, refreshToken: string): void {
+  localStorage.setItem(ACCESS_TOKEN_KEY, accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  sessionExpired = false;
+  scheduleTokenRefresh();
+}
+
+/**
+ * Remove stored tokens and cancel the proactive refresh
+ */
+export function clearTokens(): void {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+}
+
+/**
+ * Clear the session and redirect to /login (only once)
+ */
+function expireSession(): never {
+  if (!sessionExpired) {
+    sessionExpired = true;
+    console.error('Impossible de rafraîchir le token. Redirection vers /login');
+    clearTokens();
+    localStorage.removeItem(AUTH_STORAGE_KEY);
+    window.location.href = '/login';
+  }
+  throw new SessionExpiredError();
+}
+
+/**
+ * Send the request with the given token
+ * (Content-Type JSON uniquement lorsqu'un corps est envoyé)
+ */
+function send(url: string, options: RequestInit, accessToken: string | null): Promise<Response> {
+  return rawFetch(url, {
     ...options,
     headers: {
       ...(options.headers || {}),
       'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
+      ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
     },
   });
+}
+
+/**
+ * Wrapper around fetch() that automatically refreshes the token on 401
+ *
+ * - Si un refresh est déjà en cours, la requête attend le nouveau token
+ * - Si le token expire bientôt, il est rafraîchi avant l'envoi
+ * - Sur 401, un seul refresh est lancé pour toutes les requêtes concernées,
+ *   qui sont ensuite rejouées avec le nouveau token
+ */
+export async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
+  let accessToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+
+  // Refresh en cours ou token sur le point d'expirer : on attend le nouveau token
+  if (refreshPromise || isTokenExpiringSoon(accessToken)) {
+    try {
+      accessToken = (await refreshAccessTokenOnce()) ?? accessToken;
+    } catch {
+      // Réseau indisponible : on tente quand même avec le token actuel
+    }
+  }
+
+  // Première tentative
+  let response = await send(url, options, accessToken);
 
   // Si token expiré
   if (response.status === 401) {
     console.warn('Token expiré, tentative de rafraîchissement...');
-    const newAccessToken = await refreshAccessToken();
+
+    // Le token a peut-être déjà été renouvelé par une autre requête entre-temps
+    const currentToken = localStorage.getItem(ACCESS_TOKEN_KEY);
+    const newAccessToken =
+      currentToken && currentToken !== accessToken
+        ? currentToken
+        : await refreshAccessTokenOnce();
 
     if (!newAccessToken) {
-      console.error('Impossible de rafraîchir le token. Redirection vers /login');
-      localStorage.clear();
-      window.location.href = '/login';
-      throw new Error('Session expirée');
+      expireSession();
     }
 
     // Retenter la requête avec le nouveau token
-    response = await fetch(url, {
-      ...options,
-      headers: {
-        ...(options.headers || {}),
-        'Authorization': `Bearer ${newAccessToken}`,
-        'Content-Type': 'application/json',
-      },
-    });
+    response = await send(url, options, newAccessToken);
   }
 
   return response;
@@ -16,7 +16,10 @@
  * 
  * Exports:
  * - All TypeScript types (Agent, WorkSchedule, Holiday, etc.)
- * - API configuration (API_CONFIG, buildUrl, mockDelay)
+ * - API configuration (API_CONFIG, loadRuntimeConfig, getConfigStatus, buildUrl, mockDelay)
+ * - Shared HTTP client (apiClient, ApiError, getErrorMessage, saveBlob)
+ * - Query cache (queryClient, queryKeys)
+ * - Offline mode (offlineManager: read cache, write queue, conflict report)
  * - All service instances (agentsService, schedulesService, etc.)
  * 
  * @module api/index
@@ -30,16 +33,54 @@ export * from './types';
 // Export API configuration, URL builder, and mock delay utility
 export * from './config';
 
+// --- Client Exports ---
+// Export the shared HTTP client and its typed error
+export {
+  apiClient,
+  ApiError,
+  buildQueryString,
+  getErrorMessage,
+  getFilenameFromContentDisposition,
+  saveBlob,
+} from './client';
+export { SessionExpiredError } from './fetchWithAuth';
+export type {
+  QueryParams,
+  RequestOptions,
+  HttpMethod,
+  FieldErrors,
+  DownloadOptions,
+  DownloadProgress,
+  DownloadResult,
+} from './client';
+
+// --- Query Cache Exports ---
+// Export the shared query cache (used by the useApiQuery hook) and its key factory
+export { queryClient, queryKeys, hashQueryKey, DEFAULT_STALE_TIME } from './query-client';
+export type { QueryKey, QueryFetcher, QueryState } from './query-client';
+
+// --- Offline Mode Exports ---
+// Export the offline manager (connectivity state, queued writes, conflicts)
+export { offlineManager } from './offline';
+export type { OfflineState, QueuedMutation, OfflineConflict } from './offline';
+
 // --- Service Exports ---
 // Export singleton instances of all API services
 
 /**
  * Agents Service
  * Handles employee management and attendance tracking
- * Methods: getAgents, getAgentById, createAgent, updateAgent, deleteAgent, getAgentAttendance
+ * Methods: getAgents, getAllAgents, getDivisions, getAgentById, createAgent, updateAgent, deleteAgent, getAgentAttendance
  */
 export { agentsService } from './agents.service';
 
+/**
+ * Badges Service
+ * Handles the signed QR badges of the agents
+ * Methods: getBadge, getBadges, reissueBadge, revokeBadge, verifyBadge
+ */
+export { badgesService } from './badges.service';
+
 /**
  * Schedules Service
  * Handles work schedule management
@@ -49,21 +90,69 @@ export { schedulesService } from './schedules.service';
 
 /**
  * Calendar Service
- * Handles holidays and calendar events
- * Methods: getHolidays, getCalendarEvents, createHoliday, updateHoliday, deleteHoliday
+ * Handles holidays, calendar events and the team availability
+ * Methods: getHolidays, getCalendarEvents, getTeamAvailability, createHoliday, updateHoliday, deleteHoliday
  */
 export { calendarService } from './calendar.service';
 
 /**
  * Statistics Service
- * Handles dashboard stats and reporting
- * Methods: getDashboardStats, getAttendanceStats, getRecentActivities, exportReport
+ * Handles dashboard stats, attendance analytics and reporting
+ * Methods: getDashboardStats, getAttendanceStats, getRecentActivities, getDivisionAttendance,
+ *          getPunctualityTrends, getAbsenceRates, getStatusDistribution, exportReport
  */
 export { statisticsService } from './statistics.service';
 
+/**
+ * Report Service
+ * Handles report preview, generation, history and schedules
+ * Methods: getReports, previewReport, generateReport, downloadReport, setReportPinned, deleteReport,
+ *          getSchedules, createSchedule, updateSchedule, deleteSchedule, runSchedule, downloadMonthlyReport
+ */
+export { reportService } from './report.service';
+
 /**
  * Users Service
  * Handles system user management and audit logs
  * Methods: getUsers, getUserById, createUser, updateUser, deleteUser, resetPassword, getAuditLogs
  */
 export { usersService } from './users.service';
+
+/**
+ * Attendance Service
+ * Handles organization-wide daily attendance, kiosk punches and manual corrections
+ * Methods: getDayStatistics, recordPunch, getCorrections, createCorrection, approveCorrection,
+ *          rejectCorrection, downloadCorrectionAttachment
+ */
+export { attendanceService } from './attendance.service';
+
+/**
+ * Personal Service
+ * Handles the Agent self-service portal (own data only, scoped by the backend)
+ * Methods: getAgent, getAttendance, getDailyAttendance, getTemporaryExits, getAbsences, getBadge,
+ *          downloadStatement, getLeaveRequests, createLeaveRequest, cancelLeaveRequest
+ */
+export { personalService } from './personal.service';
+
+/**
+ * Leave Service
+ * Handles the leave request approval queue, the absence type catalogue and the absence entitlements
+ * Methods: getLeaveRequests, createLeaveRequest, approveLeaveRequest, rejectLeaveRequest,
+ *          getEntitlements, updateEntitlements, getAbsenceTypes, createAbsenceType,
+ *          updateAbsenceType, deleteAbsenceType
+ */
+export { leaveService } from './leave.service';
+
+/**
+ * Notifications Service
+ * Handles the in-app notifications of the logged-in user
+ * Methods: getNotifications, markAsRead, markAllAsRead
+ */
+export { notificationsService } from './notifications.service';
+
+/**
+ * System Service
+ * Handles backend information and system settings
+ * Methods: getBackendInfo, getSettings, updateSettings
+ */
+export { systemService } from './system.service';
@@ -0,0 +1,93 @@
+/**
+ * Leave API Service
+ * Handles the leave request approval queue (Managers and Admins)
+ * and the absence type catalogue with the annual entitlement of each type
+ */
+
+import { API_CONFIG } from './config';
+import { apiClient } from './client';
+import type {
+  AbsenceEntitlement,
+  AbsenceType,
+  LeaveRequest,
+  LeaveRequestParams,
+  LeaveRequestPayload,
+  ApiResponse,
+} from './types';
+
+class LeaveService {
+  /**
+   * List leave requests (most recent first)
+   */
+  async getLeaveRequests(params: LeaveRequestParams = {}, signal?: AbortSignal): Promise<ApiResponse<LeaveRequest[]>> {
+    return apiClient.get<ApiResponse<LeaveRequest[]>>(API_CONFIG.ENDPOINTS.LEAVE_REQUESTS, {
+      params: { ...params },
+      signal,
+    });
+  }
+
+  /**
+   * Submit a leave request on behalf of an agent
+   */
+  async createLeaveRequest(payload: LeaveRequestPayload): Promise<ApiResponse<LeaveRequest>> {
+    return apiClient.post<ApiResponse<LeaveRequest>>(API_CONFIG.ENDPOINTS.LEAVE_REQUESTS, payload);
+  }
+
+  /**
+   * Approve a pending request (creates the long absence)
+   */
+  async approveLeaveRequest(id: string, comment?: string): Promise<ApiResponse<LeaveRequest>> {
+    return apiClient.post<ApiResponse<LeaveRequest>>(API_CONFIG.ENDPOINTS.LEAVE_REQUEST_APPROVE(id), { comment });
+  }
+
+  /**
+   * Reject a pending request (comment mandatory)
+   */
+  async rejectLeaveRequest(id: string, comment: string): Promise<ApiResponse<LeaveRequest>> {
+    return apiClient.post<ApiResponse<LeaveRequest>>(API_CONFIG.ENDPOINTS.LEAVE_REQUEST_REJECT(id), { comment });
+  }
+
+  /**
+   * Get the entitlement of each absence type
+   */
+  async getEntitlements(signal?: AbortSignal): Promise<ApiResponse<AbsenceEntitlement[]>> {
+    return apiClient.get<ApiResponse<AbsenceEntitlement[]>>(API_CONFIG.ENDPOINTS.ABSENCE_ENTITLEMENTS, { signal });
+  }
+
+  /**
+   * Replace the entitlements (Admin only)
+   */
+  async updateEntitlements(entitlements: AbsenceEntitlement[]): Promise<ApiResponse<AbsenceEntitlement[]>> {
+    return apiClient.put<ApiResponse<AbsenceEntitlement[]>>(API_CONFIG.ENDPOINTS.ABSENCE_ENTITLEMENTS, entitlements);
+  }
+
+  /**
+   * Get the absence type catalogue
+   */
+  async getAbsenceTypes(signal?: AbortSignal): Promise<ApiResponse<AbsenceType[]>> {
+    return apiClient.get<ApiResponse<AbsenceType[]>>(API_CONFIG.ENDPOINTS.ABSENCE_TYPES, { signal });
+  }
+
+  /**
+   * Add an absence type (Admin only)
+   */
+  async createAbsenceType(type: AbsenceType): Promise<ApiResponse<AbsenceType>> {
+    return apiClient.post<ApiResponse<AbsenceType>>(API_CONFIG.ENDPOINTS.ABSENCE_TYPES, type);
+  }
+
+  /**
+   * Update an absence type (Admin only)
+   */
+  async updateAbsenceType(code: string, type: Omit<AbsenceType, 'code'>): Promise<ApiResponse<AbsenceType>> {
+    return apiClient.put<ApiResponse<AbsenceType>>(API_CONFIG.ENDPOINTS.ABSENCE_TYPE_BY_CODE(code), type);
+  }
+
+  /**
+   * Remove an absence type (Admin only, refused while absences or requests use it)
+   */
+  async deleteAbsenceType(code: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(API_CONFIG.ENDPOINTS.ABSENCE_TYPE_BY_CODE(code));
+  }
+}
+
+export const leaveService = new LeaveService();
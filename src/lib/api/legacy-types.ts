@@ -4,8 +4,6 @@
  * They map to the new API types where possible
  */
 
-import { API_CONFIG } from './config';
-
 // Re-export common types from the new API types
 export type { 
   Agent, 
@@ -13,6 +11,9 @@ export type {
   Holiday,
   SystemUser as User,
   AgentAttendance as AttendanceRecord,
+  DayStatistics,
+  PointageRecord,
+  TemporaryExitInfo,
 } from './types';
 
 // Legacy-specific types that don't have direct API equivalents yet
@@ -43,38 +44,6 @@ export interface AttendanceRecord {
   notes?: string;
 }
 
-export interface TemporaryExitInfo {
-  id: string;
-  exitTime: string;
-  returnTime: string;
-  description: string;
-}
-
-export interface PointageRecord {
-  id: string;
-  agentId: string;
-  agentName: string;
-  division: string;
-  checkInAM: string;
-  checkOutAM: string;
-  checkInPM: string;
-  checkOutPM: string;
-  status: 'present' | 'late' | 'early-departure' | 'overtime' | 'absent';
-  totalMissedTime: string; // Format: "2h 30m"
-  temporaryExits: TemporaryExitInfo[];
-}
-
-export interface DayStatistics {
-  date: string;
-  totalAgents: number;
-  present: number;
-  absent: number;
-  late: number;
-  attendanceRate: number;
-  punctualityRate: number;
-  pointageRecords: PointageRecord[];
-}
-
 export interface PasswordResetToken {
   token: string;
   userId: string;
@@ -112,34 +81,6 @@ export const getAgentDetails = async (agentId: string): Promise<AgentDetails> =>
   };
 };
 
-/**
- * Get daily statistics for a specific date
- * NOTE: This should be replaced with statisticsService API call
- */
-export const getDayStatistics = async (date: Date): Promise<DayStatistics> => {
-  const dateStr = [
-    date.getFullYear(),
-    String(date.getMonth() + 1).padStart(2, '0'),
-    String(date.getDate()).padStart(2, '0')
-  ].join('-');
-
-  const response = await fetch(`${API_CONFIG.BASE_URL}/attendance?date=${dateStr}`, {
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${localStorage.getItem('access_token') || ''}`,
-    },
-  });
-
-  if (!response.ok) {
-    console.log("ok reponse");
-    throw new Error(`Failed to fetch day statistics: ${response.statusText}`);
-  }
-
-  const result = await response.json();
-  return result.data;
-};
-
-
 /**
  * Generate password reset token
  * NOTE: This should be replaced with usersService.resetPassword()
@@ -0,0 +1,2782 @@
+/**
+ * ============================================================================
+ * MOCK BACKEND
+ * ============================================================================
+ *
+ * In-browser implementation of the REST API, used when API_CONFIG.USE_MOCK
+ * is true. Requests are intercepted at the fetch level (see fetchWithAuth),
+ * so services, the API client and token refresh behave exactly as with the
+ * real backend.
+ *
+ * Key Features:
+ * - Every endpoint in API_CONFIG.ENDPOINTS, backed by a localStorage store
+ * - Seeded agents, schedules, holidays, attendance, absences and users
+ * - JWT-shaped tokens with expiry (exercises the refresh flow)
+ * - Badge QR payloads signed with HMAC-SHA256 (WebCrypto), versioned and revocable
+ * - Realistic latency (API_CONFIG.MOCK_DELAY ± jitter)
+ * - Error injection (API_CONFIG.MOCK_ERROR_RATE or mockBackend.failNext)
+ * - Lost connectivity (browser offline or mockBackend.setOffline) and
+ *   idempotent replay of queued writes (X-Client-Id header)
+ *
+ * Demo credentials: admin / admin123, manager / manager123, borne / borne123 (kiosk)
+ *
+ * @module api/mock-backend
+ */
+
+// --- Dependencies ---
+import { API_CONFIG, mockDelay } from './config';
+import {
+  createSeedDatabase,
+  computeDayPunches,
+  fromMinutes,
+  parseIsoDate,
+  addDays,
+  toMinutes,
+  formatDuration,
+  isWeekend,
+  nextReportRun,
+  MOCK_DB_VERSION,
+  DEFAULT_SETTINGS,
+  type MockDatabase,
+  type MockDayPunches,
+  type MockUser,
+  type MockCorrection,
+  type MockNotification,
+} from './mock-data';
+import { findHoliday, isHoliday, toIsoDate } from '../utils';
+import { buildReportBlob, REPORT_EXTENSIONS, type ReportTable } from '../report-files';
+import type {
+  Agent,
+  AgentAttendance,
+  AgentDetails,
+  DailyAttendanceDetails,
+  DayStatistics,
+  DashboardStats,
+  AttendanceStats,
+  DivisionAttendance,
+  PunctualityTrend,
+  MonthlyAbsenceRate,
+  StatusDistribution,
+  RecentActivity,
+  PointageRecord,
+  ReportParams,
+  AuditLog,
+  AgentBadge,
+  AttendancePunch,
+  PunchType,
+  WorkSchedule,
+  AttendanceCorrection,
+  CorrectionPunches,
+  CorrectionAttachment,
+  LeaveRequest,
+  LeaveRequestPayload,
+  AbsenceEntitlement,
+  AbsenceType,
+  SystemSettings,
+  TeamAvailability,
+  GeneratedReport,
+  ReportPreview,
+  ReportSchedule,
+  ReportSchedulePayload,
+} from './types';
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+/**
+ * LocalStorage key of the mock database
+ */
+const MOCK_STORAGE_KEY = 'mock_backend_db';
+
+/**
+ * Lifetime of the mock access token (ms)
+ */
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000;
+
+let database: MockDatabase | null = null;
+
+/**
+ * Load the database from localStorage (or seed it)
+ */
+function getDb(): MockDatabase {
+  if (database) return database;
+
+  try {
+    const saved = localStorage.getItem(MOCK_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as MockDatabase;
+      if (parsed.version === MOCK_DB_VERSION) {
+        database = parsed;
+        return database;
+      }
+    }
+  } catch (error) {
+    console.warn('[mock] Base corrompue, réinitialisation', error);
+  }
+
+  database = createSeedDatabase();
+  persist();
+  return database;
+}
+
+/**
+ * Save the database to localStorage
+ */
+function persist(): void {
+  if (!database) return;
+  try {
+    localStorage.setItem(MOCK_STORAGE_KEY, JSON.stringify(database));
+  } catch (error) {
+    console.warn('[mock] Impossible de sauvegarder la base', error);
+  }
+}
+
+/**
+ * Generate a new unique identifier
+ */
+function nextId(prefix: string): string {
+  const db = getDb();
+  db.sequence += 1;
+  return `${prefix}-${db.sequence}`;
+}
+
+// ============================================================================
+// HTTP HELPERS
+// ============================================================================
+
+/**
+ * Error thrown by handlers to produce a non-OK response
+ */
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly errors?: Record<string, string>
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Binary payload returned by download endpoints
+ */
+interface MockFile {
+  blob: Blob;
+  filename: string;
+}
+
+/**
+ * Request context passed to route handlers
+ */
+interface MockContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: any;
+  user: MockUser | null;
+}
+
+type MockHandler = (ctx: MockContext) => unknown | Promise<unknown>;
+
+interface MockRoute {
+  method: string;
+  path: string;
+  regex: RegExp;
+  keys: string[];
+  handler: MockHandler;
+  isPublic: boolean;
+}
+
+const routes: MockRoute[] = [];
+
+/**
+ * Register a route
+ *
+ * The path is written with `:param` placeholders, usually by calling the
+ * endpoint generator itself (e.g., `ENDPOINTS.AGENT_BY_ID(':matricule')`)
+ * so that mock routes stay in sync with API_CONFIG.
+ */
+function route(method: string, path: string, handler: MockHandler, isPublic = false): void {
+  const keys: string[] = [];
+  const pattern = path
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        keys.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  routes.push({ method, path, regex: new RegExp(`^${pattern}/?$`), keys, handler, isPublic });
+}
+
+/**
+ * Standard success envelope
+ */
+const ok = <T>(data: T, message?: string) => ({ success: true, data, ...(message ? { message } : {}) });
+
+/**
+ * Require a field in the request body
+ */
+const required = (body: any, fields: string[]): void => {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    if (body?.[field] === undefined || body?.[field] === null || String(body[field]).trim() === '') {
+      errors[field] = 'Champ obligatoire';
+    }
+  });
+  if (Object.keys(errors).length) {
+    throw new MockHttpError(400, 'Données invalides', errors);
+  }
+};
+
+/**
+ * Require the Admin role
+ */
+const requireAdmin = (ctx: MockContext): void => {
+  if (ctx.user?.role !== 'Admin') {
+    throw new MockHttpError(403, 'Accès réservé aux administrateurs');
+  }
+};
+
+/**
+ * Record an audit log entry
+ */
+const audit = (ctx: MockContext, action: AuditLog['action'], resource: string, resourceId?: string, details?: string) => {
+  const db = getDb();
+  db.auditLogs.unshift({
+    id: nextId('log'),
+    userId: ctx.user?.id ?? 'anonymous',
+    username: ctx.user?.username ?? 'anonymous',
+    action,
+    resource,
+    resourceId,
+    details,
+    timestamp: new Date().toISOString(),
+  });
+  db.auditLogs = db.auditLogs.slice(0, 200);
+};
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+const base64Url = (value: string): string =>
+  btoa(unescape(encodeURIComponent(value))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Build a JWT-shaped (unsigned) token so that expiry handling can be exercised
+ */
+function createToken(user: MockUser, type: 'access' | 'refresh'): string {
+  const ttl = type === 'access' ? ACCESS_TOKEN_TTL : 7 * 24 * 60 * 60 * 1000;
+  const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64Url(
+    JSON.stringify({ sub: user.id, role: user.role, type, exp: Math.floor((Date.now() + ttl) / 1000), jti: nextId('tok') })
+  );
+  return `${header}.${payload}.mock`;
+}
+
+/**
+ * Decode a mock token and return its user if still valid
+ */
+function verifyToken(token: string | null | undefined, type: 'access' | 'refresh'): MockUser | null {
+  if (!token) return null;
+  try {
+    const payload = JSON.parse(decodeURIComponent(escape(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')))));
+    if (payload.type !== type || payload.exp * 1000 < Date.now()) return null;
+    return getDb().users.find(u => u.id === payload.sub) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+const issueTokens = (user: MockUser) => ({
+  accessToken: createToken(user, 'access'),
+  refreshToken: createToken(user, 'refresh'),
+});
+
+// ============================================================================
+// BADGE TOKENS
+// ============================================================================
+
+/**
+ * Format prefix of the badge QR payloads (bumped if the payload shape changes)
+ */
+const BADGE_TOKEN_PREFIX = 'SRB1';
+
+/**
+ * HMAC secret of the mock (the real backend keeps its own secret server-side)
+ */
+const BADGE_SECRET = 'mock-badge-secret';
+
+let badgeKey: Promise<CryptoKey> | null = null;
+
+const getBadgeKey = (): Promise<CryptoKey> =>
+  (badgeKey ??= crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(BADGE_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  ));
+
+const bytesToBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlToBytes = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+/**
+ * Sign the QR payload of a badge: SRB1.<payload>.<HMAC-SHA256>
+ */
+async function signBadge(badge: Omit<AgentBadge, 'token'>): Promise<string> {
+  const payload = base64Url(JSON.stringify({ m: badge.matricule, v: badge.version, i: badge.issuedAt }));
+  const signed = `${BADGE_TOKEN_PREFIX}.${payload}`;
+  const signature = await crypto.subtle.sign('HMAC', await getBadgeKey(), new TextEncoder().encode(signed));
+  return `${signed}.${bytesToBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check the signature of a QR payload and decode it (null if forged or malformed)
+ */
+async function readBadgeToken(token: string): Promise<{ m: string; v: number; i: string } | null> {
+  const [prefix, payload, signature, ...rest] = token.trim().split('.');
+  if (prefix !== BADGE_TOKEN_PREFIX || !payload || !signature || rest.length > 0) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getBadgeKey(),
+      base64UrlToBytes(signature),
+      new TextEncoder().encode(`${prefix}.${payload}`)
+    );
+    return valid ? JSON.parse(new TextDecoder().decode(base64UrlToBytes(payload))) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Current badge of an agent (version 1 is issued on first access)
+ */
+const getBadgeRecord = (matricule: string): Omit<AgentBadge, 'token'> =>
+  (getDb().badges[matricule] ??= { matricule, version: 1, issuedAt: new Date().toISOString(), status: 'Active' });
+
+const toAgentBadge = async (badge: Omit<AgentBadge, 'token'>): Promise<AgentBadge> => ({
+  ...badge,
+  token: badge.status === 'Active' ? await signBadge(badge) : null,
+});
+
+/**
+ * Return the holder of a scanned badge, or throw if the badge is forged, replaced or revoked
+ */
+async function checkBadge(token: string): Promise<Agent> {
+  const payload = await readBadgeToken(token);
+  const agent = payload && getDb().agents.find(a => a.matricule === payload.m);
+  if (!payload || !agent) throw new MockHttpError(400, 'Badge non reconnu');
+
+  const badge = getBadgeRecord(agent.matricule);
+  if (payload.v !== badge.version || payload.i !== badge.issuedAt) {
+    throw new MockHttpError(410, `Badge remplacé (version ${payload.v}, version en cours ${badge.version})`);
+  }
+  if (badge.status === 'Revoked') throw new MockHttpError(410, 'Badge révoqué');
+  return agent;
+}
+
+// ============================================================================
+// ATTENDANCE HELPERS
+// ============================================================================
+
+const findAgent = (matricule: string): Agent => {
+  const agent = getDb().agents.find(a => a.matricule === matricule);
+  if (!agent) throw new MockHttpError(404, `Agent ${matricule} introuvable`);
+  return agent;
+};
+
+/**
+ * Iterate over every date between two YYYY-MM-DD bounds (inclusive)
+ */
+const eachDate = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let d = parseIsoDate(from); toIsoDate(d) <= to; d = addDays(d, 1)) {
+    dates.push(toIsoDate(d));
+  }
+  return dates;
+};
+
+const activeAgents = () => getDb().agents.filter(a => a.status !== 'Inactive');
+
+/**
+ * System settings, with the defaults of the keys missing from older databases
+ */
+const getSettings = (): SystemSettings => ({ ...DEFAULT_SETTINGS, ...getDb().settings });
+
+/**
+ * Comparison key of an absence type code or label ('Congé', 'conge' and 'CONGE' match)
+ */
+const absenceTypeKey = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+/**
+ * Catalogue entry matching a code or a label, case and accents ignored
+ */
+const findAbsenceType = (value: unknown): AbsenceType | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const key = absenceTypeKey(value);
+  return getDb().absenceTypes.find(t => absenceTypeKey(t.code) === key || absenceTypeKey(t.label) === key);
+};
+
+/**
+ * Displayed label of an absence type code (the code itself if it left the catalogue)
+ */
+const absenceTypeLabel = (code?: string): string => getDb().absenceTypes.find(t => t.code === code)?.label ?? code ?? '';
+
+/**
+ * Resolve the type of an absence or a leave request to its catalogue code
+ * and check the justification the type requires (errors keyed by field)
+ */
+function resolveAbsenceType(body: { type?: unknown; reason?: unknown }, errors: Record<string, string>): string {
+  const type = findAbsenceType(body.type);
+  if (!type) {
+    errors.type = "Type d'absence inconnu";
+    return '';
+  }
+  if (type.requiresJustification && !String(body.reason ?? '').trim()) {
+    errors.reason = `Justification obligatoire pour le type « ${type.label} »`;
+  }
+  return type.code;
+}
+
+/**
+ * True if the agent counts as present that day: punched in, or on an
+ * absence whose type counts as presence (mission, training...)
+ */
+const countsAsPresent = (punches: MockDayPunches): boolean =>
+  punches.status === 'Leave'
+    ? !!getDb().absenceTypes.find(t => t.code === punches.absenceType)?.countsAsPresence
+    : punches.status !== 'Absent';
+
+/**
+ * Summarize a working day across all active agents
+ */
+function summarizeDay(date: string) {
+  const db = getDb();
+  const rows = activeAgents()
+    .map(agent => ({ agent, punches: computeDayPunches(db, agent, date) }))
+    .filter((row): row is { agent: Agent; punches: MockDayPunches } => row.punches !== null);
+
+  const count = (status: MockDayPunches['status']) => rows.filter(r => r.punches.status === status).length;
+  const present = rows.filter(r => countsAsPresent(r.punches)).length;
+  return {
+    rows,
+    present,
+    late: count('Late'),
+    absent: count('Absent'),
+    leave: rows.length - present - count('Absent'),
+  };
+}
+
+/**
+ * Convert punches to the agent attendance history shape
+ */
+const toAgentAttendance = (p: MockDayPunches): AgentAttendance => ({
+  attendanceId: `att-${p.matricule}-${p.date}`,
+  matricule: p.matricule,
+  date: p.date,
+  checkIn: p.checkInAM,
+  checkOut: p.checkOutPM ?? p.checkOutAM,
+  status: p.status,
+  workHours: Math.round((p.workMinutes / 60) * 100) / 100,
+  notes: p.absenceType && absenceTypeLabel(p.absenceType),
+});
+
+/**
+ * Punches of an agent for a date, or an empty day when none are generated
+ * (weekend, holiday, future date) so that punches can still be recorded
+ */
+const getDayPunches = (db: MockDatabase, agent: Agent, date: string, now?: Date): MockDayPunches =>
+  computeDayPunches(db, agent, date, now) ?? {
+    matricule: agent.matricule,
+    date,
+    status: 'Present',
+    workMinutes: 0,
+    lateMinutes: 0,
+    exits: [],
+    ...db.punches[`${agent.matricule}|${date}`],
+  };
+
+/**
+ * Recompute the status and totals of a day from its recorded punches
+ */
+function recomputeDay(day: MockDayPunches, schedule: WorkSchedule): void {
+  const tolerance = parseInt(schedule.tolerance, 10) || 0;
+  const span = (from?: string, to?: string) => (from && to ? Math.max(0, toMinutes(to) - toMinutes(from)) : 0);
+
+  day.lateMinutes = day.checkInAM ? Math.max(0, toMinutes(day.checkInAM) - toMinutes(schedule.morningStart) - tolerance) : 0;
+  day.status = !day.checkInAM && !day.checkInPM ? 'Absent' : day.lateMinutes > 0 ? 'Late' : 'Present';
+  day.absenceType = undefined;
+  day.workMinutes = Math.max(
+    0,
+    span(day.checkInAM, day.checkOutAM) + span(day.checkInPM, day.checkOutPM) -
+      day.exits.reduce((sum, e) => sum + (e.duration ?? 0), 0)
+  );
+}
+
+// ============================================================================
+// ROUTES - AUTH
+// ============================================================================
+
+const E = API_CONFIG.ENDPOINTS;
+
+/**
+ * Only routes reachable by kiosk sessions (see the check in mockFetch)
+ */
+const KIOSK_ROUTES = new Set([
+  `GET ${E.ACTIVE_SCHEDULE}`,
+  `GET ${E.AGENT_DAILY_ATTENDANCE(':matricule', ':date')}`,
+  `GET ${E.AGENT_TEMPORARY_EXITS(':matricule', ':date')}`,
+  `POST ${E.BADGE_VERIFY}`,
+  `POST ${E.ATTENDANCE_PUNCH}`,
+  `POST ${E.LOGOUT}`,
+]);
+
+/**
+ * Only routes reachable by Agent sessions: the self-service portal, own
+ * notifications, the absence types, entitlements and holidays needed for
+ * the own absences and leave balance, logout and the own password change (checked in mockFetch)
+ */
+const AGENT_ROUTES = new Set([
+  `GET ${E.ME_AGENT}`,
+  `GET ${E.ME_ATTENDANCE}`,
+  `GET ${E.ME_DAILY_ATTENDANCE(':date')}`,
+  `GET ${E.ME_TEMPORARY_EXITS(':date')}`,
+  `GET ${E.ME_ABSENCES}`,
+  `GET ${E.ME_BADGE}`,
+  `GET ${E.ME_STATEMENT}`,
+  `GET ${E.ME_LEAVE_REQUESTS}`,
+  `GET ${E.ABSENCE_TYPES}`,
+  `GET ${E.ABSENCE_ENTITLEMENTS}`,
+  `GET ${E.HOLIDAYS}`,
+  `POST ${E.ME_LEAVE_REQUESTS}`,
+  `POST ${E.ME_LEAVE_REQUEST_CANCEL(':id')}`,
+  `GET ${E.NOTIFICATIONS}`,
+  `POST ${E.NOTIFICATION_READ(':id')}`,
+  `POST ${E.NOTIFICATIONS_READ_ALL}`,
+  `POST ${E.USER_PASSWORD_UPDATE(':id')}`,
+  `POST ${E.LOGOUT}`,
+]);
+
+route('POST', E.LOGIN, ({ body }) => {
+  const db = getDb();
+  const user = db.users.find(u => u.username === body?.username || u.email === body?.username);
+  if (!user || user.password !== body?.password) {
+    throw new MockHttpError(401, "Nom d'utilisateur ou mot de passe incorrect");
+  }
+  return ok({
+    user: { id: user.id, nom_utilisateur: user.username, email: user.email, role: user.role, matricule: user.matricule },
+    ...issueTokens(user),
+  });
+}, true);
+
+route('POST', E.REFRESH, ({ body }) => {
+  const user = verifyToken(body?.refresh_token, 'refresh');
+  if (!user) throw new MockHttpError(401, 'Refresh token invalide ou expiré');
+  return ok(issueTokens(user));
+}, true);
+
+route('POST', E.LOGOUT, () => ok(null, 'Déconnecté'));
+
+// ============================================================================
+// ROUTES - AGENTS
+// ============================================================================
+
+route('GET', E.AGENTS, ({ query }) => {
+  const search = (query.get('search') || '').toLowerCase();
+  const department = query.get('department');
+  const status = query.get('status');
+  const page = Math.max(1, parseInt(query.get('page') || '1', 10));
+  const pageSize = Math.max(1, parseInt(query.get('pageSize') || '100', 10));
+  const sortBy = query.get('sortBy') as keyof Agent | null;
+  const direction = query.get('sortOrder') === 'desc' ? -1 : 1;
+
+  const filtered = getDb().agents.filter(agent =>
+    (!search || agent.nom.toLowerCase().includes(search) || agent.matricule.toLowerCase().includes(search)) &&
+    (!department || department === 'all' || agent.division === department) &&
+    (!status || status === 'all' || agent.status === status)
+  );
+  if (sortBy && ['matricule', 'nom', 'division', 'poste', 'status'].includes(sortBy)) {
+    filtered.sort((a, b) => direction * String(a[sortBy] ?? '').localeCompare(String(b[sortBy] ?? ''), 'fr', { numeric: true }));
+  }
+
+  return {
+    ...ok(filtered.slice((page - 1) * pageSize, page * pageSize)),
+    pagination: { total: filtered.length, page, pageSize, totalPages: Math.max(1, Math.ceil(filtered.length / pageSize)) },
+  };
+});
+
+route('GET', E.DIVISION, () => ok(Array.from(new Set(getDb().agents.map(a => a.division))).sort()));
+
+route('POST', E.AGENTS, ctx => {
+  requireAdmin(ctx);
+  required(ctx.body, ['matricule', 'nom', 'division', 'poste']);
+  const db = getDb();
+  if (db.agents.some(a => a.matricule === ctx.body.matricule)) {
+    throw new MockHttpError(409, 'Un agent avec ce matricule existe déjà', { matricule: 'Matricule déjà utilisé' });
+  }
+  const agent: Agent = {
+    matricule: ctx.body.matricule,
+    nom: ctx.body.nom,
+    division: ctx.body.division,
+    poste: ctx.body.poste,
+    status: ctx.body.status ?? 'Active',
+  };
+  db.agents.push(agent);
+  audit(ctx, 'Create', 'Agent', agent.matricule);
+  return ok(agent, 'Agent créé');
+});
+
+route('GET', E.AGENT_BY_ID(':matricule'), ({ params }) => {
+  const agent = findAgent(params.matricule);
+  const today = new Date();
+  const records = eachDate(toIsoDate(addDays(today, -30)), toIsoDate(today))
+    .map(date => computeDayPunches(getDb(), agent, date))
+    .filter((p): p is MockDayPunches => p !== null);
+  const worked = records.filter(countsAsPresent);
+  const details: AgentDetails = {
+    ...agent,
+    recentAttendance: records.map(toAgentAttendance),
+    totalWorkHours: Math.round(worked.reduce((sum, r) => sum + r.workMinutes, 0) / 60),
+    attendanceRate: records.length ? Math.round((worked.length / records.length) * 1000) / 10 : 0,
+    lateCount: records.filter(r => r.status === 'Late').length,
+  };
+  return ok(details);
+});
+
+route('PUT', E.AGENT_BY_ID(':matricule'), ctx => {
+  requireAdmin(ctx);
+  const agent = findAgent(ctx.params.matricule);
+  const { matricule: _ignored, ...updates } = ctx.body ?? {};
+  Object.assign(agent, updates);
+  audit(ctx, 'Update', 'Agent', agent.matricule);
+  return ok(agent, 'Agent mis à jour');
+});
+
+route('DELETE', E.AGENT_BY_ID(':matricule'), ctx => {
+  requireAdmin(ctx);
+  findAgent(ctx.params.matricule);
+  const db = getDb();
+  db.agents = db.agents.filter(a => a.matricule !== ctx.params.matricule);
+  db.absences = db.absences.filter(a => a.matricule !== ctx.params.matricule);
+  delete db.badges[ctx.params.matricule];
+  audit(ctx, 'Delete', 'Agent', ctx.params.matricule);
+  return ok(null, 'Agent supprimé');
+});
+
+/**
+ * Attendance history of an agent (query: from, to; default: last 30 days)
+ */
+function agentHistory(agent: Agent, query: URLSearchParams): AgentAttendance[] {
+  const to = query.get('to') || toIsoDate(new Date());
+  const from = query.get('from') || toIsoDate(addDays(parseIsoDate(to), -30));
+  return eachDate(from, to)
+    .map(date => computeDayPunches(getDb(), agent, date))
+    .filter((p): p is MockDayPunches => p !== null)
+    .map(toAgentAttendance);
+}
+
+/**
+ * Punches of an agent for a day, with the schedule they are checked against
+ */
+function agentDailyAttendance(agent: Agent, date: string): DailyAttendanceDetails {
+  const db = getDb();
+  const punches = computeDayPunches(db, agent, date);
+  if (!punches) throw new MockHttpError(404, 'Aucun pointage pour cette date');
+
+  const schedule = db.schedules.find(s => s.isActive) ?? db.schedules[0];
+  return {
+    attendanceId: `att-${agent.matricule}-${date}`,
+    matricule: agent.matricule,
+    date,
+    morningCheckIn: punches.checkInAM,
+    morningCheckOut: punches.checkOutAM,
+    afternoonCheckIn: punches.checkInPM,
+    afternoonCheckOut: punches.checkOutPM,
+    status: punches.status,
+    workHours: formatDuration(punches.workMinutes),
+    entree_matin: schedule.morningStart,
+    sortie_matin: schedule.morningEnd,
+    entree_aprem: schedule.afternoonStart,
+    sortie_aprem: schedule.afternoonEnd,
+    tolerance: schedule.tolerance,
+    conge: punches.status === 'Leave',
+    type_abs: punches.absenceType,
+    correction: punches.correction,
+  };
+}
+
+/**
+ * Long absences of an agent, with their status and duration
+ */
+function agentAbsences(agent: Agent) {
+  const today = toIsoDate(new Date());
+  return getDb()
+    .absences.filter(a => a.matricule === agent.matricule)
+    .map(a => ({
+      ...a,
+      status: a.endDate < today ? 'Passed' : 'Active',
+      duration: eachDate(a.startDate, a.endDate).length,
+    }));
+}
+
+route('GET', E.AGENT_ATTENDANCE(':matricule'), ({ params, query }) => ok(agentHistory(findAgent(params.matricule), query)));
+
+route('GET', E.AGENT_DAILY_ATTENDANCE(':matricule', ':date'), ({ params }) =>
+  ok(agentDailyAttendance(findAgent(params.matricule), params.date))
+);
+
+route('GET', E.AGENT_TEMPORARY_EXITS(':matricule', ':date'), ({ params }) => {
+  const punches = computeDayPunches(getDb(), findAgent(params.matricule), params.date);
+  return ok(punches?.exits ?? []);
+});
+
+route('GET', E.AGENT_ABSENCES(':matricule'), ({ params }) => ok(agentAbsences(findAgent(params.matricule))));
+
+route('POST', E.AGENT_ABSENCES(':matricule'), ctx => {
+  findAgent(ctx.params.matricule);
+  required(ctx.body, ['startDate', 'endDate', 'type']);
+  const errors: Record<string, string> = {};
+  const type = resolveAbsenceType(ctx.body, errors);
+  if (ctx.body.startDate > ctx.body.endDate) errors.endDate = 'La date de fin doit suivre la date de début';
+  if (Object.keys(errors).length) throw new MockHttpError(400, 'Absence invalide', errors);
+  const absence = {
+    id: nextId('abs'),
+    matricule: ctx.params.matricule,
+    startDate: ctx.body.startDate,
+    endDate: ctx.body.endDate,
+    type,
+    reason: ctx.body.reason ?? '',
+    createdAt: new Date().toISOString(),
+  };
+  getDb().absences.push(absence);
+  audit(ctx, 'Create', 'LongAbsence', absence.id);
+  return ok({ ...absence, duration: eachDate(absence.startDate, absence.endDate).length });
+});
+
+route('PUT', E.AGENT_ABSENCE_BY_ID(':matricule', ':id'), ctx => {
+  const absence = getDb().absences.find(a => a.id === ctx.params.id && a.matricule === ctx.params.matricule);
+  if (!absence) throw new MockHttpError(404, 'Absence introuvable');
+  const { id: _id, matricule: _m, ...updates } = ctx.body ?? {};
+  const merged = { ...absence, ...updates };
+  const errors: Record<string, string> = {};
+  merged.type = resolveAbsenceType(merged, errors);
+  if (merged.startDate > merged.endDate) errors.endDate = 'La date de fin doit suivre la date de début';
+  if (Object.keys(errors).length) throw new MockHttpError(400, 'Absence invalide', errors);
+  Object.assign(absence, merged);
+  audit(ctx, 'Update', 'LongAbsence', absence.id);
+  return ok({ ...absence, duration: eachDate(absence.startDate, absence.endDate).length });
+});
+
+route('DELETE', E.AGENT_ABSENCE_BY_ID(':matricule', ':id'), ctx => {
+  const db = getDb();
+  if (!db.absences.some(a => a.id === ctx.params.id)) throw new MockHttpError(404, 'Absence introuvable');
+  db.absences = db.absences.filter(a => a.id !== ctx.params.id);
+  audit(ctx, 'Delete', 'LongAbsence', ctx.params.id);
+  return ok(null, 'Absence supprimée');
+});
+
+// ============================================================================
+// ROUTES - BADGES
+// ============================================================================
+
+route('GET', E.AGENT_BADGE(':matricule'), async ({ params }) => {
+  findAgent(params.matricule);
+  return ok(await toAgentBadge(getBadgeRecord(params.matricule)));
+});
+
+route('POST', E.AGENT_BADGE_REISSUE(':matricule'), async ctx => {
+  requireAdmin(ctx);
+  required(ctx.body, ['reason']);
+  findAgent(ctx.params.matricule);
+  const previous = getBadgeRecord(ctx.params.matricule);
+  const badge = {
+    matricule: previous.matricule,
+    version: previous.version + 1,
+    issuedAt: new Date().toISOString(),
+    status: 'Active' as const,
+    reason: ctx.body.reason,
+  };
+  getDb().badges[badge.matricule] = badge;
+  audit(ctx, 'Update', 'Badge', badge.matricule, `Version ${badge.version} : ${badge.reason}`);
+  return ok(await toAgentBadge(badge), `Badge version ${badge.version} émis`);
+});
+
+route('POST', E.AGENT_BADGE_REVOKE(':matricule'), async ctx => {
+  requireAdmin(ctx);
+  required(ctx.body, ['reason']);
+  findAgent(ctx.params.matricule);
+  const badge = getBadgeRecord(ctx.params.matricule);
+  if (badge.status === 'Revoked') throw new MockHttpError(409, 'Ce badge est déjà révoqué');
+  Object.assign(badge, { status: 'Revoked', revokedAt: new Date().toISOString(), reason: ctx.body.reason });
+  audit(ctx, 'Update', 'Badge', badge.matricule, `Révocation version ${badge.version} : ${badge.reason}`);
+  return ok(await toAgentBadge(badge), 'Badge révoqué');
+});
+
+route('POST', E.BADGES_BATCH, async ({ body }) => {
+  const matricules: string[] = Array.isArray(body?.matricules) ? body.matricules : [];
+  const known = new Set(getDb().agents.map(a => a.matricule));
+  return ok(await Promise.all(matricules.filter(m => known.has(m)).map(m => toAgentBadge(getBadgeRecord(m)))));
+});
+
+route('POST', E.BADGE_VERIFY, async ctx => {
+  required(ctx.body, ['token']);
+  const agent = await checkBadge(String(ctx.body.token));
+  return ok({ agent, badge: await toAgentBadge(getBadgeRecord(agent.matricule)) });
+});
+
+// ============================================================================
+// ROUTES - SELF-SERVICE (AGENT PORTAL)
+// ============================================================================
+
+/**
+ * Agent linked to the logged-in account (the only data the portal may return)
+ */
+const requireLinkedAgent = (ctx: MockContext): Agent => {
+  const agent = ctx.user?.matricule && getDb().agents.find(a => a.matricule === ctx.user?.matricule);
+  if (!agent) throw new MockHttpError(403, 'Aucun agent associé à ce compte');
+  return agent;
+};
+
+const STATEMENT_STATUS: Record<MockDayPunches['status'], string> = {
+  Present: 'Présent',
+  Late: 'En retard',
+  Absent: 'Absent',
+  Leave: 'Congé',
+  'Half-day': 'Demi-journée',
+};
+
+/**
+ * Monthly attendance statement of an agent (PDF)
+ */
+async function buildStatementFile(agent: Agent, year: number, month: number): Promise<MockFile> {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const db = getDb();
+  const from = toIsoDate(new Date(year, month - 1, 1));
+  const to = toIsoDate(new Date(year, month, 0));
+  const days = eachDate(from, to)
+    .map(date => computeDayPunches(db, agent, date))
+    .filter((p): p is MockDayPunches => p !== null);
+  const worked = days.filter(countsAsPresent);
+  const monthLabel = new Date(year, month - 1, 1).toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' });
+
+  const doc = new jsPDF();
+  doc.setFontSize(16);
+  doc.text(`Relevé de présence — ${monthLabel}`, 14, 18);
+  doc.setFontSize(10);
+  doc.text(`${agent.nom} (${agent.matricule}) — ${agent.division}${agent.poste ? `, ${agent.poste}` : ''}`, 14, 26);
+  doc.text(
+    `Heures travaillées : ${formatDuration(worked.reduce((sum, d) => sum + d.workMinutes, 0))}   ` +
+      `Retards : ${days.filter(d => d.status === 'Late').length}   ` +
+      `Absences : ${days.filter(d => d.status === 'Absent').length}   ` +
+      `Taux de présence : ${days.length ? Math.round((worked.length / days.length) * 1000) / 10 : 0} %`,
+    14,
+    32
+  );
+
+  const corrected = (day: MockDayPunches, value: string | undefined, original: string | undefined) =>
+    `${value ?? '-'}${day.correction && value !== original ? ' *' : ''}`;
+  autoTable(doc, {
+    startY: 38,
+    head: [['Date', 'Statut', 'Arrivée AM', 'Sortie AM', 'Arrivée PM', 'Sortie PM', 'Sorties', 'Travaillé']],
+    body: days.map(day => [
+      parseIsoDate(day.date).toLocaleDateString('fr-FR', { weekday: 'short', day: '2-digit', month: '2-digit' }),
+      day.absenceType ? absenceTypeLabel(day.absenceType) : STATEMENT_STATUS[day.status],
+      corrected(day, day.checkInAM, day.correction?.original.morningCheckIn),
+      corrected(day, day.checkOutAM, day.correction?.original.morningCheckOut),
+      corrected(day, day.checkInPM, day.correction?.original.afternoonCheckIn),
+      corrected(day, day.checkOutPM, day.correction?.original.afternoonCheckOut),
+      String(day.exits.length),
+      formatDuration(day.workMinutes),
+    ]),
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [41, 128, 185], textColor: 255, fontStyle: 'bold' },
+    alternateRowStyles: { fillColor: [235, 243, 255] },
+    margin: { left: 14, right: 14 },
+  });
+
+  if (days.some(day => day.correction)) {
+    doc.setFontSize(8);
+    doc.text(
+      "* Valeur corrigée manuellement ; le pointage d'origine du badge est conservé dans l'historique.",
+      14,
+      (doc as any).lastAutoTable.finalY + 6
+    );
+  }
+
+  return {
+    blob: doc.output('blob'),
+    filename: `releve_${agent.matricule}_${year}_${String(month).padStart(2, '0')}.pdf`,
+  };
+}
+
+route('GET', E.ME_AGENT, ctx => ok(requireLinkedAgent(ctx)));
+
+route('GET', E.ME_ATTENDANCE, ctx => ok(agentHistory(requireLinkedAgent(ctx), ctx.query)));
+
+route('GET', E.ME_DAILY_ATTENDANCE(':date'), ctx => ok(agentDailyAttendance(requireLinkedAgent(ctx), ctx.params.date)));
+
+route('GET', E.ME_TEMPORARY_EXITS(':date'), ctx => {
+  const punches = computeDayPunches(getDb(), requireLinkedAgent(ctx), ctx.params.date);
+  return ok(punches?.exits ?? []);
+});
+
+route('GET', E.ME_ABSENCES, ctx => ok(agentAbsences(requireLinkedAgent(ctx))));
+
+route('GET', E.ME_BADGE, async ctx => ok(await toAgentBadge(getBadgeRecord(requireLinkedAgent(ctx).matricule))));
+
+route('GET', E.ME_STATEMENT, ctx => {
+  const agent = requireLinkedAgent(ctx);
+  const year = Number(ctx.query.get('year')) || new Date().getFullYear();
+  const month = Number(ctx.query.get('month')) || new Date().getMonth() + 1;
+  if (month < 1 || month > 12) throw new MockHttpError(400, 'Mois invalide', { month: 'Entre 1 et 12' });
+  if (toIsoDate(new Date(year, month - 1, 1)) > toIsoDate(new Date())) {
+    throw new MockHttpError(400, 'Aucun relevé pour un mois à venir');
+  }
+  return buildStatementFile(agent, year, month);
+});
+
+// ============================================================================
+// ROUTES - ATTENDANCE
+// ============================================================================
+
+route('GET', E.ATTENDANCE, ({ query }) => {
+  const date = query.get('date') || toIsoDate(new Date());
+  const { rows, present, late, absent } = summarizeDay(date);
+  const expected = rows.filter(r => r.punches.status !== 'Leave' || countsAsPresent(r.punches)).length;
+
+  const schedule = getDb().schedules.find(s => s.isActive) ?? getDb().schedules[0];
+  const scheduledMinutes =
+    toMinutes(schedule.morningEnd) - toMinutes(schedule.morningStart) +
+    toMinutes(schedule.afternoonEnd) - toMinutes(schedule.afternoonStart);
+
+  const pointageRecords: PointageRecord[] = rows.map(({ agent, punches }) => {
+    const expectedMinutes = punches.status === 'Leave' ? 0 : scheduledMinutes;
+    const missed = Math.max(0, expectedMinutes - punches.workMinutes);
+    return {
+      id: `att-${agent.matricule}-${date}`,
+      agentId: agent.matricule,
+      agentName: agent.nom,
+      division: agent.division,
+      checkInAM: punches.checkInAM ?? '',
+      checkOutAM: punches.checkOutAM ?? '',
+      checkInPM: punches.checkInPM ?? '',
+      checkOutPM: punches.checkOutPM ?? '',
+      status:
+        !countsAsPresent(punches)
+          ? 'absent'
+          : punches.status === 'Late'
+            ? 'late'
+            : punches.status === 'Half-day'
+              ? 'early-departure'
+              : 'present',
+      totalMissedTime: formatDuration(missed),
+      temporaryExits: punches.exits.map(e => ({
+        id: e.id,
+        exitTime: e.exitTime,
+        returnTime: e.returnTime ?? '',
+        description: e.description,
+      })),
+      correctedFields: getCorrectedFields(punches),
+      absenceType: punches.absenceType,
+    };
+  });
+
+  const stats: DayStatistics = {
+    date,
+    totalAgents: expected,
+    present,
+    absent,
+    late,
+    attendanceRate: expected ? Math.round((present / expected) * 100) : 0,
+    punctualityRate: present ? Math.round(((present - late) / present) * 100) : 0,
+    pointageRecords,
+  };
+  return ok(stats);
+});
+
+/**
+ * Messages of the punches recorded at the kiosk
+ */
+const PUNCH_MESSAGES: Record<PunchType, string> = {
+  MorningIn: 'Arrivée du matin enregistrée',
+  MorningOut: 'Sortie du matin enregistrée',
+  AfternoonIn: 'Arrivée de l\'après-midi enregistrée',
+  AfternoonOut: 'Sortie de l\'après-midi enregistrée',
+  TemporaryExit: 'Sortie temporaire enregistrée',
+  TemporaryReturn: 'Retour de sortie temporaire enregistré',
+};
+
+route('POST', E.ATTENDANCE_PUNCH, async ctx => {
+  required(ctx.body, ['token', 'type', 'timestamp']);
+  const type = ctx.body.type as PunchType;
+  if (!PUNCH_MESSAGES[type]) throw new MockHttpError(400, 'Type de pointage inconnu');
+  const at = new Date(ctx.body.timestamp);
+  if (Number.isNaN(at.getTime())) throw new MockHttpError(400, 'Horodatage invalide');
+
+  const agent = await checkBadge(String(ctx.body.token));
+  if (agent.status === 'Inactive') throw new MockHttpError(409, `${agent.nom} est inactif`);
+
+  const db = getDb();
+  const date = toIsoDate(at);
+  const minutes = at.getHours() * 60 + at.getMinutes();
+  const time = fromMinutes(minutes);
+  const day = getDayPunches(db, agent, date, at);
+  const exits = [...day.exits];
+  const openExit = exits.find(e => !e.returnTime);
+  const schedule = db.schedules.find(s => s.isActive) ?? db.schedules[0];
+  const tolerance = parseInt(schedule.tolerance, 10) || 0;
+  const conflict = (message: string) => new MockHttpError(409, message);
+
+  let punctuality: AttendancePunch['punctuality'] = 'OnTime';
+  let delta = 0;
+  switch (type) {
+    case 'MorningIn':
+      if (day.checkInAM) throw conflict(`Arrivée du matin déjà enregistrée à ${day.checkInAM}`);
+      day.checkInAM = time;
+      delta = Math.max(0, minutes - toMinutes(schedule.morningStart) - tolerance);
+      if (delta > 0) punctuality = 'Late';
+      break;
+    case 'MorningOut':
+      if (!day.checkInAM) throw conflict('Aucune arrivée enregistrée ce matin');
+      if (day.checkOutAM) throw conflict(`Sortie du matin déjà enregistrée à ${day.checkOutAM}`);
+      day.checkOutAM = time;
+      delta = Math.max(0, toMinutes(schedule.morningEnd) - minutes);
+      if (delta > 0) punctuality = 'Early';
+      break;
+    case 'AfternoonIn':
+      if (day.checkInPM) throw conflict(`Arrivée de l'après-midi déjà enregistrée à ${day.checkInPM}`);
+      day.checkInPM = time;
+      delta = Math.max(0, minutes - toMinutes(schedule.afternoonStart) - tolerance);
+      if (delta > 0) punctuality = 'Late';
+      break;
+    case 'AfternoonOut':
+      if (!day.checkInPM) throw conflict('Aucune arrivée enregistrée cet après-midi');
+      if (day.checkOutPM) throw conflict(`Sortie de l'après-midi déjà enregistrée à ${day.checkOutPM}`);
+      day.checkOutPM = time;
+      delta = Math.max(0, toMinutes(schedule.afternoonEnd) - minutes);
+      if (delta > 0) punctuality = 'Early';
+      break;
+    case 'TemporaryExit':
+      if (openExit) throw conflict(`Sortie temporaire déjà en cours depuis ${openExit.exitTime}`);
+      exits.push({
+        id: nextId('exit'),
+        attendanceId: `att-${agent.matricule}-${date}`,
+        matricule: agent.matricule,
+        date,
+        exitTime: time,
+        description: 'Sortie temporaire (borne)',
+      });
+      break;
+    case 'TemporaryReturn': {
+      if (!openExit) throw conflict('Aucune sortie temporaire en cours');
+      const duration = Math.max(0, minutes - toMinutes(openExit.exitTime));
+      exits[exits.indexOf(openExit)] = { ...openExit, returnTime: time, duration };
+      break;
+    }
+  }
+
+  day.exits = exits;
+  recomputeDay(day, schedule);
+  db.punches[`${agent.matricule}|${date}`] = day;
+
+  const punch: AttendancePunch = {
+    id: nextId('punch'),
+    matricule: agent.matricule,
+    agentName: agent.nom,
+    date,
+    time,
+    type,
+    punctuality,
+    minutes: delta,
+  };
+  audit(ctx, 'Create', 'Punch', agent.matricule, `${type} ${date} ${time}`);
+  return ok(punch, PUNCH_MESSAGES[type]);
+});
+
+// ============================================================================
+// ROUTES - ATTENDANCE CORRECTIONS
+// ============================================================================
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Accepted supporting documents (2 MB maximum)
+ */
+const ATTACHMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+const ATTACHMENT_MAX_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Punches of a day in the correction shape
+ */
+const toCorrectionPunches = (day: MockDayPunches): CorrectionPunches => ({
+  morningCheckIn: day.checkInAM,
+  morningCheckOut: day.checkOutAM,
+  afternoonCheckIn: day.checkInPM,
+  afternoonCheckOut: day.checkOutPM,
+  temporaryExits: day.exits.map(({ exitTime, returnTime, description }) => ({ exitTime, returnTime, description })),
+});
+
+/**
+ * Correction without its attachment content
+ */
+const toCorrection = ({ attachmentContent: _content, ...correction }: MockCorrection): AttendanceCorrection => correction;
+
+/**
+ * Values of a day that differ from the badge punches
+ */
+function getCorrectedFields(day: MockDayPunches): PointageRecord['correctedFields'] {
+  if (!day.correction) return undefined;
+  const { original } = day.correction;
+  const current = toCorrectionPunches(day);
+  const fields: NonNullable<PointageRecord['correctedFields']> = [];
+  if (original.morningCheckIn !== current.morningCheckIn) fields.push('checkInAM');
+  if (original.morningCheckOut !== current.morningCheckOut) fields.push('checkOutAM');
+  if (original.afternoonCheckIn !== current.afternoonCheckIn) fields.push('checkInPM');
+  if (original.afternoonCheckOut !== current.afternoonCheckOut) fields.push('checkOutPM');
+  if (JSON.stringify(original.temporaryExits) !== JSON.stringify(current.temporaryExits)) fields.push('temporaryExits');
+  return fields;
+}
+
+/**
+ * Validate the corrected punches (format and chronological order)
+ */
+function validateCorrectionPunches(punches: CorrectionPunches | undefined): CorrectionPunches {
+  if (!punches || !Array.isArray(punches.temporaryExits)) {
+    throw new MockHttpError(400, 'Données invalides', { punches: 'Champ obligatoire' });
+  }
+
+  const errors: Record<string, string> = {};
+  const sequence: Array<[keyof CorrectionPunches, string | undefined]> = [
+    ['morningCheckIn', punches.morningCheckIn || undefined],
+    ['morningCheckOut', punches.morningCheckOut || undefined],
+    ['afternoonCheckIn', punches.afternoonCheckIn || undefined],
+    ['afternoonCheckOut', punches.afternoonCheckOut || undefined],
+  ];
+  sequence.forEach(([field, value]) => {
+    if (value && !TIME_PATTERN.test(value)) errors[field] = 'Heure invalide (HH:mm)';
+  });
+  if (punches.morningCheckOut && !punches.morningCheckIn) errors.morningCheckIn = 'Sortie sans arrivée';
+  if (punches.afternoonCheckOut && !punches.afternoonCheckIn) errors.afternoonCheckIn = 'Sortie sans arrivée';
+
+  const recorded = sequence.filter(([, value]) => value && TIME_PATTERN.test(value));
+  recorded.forEach(([field, value], index) => {
+    if (index > 0 && toMinutes(value!) <= toMinutes(recorded[index - 1][1]!)) {
+      errors[field] = `Doit suivre ${recorded[index - 1][1]}`;
+    }
+  });
+
+  punches.temporaryExits.forEach((exit, index) => {
+    const field = `temporaryExits.${index}`;
+    if (!TIME_PATTERN.test(exit?.exitTime ?? '')) errors[field] = 'Heure de sortie invalide (HH:mm)';
+    else if (exit.returnTime && !TIME_PATTERN.test(exit.returnTime)) errors[field] = 'Heure de retour invalide (HH:mm)';
+    else if (exit.returnTime && toMinutes(exit.returnTime) <= toMinutes(exit.exitTime)) errors[field] = 'Le retour doit suivre la sortie';
+    else if (!exit.description?.trim()) errors[field] = 'Motif de la sortie obligatoire';
+  });
+  if (punches.temporaryExits.filter(e => !e?.returnTime).length > 1) {
+    errors.temporaryExits = 'Une seule sortie temporaire peut rester sans retour';
+  }
+
+  if (Object.keys(errors).length) throw new MockHttpError(400, 'Pointages invalides', errors);
+
+  return {
+    morningCheckIn: punches.morningCheckIn || undefined,
+    morningCheckOut: punches.morningCheckOut || undefined,
+    afternoonCheckIn: punches.afternoonCheckIn || undefined,
+    afternoonCheckOut: punches.afternoonCheckOut || undefined,
+    temporaryExits: punches.temporaryExits
+      .map(e => ({ exitTime: e.exitTime, returnTime: e.returnTime || undefined, description: e.description.trim() }))
+      .sort((a, b) => toMinutes(a.exitTime) - toMinutes(b.exitTime)),
+  };
+}
+
+/**
+ * Validate a supporting document
+ */
+function validateAttachment(attachment: CorrectionAttachment | undefined): void {
+  if (!attachment) return;
+  if (!ATTACHMENT_TYPES.includes(attachment.type)) {
+    throw new MockHttpError(400, 'Justificatif refusé', { attachment: 'Formats acceptés : PDF, JPEG, PNG' });
+  }
+  if (!attachment.content?.startsWith('data:') || attachment.size > ATTACHMENT_MAX_SIZE) {
+    throw new MockHttpError(400, 'Justificatif refusé', { attachment: 'Fichier illisible ou supérieur à 2 Mo' });
+  }
+}
+
+/**
+ * Apply a correction to its day, keeping the badge punches of the first correction
+ */
+function applyCorrection(correction: MockCorrection): void {
+  const db = getDb();
+  const agent = findAgent(correction.matricule);
+  const day = getDayPunches(db, agent, correction.date);
+  const original = day.correction?.original ?? toCorrectionPunches(day);
+  const { corrected } = correction;
+
+  day.checkInAM = corrected.morningCheckIn;
+  day.checkOutAM = corrected.morningCheckOut;
+  day.checkInPM = corrected.afternoonCheckIn;
+  day.checkOutPM = corrected.afternoonCheckOut;
+  day.exits = corrected.temporaryExits.map((exit, index) => ({
+    id: `exit-${agent.matricule}-${correction.date}-${index + 1}`,
+    attendanceId: `att-${agent.matricule}-${correction.date}`,
+    matricule: agent.matricule,
+    date: correction.date,
+    exitTime: exit.exitTime,
+    returnTime: exit.returnTime,
+    description: exit.description,
+    duration: exit.returnTime ? toMinutes(exit.returnTime) - toMinutes(exit.exitTime) : undefined,
+  }));
+  recomputeDay(day, db.schedules.find(s => s.isActive) ?? db.schedules[0]);
+  day.correction = {
+    correctionId: correction.id,
+    original,
+    reason: correction.reason,
+    correctedBy: correction.requestedBy,
+    correctedAt: new Date().toISOString(),
+    hasAttachment: !!correction.attachment,
+  };
+  db.punches[`${agent.matricule}|${correction.date}`] = day;
+}
+
+const findCorrection = (id: string): MockCorrection => {
+  const correction = getDb().corrections.find(c => c.id === id);
+  if (!correction) throw new MockHttpError(404, 'Correction introuvable');
+  return correction;
+};
+
+const requirePending = (correction: MockCorrection): void => {
+  if (correction.status !== 'Pending') {
+    throw new MockHttpError(409, correction.status === 'Approved' ? 'Correction déjà appliquée' : 'Correction déjà refusée');
+  }
+};
+
+route('GET', E.ATTENDANCE_CORRECTIONS, ({ query }) => {
+  const status = query.get('status');
+  const matricule = query.get('matricule');
+  const date = query.get('date');
+  return ok(
+    getDb()
+      .corrections.filter(
+        c => (!status || c.status === status) && (!matricule || c.matricule === matricule) && (!date || c.date === date)
+      )
+      .map(toCorrection)
+  );
+});
+
+route('POST', E.ATTENDANCE_CORRECTIONS, ctx => {
+  required(ctx.body, ['matricule', 'date', 'reason']);
+  const { matricule, date } = ctx.body;
+  const agent = findAgent(matricule);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || date > toIsoDate(new Date())) {
+    throw new MockHttpError(400, 'Date invalide', { date: 'La date ne peut pas être dans le futur' });
+  }
+  const reason = String(ctx.body.reason).trim();
+  if (reason.length < 5) {
+    throw new MockHttpError(400, 'Justification insuffisante', { reason: '5 caractères minimum' });
+  }
+  const corrected = validateCorrectionPunches(ctx.body.punches);
+  const attachment: CorrectionAttachment | undefined = ctx.body.attachment ?? undefined;
+  validateAttachment(attachment);
+
+  const db = getDb();
+  const pending = db.corrections.find(c => c.matricule === matricule && c.date === date && c.status === 'Pending');
+  if (pending) {
+    throw new MockHttpError(409, `Une correction proposée par ${pending.requestedBy} est déjà en attente pour ce jour`);
+  }
+
+  const day = computeDayPunches(db, agent, date);
+  if (!day) throw new MockHttpError(400, 'Jour non travaillé', { date: 'Week-end, jour férié ou agent inactif' });
+  const original = toCorrectionPunches(day);
+  if (JSON.stringify(original) === JSON.stringify(corrected)) {
+    throw new MockHttpError(400, 'Aucune modification par rapport aux pointages actuels');
+  }
+
+  const isAdmin = ctx.user?.role === 'Admin';
+  const now = new Date().toISOString();
+  const correction: MockCorrection = {
+    id: nextId('cor'),
+    matricule,
+    agentName: agent.nom,
+    date,
+    status: isAdmin ? 'Approved' : 'Pending',
+    original,
+    corrected,
+    reason,
+    attachment: attachment && { name: attachment.name, type: attachment.type, size: attachment.size },
+    attachmentContent: attachment?.content,
+    requestedBy: ctx.user?.username ?? 'anonymous',
+    requestedAt: now,
+    ...(isAdmin ? { reviewedBy: ctx.user?.username, reviewedAt: now } : {}),
+  };
+  if (isAdmin) applyCorrection(correction);
+  db.corrections.unshift(correction);
+
+  audit(ctx, 'Create', 'AttendanceCorrection', correction.id, `${matricule} ${date} : ${reason}`);
+  return ok(toCorrection(correction), isAdmin ? 'Correction appliquée' : 'Correction soumise à la validation d\'un administrateur');
+});
+
+route('POST', E.ATTENDANCE_CORRECTION_APPROVE(':id'), ctx => {
+  requireAdmin(ctx);
+  const correction = findCorrection(ctx.params.id);
+  requirePending(correction);
+
+  applyCorrection(correction);
+  Object.assign(correction, {
+    status: 'Approved',
+    reviewedBy: ctx.user?.username,
+    reviewedAt: new Date().toISOString(),
+    reviewComment: ctx.body?.comment?.trim() || undefined,
+  });
+  audit(ctx, 'Update', 'AttendanceCorrection', correction.id, 'Approuvée');
+  return ok(toCorrection(correction), 'Correction appliquée');
+});
+
+route('POST', E.ATTENDANCE_CORRECTION_REJECT(':id'), ctx => {
+  requireAdmin(ctx);
+  required(ctx.body, ['comment']);
+  const correction = findCorrection(ctx.params.id);
+  requirePending(correction);
+
+  Object.assign(correction, {
+    status: 'Rejected',
+    reviewedBy: ctx.user?.username,
+    reviewedAt: new Date().toISOString(),
+    reviewComment: String(ctx.body.comment).trim(),
+  });
+  audit(ctx, 'Update', 'AttendanceCorrection', correction.id, `Refusée : ${correction.reviewComment}`);
+  return ok(toCorrection(correction), 'Correction refusée');
+});
+
+route('GET', E.ATTENDANCE_CORRECTION_ATTACHMENT(':id'), ({ params }) => {
+  const correction = findCorrection(params.id);
+  if (!correction.attachment || !correction.attachmentContent) {
+    throw new MockHttpError(404, 'Aucun justificatif pour cette correction');
+  }
+  const base64 = correction.attachmentContent.split(',')[1] ?? '';
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return { blob: new Blob([bytes], { type: correction.attachment.type }), filename: correction.attachment.name } as MockFile;
+});
+
+// ============================================================================
+// ROUTES - LEAVE REQUESTS
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Add a notification for each recipient (the author of the event excluded)
+ */
+function notify(
+  recipients: MockUser[],
+  ctx: MockContext,
+  notification: Omit<MockNotification, 'id' | 'userId' | 'read' | 'createdAt'>
+): void {
+  const db = getDb();
+  const createdAt = new Date().toISOString();
+  recipients
+    .filter((user, index, all) => user.id !== ctx.user?.id && all.findIndex(u => u.id === user.id) === index)
+    .forEach(user => db.notifications.unshift({ ...notification, id: nextId('notif'), userId: user.id, read: false, createdAt }));
+  db.notifications = db.notifications.slice(0, 500);
+}
+
+/**
+ * Accounts following a request: its author and the account linked to the agent
+ */
+const requestFollowers = (request: LeaveRequest): MockUser[] =>
+  getDb().users.filter(u => u.username === request.requestedBy || (u.role === 'Agent' && u.matricule === request.matricule));
+
+/**
+ * Reject periods overlapping an absence or a pending request of the agent
+ */
+function checkLeaveOverlap(request: Pick<LeaveRequest, 'id' | 'matricule' | 'startDate' | 'endDate'>): void {
+  const db = getDb();
+  const overlaps = (a: { startDate: string; endDate: string }) =>
+    a.startDate <= request.endDate && a.endDate >= request.startDate;
+  const absence = db.absences.find(a => a.matricule === request.matricule && overlaps(a));
+  if (absence) {
+    throw new MockHttpError(409, 'La période chevauche une absence existante', {
+      startDate: `${absenceTypeLabel(absence.type)} du ${absence.startDate} au ${absence.endDate}`,
+    });
+  }
+  const pending = db.leaveRequests.find(
+    r => r.id !== request.id && r.matricule === request.matricule && r.status === 'Pending' && overlaps(r)
+  );
+  if (pending) {
+    throw new MockHttpError(409, 'La période chevauche une demande en attente', {
+      startDate: `${absenceTypeLabel(pending.type)} du ${pending.startDate} au ${pending.endDate}`,
+    });
+  }
+}
+
+/**
+ * Validate and record a leave request, then notify the reviewers
+ */
+function submitLeaveRequest(ctx: MockContext, agent: Agent, payload: LeaveRequestPayload): LeaveRequest {
+  required(payload, ['type', 'startDate', 'endDate']);
+  const { startDate, endDate } = payload;
+  const errors: Record<string, string> = {};
+  const type = resolveAbsenceType(payload, errors);
+  if (!DATE_PATTERN.test(startDate)) errors.startDate = 'Date invalide';
+  if (!DATE_PATTERN.test(endDate)) errors.endDate = 'Date invalide';
+  else if (startDate > endDate) errors.endDate = 'La date de fin doit suivre la date de début';
+  if (ctx.user?.role === 'Agent' && startDate < toIsoDate(new Date())) {
+    errors.startDate = 'La date de début ne peut pas être dans le passé';
+  }
+  if (Object.keys(errors).length) throw new MockHttpError(400, 'Demande invalide', errors);
+  if (agent.status === 'Inactive') throw new MockHttpError(400, 'Agent inactif');
+
+  const db = getDb();
+  const days = eachDate(startDate, endDate).filter(d => !isWeekend(d));
+  const holidays = days
+    .filter(d => isHoliday(db.holidays, d))
+    .map(d => `${d} ${findHoliday(db.holidays, d)!.name}`);
+  const workingDays = days.length - holidays.length;
+  if (workingDays === 0) {
+    throw new MockHttpError(400, 'Aucun jour ouvré dans la période', { endDate: 'Week-ends et jours fériés uniquement' });
+  }
+  checkLeaveOverlap({ id: '', matricule: agent.matricule, startDate, endDate });
+
+  const request: LeaveRequest = {
+    id: nextId('leave'),
+    matricule: agent.matricule,
+    agentName: agent.nom,
+    type,
+    startDate,
+    endDate,
+    reason: String(payload.reason ?? '').trim(),
+    status: 'Pending',
+    workingDays,
+    holidays,
+    requestedBy: ctx.user?.username ?? 'anonymous',
+    requestedAt: new Date().toISOString(),
+  };
+  db.leaveRequests.unshift(request);
+
+  notify(db.users.filter(u => u.role === 'Admin' || u.role === 'Manager'), ctx, {
+    type: 'leave-request',
+    title: 'Nouvelle demande de congé',
+    message: `${agent.nom} : ${absenceTypeLabel(type)} du ${startDate} au ${endDate} (${workingDays} j ouvré${workingDays > 1 ? 's' : ''})`,
+    link: '/leave-requests',
+  });
+  audit(ctx, 'Create', 'LeaveRequest', request.id, `${agent.matricule} ${startDate} → ${endDate}`);
+  return request;
+}
+
+const findLeaveRequest = (id: string): LeaveRequest => {
+  const request = getDb().leaveRequests.find(r => r.id === id);
+  if (!request) throw new MockHttpError(404, 'Demande introuvable');
+  return request;
+};
+
+const requirePendingRequest = (request: LeaveRequest): void => {
+  if (request.status !== 'Pending') {
+    const labels = { Approved: 'approuvée', Rejected: 'refusée', Cancelled: 'annulée' } as const;
+    throw new MockHttpError(409, `Demande déjà ${labels[request.status as keyof typeof labels]}`);
+  }
+};
+
+route('GET', E.LEAVE_REQUESTS, ({ query }) => {
+  const status = query.get('status');
+  const matricule = query.get('matricule');
+  return ok(
+    getDb().leaveRequests.filter(r => (!status || r.status === status) && (!matricule || r.matricule === matricule))
+  );
+});
+
+route('POST', E.LEAVE_REQUESTS, ctx => {
+  required(ctx.body, ['matricule']);
+  const request = submitLeaveRequest(ctx, findAgent(ctx.body.matricule), ctx.body);
+  return ok(request, 'Demande de congé enregistrée');
+});
+
+route('POST', E.LEAVE_REQUEST_APPROVE(':id'), ctx => {
+  const request = findLeaveRequest(ctx.params.id);
+  requirePendingRequest(request);
+  checkLeaveOverlap(request);
+
+  const db = getDb();
+  const absence = {
+    id: nextId('abs'),
+    matricule: request.matricule,
+    startDate: request.startDate,
+    endDate: request.endDate,
+    type: request.type,
+    reason: request.reason,
+    createdAt: new Date().toISOString(),
+  };
+  db.absences.push(absence);
+  Object.assign(request, {
+    status: 'Approved',
+    reviewedBy: ctx.user?.username,
+    reviewedAt: absence.createdAt,
+    reviewComment: ctx.body?.comment?.trim() || undefined,
+    absenceId: absence.id,
+  });
+
+  notify(requestFollowers(request), ctx, {
+    type: 'leave-approved',
+    title: 'Demande de congé approuvée',
+    message: `${absenceTypeLabel(request.type)} du ${request.startDate} au ${request.endDate}${request.reviewComment ? ` : ${request.reviewComment}` : ''}`,
+    link: '/personal-history',
+  });
+  audit(ctx, 'Update', 'LeaveRequest', request.id, 'Approuvée');
+  audit(ctx, 'Create', 'LongAbsence', absence.id, `Demande ${request.id}`);
+  return ok(request, 'Demande approuvée, absence créée');
+});
+
+route('POST', E.LEAVE_REQUEST_REJECT(':id'), ctx => {
+  required(ctx.body, ['comment']);
+  const request = findLeaveRequest(ctx.params.id);
+  requirePendingRequest(request);
+
+  Object.assign(request, {
+    status: 'Rejected',
+    reviewedBy: ctx.user?.username,
+    reviewedAt: new Date().toISOString(),
+    reviewComment: String(ctx.body.comment).trim(),
+  });
+  notify(requestFollowers(request), ctx, {
+    type: 'leave-rejected',
+    title: 'Demande de congé refusée',
+    message: `${absenceTypeLabel(request.type)} du ${request.startDate} au ${request.endDate} : ${request.reviewComment}`,
+    link: '/personal-history',
+  });
+  audit(ctx, 'Update', 'LeaveRequest', request.id, `Refusée : ${request.reviewComment}`);
+  return ok(request, 'Demande refusée');
+});
+
+route('GET', E.ME_LEAVE_REQUESTS, ctx => {
+  const agent = requireLinkedAgent(ctx);
+  return ok(getDb().leaveRequests.filter(r => r.matricule === agent.matricule));
+});
+
+route('POST', E.ME_LEAVE_REQUESTS, ctx => {
+  const request = submitLeaveRequest(ctx, requireLinkedAgent(ctx), ctx.body ?? {});
+  return ok(request, 'Demande de congé envoyée');
+});
+
+route('POST', E.ME_LEAVE_REQUEST_CANCEL(':id'), ctx => {
+  const agent = requireLinkedAgent(ctx);
+  const request = findLeaveRequest(ctx.params.id);
+  if (request.matricule !== agent.matricule) throw new MockHttpError(404, 'Demande introuvable');
+  requirePendingRequest(request);
+
+  Object.assign(request, { status: 'Cancelled', reviewedAt: new Date().toISOString() });
+  notify(getDb().users.filter(u => u.role === 'Admin' || u.role === 'Manager'), ctx, {
+    type: 'leave-cancelled',
+    title: 'Demande de congé annulée',
+    message: `${agent.nom} a retiré sa demande du ${request.startDate} au ${request.endDate}`,
+    link: '/leave-requests',
+  });
+  audit(ctx, 'Update', 'LeaveRequest', request.id, 'Annulée');
+  return ok(request, 'Demande annulée');
+});
+
+// ============================================================================
+// ROUTES - ABSENCE TYPES
+// ============================================================================
+
+const ABSENCE_TYPE_CODE = /^[A-Z][A-Z0-9_]{1,29}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Validate an absence type: the label must not match the code or the label
+ * of another type, since free text is resolved against both
+ */
+function validateAbsenceType(body: Partial<AbsenceType>, code: string): AbsenceType {
+  const errors: Record<string, string> = {};
+  const label = String(body.label ?? '').trim();
+  if (!label) errors.label = 'Libellé obligatoire';
+  else {
+    const others = getDb().absenceTypes.filter(t => t.code !== code);
+    const key = absenceTypeKey(label);
+    if (others.some(t => absenceTypeKey(t.label) === key || absenceTypeKey(t.code) === key)) {
+      errors.label = 'Un autre type porte déjà ce libellé';
+    }
+  }
+  if (!COLOR_PATTERN.test(String(body.color ?? ''))) errors.color = 'Couleur invalide (#RRGGBB)';
+  if (Object.keys(errors).length) throw new MockHttpError(400, "Type d'absence invalide", errors);
+  return {
+    code,
+    label,
+    color: String(body.color).toLowerCase(),
+    paid: !!body.paid,
+    requiresJustification: !!body.requiresJustification,
+    countsAsPresence: !!body.countsAsPresence,
+  };
+}
+
+const findAbsenceTypeByCode = (code: string): AbsenceType => {
+  const type = getDb().absenceTypes.find(t => t.code === code);
+  if (!type) throw new MockHttpError(404, "Type d'absence introuvable");
+  return type;
+};
+
+route('GET', E.ABSENCE_TYPES, () => ok(getDb().absenceTypes));
+
+route('POST', E.ABSENCE_TYPES, ctx => {
+  requireAdmin(ctx);
+  required(ctx.body, ['code', 'label', 'color']);
+  const code = String(ctx.body.code).trim().toUpperCase();
+  if (!ABSENCE_TYPE_CODE.test(code)) {
+    throw new MockHttpError(400, "Type d'absence invalide", { code: 'Lettres majuscules, chiffres et _ (2 à 30 caractères)' });
+  }
+  const db = getDb();
+  if (db.absenceTypes.some(t => t.code === code)) {
+    throw new MockHttpError(409, 'Ce code existe déjà', { code: 'Ce code existe déjà' });
+  }
+  const type = validateAbsenceType(ctx.body, code);
+  db.absenceTypes.push(type);
+  // No quota until the Admin sets one
+  db.entitlements.push({
+    type: code,
+    annualDays: null,
+    accrual: 'Annual',
+    carryOverDays: 0,
+    countNonWorkingDays: false,
+    sinceYear: new Date().getFullYear(),
+  });
+  audit(ctx, 'Create', 'AbsenceType', code, type.label);
+  return ok(type, "Type d'absence créé");
+});
+
+route('PUT', E.ABSENCE_TYPE_BY_CODE(':code'), ctx => {
+  requireAdmin(ctx);
+  const type = findAbsenceTypeByCode(ctx.params.code);
+  Object.assign(type, validateAbsenceType({ ...type, ...ctx.body }, type.code));
+  audit(ctx, 'Update', 'AbsenceType', type.code, type.label);
+  return ok(type, "Type d'absence mis à jour");
+});
+
+route('DELETE', E.ABSENCE_TYPE_BY_CODE(':code'), ctx => {
+  requireAdmin(ctx);
+  const db = getDb();
+  const type = findAbsenceTypeByCode(ctx.params.code);
+  const absences = db.absences.filter(a => a.type === type.code).length;
+  const requests = db.leaveRequests.filter(r => r.type === type.code).length;
+  if (absences || requests) {
+    throw new MockHttpError(
+      409,
+      `« ${type.label} » est utilisé par ${absences} absence(s) et ${requests} demande(s) de congé`
+    );
+  }
+  db.absenceTypes = db.absenceTypes.filter(t => t.code !== type.code);
+  db.entitlements = db.entitlements.filter(e => e.type !== type.code);
+  audit(ctx, 'Delete', 'AbsenceType', type.code, type.label);
+  return ok(null, "Type d'absence supprimé");
+});
+
+route('GET', E.ABSENCE_ENTITLEMENTS, () => ok(getDb().entitlements));
+
+route('PUT', E.ABSENCE_ENTITLEMENTS, ctx => {
+  requireAdmin(ctx);
+  const body: AbsenceEntitlement[] = Array.isArray(ctx.body) ? ctx.body : [];
+  const errors: Record<string, string> = {};
+  const entitlements = getDb().absenceTypes.map(({ code: type }) => {
+    const entry = body.find(e => e?.type === type);
+    if (!entry) {
+      errors[type] = 'Droit manquant';
+      return null;
+    }
+    const annualDays = entry.annualDays === null || entry.annualDays === undefined ? null : Number(entry.annualDays);
+    const carryOverDays = Number(entry.carryOverDays) || 0;
+    if (annualDays !== null && (!Number.isFinite(annualDays) || annualDays < 0 || annualDays > 366)) {
+      errors[type] = 'Nombre de jours invalide (0 à 366)';
+    } else if (carryOverDays < 0 || (annualDays !== null && carryOverDays > annualDays)) {
+      errors[type] = 'Le report ne peut pas dépasser le droit annuel';
+    }
+    // A quota set on a type that had none starts this year
+    const current = getDb().entitlements.find(e => e.type === type);
+    const sinceYear =
+      current && current.annualDays !== null ? current.sinceYear ?? new Date().getFullYear() : new Date().getFullYear();
+    return {
+      type,
+      annualDays,
+      accrual: entry.accrual === 'Monthly' ? 'Monthly' : 'Annual',
+      carryOverDays: annualDays === null ? 0 : carryOverDays,
+      countNonWorkingDays: !!entry.countNonWorkingDays,
+      sinceYear,
+    } as AbsenceEntitlement;
+  });
+  if (Object.keys(errors).length) throw new MockHttpError(400, 'Droits à congé invalides', errors);
+
+  getDb().entitlements = entitlements as AbsenceEntitlement[];
+  audit(ctx, 'Update', 'AbsenceEntitlement', undefined, entitlements.map(e => `${e!.type}: ${e!.annualDays ?? '∞'}`).join(', '));
+  return ok(getDb().entitlements, 'Droits à congé enregistrés');
+});
+
+// ============================================================================
+// ROUTES - NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Notification without its recipient
+ */
+const toNotification = ({ userId: _userId, ...notification }: MockNotification) => notification;
+
+route('GET', E.NOTIFICATIONS, ctx =>
+  ok(getDb().notifications.filter(n => n.userId === ctx.user?.id).slice(0, 50).map(toNotification))
+);
+
+route('POST', E.NOTIFICATION_READ(':id'), ctx => {
+  const notification = getDb().notifications.find(n => n.id === ctx.params.id && n.userId === ctx.user?.id);
+  if (!notification) throw new MockHttpError(404, 'Notification introuvable');
+  notification.read = true;
+  return ok(toNotification(notification));
+});
+
+route('POST', E.NOTIFICATIONS_READ_ALL, ctx => {
+  getDb().notifications.forEach(n => {
+    if (n.userId === ctx.user?.id) n.read = true;
+  });
+  return ok(null);
+});
+
+// ============================================================================
+// ROUTES - SCHEDULES
+// ============================================================================
+
+route('GET', E.SCHEDULES, () => ok(getDb().schedules));
+
+route('GET', E.ACTIVE_SCHEDULE, () => ok(getDb().schedules.find(s => s.isActive) ?? null));
+
+route('POST', E.SCHEDULES, ctx => {
+  requireAdmin(ctx);
+  required(ctx.body, ['name', 'morningStart', 'morningEnd', 'afternoonStart', 'afternoonEnd']);
+  const db = getDb();
+  const schedule = { ...ctx.body, id: nextId('sched'), tolerance: String(ctx.body.tolerance ?? '0'), deletable: true };
+  if (schedule.isActive) db.schedules.forEach(s => (s.isActive = false));
+  db.schedules.push(schedule);
+  audit(ctx, 'Create', 'Schedule', schedule.id);
+  return ok(schedule);
+});
+
+route('GET', E.SCHEDULE_BY_ID(':id'), ({ params }) => {
+  const schedule = getDb().schedules.find(s => s.id === params.id);
+  if (!schedule) throw new MockHttpError(404, 'Horaire introuvable');
+  return ok(schedule);
+});
+
+route('PUT', E.SCHEDULE_BY_ID(':id'), ctx => {
+  requireAdmin(ctx);
+  const db = getDb();
+  const schedule = db.schedules.find(s => s.id === ctx.params.id);
+  if (!schedule) throw new MockHttpError(404, 'Horaire introuvable');
+  if (ctx.body?.isActive) db.schedules.forEach(s => (s.isActive = false));
+  Object.assign(schedule, { ...ctx.body, id: schedule.id, tolerance: String(ctx.body?.tolerance ?? schedule.tolerance) });
+  audit(ctx, 'Update', 'Schedule', schedule.id);
+  return ok(schedule);
+});
+
+route('DELETE', E.SCHEDULE_BY_ID(':id'), ctx => {
+  requireAdmin(ctx);
+  const db = getDb();
+  const schedule = db.schedules.find(s => s.id === ctx.params.id);
+  if (!schedule) throw new MockHttpError(404, 'Horaire introuvable');
+  if (!schedule.deletable || schedule.isActive) {
+    throw new MockHttpError(409, 'Cet horaire ne peut pas être supprimé');
+  }
+  db.schedules = db.schedules.filter(s => s.id !== ctx.params.id);
+  audit(ctx, 'Delete', 'Schedule', ctx.params.id);
+  return ok(null);
+});
+
+// ============================================================================
+// ROUTES - CALENDAR
+// ============================================================================
+
+route('GET', E.HOLIDAYS, ({ query }) => {
+  const year = query.get('year');
+  const month = query.get('month');
+  return ok(
+    getDb().holidays.filter(
+      h =>
+        (!year || h.recurring || h.date.startsWith(year)) &&
+        (!month || Number(h.date.slice(5, 7)) === Number(month))
+    )
+  );
+});
+
+route('POST', E.HOLIDAYS, ctx => {
+  required(ctx.body, ['name', 'date']);
+  const holiday = { id: nextId('hol'), name: ctx.body.name, date: ctx.body.date, recurring: !!ctx.body.recurring };
+  getDb().holidays.push(holiday);
+  audit(ctx, 'Create', 'Holiday', holiday.id);
+  return ok(holiday);
+});
+
+route('PUT', E.HOLIDAY_BY_ID(':id'), ctx => {
+  const holiday = getDb().holidays.find(h => h.id === ctx.params.id);
+  if (!holiday) throw new MockHttpError(404, 'Jour férié introuvable');
+  Object.assign(holiday, { ...ctx.body, id: holiday.id });
+  audit(ctx, 'Update', 'Holiday', holiday.id);
+  return ok(holiday);
+});
+
+route('DELETE', E.HOLIDAY_BY_ID(':id'), ctx => {
+  const db = getDb();
+  if (!db.holidays.some(h => h.id === ctx.params.id)) throw new MockHttpError(404, 'Jour férié introuvable');
+  db.holidays = db.holidays.filter(h => h.id !== ctx.params.id);
+  audit(ctx, 'Delete', 'Holiday', ctx.params.id);
+  return ok(null);
+});
+
+route('GET', E.CALENDAR_AVAILABILITY, ({ query }) => {
+  const from = query.get('from') || toIsoDate(new Date());
+  const to = query.get('to') || from;
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+    throw new MockHttpError(400, 'Période invalide', { to: 'La date de fin doit suivre la date de début' });
+  }
+  if (eachDate(from, to).length > 366) throw new MockHttpError(400, 'Période limitée à un an');
+
+  const division = query.get('division');
+  const db = getDb();
+  const availability: TeamAvailability = {
+    from,
+    to,
+    thresholdPercent: getSettings().availabilityThresholdPercent,
+    agents: activeAgents()
+      .filter(a => !division || a.division === division)
+      .sort((a, b) => a.division.localeCompare(b.division) || a.nom.localeCompare(b.nom))
+      .map(agent => ({
+        matricule: agent.matricule,
+        nom: agent.nom,
+        division: agent.division,
+        absences: db.absences
+          .filter(a => a.matricule === agent.matricule && a.startDate <= to && a.endDate >= from)
+          .sort((a, b) => a.startDate.localeCompare(b.startDate))
+          .map(({ id, type, startDate, endDate }) => ({ id, type, startDate, endDate })),
+      })),
+  };
+  return ok(availability);
+});
+
+route('GET', E.CALENDAR_EVENTS, ({ query }) => {
+  const from = query.get('from') || `${new Date().getFullYear()}-01-01`;
+  const to = query.get('to') || `${new Date().getFullYear()}-12-31`;
+  const events = eachDate(from, to)
+    .filter(date => isHoliday(getDb().holidays, date))
+    .map(date => {
+      const holiday = findHoliday(getDb().holidays, date)!;
+      return { id: `${holiday.id}-${date}`, title: holiday.name, date, type: 'Holiday' as const, allDay: true };
+    });
+  return ok(events);
+});
+
+// ============================================================================
+// ROUTES - STATISTICS
+// ============================================================================
+
+route('GET', E.DASHBOARD_STATS, () => {
+  const today = toIsoDate(new Date());
+  const { rows, present, absent, late, leave } = summarizeDay(today);
+  const expected = rows.length - leave;
+  const stats: DashboardStats = {
+    totalAgents: activeAgents().length,
+    presentToday: present,
+    absentToday: absent,
+    lateArrivals: late,
+    onLeaveToday: leave,
+    attendanceRate: expected ? (present / expected) * 100 : 0,
+    avgWorkHours: present ? rows.reduce((sum, r) => sum + r.punches.workMinutes, 0) / 60 / present : 0,
+  };
+  return ok(stats);
+});
+
+route('GET', E.ATTENDANCE_STATS, ({ query }) => {
+  const today = new Date();
+  const to = query.get('to') || toIsoDate(today);
+  const from = query.get('from') || toIsoDate(addDays(parseIsoDate(to), -29));
+  const workingDays = eachDate(from, to).filter(d => !isWeekend(d) && !isHoliday(getDb().holidays, d));
+
+  const daily = workingDays.map(date => {
+    const { present, absent, late, leave } = summarizeDay(date);
+    return { date, present, absent, late, leave };
+  });
+
+  const weekly = Array.from({ length: Math.ceil(daily.length / 5) }, (_, index) => {
+    const chunk = daily.slice(index * 5, index * 5 + 5);
+    return {
+      week: `Semaine ${index + 1}`,
+      present: chunk.reduce((s, d) => s + d.present, 0),
+      absent: chunk.reduce((s, d) => s + d.absent, 0),
+      late: chunk.reduce((s, d) => s + d.late, 0),
+    };
+  });
+
+  const monthly = Array.from({ length: 6 }, (_, index) => {
+    const start = new Date(today.getFullYear(), today.getMonth() - 5 + index, 1);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 0);
+    const days = eachDate(toIsoDate(start), toIsoDate(end < today ? end : today)).filter(
+      d => !isWeekend(d) && !isHoliday(getDb().holidays, d)
+    );
+    // Échantillonnage d'un jour sur trois pour limiter le calcul
+    const sampled = days.filter((_, i) => i % 3 === 0).map(summarizeDay);
+    const present = sampled.reduce((s, d) => s + d.present, 0);
+    const absent = sampled.reduce((s, d) => s + d.absent, 0);
+    const late = sampled.reduce((s, d) => s + d.late, 0);
+    return {
+      month: start.toLocaleDateString('fr-FR', { month: 'short' }),
+      present,
+      absent,
+      late,
+      'Taux de présence': present + absent ? Math.round((present / (present + absent)) * 100) : 0,
+    };
+  });
+
+  const stats: AttendanceStats = { daily, weekly, monthly };
+  return ok(stats);
+});
+
+route('GET', E.RECENT_ACTIVITY, ({ query }) => {
+  const limit = parseInt(query.get('limit') || '10', 10);
+  const today = toIsoDate(new Date());
+  const activities: RecentActivity[] = [];
+
+  summarizeDay(today).rows.forEach(({ agent, punches }) => {
+    if (punches.checkInAM) {
+      activities.push({
+        agentName: agent.nom,
+        type: 'check-in',
+        description: punches.status === 'Late' ? `Arrivée en retard à ${punches.checkInAM}` : `Arrivée à ${punches.checkInAM}`,
+        timestamp: new Date(`${today}T${punches.checkInAM}:00`).toISOString(),
+      });
+    }
+    if (punches.checkOutPM) {
+      activities.push({
+        agentName: agent.nom,
+        type: 'check-out',
+        description: `Départ à ${punches.checkOutPM}`,
+        timestamp: new Date(`${today}T${punches.checkOutPM}:00`).toISOString(),
+      });
+    }
+  });
+
+  // Absences entered directly (those of approved requests appear with their request)
+  const fromRequests = new Set(getDb().leaveRequests.map(r => r.absenceId));
+  getDb().absences.forEach(absence => {
+    const agent = getDb().agents.find(a => a.matricule === absence.matricule);
+    if (agent && absence.createdAt && !fromRequests.has(absence.id)) {
+      activities.push({
+        agentName: agent.nom,
+        type: 'leave-request',
+        description: `${absenceTypeLabel(absence.type)} du ${absence.startDate} au ${absence.endDate}`,
+        timestamp: absence.createdAt,
+        status: 'success',
+      });
+    }
+  });
+
+  const LEAVE_ACTIVITY: Record<LeaveRequest['status'], [string, RecentActivity['status']]> = {
+    Pending: ['Demande en attente', 'pending'],
+    Approved: ['Demande approuvée', 'success'],
+    Rejected: ['Demande refusée', 'warning'],
+    Cancelled: ['Demande annulée', 'warning'],
+  };
+  getDb().leaveRequests.forEach(request => {
+    const [label, status] = LEAVE_ACTIVITY[request.status];
+    activities.push({
+      agentName: request.agentName,
+      type: 'leave-request',
+      description: `${label} : ${absenceTypeLabel(request.type)} du ${request.startDate} au ${request.endDate}`,
+      timestamp: request.reviewedAt ?? request.requestedAt,
+      status,
+    });
+  });
+
+  activities.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  return ok(activities.slice(0, limit));
+});
+
+/**
+ * Working days of an analytics range (from / to query params, last 30 days by
+ * default, one year at most) with the punches of every active agent
+ */
+function statisticsDays(query: URLSearchParams) {
+  const today = toIsoDate(new Date());
+  const to = query.get('to') || today;
+  const from = query.get('from') || toIsoDate(addDays(parseIsoDate(to), -29));
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+    throw new MockHttpError(400, 'Période invalide', { to: 'La date de fin doit suivre la date de début' });
+  }
+  if (eachDate(from, to).length > 366) throw new MockHttpError(400, 'Période limitée à un an');
+
+  return eachDate(from, to > today ? today : to)
+    .filter(d => !isWeekend(d) && !isHoliday(getDb().holidays, d))
+    .map(date => ({ date, rows: summarizeDay(date).rows }));
+}
+
+/**
+ * Count agent-days by status (presence-type absences count as on time)
+ */
+function tallyDays(rows: Array<{ punches: MockDayPunches }>) {
+  const present = rows.filter(r => countsAsPresent(r.punches)).length;
+  const late = rows.filter(r => r.punches.status === 'Late').length;
+  const absent = rows.filter(r => r.punches.status === 'Absent').length;
+  return { present, late, absent, onTime: present - late, leave: rows.length - present - absent, expected: present + absent };
+}
+
+/**
+ * Share in percent with one decimal (0 when nothing is expected)
+ */
+const percent = (part: number, total: number) => (total ? Math.round((part / total) * 1000) / 10 : 0);
+
+route('GET', E.STATISTICS_DIVISIONS, ({ query }) => {
+  const rows = statisticsDays(query).flatMap(day => day.rows);
+  const divisions = [...new Set(activeAgents().map(a => a.division))];
+  const stats: DivisionAttendance[] = divisions
+    .map(division => {
+      const { present, late, absent, expected } = tallyDays(rows.filter(r => r.agent.division === division));
+      return {
+        division,
+        agents: activeAgents().filter(a => a.division === division).length,
+        present,
+        late,
+        absent,
+        expected,
+        rate: percent(present, expected),
+      };
+    })
+    .filter(d => d.expected > 0)
+    .sort((a, b) => b.rate - a.rate || a.division.localeCompare(b.division));
+  return ok(stats);
+});
+
+route('GET', E.STATISTICS_PUNCTUALITY, ({ query }) => {
+  const groupBy = query.get('groupBy') || 'week';
+  if (!['day', 'week', 'month'].includes(groupBy)) {
+    throw new MockHttpError(400, 'Regroupement invalide', { groupBy: 'Valeurs acceptées : day, week, month' });
+  }
+  const bucketOf = (date: string) => {
+    if (groupBy === 'day') return date;
+    if (groupBy === 'month') return date.slice(0, 7);
+    const day = parseIsoDate(date);
+    return toIsoDate(addDays(day, -((day.getDay() + 6) % 7)));
+  };
+  const labelOf = (first: string) => {
+    const date = parseIsoDate(first);
+    if (groupBy === 'day') return date.toLocaleDateString('fr-FR', { weekday: 'short', day: 'numeric' });
+    if (groupBy === 'month') return date.toLocaleDateString('fr-FR', { month: 'short', year: 'numeric' });
+    return `Sem. du ${date.toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit' })}`;
+  };
+
+  const buckets = new Map<string, ReturnType<typeof statisticsDays>>();
+  statisticsDays(query).forEach(day => {
+    const key = bucketOf(day.date);
+    buckets.set(key, [...(buckets.get(key) ?? []), day]);
+  });
+
+  const trends: PunctualityTrend[] = [...buckets.values()].map(days => {
+    const { onTime, late, absent, expected } = tallyDays(days.flatMap(d => d.rows));
+    return {
+      label: labelOf(days[0].date),
+      from: days[0].date,
+      to: days[days.length - 1].date,
+      onTime: percent(onTime, expected),
+      late: percent(late, expected),
+      absent: percent(absent, expected),
+    };
+  });
+  return ok(trends);
+});
+
+route('GET', E.STATISTICS_ABSENCE_RATES, ({ query }) => {
+  const months = new Map<string, Array<{ punches: MockDayPunches }>>();
+  statisticsDays(query).forEach(day => {
+    const month = day.date.slice(0, 7);
+    months.set(month, [...(months.get(month) ?? []), ...day.rows]);
+  });
+
+  const rates: MonthlyAbsenceRate[] = [...months.entries()].map(([month, rows]) => {
+    const { absent, expected } = tallyDays(rows);
+    return { month, absent, expected, rate: percent(absent, expected) };
+  });
+  return ok(rates);
+});
+
+route('GET', E.STATISTICS_STATUS_DISTRIBUTION, ({ query }) => {
+  const days = statisticsDays(query);
+  const { onTime, late, absent, leave } = tallyDays(days.flatMap(d => d.rows));
+  const distribution: StatusDistribution = { workingDays: days.length, onTime, late, absent, leave };
+  return ok(distribution);
+});
+
+const REPORT_TITLES: Record<ReportParams['type'], string> = {
+  attendance: 'Rapport de présence',
+  'agent-summary': 'Synthèse par agent',
+  'monthly-report': 'Rapport mensuel',
+  'lateness-summary': 'Synthèse des retards',
+};
+
+/**
+ * Check the parameters of a report (errors keyed by field)
+ */
+function validateReportParams(body: Partial<ReportParams>): ReportParams {
+  const errors: Record<string, string> = {};
+  if (!body.type || !(body.type in REPORT_TITLES)) errors.type = 'Type de rapport inconnu';
+  if (!body.format || !(body.format in REPORT_EXTENSIONS)) errors.format = 'Format inconnu (pdf, excel ou csv)';
+  if (!body.from || !DATE_PATTERN.test(body.from)) errors.from = 'Date de début invalide';
+  if (!body.to || !DATE_PATTERN.test(body.to)) errors.to = 'Date de fin invalide';
+  else if (body.from && body.from > body.to) errors.to = 'La date de fin doit suivre la date de début';
+  else if (body.from && eachDate(body.from, body.to).length > 366) errors.to = 'Période limitée à un an';
+  if (Object.keys(errors).length > 0) throw new MockHttpError(400, 'Paramètres du rapport invalides', errors);
+  return body as ReportParams;
+}
+
+/**
+ * Title of a report with its period ('— octobre 2026' for a whole month)
+ */
+function reportTitle(params: ReportParams): string {
+  const start = parseIsoDate(params.from);
+  const wholeMonth =
+    start.getDate() === 1 && params.to === toIsoDate(new Date(start.getFullYear(), start.getMonth() + 1, 0));
+  const period = wholeMonth
+    ? start.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' })
+    : `du ${start.toLocaleDateString('fr-FR')} au ${parseIsoDate(params.to).toLocaleDateString('fr-FR')}`;
+  return `${REPORT_TITLES[params.type]} — ${period}`;
+}
+
+/**
+ * Content of a report (shared by the preview and the files)
+ *
+ * Attendance and monthly reports give one line per working day, the agent
+ * summary one line per agent and the lateness summary one line per agent
+ * late at least once; all are limited to the requested departments and
+ * matricules.
+ */
+function buildReportData(params: ReportParams): ReportPreview & { subtitle: string } {
+  const inScope = (agent: Agent) =>
+    (!params.departments?.length || params.departments.includes(agent.division)) &&
+    (!params.matricules?.length || params.matricules.includes(agent.matricule));
+  const today = toIsoDate(new Date());
+  const days = eachDate(params.from, params.to > today ? today : params.to)
+    .filter(d => !isWeekend(d) && !isHoliday(getDb().holidays, d))
+    .map(date => ({ date, rows: summarizeDay(date).rows.filter(r => inScope(r.agent)) }));
+  const allRows = days.flatMap(day => day.rows);
+  const agents = activeAgents()
+    .filter(inScope)
+    .sort((a, b) => a.division.localeCompare(b.division) || a.nom.localeCompare(b.nom));
+
+  let columns: string[];
+  let rows: Array<Array<string | number>>;
+  if (params.type === 'agent-summary') {
+    columns = ['Matricule', 'Nom', 'Division', 'Présents', 'Retards', 'Absents', 'Congés', 'Taux de présence (%)'];
+    rows = agents.map(agent => {
+      const { present, late, absent, leave, expected } = tallyDays(allRows.filter(r => r.agent.matricule === agent.matricule));
+      return [agent.matricule, agent.nom, agent.division, present, late, absent, leave, percent(present, expected)];
+    });
+  } else if (params.type === 'lateness-summary') {
+    columns = ['Matricule', 'Nom', 'Division', 'Retards', 'Minutes de retard', 'Retard moyen (min)'];
+    rows = agents
+      .map(agent => {
+        const lateDays = allRows.filter(r => r.agent.matricule === agent.matricule && r.punches.status === 'Late');
+        const minutes = lateDays.reduce((total, r) => total + r.punches.lateMinutes, 0);
+        return [agent.matricule, agent.nom, agent.division, lateDays.length, minutes, lateDays.length ? Math.round(minutes / lateDays.length) : 0];
+      })
+      .filter(row => Number(row[3]) > 0)
+      .sort((a, b) => Number(b[3]) - Number(a[3]) || Number(b[4]) - Number(a[4]));
+  } else {
+    columns = ['Date', 'Présents', 'Retards', 'Absents', 'Congés', 'Taux de présence (%)'];
+    rows = days.map(day => {
+      const { present, late, absent, leave, expected } = tallyDays(day.rows);
+      return [day.date, present, late, absent, leave, percent(present, expected)];
+    });
+  }
+
+  const { present, late, absent, leave, expected } = tallyDays(allRows);
+  const filters = [
+    params.departments?.length ? `Divisions : ${params.departments.join(', ')}` : '',
+    params.matricules?.length ? `Matricules : ${params.matricules.join(', ')}` : '',
+  ].filter(Boolean);
+  return {
+    title: reportTitle(params),
+    subtitle: filters.join('   '),
+    columns,
+    rows,
+    summary: { workingDays: days.length, agents: agents.length, present, late, absent, leave, rate: percent(present, expected) },
+  };
+}
+
+/**
+ * Build a report file for the mock download endpoints
+ */
+async function buildReportFile(params: ReportParams): Promise<MockFile> {
+  const { title, subtitle, columns, rows } = buildReportData(params);
+  const perAgent = params.type === 'agent-summary' || params.type === 'lateness-summary';
+  const table: ReportTable = { title: perAgent ? 'Agents' : 'Jours ouvrés', head: columns, rows };
+  const blob = buildReportBlob({ title, subtitle, tables: [table] }, params.format);
+  return { blob, filename: `rapport_${params.type}_${params.from}_${params.to}.${REPORT_EXTENSIONS[params.format]}` };
+}
+
+route('POST', E.EXPORT_REPORT, ({ body }) => buildReportFile(validateReportParams(body ?? {})));
+
+/** Unpinned reports kept in the history, whatever the retention period */
+const MAX_REPORTS = 200;
+
+const findReport = (id: string): GeneratedReport => {
+  const report = getDb().reports.find(r => r.id === id);
+  if (!report) throw new MockHttpError(404, 'Rapport introuvable');
+  return report;
+};
+
+/**
+ * Drop the unpinned reports older than the retention period (pinned reports are kept)
+ */
+function purgeReports(): void {
+  const db = getDb();
+  const cutoff = Date.now() - getSettings().reportRetentionDays * 24 * 60 * 60 * 1000;
+  let kept = 0;
+  db.reports = db.reports.filter(
+    report => report.pinned || (new Date(report.generatedAt).getTime() >= cutoff && ++kept <= MAX_REPORTS)
+  );
+}
+
+/**
+ * Record a generated report at the top of the history (per-division files of
+ * a schedule name their division)
+ */
+function recordReport(
+  params: ReportParams,
+  file: MockFile,
+  generatedBy: string,
+  schedule?: ReportSchedule
+): GeneratedReport {
+  const report: GeneratedReport = {
+    id: nextId('rpt'),
+    title: schedule?.perDivision ? `${reportTitle(params)} — ${params.departments?.[0]}` : reportTitle(params),
+    params,
+    filename: file.filename,
+    size: file.blob.size,
+    generatedAt: new Date().toISOString(),
+    generatedBy,
+    ...(schedule && { scheduleId: schedule.id, scheduleName: schedule.name }),
+  };
+  const db = getDb();
+  db.reports = [report, ...db.reports];
+  purgeReports();
+  return report;
+}
+
+route('GET', E.REPORTS, () => {
+  purgeReports();
+  return ok(getDb().reports);
+});
+
+route('POST', E.REPORT_PREVIEW, ({ body }) => {
+  const { title, columns, rows, summary } = buildReportData(validateReportParams(body ?? {}));
+  const preview: ReportPreview = { title, columns, rows, summary };
+  return ok(preview);
+});
+
+route('POST', E.REPORTS, async ctx => {
+  const params = validateReportParams(ctx.body ?? {});
+  const file = await buildReportFile(params);
+  const report = recordReport(params, file, ctx.user?.username ?? 'anonymous');
+  audit(ctx, 'Create', 'Report', report.id, report.title);
+  return file;
+});
+
+route('GET', E.REPORT_FILE(':id'), ({ params }) => buildReportFile(findReport(params.id).params));
+
+route('PUT', E.REPORT_BY_ID(':id'), ctx => {
+  const report = findReport(ctx.params.id);
+  if (typeof ctx.body?.pinned !== 'boolean') {
+    throw new MockHttpError(400, 'Paramètres invalides', { pinned: 'Valeur attendue : true ou false' });
+  }
+  report.pinned = ctx.body.pinned;
+  audit(ctx, 'Update', 'Report', report.id, report.pinned ? 'Conservé' : 'Conservation retirée');
+  return ok(report, report.pinned ? 'Rapport conservé' : 'Le rapport suit la durée de conservation');
+});
+
+route('DELETE', E.REPORT_BY_ID(':id'), ctx => {
+  const report = findReport(ctx.params.id);
+  const db = getDb();
+  db.reports = db.reports.filter(r => r.id !== report.id);
+  audit(ctx, 'Delete', 'Report', report.id, report.title);
+  return ok(null, 'Rapport supprimé');
+});
+
+/**
+ * Period covered by a run of a schedule: the previous month, or the previous
+ * Monday-Sunday week
+ */
+function schedulePeriod(schedule: ReportSchedule, runAt: Date): { from: string; to: string } {
+  if (schedule.frequency === 'monthly') {
+    return {
+      from: toIsoDate(new Date(runAt.getFullYear(), runAt.getMonth() - 1, 1)),
+      to: toIsoDate(new Date(runAt.getFullYear(), runAt.getMonth(), 0)),
+    };
+  }
+  const monday = addDays(runAt, -((runAt.getDay() + 6) % 7));
+  return { from: toIsoDate(addDays(monday, -7)), to: toIsoDate(addDays(monday, -1)) };
+}
+
+/**
+ * Generate the reports of a schedule, record them in the history and notify
+ * the Admins and Managers
+ */
+async function runSchedule(schedule: ReportSchedule, runAt: Date, ctx: MockContext): Promise<GeneratedReport[]> {
+  const period = schedulePeriod(schedule, runAt);
+  const divisions = schedule.departments?.length
+    ? schedule.departments
+    : [...new Set(activeAgents().map(a => a.division))].sort((a, b) => a.localeCompare(b));
+  const scopes = schedule.perDivision
+    ? divisions.map(division => [division])
+    : [schedule.departments?.length ? schedule.departments : undefined];
+
+  const reports: GeneratedReport[] = [];
+  for (const departments of scopes) {
+    const params: ReportParams = { type: schedule.type, format: schedule.format, ...period, ...(departments && { departments }) };
+    reports.push(recordReport(params, await buildReportFile(params), 'Planification', schedule));
+  }
+
+  const db = getDb();
+  schedule.lastRunAt = runAt.toISOString();
+  delete schedule.lastError;
+  notify(db.users.filter(u => u.role === 'Admin' || u.role === 'Manager'), ctx, {
+    type: 'report-ready',
+    title: 'Rapport disponible',
+    message: reports.length === 1 ? reports[0].title : `${schedule.name} : ${reports.length} fichiers`,
+    link: '/reports',
+  });
+  return reports;
+}
+
+/** Context of the runs started by the backend itself */
+const SCHEDULER_CONTEXT: MockContext = { params: {}, query: new URLSearchParams(), body: undefined, user: null };
+
+/**
+ * Run the enabled schedules whose time has come
+ *
+ * The mock has no background process: due schedules run before the next
+ * authenticated request. Missed runs are caught up once, for the last
+ * complete period.
+ */
+async function runDueSchedules(): Promise<void> {
+  const now = new Date();
+  const due = getDb().reportSchedules.filter(s => s.enabled && s.nextRunAt && new Date(s.nextRunAt) <= now);
+  for (const schedule of due) {
+    try {
+      await runSchedule(schedule, now, SCHEDULER_CONTEXT);
+    } catch (error) {
+      console.error('[mock] Rapport planifié en échec', error);
+      schedule.lastRunAt = now.toISOString();
+      schedule.lastError = 'Génération du rapport impossible';
+    }
+    schedule.nextRunAt = nextReportRun(schedule, now).toISOString();
+  }
+  if (due.length > 0) persist();
+}
+
+const REPORT_FREQUENCIES: ReportSchedule['frequency'][] = ['monthly', 'weekly'];
+
+/**
+ * Check the fields of a report schedule (errors keyed by field)
+ */
+function validateReportSchedule(body: Partial<ReportSchedulePayload>): ReportSchedulePayload {
+  const errors: Record<string, string> = {};
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) errors.name = 'Nom obligatoire';
+  else if (name.length > 80) errors.name = '80 caractères au maximum';
+  if (!body.frequency || !REPORT_FREQUENCIES.includes(body.frequency)) errors.frequency = 'Fréquence inconnue (monthly ou weekly)';
+  const day = Number(body.day);
+  const maxDay = body.frequency === 'weekly' ? 7 : 28;
+  if (!Number.isInteger(day) || day < 1 || day > maxDay) {
+    errors.day = body.frequency === 'weekly' ? 'Jour de la semaine invalide' : 'Jour du mois entre 1 et 28';
+  }
+  if (!body.type || !(body.type in REPORT_TITLES)) errors.type = 'Type de rapport inconnu';
+  if (!body.format || !(body.format in REPORT_EXTENSIONS)) errors.format = 'Format inconnu (pdf, excel ou csv)';
+  const divisions = new Set(getDb().agents.map(a => a.division));
+  const departments = Array.isArray(body.departments) ? body.departments : [];
+  const unknown = departments.find(d => !divisions.has(d));
+  if (unknown) errors.departments = `Division inconnue : ${unknown}`;
+  if (Object.keys(errors).length > 0) throw new MockHttpError(400, 'Planification invalide', errors);
+  return {
+    name,
+    frequency: body.frequency as ReportSchedule['frequency'],
+    day,
+    type: body.type as ReportParams['type'],
+    format: body.format as ReportParams['format'],
+    ...(departments.length > 0 && { departments }),
+    perDivision: body.perDivision === true,
+    enabled: body.enabled !== false,
+  };
+}
+
+const findSchedule = (id: string): ReportSchedule => {
+  const schedule = getDb().reportSchedules.find(s => s.id === id);
+  if (!schedule) throw new MockHttpError(404, 'Planification introuvable');
+  return schedule;
+};
+
+route('GET', E.REPORT_SCHEDULES, () => ok(getDb().reportSchedules));
+
+route('POST', E.REPORT_SCHEDULES, ctx => {
+  const payload = validateReportSchedule(ctx.body ?? {});
+  const now = new Date();
+  const schedule: ReportSchedule = {
+    id: nextId('rsc'),
+    ...payload,
+    nextRunAt: payload.enabled ? nextReportRun(payload, now).toISOString() : null,
+    createdBy: ctx.user?.username ?? 'anonymous',
+    createdAt: now.toISOString(),
+  };
+  getDb().reportSchedules.push(schedule);
+  audit(ctx, 'Create', 'ReportSchedule', schedule.id, schedule.name);
+  return ok(schedule, 'Planification créée');
+});
+
+route('PUT', E.REPORT_SCHEDULE_BY_ID(':id'), ctx => {
+  const schedule = findSchedule(ctx.params.id);
+  const payload = validateReportSchedule({ ...schedule, ...ctx.body });
+  delete schedule.departments;
+  Object.assign(schedule, payload, {
+    nextRunAt: payload.enabled ? nextReportRun(payload, new Date()).toISOString() : null,
+  });
+  audit(ctx, 'Update', 'ReportSchedule', schedule.id, schedule.name);
+  return ok(schedule, 'Planification enregistrée');
+});
+
+route('DELETE', E.REPORT_SCHEDULE_BY_ID(':id'), ctx => {
+  const schedule = findSchedule(ctx.params.id);
+  const db = getDb();
+  db.reportSchedules = db.reportSchedules.filter(s => s.id !== schedule.id);
+  audit(ctx, 'Delete', 'ReportSchedule', schedule.id, schedule.name);
+  return ok(null, 'Planification supprimée');
+});
+
+route('POST', E.REPORT_SCHEDULE_RUN(':id'), async ctx => {
+  const schedule = findSchedule(ctx.params.id);
+  const reports = await runSchedule(schedule, new Date(), ctx);
+  audit(ctx, 'Create', 'Report', schedule.id, `${schedule.name} (exécution manuelle)`);
+  return ok(reports, reports.length === 1 ? 'Rapport généré' : `${reports.length} rapports générés`);
+});
+
+route('GET', E.MONTHLY_REPORT_PDF, ({ query }) => {
+  const year = Number(query.get('year')) || new Date().getFullYear();
+  const month = Number(query.get('month')) || new Date().getMonth() + 1;
+  const from = toIsoDate(new Date(year, month - 1, 1));
+  const to = toIsoDate(new Date(year, month, 0));
+  return buildReportFile({ type: 'monthly-report', format: 'pdf', from, to }).then(file => ({
+    ...file,
+    filename: `rapport_mensuel_${year}_${month}.pdf`,
+  }));
+});
+
+// ============================================================================
+// ROUTES - USERS & SETTINGS
+// ============================================================================
+
+const publicUser = ({ password: _password, ...user }: MockUser) => user;
+
+/**
+ * Agent accounts must be linked to an existing agent, at most one account per agent
+ */
+const validateUserLink = (role: MockUser['role'], matricule: string | undefined, userId?: string): string | undefined => {
+  if (role !== 'Agent') return undefined;
+  if (!matricule || !getDb().agents.some(a => a.matricule === matricule)) {
+    throw new MockHttpError(400, 'Agent introuvable', { matricule: "Matricule d'un agent existant obligatoire" });
+  }
+  if (getDb().users.some(u => u.id !== userId && u.matricule === matricule)) {
+    throw new MockHttpError(409, 'Cet agent a déjà un compte', { matricule: 'Déjà associé à un compte' });
+  }
+  return matricule;
+};
+
+route('GET', E.USERS, ctx => {
+  requireAdmin(ctx);
+  return ok(getDb().users.map(publicUser));
+});
+
+route('POST', E.USERS, ctx => {
+  requireAdmin(ctx);
+  required(ctx.body, ['username', 'email', 'role']);
+  const db = getDb();
+  if (db.users.some(u => u.username === ctx.body.username)) {
+    throw new MockHttpError(409, "Ce nom d'utilisateur existe déjà", { username: 'Déjà utilisé' });
+  }
+  const user: MockUser = {
+    id: nextId('usr'),
+    username: ctx.body.username,
+    email: ctx.body.email,
+    role: ctx.body.role,
+    matricule: validateUserLink(ctx.body.role, ctx.body.matricule),
+    password: 'password123',
+  };
+  db.users.push(user);
+  audit(ctx, 'Create', 'User', user.id);
+  return ok(publicUser(user));
+});
+
+const findUser = (id: string): MockUser => {
+  const user = getDb().users.find(u => u.id === id);
+  if (!user) throw new MockHttpError(404, 'Utilisateur introuvable');
+  return user;
+};
+
+route('GET', E.USER_BY_ID(':id'), ({ params }) => ok(publicUser(findUser(params.id))));
+
+route('PUT', E.USER_BY_ID(':id'), ctx => {
+  requireAdmin(ctx);
+  const user = findUser(ctx.params.id);
+  const { id: _id, password: _password, ...updates } = ctx.body ?? {};
+  const role = updates.role ?? user.role;
+  Object.assign(user, updates, { matricule: validateUserLink(role, updates.matricule ?? user.matricule, user.id) });
+  audit(ctx, 'Update', 'User', user.id);
+  return ok(publicUser(user));
+});
+
+route('DELETE', E.USER_BY_ID(':id'), ctx => {
+  requireAdmin(ctx);
+  if (ctx.user?.id === ctx.params.id) throw new MockHttpError(409, 'Impossible de supprimer votre propre compte');
+  findUser(ctx.params.id);
+  getDb().users = getDb().users.filter(u => u.id !== ctx.params.id);
+  audit(ctx, 'Delete', 'User', ctx.params.id);
+  return ok(null);
+});
+
+route('POST', E.USER_PASSWORD_RESET(':id'), ctx => {
+  requireAdmin(ctx);
+  const user = findUser(ctx.params.id);
+  user.password = 'password123';
+  audit(ctx, 'Update', 'User', user.id, 'Réinitialisation du mot de passe');
+  return ok({ ...publicUser(user), temporaryPassword: 'password123' });
+});
+
+route('POST', E.USER_PASSWORD_UPDATE(':id'), ctx => {
+  if (ctx.user?.id !== ctx.params.id) throw new MockHttpError(403, 'Vous ne pouvez modifier que votre propre mot de passe');
+  const user = findUser(ctx.params.id);
+  if (user.password !== ctx.body?.oldPassword) {
+    throw new MockHttpError(400, 'Mot de passe actuel incorrect', { oldPassword: 'Incorrect' });
+  }
+  required(ctx.body, ['newPassword']);
+  user.password = ctx.body.newPassword;
+  return ok(publicUser(user));
+});
+
+route('GET', E.SETTINGS, () => ok(getSettings()));
+
+route('PUT', E.SETTINGS, ctx => {
+  requireAdmin(ctx);
+  const body = ctx.body ?? {};
+  if (body.availabilityThresholdPercent !== undefined) {
+    const threshold = Number(body.availabilityThresholdPercent);
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > 100) {
+      throw new MockHttpError(400, 'Paramètres invalides', { availabilityThresholdPercent: 'Entre 1 et 100 %' });
+    }
+    body.availabilityThresholdPercent = threshold;
+  }
+  if (body.reportRetentionDays !== undefined) {
+    const days = Number(body.reportRetentionDays);
+    if (!Number.isInteger(days) || days < 1 || days > 730) {
+      throw new MockHttpError(400, 'Paramètres invalides', { reportRetentionDays: 'Entre 1 et 730 jours' });
+    }
+    body.reportRetentionDays = days;
+  }
+  Object.assign(getDb().settings, body);
+  if (body.reportRetentionDays !== undefined) purgeReports();
+  audit(ctx, 'Update', 'Settings', undefined, Object.keys(body).join(', '));
+  return ok(getSettings(), 'Paramètres enregistrés');
+});
+
+route('GET', E.AUDIT_LOGS, ctx => {
+  requireAdmin(ctx);
+  const limit = parseInt(ctx.query.get('limit') || '50', 10);
+  return ok(getDb().auditLogs.slice(0, limit));
+});
+
+route('GET', E.SYSTEM_INFO, () =>
+  ok({
+    name: 'Mock backend (navigateur)',
+    version: `mock-${MOCK_DB_VERSION}`,
+    environment: 'mock',
+    serverTime: new Date().toISOString(),
+  })
+);
+
+// ============================================================================
+// FETCH INTERCEPTOR
+// ============================================================================
+
+/**
+ * Pending forced failure (see mockBackend.failNext)
+ */
+let forcedFailure: { status: number; message: string } | null = null;
+
+/**
+ * Simulated loss of connectivity (see mockBackend.setOffline)
+ */
+let simulatedOffline = false;
+
+/**
+ * Responses already sent for a client ID (X-Client-Id header), so that a
+ * queued write replayed twice is only applied once
+ */
+const clientResponses = new Map<string, { status: number; body: unknown }>();
+
+/**
+ * Wait for the simulated network latency, honouring abort signals
+ */
+function simulateLatency(signal?: AbortSignal | null): Promise<void> {
+  const base = API_CONFIG.MOCK_DELAY;
+  const delay = base > 0 ? Math.round(base * (0.5 + Math.random())) : 0;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const onAbort = () => reject(new DOMException('The operation was aborted.', 'AbortError'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    mockDelay(delay).then(() => {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) return;
+      resolve();
+    });
+  });
+}
+
+const jsonResponse = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Drop-in replacement for fetch() serving API_CONFIG.BASE_URL from the mock store
+ */
+export async function mockFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method || 'GET').toUpperCase();
+  const url = new URL(input, window.location.origin);
+  const basePath = new URL(API_CONFIG.BASE_URL, window.location.origin).pathname.replace(/\/$/, '');
+  const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) || '/' : url.pathname;
+
+  await simulateLatency(init.signal);
+
+  // Like fetch(): no connectivity, no response
+  if (simulatedOffline || navigator.onLine === false) {
+    throw new TypeError('Failed to fetch');
+  }
+
+  let matched: { route: MockRoute; params: Record<string, string> } | null = null;
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = candidate.regex.exec(path);
+    if (match) {
+      const params: Record<string, string> = {};
+      candidate.keys.forEach((key, index) => (params[key] = decodeURIComponent(match[index + 1])));
+      matched = { route: candidate, params };
+      break;
+    }
+  }
+
+  if (!matched) {
+    return jsonResponse(404, { success: false, error: `Route mock inconnue : ${method} ${path}` });
+  }
+
+  // Authentification
+  const headers = (init.headers || {}) as Record<string, string>;
+  const authorization = headers['Authorization'] || headers['authorization'];
+  const user = verifyToken(authorization?.replace(/^Bearer\s+/i, ''), 'access');
+  if (!matched.route.isPublic && !user) {
+    return jsonResponse(401, { success: false, error: 'Token invalide ou expiré' });
+  }
+  if (user?.role === 'Kiosk' && !matched.route.isPublic && !KIOSK_ROUTES.has(`${method} ${matched.route.path}`)) {
+    return jsonResponse(403, { success: false, error: 'Accès non autorisé depuis une borne de pointage' });
+  }
+  if (user?.role === 'Agent' && !matched.route.isPublic && !AGENT_ROUTES.has(`${method} ${matched.route.path}`)) {
+    return jsonResponse(403, { success: false, error: 'Accès limité à votre espace personnel' });
+  }
+
+  // Injection d'erreurs
+  if (forcedFailure) {
+    const failure = forcedFailure;
+    forcedFailure = null;
+    return jsonResponse(failure.status, { success: false, error: failure.message });
+  }
+  if (!matched.route.isPublic && Math.random() < API_CONFIG.MOCK_ERROR_RATE) {
+    return jsonResponse(500, { success: false, error: 'Erreur serveur simulée (mock)' });
+  }
+
+  // Write already applied (replay of a queued request)
+  const clientId = headers['X-Client-Id'];
+  const previous = clientId ? clientResponses.get(clientId) : undefined;
+  if (previous) {
+    return jsonResponse(previous.status, previous.body);
+  }
+
+  try {
+    let body: unknown;
+    if (typeof init.body === 'string' && init.body) {
+      body = JSON.parse(init.body);
+    }
+
+    if (user) await runDueSchedules();
+    const result = await matched.route.handler({ params: matched.params, query: url.searchParams, body, user });
+    persist();
+    if (clientId) clientResponses.set(clientId, { status: 200, body: result });
+
+    if (result && typeof result === 'object' && (result as MockFile).blob instanceof Blob) {
+      const file = result as MockFile;
+      return new Response(file.blob, {
+        status: 200,
+        headers: {
+          'Content-Type': file.blob.type || 'application/octet-stream',
+          'Content-Length': String(file.blob.size),
+          'Content-Disposition': `attachment; filename="${file.filename}"`,
+        },
+      });
+    }
+
+    return jsonResponse(200, result);
+  } catch (error) {
+    if (error instanceof MockHttpError) {
+      const body = { success: false, error: error.message, errors: error.errors };
+      if (clientId) clientResponses.set(clientId, { status: error.status, body });
+      return jsonResponse(error.status, body);
+    }
+    console.error('[mock] Erreur interne', error);
+    return jsonResponse(500, { success: false, error: 'Erreur interne du serveur mock' });
+  }
+}
+
+/**
+ * Developer controls for the mock backend
+ *
+ * Also exposed as `window.mockBackend` in mock mode.
+ *
+ * @example
+ * mockBackend.failNext(422, 'Validation impossible');  // next request fails
+ * mockBackend.setOffline();                            // connection lost (setOffline(false) to restore)
+ * mockBackend.reset();                                 // reseed the store
+ */
+export const mockBackend = {
+  /** Reseed the database */
+  reset(): void {
+    database = createSeedDatabase();
+    persist();
+  },
+  /** Make the next authenticated request fail with the given status */
+  failNext(status = 500, message = 'Erreur serveur simulée (mock)'): void {
+    forcedFailure = { status, message };
+  },
+  /** Simulate a lost connection: every request fails like fetch() without network */
+  setOffline(offline = true): void {
+    simulatedOffline = offline;
+    window.dispatchEvent(new Event(offline ? 'offline' : 'online'));
+  },
+  /** Direct access to the store (read/write, call persist via reset if needed) */
+  get db(): MockDatabase {
+    return getDb();
+  },
+};
+
+if (typeof window !== 'undefined') {
+  (window as any).mockBackend = mockBackend;
+}
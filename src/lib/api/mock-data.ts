@@ -0,0 +1,493 @@
+/**
+ * ============================================================================
+ * MOCK DATA
+ * ============================================================================
+ *
+ * Seed data and deterministic generators used by the in-browser mock backend
+ * (see mock-backend.ts). Only loaded when API_CONFIG.USE_MOCK is true.
+ *
+ * Key Features:
+ * - Seeded agents, schedules, holidays, absences and system users
+ * - Deterministic daily punches (same agent + date → same punches)
+ * - Helpers shared by the mock endpoints (dates, durations)
+ *
+ * @module api/mock-data
+ */
+
+import type {
+  Agent,
+  WorkSchedule,
+  Holiday,
+  LongAbsence,
+  SystemUser,
+  TemporaryExit,
+  AuditLog,
+  AgentBadge,
+  AttendanceCorrection,
+  AppliedCorrection,
+  LeaveRequest,
+  AppNotification,
+  AbsenceEntitlement,
+  AbsenceType,
+  SystemSettings,
+  GeneratedReport,
+  ReportSchedule,
+} from './types';
+import { isHoliday, toIsoDate } from '../utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * System user as stored by the mock backend (with its password)
+ */
+export interface MockUser extends SystemUser {
+  password: string;
+}
+
+/**
+ * Punches of one agent for one day, as computed by the mock backend
+ */
+export interface MockDayPunches {
+  matricule: string;
+  date: string;
+  checkInAM?: string;
+  checkOutAM?: string;
+  checkInPM?: string;
+  checkOutPM?: string;
+  status: 'Present' | 'Absent' | 'Late' | 'Leave' | 'Half-day';
+  workMinutes: number;
+  lateMinutes: number;
+  absenceType?: string;
+  exits: TemporaryExit[];
+  correction?: AppliedCorrection;
+}
+
+/**
+ * Attendance correction as stored by the mock backend (with its attachment)
+ */
+export interface MockCorrection extends AttendanceCorrection {
+  attachmentContent?: string;
+}
+
+/**
+ * Notification as stored by the mock backend (with its recipient)
+ */
+export interface MockNotification extends AppNotification {
+  userId: string;
+}
+
+/**
+ * Whole mock database, persisted in localStorage
+ */
+export interface MockDatabase {
+  version: number;
+  agents: Agent[];
+  schedules: WorkSchedule[];
+  holidays: Holiday[];
+  absences: LongAbsence[];
+  users: MockUser[];
+  /** Manual punch overrides indexed by `${matricule}|${date}` */
+  punches: Record<string, Partial<MockDayPunches>>;
+  /** Current badge of each agent by matricule (the token is signed on each request) */
+  badges: Record<string, Omit<AgentBadge, 'token'>>;
+  /** Manual attendance corrections, most recent first */
+  corrections: MockCorrection[];
+  /** Absence type catalogue (absences, requests and entitlements reference the code) */
+  absenceTypes: AbsenceType[];
+  /** Annual entitlement of each absence type */
+  entitlements: AbsenceEntitlement[];
+  /** Leave requests, most recent first */
+  leaveRequests: LeaveRequest[];
+  /** In-app notifications of every user, most recent first */
+  notifications: MockNotification[];
+  /** Generated reports, most recent first */
+  reports: GeneratedReport[];
+  /** Recurring reports executed by the backend */
+  reportSchedules: ReportSchedule[];
+  settings: Record<string, unknown>;
+  auditLogs: AuditLog[];
+  sequence: number;
+}
+
+/**
+ * Bump when the seed shape changes to force a reseed of stored databases
+ */
+export const MOCK_DB_VERSION = 11;
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+/**
+ * Parse YYYY-MM-DD as a local date
+ */
+export const parseIsoDate = (value: string): Date => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+};
+
+/**
+ * Shift a date by a number of days
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+/**
+ * Convert HH:mm to minutes since midnight
+ */
+export const toMinutes = (time: string): number => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+/**
+ * Convert minutes since midnight to HH:mm
+ */
+export const fromMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Format a duration as "7h 30m"
+ */
+export const formatDuration = (minutes: number): string =>
+  `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+
+/**
+ * Hour of the day the report schedules run
+ */
+export const REPORT_RUN_HOUR = 6;
+
+/**
+ * Next run of a report schedule strictly after a time
+ * (monthly: day 1-28 of the month, weekly: day 1-7 from Monday)
+ */
+export function nextReportRun(schedule: Pick<ReportSchedule, 'frequency' | 'day'>, after: Date): Date {
+  if (schedule.frequency === 'monthly') {
+    const run = new Date(after.getFullYear(), after.getMonth(), schedule.day, REPORT_RUN_HOUR);
+    return run > after ? run : new Date(after.getFullYear(), after.getMonth() + 1, schedule.day, REPORT_RUN_HOUR);
+  }
+  const run = new Date(after.getFullYear(), after.getMonth(), after.getDate(), REPORT_RUN_HOUR);
+  run.setDate(run.getDate() + ((schedule.day % 7) - run.getDay() + 7) % 7);
+  return run > after ? run : addDays(run, 7);
+}
+
+// ============================================================================
+// DETERMINISTIC RANDOM
+// ============================================================================
+
+/**
+ * Hash a string into a 32-bit seed
+ */
+const hashSeed = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Small seeded PRNG (mulberry32) returning numbers in [0, 1)
+ */
+export const seededRandom = (seed: string) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// ============================================================================
+// SEED
+// ============================================================================
+
+const FIRST_NAMES = [
+  'Hery', 'Fara', 'Tiana', 'Rivo', 'Lalao', 'Njaka', 'Voahangy', 'Mamy',
+  'Haingo', 'Toky', 'Soa', 'Andry', 'Nirina', 'Zo', 'Miora', 'Fetra',
+  'Lova', 'Tahina', 'Onja', 'Feno',
+];
+
+const LAST_NAMES = [
+  'RAKOTO', 'RABE', 'RANDRIA', 'RASOA', 'RAZAFY', 'ANDRIAMANANA', 'RAHARISON',
+  'RAJAONARY', 'RAVELO', 'RAMAROSON', 'RAKOTOMALALA', 'RANDRIAMAMPIONONA',
+];
+
+const DIVISIONS: Array<{ division: string; postes: string[] }> = [
+  { division: 'Budget', postes: ['Chef de Division', 'Analyste Budgétaire', 'Agent de Saisie'] },
+  { division: 'Comptabilité', postes: ['Comptable', 'Vérificateur', 'Agent de Saisie'] },
+  { division: 'Ressources Humaines', postes: ['Gestionnaire RH', 'Assistant RH'] },
+  { division: 'Informatique', postes: ['Technicien Informatique', 'Administrateur Réseau'] },
+  { division: 'Secrétariat', postes: ['Secrétaire', 'Planton'] },
+];
+
+/**
+ * Default absence type catalogue: missions and trainings count as presence
+ */
+const ABSENCE_TYPES: AbsenceType[] = [
+  { code: 'CONGE', label: 'Congé', color: '#2563eb', paid: true, requiresJustification: false, countsAsPresence: false },
+  { code: 'AUTORISATION', label: "Autorisation d'absence", color: '#f59e0b', paid: false, requiresJustification: true, countsAsPresence: false },
+  { code: 'PERMISSION', label: 'Permission', color: '#8b5cf6', paid: true, requiresJustification: true, countsAsPresence: false },
+  { code: 'MISSION', label: 'Mission', color: '#0d9488', paid: true, requiresJustification: true, countsAsPresence: true },
+  { code: 'FORMATION', label: 'Formation', color: '#16a34a', paid: true, requiresJustification: false, countsAsPresence: true },
+  { code: 'REPOS_MEDICAL', label: 'Repos médical', color: '#dc2626', paid: true, requiresJustification: true, countsAsPresence: false },
+];
+
+/**
+ * Default entitlements: 30 days of annual leave earned monthly, short
+ * permissions and authorizations granted yearly, no quota for the others
+ * (in force since last year, so that the demo shows a carry-over)
+ */
+const QUOTA_SINCE = new Date().getFullYear() - 1;
+const ENTITLEMENTS: AbsenceEntitlement[] = [
+  { type: 'CONGE', annualDays: 30, accrual: 'Monthly', carryOverDays: 30, countNonWorkingDays: false, sinceYear: QUOTA_SINCE },
+  { type: 'AUTORISATION', annualDays: 15, accrual: 'Annual', carryOverDays: 0, countNonWorkingDays: false, sinceYear: QUOTA_SINCE },
+  { type: 'PERMISSION', annualDays: 10, accrual: 'Annual', carryOverDays: 0, countNonWorkingDays: false, sinceYear: QUOTA_SINCE },
+  { type: 'MISSION', annualDays: null, accrual: 'Annual', carryOverDays: 0, countNonWorkingDays: false, sinceYear: QUOTA_SINCE },
+  { type: 'FORMATION', annualDays: null, accrual: 'Annual', carryOverDays: 0, countNonWorkingDays: false, sinceYear: QUOTA_SINCE },
+  { type: 'REPOS_MEDICAL', annualDays: null, accrual: 'Annual', carryOverDays: 0, countNonWorkingDays: true, sinceYear: QUOTA_SINCE },
+];
+
+/**
+ * Default report schedules: monthly report on the 1st, lateness summary every
+ * Monday and one presence sheet per division each month
+ */
+const REPORT_SCHEDULES: Array<Omit<ReportSchedule, 'nextRunAt' | 'createdAt'>> = [
+  { id: 'rsc-1', name: 'Rapport mensuel', frequency: 'monthly', day: 1, type: 'monthly-report', format: 'pdf', perDivision: false, enabled: true, createdBy: 'admin' },
+  { id: 'rsc-2', name: 'Synthèse hebdomadaire des retards', frequency: 'weekly', day: 1, type: 'lateness-summary', format: 'pdf', perDivision: false, enabled: true, createdBy: 'admin' },
+  { id: 'rsc-3', name: 'Feuille de présence par division', frequency: 'monthly', day: 1, type: 'attendance', format: 'excel', perDivision: true, enabled: true, createdBy: 'admin' },
+];
+
+/**
+ * Default system settings (also fill the keys missing from stored databases)
+ */
+export const DEFAULT_SETTINGS: SystemSettings = {
+  sessionTimeoutMinutes: 30,
+  availabilityThresholdPercent: 30,
+  reportRetentionDays: 90,
+};
+
+/**
+ * Build the initial mock database
+ */
+export function createSeedDatabase(today: Date = new Date()): MockDatabase {
+  const random = seededRandom('mock-seed');
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const agents: Agent[] = Array.from({ length: 36 }, (_, index) => {
+    const { division, postes } = DIVISIONS[index % DIVISIONS.length];
+    return {
+      matricule: `AG${String(index + 1).padStart(4, '0')}`,
+      nom: `${pick(LAST_NAMES)} ${pick(FIRST_NAMES)}`,
+      division,
+      poste: pick(postes),
+      status: index % 17 === 5 ? 'Inactive' : 'Active',
+    };
+  });
+
+  const schedules: WorkSchedule[] = [
+    {
+      id: 'sched-1',
+      name: 'Horaire Standard',
+      morningStart: '08:00',
+      morningEnd: '12:00',
+      afternoonStart: '14:00',
+      afternoonEnd: '17:00',
+      tolerance: '15',
+      isActive: true,
+      deletable: false,
+    },
+    {
+      id: 'sched-2',
+      name: 'Horaire Continu',
+      morningStart: '07:30',
+      morningEnd: '12:00',
+      afternoonStart: '12:30',
+      afternoonEnd: '15:30',
+      tolerance: '10',
+      isActive: false,
+      deletable: true,
+    },
+  ];
+
+  const year = today.getFullYear();
+  const holidays: Holiday[] = [
+    { id: 'hol-1', name: "Jour de l'An", date: `${year}-01-01`, recurring: true },
+    { id: 'hol-2', name: 'Journée Internationale de la Femme', date: `${year}-03-08`, recurring: true },
+    { id: 'hol-3', name: 'Commémoration du 29 Mars', date: `${year}-03-29`, recurring: true },
+    { id: 'hol-4', name: 'Fête du Travail', date: `${year}-05-01`, recurring: true },
+    { id: 'hol-5', name: "Fête de l'Indépendance", date: `${year}-06-26`, recurring: true },
+    { id: 'hol-6', name: 'Assomption', date: `${year}-08-15`, recurring: true },
+    { id: 'hol-7', name: 'Toussaint', date: `${year}-11-01`, recurring: true },
+    { id: 'hol-8', name: 'Noël', date: `${year}-12-25`, recurring: true },
+  ];
+
+  const absences: LongAbsence[] = agents
+    .filter((_, index) => index % 6 === 2)
+    .map((agent, index) => {
+      const start = addDays(today, -10 + index * 4);
+      const end = addDays(start, 2 + (index % 5) * 2);
+      return {
+        id: `abs-${index + 1}`,
+        matricule: agent.matricule,
+        startDate: toIsoDate(start),
+        endDate: toIsoDate(end),
+        type: ABSENCE_TYPES[index % ABSENCE_TYPES.length].code,
+        reason: 'Absence planifiée',
+        createdAt: addDays(start, -7).toISOString(),
+      };
+    });
+
+  const users: MockUser[] = [
+    { id: 'usr-1', username: 'admin', email: 'admin@srb.mg', role: 'Admin', password: 'admin123' },
+    { id: 'usr-2', username: 'manager', email: 'manager@srb.mg', role: 'Manager', password: 'manager123' },
+    { id: 'usr-3', username: 'borne', email: 'borne@srb.mg', role: 'Kiosk', password: 'borne123' },
+    { id: 'usr-4', username: 'agent', email: 'agent@srb.mg', role: 'Agent', matricule: agents[0].matricule, password: 'agent123' },
+  ];
+
+  return {
+    version: MOCK_DB_VERSION,
+    agents,
+    schedules,
+    holidays,
+    absences,
+    users,
+    punches: {},
+    badges: {},
+    corrections: [],
+    absenceTypes: ABSENCE_TYPES.map(t => ({ ...t })),
+    entitlements: ENTITLEMENTS.map(e => ({ ...e })),
+    leaveRequests: [],
+    notifications: [],
+    reports: [],
+    reportSchedules: REPORT_SCHEDULES.map(schedule => ({
+      ...schedule,
+      nextRunAt: nextReportRun(schedule, today).toISOString(),
+      createdAt: today.toISOString(),
+    })),
+    settings: { ...DEFAULT_SETTINGS },
+    auditLogs: [],
+    sequence: 1000,
+  };
+}
+
+// ============================================================================
+// PUNCH GENERATION
+// ============================================================================
+
+/**
+ * True if the date falls on a weekend
+ */
+export const isWeekend = (date: string): boolean => {
+  const day = parseIsoDate(date).getDay();
+  return day === 0 || day === 6;
+};
+
+/**
+ * Compute the punches of an agent for a date
+ *
+ * Results are deterministic so that navigating back and forth shows the
+ * same data. Future dates, weekends and holidays have no punches, dates
+ * covered by a LongAbsence are 'Leave', and manual overrides win.
+ */
+export function computeDayPunches(
+  db: MockDatabase,
+  agent: Agent,
+  date: string,
+  now: Date = new Date()
+): MockDayPunches | null {
+  const today = toIsoDate(now);
+  if (date > today || isWeekend(date) || isHoliday(db.holidays, date) || agent.status === 'Inactive') {
+    return null;
+  }
+
+  const override = db.punches[`${agent.matricule}|${date}`];
+  const schedule = db.schedules.find(s => s.isActive) ?? db.schedules[0];
+  const tolerance = parseInt(schedule.tolerance, 10) || 0;
+
+  const absence = db.absences.find(
+    a => a.matricule === agent.matricule && a.startDate <= date && a.endDate >= date
+  );
+  if (absence && !override) {
+    return {
+      matricule: agent.matricule,
+      date,
+      status: 'Leave',
+      workMinutes: 0,
+      lateMinutes: 0,
+      absenceType: absence.type,
+      exits: [],
+    };
+  }
+
+  const random = seededRandom(`${agent.matricule}|${date}`);
+  const roll = random();
+  const base = {
+    matricule: agent.matricule,
+    date,
+    exits: [] as TemporaryExit[],
+  };
+
+  let generated: MockDayPunches;
+  if (roll < 0.06) {
+    generated = { ...base, status: 'Absent', workMinutes: 0, lateMinutes: 0 };
+  } else {
+    const isLate = roll > 0.86;
+    const halfDay = roll > 0.06 && roll < 0.09;
+    const morningIn = toMinutes(schedule.morningStart) - 10 + Math.floor(random() * 20) + (isLate ? tolerance + 5 + Math.floor(random() * 40) : 0);
+    const morningOut = toMinutes(schedule.morningEnd) + Math.floor(random() * 10);
+    const afternoonIn = toMinutes(schedule.afternoonStart) - 5 + Math.floor(random() * 15);
+    const afternoonOut = toMinutes(schedule.afternoonEnd) + Math.floor(random() * 20) - 5;
+    const isToday = date === today;
+    const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+    const checkInAM = fromMinutes(morningIn);
+    const checkOutAM = !isToday || nowMinutes >= morningOut ? fromMinutes(morningOut) : undefined;
+    const checkInPM = !halfDay && (!isToday || nowMinutes >= afternoonIn) ? fromMinutes(afternoonIn) : undefined;
+    const checkOutPM = !halfDay && (!isToday || nowMinutes >= afternoonOut) ? fromMinutes(afternoonOut) : undefined;
+
+    const exits: TemporaryExit[] = [];
+    if (random() < 0.12 && checkOutPM) {
+      const exitAt = afternoonIn + 30 + Math.floor(random() * 60);
+      const duration = 15 + Math.floor(random() * 45);
+      exits.push({
+        id: `exit-${agent.matricule}-${date}`,
+        attendanceId: `att-${agent.matricule}-${date}`,
+        matricule: agent.matricule,
+        date,
+        exitTime: fromMinutes(exitAt),
+        returnTime: fromMinutes(exitAt + duration),
+        description: 'Sortie administrative',
+        duration,
+      });
+    }
+
+    const workMinutes =
+      (checkOutAM ? morningOut - morningIn : 0) +
+      (checkInPM && checkOutPM ? afternoonOut - afternoonIn : 0) -
+      exits.reduce((sum, e) => sum + (e.duration ?? 0), 0);
+    const lateMinutes = Math.max(0, morningIn - toMinutes(schedule.morningStart) - tolerance);
+
+    generated = {
+      ...base,
+      checkInAM,
+      checkOutAM,
+      checkInPM,
+      checkOutPM,
+      status: halfDay ? 'Half-day' : lateMinutes > 0 ? 'Late' : 'Present',
+      workMinutes: Math.max(0, workMinutes),
+      lateMinutes,
+      exits,
+    };
+  }
+
+  return override ? { ...generated, ...override } : generated;
+}
@@ -0,0 +1,33 @@
+/**
+ * Notifications API Service
+ * Handles the in-app notifications of the logged-in user
+ */
+
+import { API_CONFIG } from './config';
+import { apiClient } from './client';
+import type { AppNotification, ApiResponse } from './types';
+
+class NotificationsService {
+  /**
+   * Get the notifications of the logged-in user (most recent first)
+   */
+  async getNotifications(signal?: AbortSignal): Promise<ApiResponse<AppNotification[]>> {
+    return apiClient.get<ApiResponse<AppNotification[]>>(API_CONFIG.ENDPOINTS.NOTIFICATIONS, { signal });
+  }
+
+  /**
+   * Mark one notification as read
+   */
+  async markAsRead(id: string): Promise<ApiResponse<AppNotification>> {
+    return apiClient.post<ApiResponse<AppNotification>>(API_CONFIG.ENDPOINTS.NOTIFICATION_READ(id));
+  }
+
+  /**
+   * Mark every notification as read
+   */
+  async markAllAsRead(): Promise<ApiResponse<null>> {
+    return apiClient.post<ApiResponse<null>>(API_CONFIG.ENDPOINTS.NOTIFICATIONS_READ_ALL);
+  }
+}
+
+export const notificationsService = new NotificationsService();
@@ -0,0 +1,126 @@
+/**
+ * ============================================================================
+ * OFFLINE DATABASE
+ * ============================================================================
+ *
+ * Minimal promise wrapper around the IndexedDB database of the offline mode
+ * (see api/offline).
+ *
+ * Object stores:
+ * - responses: last response of the cached GET endpoints, by URL
+ * - mutations: writes queued while the backend was unreachable, by client ID
+ * - conflicts: queued writes rejected by the backend on replay, by client ID
+ *
+ * Every function rejects when IndexedDB is unavailable (e.g., private
+ * browsing in some browsers); callers degrade to online-only behaviour.
+ *
+ * @module api/offline-db
+ */
+
+/**
+ * Database name and version (bump the version when adding a store)
+ */
+const DB_NAME = 'staff_attendance_offline';
+const DB_VERSION = 1;
+
+/**
+ * Object stores and their key path
+ */
+const STORES = {
+  responses: 'url',
+  mutations: 'clientId',
+  conflicts: 'clientId',
+} as const;
+
+export type OfflineStoreName = keyof typeof STORES;
+
+/**
+ * Opened database, shared by every call
+ */
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create or upgrade) the database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB indisponible'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORES) as OfflineStoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: STORES[name] });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Allow a new attempt later (e.g., storage freed)
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Run a request on one store and resolve with its result
+ */
+async function run<T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Read a record by key
+ *
+ * @returns {Promise<T | undefined>} The record, undefined if absent
+ */
+export function idbGet<T>(storeName: OfflineStoreName, key: string): Promise<T | undefined> {
+  return run<T | undefined>(storeName, 'readonly', store => store.get(key));
+}
+
+/**
+ * Read every record of a store (in key order)
+ */
+export function idbGetAll<T>(storeName: OfflineStoreName): Promise<T[]> {
+  return run<T[]>(storeName, 'readonly', store => store.getAll());
+}
+
+/**
+ * Insert or replace a record
+ */
+export async function idbPut<T>(storeName: OfflineStoreName, value: T): Promise<void> {
+  await run(storeName, 'readwrite', store => store.put(value));
+}
+
+/**
+ * Delete a record by key
+ */
+export async function idbDelete(storeName: OfflineStoreName, key: string): Promise<void> {
+  await run(storeName, 'readwrite', store => store.delete(key));
+}
+
+/**
+ * Delete every record of a store
+ */
+export async function idbClear(storeName: OfflineStoreName): Promise<void> {
+  await run(storeName, 'readwrite', store => store.clear());
+}
@@ -0,0 +1,489 @@
+/**
+ * ============================================================================
+ * OFFLINE MODE
+ * ============================================================================
+ *
+ * Keeps the application usable when the backend cannot be reached
+ * (regional offices losing connectivity for hours).
+ *
+ * Key Features:
+ * - Read cache: responses of the agents, schedules, holidays and attendance
+ *   endpoints are saved in IndexedDB and served by the API client when the
+ *   backend is unreachable
+ * - Write queue: writes sent with the `offline` option (create absence, add
+ *   holiday, edit agent) are queued with a client ID instead of failing
+ * - Replay through fetchWithAuth when connectivity returns, in queue order,
+ *   with the client ID in the X-Client-Id header so that the backend can
+ *   ignore a write it already applied
+ * - Conflict report: queued writes rejected by the backend (4xx) are kept
+ *   with the reason until the user dismisses them
+ * - Connectivity state and "last synced" time for the Layout banner
+ *
+ * Queued writes belong to the user who made them: they are only replayed
+ * in a session of that same user, never under another account's token.
+ * Logging out asks whether to send or discard them (see
+ * components/LogoutDialog); cached responses and the conflict report are
+ * cleared on logout.
+ *
+ * @module api/offline
+ */
+
+// --- Dependencies ---
+import { API_CONFIG } from './config';
+import { fetchWithAuth, SessionExpiredError } from './fetchWithAuth';
+import { queryClient } from './query-client';
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut } from './offline-db';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Write queued while the backend was unreachable
+ *
+ * @property {string} clientId - Unique ID generated by the browser (sent as X-Client-Id)
+ * @property {string} userId - ID of the user who made the write (only replayed in their sessions)
+ * @property {string} method - HTTP method
+ * @property {string} endpoint - Endpoint path relative to BASE_URL
+ * @property {unknown} body - JSON payload
+ * @property {string} label - Description shown to the user (e.g., 'Jour férié Noël (2026-12-25)')
+ * @property {number} queuedAt - Queue timestamp (replay order)
+ */
+export interface QueuedMutation {
+  clientId: string;
+  userId: string;
+  method: 'POST' | 'PUT' | 'DELETE';
+  endpoint: string;
+  body?: unknown;
+  label: string;
+  queuedAt: number;
+}
+
+/**
+ * Queued write rejected by the backend on replay
+ *
+ * @property {number} status - HTTP status of the rejection
+ * @property {string} message - Reason sent by the backend
+ * @property {number} rejectedAt - Replay timestamp
+ */
+export interface OfflineConflict extends QueuedMutation {
+  status: number;
+  message: string;
+  rejectedAt: number;
+}
+
+/**
+ * Connectivity state
+ *
+ * @property {boolean} online - False since the last request that could not reach the backend
+ * @property {number | null} lastSyncedAt - Timestamp of the last response received from the backend
+ * @property {number} pending - Number of queued writes of the logged-in user
+ * @property {boolean} syncing - True while queued writes are being replayed
+ * @property {OfflineConflict[]} conflicts - Rejected writes not dismissed yet
+ */
+export interface OfflineState {
+  online: boolean;
+  lastSyncedAt: number | null;
+  pending: number;
+  syncing: boolean;
+  conflicts: OfflineConflict[];
+}
+
+/**
+ * Cached response of a GET endpoint
+ */
+interface CachedResponse {
+  url: string;
+  body: unknown;
+  savedAt: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Endpoint prefixes whose GET responses are cached for offline use
+ */
+const CACHED_ENDPOINT_PREFIXES = [
+  API_CONFIG.ENDPOINTS.AGENTS,
+  API_CONFIG.ENDPOINTS.SCHEDULES,
+  API_CONFIG.ENDPOINTS.HOLIDAYS,
+  API_CONFIG.ENDPOINTS.ATTENDANCE,
+];
+
+/**
+ * Cached responses older than this are dropped at startup (ms)
+ */
+const CACHE_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Delay between two replay attempts while writes are pending (ms)
+ */
+const RETRY_INTERVAL = 30 * 1000;
+
+const LAST_SYNCED_KEY = 'offline_last_synced';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Generate a client ID (random UUID when available)
+ */
+const createClientId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Read the reason of a rejected replay from the response body
+ */
+async function readRejection(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body?.message || body?.error || response.statusText || `HTTP ${response.status}`;
+  } catch {
+    return response.statusText || `HTTP ${response.status}`;
+  }
+}
+
+// ============================================================================
+// OFFLINE MANAGER
+// ============================================================================
+
+/**
+ * Offline Manager Class
+ *
+ * Holds the connectivity state, the read cache and the write queue,
+ * and notifies subscribers on every state change.
+ */
+class OfflineManager {
+  private state: OfflineState = {
+    online: typeof navigator === 'undefined' || navigator.onLine !== false,
+    lastSyncedAt: Number(localStorage.getItem(LAST_SYNCED_KEY)) || null,
+    pending: 0,
+    syncing: false,
+    conflicts: [],
+  };
+  private listeners = new Set<() => void>();
+  private replayPromise: Promise<void> | null = null;
+  private lastQueuedAt = 0;
+  private started = false;
+  private userId: string | null = null;
+
+  /**
+   * Replace the state and notify subscribers
+   */
+  private update(patch: Partial<OfflineState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Current state (stable reference between changes)
+   */
+  getState(): OfflineState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to state changes
+   *
+   * @returns {Function} Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Load the queue and the conflicts, listen to connectivity changes
+   * and replay pending writes (called once at startup)
+   */
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    window.addEventListener('online', () => this.retry());
+    window.addEventListener('offline', () => this.update({ online: false }));
+    setInterval(() => {
+      if (this.state.pending > 0 && !this.state.syncing) this.replay();
+    }, RETRY_INTERVAL);
+
+    try {
+      const [mutations, responses] = await Promise.all([
+        idbGetAll<QueuedMutation>('mutations'),
+        idbGetAll<CachedResponse>('responses'),
+      ]);
+      this.lastQueuedAt = Math.max(0, ...mutations.map(m => m.queuedAt));
+
+      // Writes queued without their author cannot be attributed to anyone
+      const orphans = mutations.filter(m => !m.userId);
+      await Promise.all(orphans.map(m => idbDelete('mutations', m.clientId)));
+
+      const expired = responses.filter(entry => Date.now() - entry.savedAt > CACHE_MAX_AGE);
+      await Promise.all(expired.map(entry => idbDelete('responses', entry.url)));
+    } catch (error) {
+      console.warn('Mode hors ligne indisponible :', error);
+      return;
+    }
+
+    await this.loadUserQueue();
+  }
+
+  // --------------------------------------------------------------------------
+  // Session
+  // --------------------------------------------------------------------------
+
+  /**
+   * Set the logged-in user (null on logout): only their queued writes are
+   * counted and replayed
+   */
+  async setUser(userId: string | null): Promise<void> {
+    if (userId === this.userId) return;
+    this.userId = userId;
+    this.update({ pending: 0, conflicts: [] });
+    if (this.started) await this.loadUserQueue();
+  }
+
+  /**
+   * Load the queue and the conflicts of the logged-in user, replay the queue
+   * if the backend is reachable
+   */
+  private async loadUserQueue(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+    try {
+      const [mutations, conflicts] = await Promise.all([
+        idbGetAll<QueuedMutation>('mutations'),
+        idbGetAll<OfflineConflict>('conflicts'),
+      ]);
+      if (userId !== this.userId) return;
+      this.update({
+        pending: mutations.filter(m => m.userId === userId).length,
+        conflicts: conflicts.filter(c => c.userId === userId).sort((a, b) => a.rejectedAt - b.rejectedAt),
+      });
+    } catch {
+      return;
+    }
+
+    if (this.state.pending > 0 && this.state.online) this.replay();
+  }
+
+  // --------------------------------------------------------------------------
+  // Connectivity
+  // --------------------------------------------------------------------------
+
+  /**
+   * Record a response received from the backend
+   * (coming back online replays the queue and refreshes the displayed data)
+   */
+  markOnline(): void {
+    const now = Date.now();
+    localStorage.setItem(LAST_SYNCED_KEY, String(now));
+
+    if (this.state.online) {
+      this.state = { ...this.state, lastSyncedAt: now };
+      return;
+    }
+    this.update({ online: true, lastSyncedAt: now });
+    this.retry();
+  }
+
+  /**
+   * Record a request that could not reach the backend
+   */
+  markOffline(): void {
+    if (this.state.online) this.update({ online: false });
+  }
+
+  /**
+   * Replay pending writes, then refresh every displayed query
+   */
+  async retry(): Promise<void> {
+    await this.replay();
+    queryClient.invalidate([]);
+  }
+
+  // --------------------------------------------------------------------------
+  // Read cache
+  // --------------------------------------------------------------------------
+
+  /**
+   * True if the GET response of this endpoint is cached for offline use
+   */
+  isCached(endpoint: string): boolean {
+    return CACHED_ENDPOINT_PREFIXES.some(prefix => endpoint === prefix || endpoint.startsWith(`${prefix}/`));
+  }
+
+  /**
+   * Save the response of a cached endpoint (failures are ignored)
+   */
+  saveResponse(url: string, body: unknown): void {
+    idbPut<CachedResponse>('responses', { url, body, savedAt: Date.now() }).catch(() => {
+      // Quota exceeded or IndexedDB unavailable: the cache is best effort
+    });
+  }
+
+  /**
+   * Last saved response of a URL
+   *
+   * @returns {Promise<T | undefined>} Response body, undefined if never cached
+   */
+  async readResponse<T>(url: string): Promise<T | undefined> {
+    try {
+      const entry = await idbGet<CachedResponse>('responses', url);
+      return entry?.body as T | undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Remove every cached response (e.g., on logout)
+   */
+  clearCache(): void {
+    idbClear('responses').catch(() => undefined);
+  }
+
+  // --------------------------------------------------------------------------
+  // Write queue
+  // --------------------------------------------------------------------------
+
+  /**
+   * Queue a write to be sent when connectivity returns
+   *
+   * @returns {Promise<QueuedMutation>} The queued write (with its client ID and author)
+   * @throws If no user is logged in or IndexedDB is unavailable (the write cannot be kept)
+   */
+  async enqueue(mutation: Pick<QueuedMutation, 'method' | 'endpoint' | 'body' | 'label'>): Promise<QueuedMutation> {
+    if (!this.userId) throw new Error('Aucune session : la modification ne peut pas être conservée');
+    this.lastQueuedAt = Math.max(Date.now(), this.lastQueuedAt + 1);
+    const queued: QueuedMutation = {
+      ...mutation,
+      clientId: createClientId(),
+      userId: this.userId,
+      queuedAt: this.lastQueuedAt,
+    };
+
+    await idbPut('mutations', queued);
+    this.update({ pending: this.state.pending + 1 });
+    return queued;
+  }
+
+  /**
+   * Drop the queued writes of the logged-in user (logout without sending them)
+   */
+  async discardPending(): Promise<void> {
+    const userId = this.userId;
+    const mutations = await idbGetAll<QueuedMutation>('mutations').catch(() => [] as QueuedMutation[]);
+    await Promise.all(
+      mutations.filter(m => m.userId === userId).map(m => idbDelete('mutations', m.clientId).catch(() => undefined))
+    );
+    this.update({ pending: 0 });
+  }
+
+  /**
+   * Send the queued writes of the logged-in user in order
+   *
+   * - Accepted: removed from the queue
+   * - Rejected (4xx): moved to the conflict report
+   * - Backend unreachable or failing (5xx): kept, replay stops until the next attempt
+   *
+   * Only one replay runs at a time.
+   */
+  replay(): Promise<void> {
+    if (!this.replayPromise) {
+      this.replayPromise = this.replayQueue().finally(() => {
+        this.replayPromise = null;
+      });
+    }
+    return this.replayPromise;
+  }
+
+  private async replayQueue(): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+
+    let mutations: QueuedMutation[];
+    try {
+      mutations = (await idbGetAll<QueuedMutation>('mutations'))
+        .filter(m => m.userId === userId)
+        .sort((a, b) => a.queuedAt - b.queuedAt);
+    } catch {
+      return;
+    }
+    if (mutations.length === 0) {
+      if (this.state.pending !== 0) this.update({ pending: 0 });
+      return;
+    }
+
+    this.update({ syncing: true, pending: mutations.length });
+    const conflicts: OfflineConflict[] = [];
+
+    try {
+      for (const mutation of mutations) {
+        // Logged out during the replay: the rest waits for the author's next session
+        if (this.userId !== userId) break;
+
+        let response: Response;
+        try {
+          response = await fetchWithAuth(`${API_CONFIG.BASE_URL}${mutation.endpoint}`, {
+            method: mutation.method,
+            headers: { 'X-Client-Id': mutation.clientId },
+            body: mutation.body !== undefined ? JSON.stringify(mutation.body) : undefined,
+          });
+        } catch (error) {
+          // Still offline, or session expired: try again later
+          if (!(error instanceof SessionExpiredError)) this.markOffline();
+          break;
+        }
+
+        this.markOnline();
+        if (response.status >= 500 || response.status === 408 || response.status === 429) break;
+
+        if (!response.ok) {
+          const conflict: OfflineConflict = {
+            ...mutation,
+            status: response.status,
+            message: await readRejection(response),
+            rejectedAt: Date.now(),
+          };
+          await idbPut('conflicts', conflict);
+          conflicts.push(conflict);
+        }
+
+        await idbDelete('mutations', mutation.clientId);
+        if (this.userId === userId) this.update({ pending: Math.max(0, this.state.pending - 1) });
+      }
+    } finally {
+      this.update({
+        syncing: false,
+        conflicts: this.userId === userId ? [...this.state.conflicts, ...conflicts] : this.state.conflicts,
+      });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Conflict report
+  // --------------------------------------------------------------------------
+
+  /**
+   * Remove the rejected writes of the logged-in user from the report
+   * (also on logout; the reports of the other users of the device are kept)
+   */
+  async dismissConflicts(): Promise<void> {
+    const userId = this.userId;
+    const conflicts = await idbGetAll<OfflineConflict>('conflicts').catch(() => [] as OfflineConflict[]);
+    await Promise.all(
+      conflicts.filter(c => c.userId === userId).map(c => idbDelete('conflicts', c.clientId).catch(() => undefined))
+    );
+    this.update({ conflicts: [] });
+  }
+}
+
+// --- Export Singleton Instance ---
+export const offlineManager = new OfflineManager();
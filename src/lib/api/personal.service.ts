@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * PERSONAL API SERVICE
+ * ============================================================================
+ *
+ * Self-service portal of the Agent role: the logged-in agent's own data.
+ *
+ * Key Features:
+ * - Own profile, attendance history and daily punches with temporary exits
+ * - Own long absences
+ * - Own QR badge
+ * - Monthly attendance statement (PDF)
+ * - Own leave requests (submit, follow up, withdraw)
+ *
+ * No method takes a matricule: the backend scopes every request to the
+ * agent linked to the account (see SystemUser.matricule), so an agent can
+ * never read another agent's data.
+ *
+ * @module api/personal.service
+ */
+
+// --- Dependencies ---
+import { API_CONFIG } from './config';
+import { apiClient, type DownloadResult } from './client';
+import type {
+  Agent,
+  AgentAttendance,
+  AgentBadge,
+  DailyAttendanceDetails,
+  TemporaryExit,
+  LongAbsence,
+  LeaveRequest,
+  LeaveRequestPayload,
+  ApiResponse,
+} from './types';
+
+/**
+ * Personal Service Class
+ */
+class PersonalService {
+  /**
+   * Get the agent linked to the logged-in account
+   *
+   * API Endpoint: GET /me/agent
+   */
+  async getAgent(signal?: AbortSignal): Promise<ApiResponse<Agent>> {
+    return apiClient.get<ApiResponse<Agent>>(API_CONFIG.ENDPOINTS.ME_AGENT, { signal });
+  }
+
+  /**
+   * Get the own attendance history
+   *
+   * API Endpoint: GET /me/attendance
+   *
+   * @param {Object} params - Optional date range (YYYY-MM-DD, default: last 30 days)
+   */
+  async getAttendance(
+    params?: { from?: string; to?: string },
+    signal?: AbortSignal
+  ): Promise<ApiResponse<AgentAttendance[]>> {
+    return apiClient.get<ApiResponse<AgentAttendance[]>>(API_CONFIG.ENDPOINTS.ME_ATTENDANCE, { params, signal });
+  }
+
+  /**
+   * Get the own punches of a day (404 on days without punches)
+   *
+   * API Endpoint: GET /me/attendance/:date
+   */
+  async getDailyAttendance(date: string, signal?: AbortSignal): Promise<ApiResponse<DailyAttendanceDetails>> {
+    return apiClient.get<ApiResponse<DailyAttendanceDetails>>(API_CONFIG.ENDPOINTS.ME_DAILY_ATTENDANCE(date), { signal });
+  }
+
+  /**
+   * Get the own temporary exits of a day
+   *
+   * API Endpoint: GET /me/temporary-exits/:date
+   */
+  async getTemporaryExits(date: string, signal?: AbortSignal): Promise<ApiResponse<TemporaryExit[]>> {
+    return apiClient.get<ApiResponse<TemporaryExit[]>>(API_CONFIG.ENDPOINTS.ME_TEMPORARY_EXITS(date), { signal });
+  }
+
+  /**
+   * Get the own long absences
+   *
+   * API Endpoint: GET /me/absences
+   */
+  async getAbsences(signal?: AbortSignal): Promise<ApiResponse<LongAbsence[]>> {
+    return apiClient.get<ApiResponse<LongAbsence[]>>(API_CONFIG.ENDPOINTS.ME_ABSENCES, { signal });
+  }
+
+  /**
+   * Get the own current QR badge
+   *
+   * API Endpoint: GET /me/badge
+   */
+  async getBadge(signal?: AbortSignal): Promise<ApiResponse<AgentBadge>> {
+    return apiClient.get<ApiResponse<AgentBadge>>(API_CONFIG.ENDPOINTS.ME_BADGE, { signal });
+  }
+
+  /**
+   * Download the own monthly attendance statement
+   *
+   * API Endpoint: GET /me/statement
+   *
+   * @param {number} year - Year (e.g., 2026)
+   * @param {number} month - Month (1-12)
+   */
+  async downloadStatement(year: number, month: number): Promise<DownloadResult> {
+    return apiClient.download('GET', API_CONFIG.ENDPOINTS.ME_STATEMENT, {
+      params: { year, month },
+      accept: 'application/pdf',
+      fallbackFilename: `releve_${year}_${String(month).padStart(2, '0')}.pdf`,
+    });
+  }
+
+  /**
+   * Get the own leave requests (most recent first)
+   *
+   * API Endpoint: GET /me/leave-requests
+   */
+  async getLeaveRequests(signal?: AbortSignal): Promise<ApiResponse<LeaveRequest[]>> {
+    return apiClient.get<ApiResponse<LeaveRequest[]>>(API_CONFIG.ENDPOINTS.ME_LEAVE_REQUESTS, { signal });
+  }
+
+  /**
+   * Submit a leave request
+   *
+   * API Endpoint: POST /me/leave-requests
+   */
+  async createLeaveRequest(payload: Omit<LeaveRequestPayload, 'matricule'>): Promise<ApiResponse<LeaveRequest>> {
+    return apiClient.post<ApiResponse<LeaveRequest>>(API_CONFIG.ENDPOINTS.ME_LEAVE_REQUESTS, payload);
+  }
+
+  /**
+   * Withdraw an own pending leave request
+   *
+   * API Endpoint: POST /me/leave-requests/:id/cancel
+   */
+  async cancelLeaveRequest(id: string): Promise<ApiResponse<LeaveRequest>> {
+    return apiClient.post<ApiResponse<LeaveRequest>>(API_CONFIG.ENDPOINTS.ME_LEAVE_REQUEST_CANCEL(id));
+  }
+}
+
+export const personalService = new PersonalService();
@@ -0,0 +1,421 @@
+/**
+ * ============================================================================
+ * QUERY CLIENT
+ * ============================================================================
+ *
+ * Keyed cache of API query results shared by every component (see the
+ * useApiQuery hook). Cached data is shown immediately while a fresh copy is
+ * fetched in the background (stale-while-revalidate), so pages no longer
+ * flash skeletons on each navigation.
+ *
+ * Key Features:
+ * - Cache entries identified by keys (e.g., ['agents', 'list', { page: 1 }])
+ * - Deduplication of in-flight requests with the same key
+ * - Stale time per query, background revalidation
+ * - Invalidation by key prefix after mutations
+ * - Cancellation (AbortController) when the last subscriber unmounts
+ * - Direct cache writes (setData) for optimistic updates
+ *
+ * @module api/query-client
+ */
+
+// --- Dependencies ---
+import { getErrorMessage } from './client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Query key: an array whose first items identify the resource
+ * and whose last item usually holds the query params
+ *
+ * @example
+ * ['agents', 'list', { page: 1, search: 'rakoto' }]
+ */
+export type QueryKey = readonly unknown[];
+
+/**
+ * Function loading the data of a query
+ * The signal is aborted when the query is cancelled.
+ */
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+/**
+ * Public state of a cache entry
+ *
+ * @property {T | undefined} data - Last successfully fetched data
+ * @property {string | null} error - Message of the last error (cleared on success)
+ * @property {number} updatedAt - Timestamp of the last successful fetch (0 = never or invalidated)
+ * @property {boolean} isFetching - True while a request is in flight
+ */
+export interface QueryState<T> {
+  data: T | undefined;
+  error: string | null;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+/**
+ * Internal cache entry
+ */
+interface QueryEntry<T> {
+  key: QueryKey;
+  state: QueryState<T>;
+  fetcher: QueryFetcher<T> | null;
+  promise: Promise<T> | null;
+  controller: AbortController | null;
+  listeners: Set<() => void>;
+  gcTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Default time during which cached data is considered fresh (ms)
+ */
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+/**
+ * Time an unused entry is kept in the cache (ms)
+ */
+const CACHE_TIME = 5 * 60 * 1000;
+
+const EMPTY_STATE: QueryState<never> = { data: undefined, error: null, updatedAt: 0, isFetching: false };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Serialize a key (object properties are sorted so that
+ * { a: 1, b: 2 } and { b: 2, a: 1 } give the same hash)
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return JSON.stringify(key, (_, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.keys(value)
+          .sort()
+          .reduce<Record<string, unknown>>((sorted, name) => {
+            if (value[name] !== undefined) sorted[name] = value[name];
+            return sorted;
+          }, {})
+      : value
+  );
+}
+
+/**
+ * True if `key` starts with every item of `prefix`
+ */
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean =>
+  prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// ============================================================================
+// QUERY CLIENT
+// ============================================================================
+
+/**
+ * Query Client Class
+ *
+ * Holds the cache entries and notifies subscribers on every change.
+ */
+class QueryClient {
+  private entries = new Map<string, QueryEntry<any>>();
+
+  /**
+   * Get (or create) the entry of a key
+   */
+  private getEntry<T>(key: QueryKey): QueryEntry<T> {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash) as QueryEntry<T> | undefined;
+    if (!entry) {
+      entry = {
+        key,
+        state: EMPTY_STATE,
+        fetcher: null,
+        promise: null,
+        controller: null,
+        listeners: new Set(),
+        gcTimer: null,
+      };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Replace the state of an entry and notify its subscribers
+   * (a new object is created so that React sees the change)
+   */
+  private update<T>(entry: QueryEntry<T>, patch: Partial<QueryState<T>>): void {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Current state of a query (stable reference between changes)
+   */
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashQueryKey(key))?.state as QueryState<T>) ?? EMPTY_STATE;
+  }
+
+  /**
+   * Cached data of a query, if any
+   */
+  getData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  /**
+   * True if the query has no data or its data is older than staleTime
+   */
+  isStale(key: QueryKey, staleTime: number = DEFAULT_STALE_TIME): boolean {
+    const { updatedAt } = this.getState(key);
+    return updatedAt === 0 || Date.now() - updatedAt > staleTime;
+  }
+
+  /**
+   * Subscribe to the changes of a query
+   *
+   * When the last subscriber leaves, the in-flight request is aborted
+   * and the entry is garbage-collected after CACHE_TIME.
+   *
+   * @returns {Function} Unsubscribe function
+   */
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    if (entry.gcTimer) {
+      clearTimeout(entry.gcTimer);
+      entry.gcTimer = null;
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size > 0) return;
+
+      this.cancel(key);
+      entry.gcTimer = setTimeout(() => {
+        if (entry.listeners.size === 0) this.entries.delete(hashQueryKey(key));
+      }, CACHE_TIME);
+    };
+  }
+
+  /**
+   * Fetch a query
+   *
+   * - A request already in flight for the same key is reused (dedup)
+   * - Fresh data (younger than staleTime) is returned without a request, unless `force`
+   *
+   * @param {QueryKey} key - Query key
+   * @param {QueryFetcher<T>} fetcher - Function loading the data
+   * @param {Object} options - staleTime (ms) and force
+   * @returns {Promise<T>} The data
+   * @throws The fetcher error (also stored in the entry state)
+   */
+  fetch<T>(
+    key: QueryKey,
+    fetcher: QueryFetcher<T>,
+    options: { staleTime?: number; force?: boolean } = {}
+  ): Promise<T> {
+    const entry = this.getEntry<T>(key);
+    entry.fetcher = fetcher;
+
+    if (entry.promise) return entry.promise;
+    if (!options.force && entry.state.data !== undefined && !this.isStale(key, options.staleTime)) {
+      return Promise.resolve(entry.state.data);
+    }
+
+    const controller = new AbortController();
+    const promise = fetcher(controller.signal)
+      .then(data => {
+        if (entry.promise === promise) {
+          this.update(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        }
+        return data;
+      })
+      .catch(error => {
+        if (entry.promise === promise && !isAbortError(error)) {
+          this.update(entry, { error: getErrorMessage(error), isFetching: false });
+        }
+        throw error;
+      })
+      .finally(() => {
+        if (entry.promise === promise) {
+          entry.promise = null;
+          entry.controller = null;
+        }
+      });
+
+    entry.promise = promise;
+    entry.controller = controller;
+    this.update(entry, { isFetching: true });
+    return promise;
+  }
+
+  /**
+   * Abort the in-flight request of a query
+   */
+  cancel(key: QueryKey): void {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (!entry?.controller) return;
+
+    entry.controller.abort();
+    entry.controller = null;
+    entry.promise = null;
+    this.update(entry, { isFetching: false });
+  }
+
+  /**
+   * Invalidate every query whose key starts with `prefix`
+   *
+   * Invalidated queries are marked stale; those currently displayed
+   * are refetched in the background.
+   *
+   * @example
+   * // After creating an agent, every agents list is refreshed
+   * queryClient.invalidate(['agents']);
+   */
+  invalidate(prefix: QueryKey): void {
+    this.entries.forEach(entry => {
+      if (!matchesPrefix(entry.key, prefix)) return;
+
+      // An in-flight request may return data older than the mutation
+      if (entry.controller) this.cancel(entry.key);
+      this.update(entry, { updatedAt: 0 });
+
+      if (entry.listeners.size > 0 && entry.fetcher) {
+        this.fetch(entry.key, entry.fetcher, { force: true }).catch(() => {
+          // Error stored in the entry state
+        });
+      }
+    });
+  }
+
+  /**
+   * Write the data of a query directly (optimistic updates)
+   *
+   * @param {QueryKey} key - Query key
+   * @param {Function} updater - Receives the cached data, returns the new data
+   *
+   * @example
+   * queryClient.setData<Agent[]>(['agents', 'list', params], agents => [...(agents ?? []), agent]);
+   */
+  setData<T>(key: QueryKey, updater: (data: T | undefined) => T): void {
+    const entry = this.getEntry<T>(key);
+    this.update(entry, { data: updater(entry.state.data), error: null });
+  }
+
+  /**
+   * Snapshot the data of every query whose key starts with `prefix`
+   * (used to roll back optimistic updates)
+   */
+  getQueriesData<T>(prefix: QueryKey): Array<[QueryKey, T | undefined]> {
+    const result: Array<[QueryKey, T | undefined]> = [];
+    this.entries.forEach(entry => {
+      if (matchesPrefix(entry.key, prefix)) result.push([entry.key, entry.state.data]);
+    });
+    return result;
+  }
+
+  /**
+   * Remove every cached query (e.g., on logout)
+   */
+  clear(): void {
+    this.entries.forEach(entry => {
+      entry.controller?.abort();
+      if (entry.gcTimer) clearTimeout(entry.gcTimer);
+    });
+    this.entries.clear();
+  }
+}
+
+// --- Export Singleton Instance ---
+export const queryClient = new QueryClient();
+
+// ============================================================================
+// QUERY KEYS
+// ============================================================================
+
+/**
+ * Query key factory
+ *
+ * Keeps keys consistent between queries and invalidations:
+ * invalidating `queryKeys.agents.all` refreshes every agents query.
+ */
+export const queryKeys = {
+  agents: {
+    all: ['agents'] as const,
+    list: (params?: object) => ['agents', 'list', params ?? {}] as const,
+    divisions: () => ['agents', 'divisions'] as const,
+    absences: (matricule: string) => ['agents', 'absences', matricule] as const,
+    dailyAttendance: (matricule: string, date: string) => ['agents', 'daily-attendance', matricule, date] as const,
+    attendance: (matricule: string, params?: object) => ['agents', 'attendance', matricule, params ?? {}] as const,
+    badge: (matricule: string) => ['agents', 'badge', matricule] as const,
+    badges: (matricules: string[]) => ['agents', 'badges', matricules] as const,
+    availability: (params?: object) => ['agents', 'availability', params ?? {}] as const,
+  },
+  schedules: {
+    all: ['schedules'] as const,
+    list: () => ['schedules', 'list'] as const,
+    active: () => ['schedules', 'active'] as const,
+  },
+  personal: {
+    all: ['personal'] as const,
+    agent: () => ['personal', 'agent'] as const,
+    attendance: (params?: object) => ['personal', 'attendance', params ?? {}] as const,
+    daily: (date: string) => ['personal', 'daily', date] as const,
+    exits: (date: string) => ['personal', 'exits', date] as const,
+    absences: () => ['personal', 'absences'] as const,
+    badge: () => ['personal', 'badge'] as const,
+    leaveRequests: () => ['personal', 'leave-requests'] as const,
+  },
+  corrections: {
+    all: ['corrections'] as const,
+    list: (params?: object) => ['corrections', 'list', params ?? {}] as const,
+  },
+  leaveRequests: {
+    all: ['leave-requests'] as const,
+    list: (params?: object) => ['leave-requests', 'list', params ?? {}] as const,
+  },
+  entitlements: {
+    all: ['entitlements'] as const,
+  },
+  absenceTypes: {
+    all: ['absence-types'] as const,
+  },
+  settings: {
+    all: ['settings'] as const,
+  },
+  notifications: {
+    all: ['notifications'] as const,
+  },
+  holidays: {
+    all: ['holidays'] as const,
+    list: (params?: object) => ['holidays', 'list', params ?? {}] as const,
+  },
+  statistics: {
+    all: ['statistics'] as const,
+    dashboard: () => ['statistics', 'dashboard'] as const,
+    attendance: (params?: object) => ['statistics', 'attendance', params ?? {}] as const,
+    activities: (limit: number) => ['statistics', 'activities', limit] as const,
+    divisions: (params: object) => ['statistics', 'divisions', params] as const,
+    punctuality: (params: object) => ['statistics', 'punctuality', params] as const,
+    absenceRates: (params: object) => ['statistics', 'absence-rates', params] as const,
+    statusDistribution: (params: object) => ['statistics', 'status-distribution', params] as const,
+  },
+  reports: {
+    all: ['reports'] as const,
+    preview: (params: object) => ['reports', 'preview', params] as const,
+    schedules: () => ['reports', 'schedules'] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    list: () => ['users', 'list'] as const,
+  },
+};
@@ -1,36 +1,165 @@
-import { API_CONFIG } from "./config";
-
-export async function generateMonthlyReport(year: number, month: number): Promise<void> {
-    try {
-      const response = await fetch(
-        `${API_CONFIG.BASE_URL}/report/monthly/pdf?year=${year}&month=${month}`,
-        {
-          method: "GET",
-          headers: {
-            "Content-Type": "application/pdf",
-          },
-        }
-      );
-  
-      if (!response.ok) {
-        throw new Error("Erreur lors de la génération du rapport");
-      }
-  
-      // Récupère le PDF en blob
-      const blob = await response.blob();
-  
-      // Création du lien de téléchargement
-      const url = window.URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-  
-      link.download = `rapport_mensuel_${year}_${month}.pdf`;
-      link.click();
-  
-      window.URL.revokeObjectURL(url);
-    } catch (err) {
-      console.error("Erreur:", err);
-      throw err;
-    }
-  }
-  
\ No newline at end of file
+/**
+ * ============================================================================
+ * REPORT API SERVICE
+ * ============================================================================
+ *
+ * Report generation module: attendance reports over a month or any period,
+ * limited to divisions or agents.
+ *
+ * Key Features:
+ * - In-app preview of the report rows before download
+ * - Generation with download progress
+ * - History of the generated reports, downloadable again, pinned out of the retention period
+ * - Recurring reports executed by the backend (report schedules)
+ * - Monthly PDF report
+ *
+ * @module api/report.service
+ */
+
+// --- Dependencies ---
+import { API_CONFIG } from './config';
+import { apiClient, type DownloadProgress, type DownloadResult } from './client';
+import type {
+  ApiResponse,
+  GeneratedReport,
+  ReportParams,
+  ReportPreview,
+  ReportSchedule,
+  ReportSchedulePayload,
+} from './types';
+
+type DownloadOptions = { onProgress?: (progress: DownloadProgress) => void; signal?: AbortSignal };
+
+/**
+ * Report Service Class
+ */
+class ReportService {
+  /**
+   * Get the history of the generated reports (most recent first)
+   *
+   * API Endpoint: GET /statistics/reports
+   */
+  async getReports(signal?: AbortSignal): Promise<ApiResponse<GeneratedReport[]>> {
+    return apiClient.get<ApiResponse<GeneratedReport[]>>(API_CONFIG.ENDPOINTS.REPORTS, { signal });
+  }
+
+  /**
+   * Preview the rows of a report without generating the file
+   *
+   * API Endpoint: POST /statistics/reports/preview
+   */
+  async previewReport(params: ReportParams, signal?: AbortSignal): Promise<ApiResponse<ReportPreview>> {
+    return apiClient.post<ApiResponse<ReportPreview>>(API_CONFIG.ENDPOINTS.REPORT_PREVIEW, params, { signal });
+  }
+
+  /**
+   * Generate a report and record it in the history (use saveBlob to download it)
+   *
+   * API Endpoint: POST /statistics/reports
+   */
+  async generateReport(params: ReportParams, options: DownloadOptions = {}): Promise<DownloadResult> {
+    const extension = params.format === 'excel' ? 'xlsx' : params.format;
+    return apiClient.download('POST', API_CONFIG.ENDPOINTS.REPORTS, {
+      body: params,
+      fallbackFilename: `rapport_${params.type}_${params.from}_${params.to}.${extension}`,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Download a report of the history again
+   *
+   * API Endpoint: GET /statistics/reports/:id/file
+   */
+  async downloadReport(report: GeneratedReport, options: DownloadOptions = {}): Promise<DownloadResult> {
+    return apiClient.download('GET', API_CONFIG.ENDPOINTS.REPORT_FILE(report.id), {
+      fallbackFilename: report.filename,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+  }
+
+  /**
+   * Pin a report (kept whatever the retention period) or unpin it
+   *
+   * API Endpoint: PUT /statistics/reports/:id
+   */
+  async setReportPinned(id: string, pinned: boolean): Promise<ApiResponse<GeneratedReport>> {
+    return apiClient.put<ApiResponse<GeneratedReport>>(API_CONFIG.ENDPOINTS.REPORT_BY_ID(id), { pinned });
+  }
+
+  /**
+   * Remove a report from the history
+   *
+   * API Endpoint: DELETE /statistics/reports/:id
+   */
+  async deleteReport(id: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(API_CONFIG.ENDPOINTS.REPORT_BY_ID(id));
+  }
+
+  /**
+   * Get the report schedules
+   *
+   * API Endpoint: GET /statistics/report-schedules
+   */
+  async getSchedules(signal?: AbortSignal): Promise<ApiResponse<ReportSchedule[]>> {
+    return apiClient.get<ApiResponse<ReportSchedule[]>>(API_CONFIG.ENDPOINTS.REPORT_SCHEDULES, { signal });
+  }
+
+  /**
+   * Create a report schedule
+   *
+   * API Endpoint: POST /statistics/report-schedules
+   */
+  async createSchedule(payload: ReportSchedulePayload): Promise<ApiResponse<ReportSchedule>> {
+    return apiClient.post<ApiResponse<ReportSchedule>>(API_CONFIG.ENDPOINTS.REPORT_SCHEDULES, payload);
+  }
+
+  /**
+   * Update a report schedule (the next run is computed again)
+   *
+   * API Endpoint: PUT /statistics/report-schedules/:id
+   */
+  async updateSchedule(id: string, payload: Partial<ReportSchedulePayload>): Promise<ApiResponse<ReportSchedule>> {
+    return apiClient.put<ApiResponse<ReportSchedule>>(API_CONFIG.ENDPOINTS.REPORT_SCHEDULE_BY_ID(id), payload);
+  }
+
+  /**
+   * Remove a report schedule (its reports stay in the history)
+   *
+   * API Endpoint: DELETE /statistics/report-schedules/:id
+   */
+  async deleteSchedule(id: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<ApiResponse<void>>(API_CONFIG.ENDPOINTS.REPORT_SCHEDULE_BY_ID(id));
+  }
+
+  /**
+   * Run a report schedule now, for its last complete period
+   *
+   * API Endpoint: POST /statistics/report-schedules/:id/run
+   */
+  async runSchedule(id: string): Promise<ApiResponse<GeneratedReport[]>> {
+    return apiClient.post<ApiResponse<GeneratedReport[]>>(API_CONFIG.ENDPOINTS.REPORT_SCHEDULE_RUN(id));
+  }
+
+  /**
+   * Download the monthly attendance report (PDF)
+   *
+   * API Endpoint: GET /report/monthly/pdf
+   *
+   * @param {number} year - Year of the report
+   * @param {number} month - Month of the report (1-12)
+   */
+  async downloadMonthlyReport(year: number, month: number, options: DownloadOptions = {}): Promise<DownloadResult> {
+    return apiClient.download('GET', API_CONFIG.ENDPOINTS.MONTHLY_REPORT_PDF, {
+      params: { year, month },
+      accept: 'application/pdf',
+      fallbackFilename: `rapport_mensuel_${year}_${month}.pdf`,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
+  }
+}
+
+export const reportService = new ReportService();
@@ -4,148 +4,50 @@
  */
 
 import { API_CONFIG } from './config';
-import { fetchWithAuth } from './fetchWithAuth';
+import { apiClient } from './client';
 import type { WorkSchedule, ApiResponse } from './types';
 
 class SchedulesService {
   /**
    * Fetch all schedules
    */
-  async getSchedules(): Promise<ApiResponse<WorkSchedule[]>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.SCHEDULES}`,
-        {
-          method: 'GET'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch schedules: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching schedules:', error);
-      throw error;
-    }
+  async getSchedules(signal?: AbortSignal): Promise<ApiResponse<WorkSchedule[]>> {
+    return apiClient.get<ApiResponse<WorkSchedule[]>>(API_CONFIG.ENDPOINTS.SCHEDULES, { signal });
   }
   
   /**
    * Get active schedule
    */
-  async getActiveSchedule(): Promise<ApiResponse<WorkSchedule | null>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.ACTIVE_SCHEDULE}`,
-        {
-          method: 'GET'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch active schedule: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching active schedule:', error);
-      throw error;
-    }
+  async getActiveSchedule(signal?: AbortSignal): Promise<ApiResponse<WorkSchedule | null>> {
+    return apiClient.get<ApiResponse<WorkSchedule | null>>(API_CONFIG.ENDPOINTS.ACTIVE_SCHEDULE, { signal });
   }
   
   /**
    * Get schedule by ID
    */
   async getScheduleById(id: string): Promise<ApiResponse<WorkSchedule>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.SCHEDULE_BY_ID(id)}`,
-        {
-          method: 'GET'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch schedule: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching schedule by ID:', error);
-      throw error;
-    }
+    return apiClient.get<ApiResponse<WorkSchedule>>(API_CONFIG.ENDPOINTS.SCHEDULE_BY_ID(id));
   }
   
   /**
    * Create a new schedule
    */
   async createSchedule(schedule: Omit<WorkSchedule, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApiResponse<WorkSchedule>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.SCHEDULES}`,
-        {
-          method: 'POST',
-          body: JSON.stringify(schedule),
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to create schedule: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error creating schedule:', error);
-      throw error;
-    }
+    return apiClient.post<ApiResponse<WorkSchedule>>(API_CONFIG.ENDPOINTS.SCHEDULES, schedule);
   }
   
   /**
    * Update an existing schedule
    */
   async updateSchedule(id: string, updates: Partial<WorkSchedule>): Promise<ApiResponse<WorkSchedule>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.SCHEDULE_BY_ID(id)}`,
-        {
-          method: 'PUT',
-          body: JSON.stringify(updates),
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to update schedule: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error updating schedule:', error);
-      throw error;
-    }
+    return apiClient.put<ApiResponse<WorkSchedule>>(API_CONFIG.ENDPOINTS.SCHEDULE_BY_ID(id), updates);
   }
   
   /**
    * Delete a schedule
    */
   async deleteSchedule(id: string): Promise<ApiResponse<void>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.SCHEDULE_BY_ID(id)}`,
-        {
-          method: 'DELETE'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to delete schedule: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error deleting schedule:', error);
-      throw error;
-    }
+    return apiClient.delete<ApiResponse<void>>(API_CONFIG.ENDPOINTS.SCHEDULE_BY_ID(id));
   }
 }
 
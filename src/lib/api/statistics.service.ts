@@ -4,11 +4,16 @@
  */
 
 import { API_CONFIG } from './config';
-import { fetchWithAuth } from './fetchWithAuth';
+import { apiClient, type DownloadProgress, type DownloadResult } from './client';
 import type { 
   DashboardStats, 
   AttendanceStats, 
   RecentActivity,
+  StatisticsRangeParams,
+  DivisionAttendance,
+  PunctualityTrend,
+  MonthlyAbsenceRate,
+  StatusDistribution,
   ReportParams,
   ApiResponse 
 } from './types';
@@ -17,24 +22,8 @@ class StatisticsService {
   /**
    * Fetch dashboard statistics
    */
-  async getDashboardStats(): Promise<ApiResponse<DashboardStats>> {
-    try {
-      const response = await fetchWithAuth(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.DASHBOARD_STATS}`,
-        {
-          method: 'GET'
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch dashboard stats: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching dashboard stats:', error);
-      throw error;
-    }
+  async getDashboardStats(signal?: AbortSignal): Promise<ApiResponse<DashboardStats>> {
+    return apiClient.get<ApiResponse<DashboardStats>>(API_CONFIG.ENDPOINTS.DASHBOARD_STATS, { signal });
   }
   
   /**
@@ -44,79 +33,86 @@ class StatisticsService {
     period?: 'daily' | 'weekly' | 'monthly';
     from?: string;
     to?: string;
-  }): Promise<ApiResponse<AttendanceStats>> {
-    try {
-      const queryParams = new URLSearchParams();
-      
-      if (params?.period) queryParams.append('period', params.period);
-      if (params?.from) queryParams.append('from', params.from);
-      if (params?.to) queryParams.append('to', params.to);
-      
-      const url = `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.ATTENDANCE_STATS}${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-      
-      const response = await fetchWithAuth(url, {
-        method: 'GET'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch attendance stats: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching attendance stats:', error);
-      throw error;
-    }
+  }, signal?: AbortSignal): Promise<ApiResponse<AttendanceStats>> {
+    return apiClient.get<ApiResponse<AttendanceStats>>(API_CONFIG.ENDPOINTS.ATTENDANCE_STATS, { params, signal });
   }
   
   /**
    * Fetch recent activities
    */
-  async getRecentActivities(limit: number = 10): Promise<ApiResponse<RecentActivity[]>> {
-    try {
-      const url = `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.RECENT_ACTIVITY}?limit=${limit}`;
-      
-      const response = await fetchWithAuth(url, {
-        method: 'GET'
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch recent activities: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching recent activities:', error);
-      throw error;
-    }
+  async getRecentActivities(limit: number = 10, signal?: AbortSignal): Promise<ApiResponse<RecentActivity[]>> {
+    return apiClient.get<ApiResponse<RecentActivity[]>>(API_CONFIG.ENDPOINTS.RECENT_ACTIVITY, {
+      params: { limit },
+      signal,
+    });
   }
   
   /**
-   * Export report
+   * Fetch the attendance rate of each division over a range
    */
-  async exportReport(params: ReportParams): Promise<ApiResponse<{ downloadUrl: string }>> {
-    try {
-      const response = await fetch(
-        `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.EXPORT_REPORT}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${localStorage.getItem('access_token') || ''}`,
-          },
-          body: JSON.stringify(params),
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`Failed to export report: ${response.statusText}`);
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error exporting report:', error);
-      throw error;
-    }
+  async getDivisionAttendance(
+    params: StatisticsRangeParams,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<DivisionAttendance[]>> {
+    return apiClient.get<ApiResponse<DivisionAttendance[]>>(API_CONFIG.ENDPOINTS.STATISTICS_DIVISIONS, {
+      params: { from: params.from, to: params.to },
+      signal,
+    });
+  }
+
+  /**
+   * Fetch the punctuality trend over a range (one point per day, week or month)
+   */
+  async getPunctualityTrends(
+    params: StatisticsRangeParams,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<PunctualityTrend[]>> {
+    return apiClient.get<ApiResponse<PunctualityTrend[]>>(API_CONFIG.ENDPOINTS.STATISTICS_PUNCTUALITY, {
+      params: { from: params.from, to: params.to, groupBy: params.groupBy },
+      signal,
+    });
+  }
+
+  /**
+   * Fetch the absence rate of each month of a range
+   */
+  async getAbsenceRates(
+    params: StatisticsRangeParams,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<MonthlyAbsenceRate[]>> {
+    return apiClient.get<ApiResponse<MonthlyAbsenceRate[]>>(API_CONFIG.ENDPOINTS.STATISTICS_ABSENCE_RATES, {
+      params: { from: params.from, to: params.to },
+      signal,
+    });
+  }
+
+  /**
+   * Fetch the distribution of the agent-days of a range by status
+   */
+  async getStatusDistribution(
+    params: StatisticsRangeParams,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<StatusDistribution>> {
+    return apiClient.get<ApiResponse<StatusDistribution>>(API_CONFIG.ENDPOINTS.STATISTICS_STATUS_DISTRIBUTION, {
+      params: { from: params.from, to: params.to },
+      signal,
+    });
+  }
+  
+  /**
+   * Export report (returns the generated file; use saveBlob to download it)
+   */
+  async exportReport(
+    params: ReportParams,
+    options: { onProgress?: (progress: DownloadProgress) => void; signal?: AbortSignal } = {}
+  ): Promise<DownloadResult> {
+    const extension = params.format === 'excel' ? 'xlsx' : params.format;
+    return apiClient.download('POST', API_CONFIG.ENDPOINTS.EXPORT_REPORT, {
+      body: params,
+      fallbackFilename: `rapport_${params.type}_${params.from}_${params.to}.${extension}`,
+      onProgress: options.onProgress,
+      signal: options.signal,
+    });
   }
 }
 
@@ -0,0 +1,33 @@
+/**
+ * System API Service
+ * Handles backend information and system settings API calls
+ */
+
+import { API_CONFIG } from './config';
+import { apiClient } from './client';
+import type { BackendInfo, SystemSettings, ApiResponse } from './types';
+
+class SystemService {
+  /**
+   * Get the name, version and environment of the backend
+   */
+  async getBackendInfo(signal?: AbortSignal): Promise<ApiResponse<BackendInfo>> {
+    return apiClient.get<ApiResponse<BackendInfo>>(API_CONFIG.ENDPOINTS.SYSTEM_INFO, { signal });
+  }
+
+  /**
+   * Get the system settings
+   */
+  async getSettings(signal?: AbortSignal): Promise<ApiResponse<SystemSettings>> {
+    return apiClient.get<ApiResponse<SystemSettings>>(API_CONFIG.ENDPOINTS.SETTINGS, { signal });
+  }
+
+  /**
+   * Update some system settings (Admin only)
+   */
+  async updateSettings(settings: Partial<SystemSettings>): Promise<ApiResponse<SystemSettings>> {
+    return apiClient.put<ApiResponse<SystemSettings>>(API_CONFIG.ENDPOINTS.SETTINGS, settings);
+  }
+}
+
+export const systemService = new SystemService();
@@ -14,6 +14,7 @@
  * - Calendar: Holidays and events
  * - Statistics: Analytics and reporting data
  * - User: System users and audit logs
+ * - System: Backend information
  * 
  * @module api/types
  */
@@ -34,6 +35,10 @@
  * @property {T} data - The actual response data (only present if successful)
  * @property {string} error - Error message (only present if failed)
  * @property {string} message - Optional additional message
+ * @property {boolean} queued - Set by the API client (never by the backend) when a write
+ *                              was queued offline instead of sent; `data` is then
+ *                              undefined (see api/offline)
+ * @property {string} clientId - Client ID of the queued write
  * 
  * @example
  * ApiResponse<Agent> = {
@@ -52,6 +57,8 @@ export interface ApiResponse<T> {
   data?: T;
   error?: string;
   message?: string;
+  queued?: boolean;
+  clientId?: string;
 }
 
 /**
@@ -77,14 +84,38 @@ export interface ApiResponse<T> {
  *   totalPages: 3
  * }
  */
-export interface PaginatedResponse<T> {
+export interface PaginatedResponse<T> extends PaginationMeta {
   data: T[];
+}
+
+/**
+ * Pagination Metadata
+ *
+ * Sent by the backend next to `data` on list endpoints:
+ * { success: true, data: [...], pagination: { total, page, pageSize, totalPages } }
+ * The services merge it with the items into a PaginatedResponse.
+ */
+export interface PaginationMeta {
   total: number;
   page: number;
   pageSize: number;
   totalPages: number;
 }
 
+/**
+ * Raw Paginated API Response
+ *
+ * Wire format of list endpoints, before normalization into PaginatedResponse.
+ */
+export interface PaginatedApiResponse<T> extends ApiResponse<T[]> {
+  pagination?: PaginationMeta;
+}
+
+/**
+ * List Sort Order
+ */
+export type SortOrder = 'asc' | 'desc';
+
 // ============================================================================
 // AGENT TYPES - Employee and Attendance Data
 // ============================================================================
@@ -114,6 +145,27 @@ export interface Agent {
   status: 'Active' | 'Inactive' | 'On Leave';
 }
 
+/**
+ * Agents List Query Parameters
+ *
+ * @property {number} page - Page number (1-indexed)
+ * @property {number} pageSize - Number of items per page
+ * @property {string} search - Search term (name or matricule)
+ * @property {string} department - Filter by division ('all' = no filter)
+ * @property {string} status - Filter by status ('all' = no filter)
+ * @property {string} sortBy - Sorted column
+ * @property {SortOrder} sortOrder - Sort direction
+ */
+export interface AgentListParams {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+  department?: string;
+  status?: Agent['status'] | 'all';
+  sortBy?: 'matricule' | 'nom' | 'division' | 'poste' | 'status';
+  sortOrder?: SortOrder;
+}
+
 /**
  * Agent Details (Extended Information)
  * 
@@ -194,6 +246,8 @@ export interface AgentAttendance {
  * @property {string} status - Attendance status for the day
  * @property {number} workHours - Calculated work hours (e.g., 8.5)
  * @property {string} notes - Optional notes
+ * @property {AppliedCorrection} correction - Present when the day was corrected manually
+ *                                            (the original badge values are kept in it)
  */
 export interface DailyAttendanceDetails {
   attendanceId: string;
@@ -211,7 +265,9 @@ export interface DailyAttendanceDetails {
   sortie_aprem?: string;
   tolerance?: string;
   conge?: boolean;
+  /** Absence type code when the agent is on leave */
   type_abs?: string;
+  correction?: AppliedCorrection;
 }
 
 /**
@@ -265,8 +321,8 @@ export interface TemporaryExit {
  * @property {string} matricule - Employee matricule
  * @property {string} startDate - Absence start date (YYYY-MM-DD format)
  * @property {string} endDate - Absence end date (YYYY-MM-DD format)
- * @property {string} type - Type of absence
- * @property {string} reason - Detailed reason/notes
+ * @property {string} type - Absence type code (see AbsenceType, e.g. 'CONGE')
+ * @property {string} reason - Detailed reason/notes (mandatory when the type requires a justification)
  * @property {string} status - Approval status
  * @property {number} duration - Duration in days (calculated)
  * @property {string} createdAt - When the absence was created
@@ -283,6 +339,521 @@ export interface LongAbsence {
   createdAt?: string;
 }
 
+/**
+ * Agent QR Badge
+ * 
+ * The QR code printed on a badge encodes `token`, a payload signed by the
+ * backend (the secret never leaves the server):
+ * 
+ *   SRB1.<base64url JSON { m: matricule, v: version, i: issuedAt }>.<base64url HMAC-SHA256>
+ * 
+ * Only the current version of an active badge is accepted at check-in.
+ * Reissuing a badge (e.g., after loss) increments the version, which
+ * invalidates every badge printed before; revoking it invalidates the
+ * current one until the next reissue.
+ * 
+ * @property {string} matricule - Agent matricule
+ * @property {number} version - Badge version (1 for the first badge)
+ * @property {string} issuedAt - Issue date of the current version (ISO 8601)
+ * @property {string} status - 'Active' or 'Revoked'
+ * @property {string | null} token - Signed QR payload (null when revoked)
+ * @property {string} revokedAt - Revocation date (ISO 8601, revoked badges only)
+ * @property {string} reason - Reason of the last reissue or revocation
+ */
+export interface AgentBadge {
+  matricule: string;
+  version: number;
+  issuedAt: string;
+  status: 'Active' | 'Revoked';
+  token: string | null;
+  revokedAt?: string;
+  reason?: string;
+}
+
+/**
+ * Result of a successful badge verification
+ * (invalid, revoked or superseded badges are rejected with an error)
+ * 
+ * @property {Agent} agent - Badge holder
+ * @property {AgentBadge} badge - Current badge of the agent
+ */
+export interface BadgeVerification {
+  agent: Agent;
+  badge: AgentBadge;
+}
+
+// ============================================================================
+// DAILY ATTENDANCE TYPES - Organization-wide Punches per Day
+// ============================================================================
+
+/**
+ * Temporary Exit Summary
+ * 
+ * Lightweight temporary exit entry embedded in a PointageRecord.
+ * 
+ * @property {string} id - Unique temporary exit ID
+ * @property {string} exitTime - Departure time (HH:mm format)
+ * @property {string} returnTime - Return time (HH:mm format)
+ * @property {string} description - Reason for temporary absence
+ */
+export interface TemporaryExitInfo {
+  id: string;
+  exitTime: string;
+  returnTime: string;
+  description: string;
+}
+
+/**
+ * Pointage Record
+ * 
+ * The four daily punches of one agent, as displayed in the calendar
+ * day-details dialog and the attendance PDF exports.
+ * 
+ * @property {string} id - Unique daily attendance ID
+ * @property {string} agentId - Agent matricule
+ * @property {string} agentName - Agent full name
+ * @property {string} division - Agent division
+ * @property {string} checkInAM - Morning arrival (HH:mm)
+ * @property {string} checkOutAM - Morning departure (HH:mm)
+ * @property {string} checkInPM - Afternoon arrival (HH:mm)
+ * @property {string} checkOutPM - Afternoon departure (HH:mm)
+ * @property {string} status - Computed attendance status
+ * @property {string} totalMissedTime - Missed time (format: "2h 30m")
+ * @property {TemporaryExitInfo[]} temporaryExits - Temporary exits of the day
+ * @property {Array} correctedFields - Values differing from the badge punches after a
+ *                                     manual correction (absent if never corrected)
+ * @property {string} absenceType - Absence type code when the agent is on leave that day
+ */
+export interface PointageRecord {
+  id: string;
+  agentId: string;
+  agentName: string;
+  division: string;
+  checkInAM: string;
+  checkOutAM: string;
+  checkInPM: string;
+  checkOutPM: string;
+  status: 'present' | 'late' | 'early-departure' | 'overtime' | 'absent';
+  totalMissedTime: string;
+  temporaryExits: TemporaryExitInfo[];
+  correctedFields?: Array<'checkInAM' | 'checkOutAM' | 'checkInPM' | 'checkOutPM' | 'temporaryExits'>;
+  absenceType?: string;
+}
+
+/**
+ * Day Statistics
+ * 
+ * Attendance summary for a single date with the detailed punches of every agent.
+ * 
+ * API Endpoint: GET /attendance?date=YYYY-MM-DD
+ * 
+ * @property {string} date - Date (YYYY-MM-DD format)
+ * @property {number} totalAgents - Number of agents expected
+ * @property {number} present - Number of agents present
+ * @property {number} absent - Number of agents absent
+ * @property {number} late - Number of late arrivals
+ * @property {number} attendanceRate - Attendance rate (%)
+ * @property {number} punctualityRate - Punctuality rate (%)
+ * @property {PointageRecord[]} pointageRecords - Punches of every agent
+ */
+export interface DayStatistics {
+  date: string;
+  totalAgents: number;
+  present: number;
+  absent: number;
+  late: number;
+  attendanceRate: number;
+  punctualityRate: number;
+  pointageRecords: PointageRecord[];
+}
+
+/**
+ * Kind of punch recorded at the check-in kiosk
+ * 
+ * - 'MorningIn' / 'MorningOut': Morning arrival / departure
+ * - 'AfternoonIn' / 'AfternoonOut': Afternoon arrival / departure
+ * - 'TemporaryExit' / 'TemporaryReturn': Temporary exit during work hours and return
+ */
+export type PunchType =
+  | 'MorningIn'
+  | 'MorningOut'
+  | 'AfternoonIn'
+  | 'AfternoonOut'
+  | 'TemporaryExit'
+  | 'TemporaryReturn';
+
+/**
+ * Attendance Punch Request
+ * 
+ * API Endpoint: POST /attendance/punch
+ * 
+ * @property {string} token - Scanned badge QR payload (checked by the backend)
+ * @property {PunchType} type - Punch decided by the kiosk from the active schedule
+ * @property {string} timestamp - Scan time on the kiosk (ISO 8601)
+ */
+export interface AttendancePunchRequest {
+  token: string;
+  type: PunchType;
+  timestamp: string;
+}
+
+/**
+ * Recorded Attendance Punch
+ * 
+ * @property {string} id - Unique punch ID
+ * @property {string} matricule - Agent matricule
+ * @property {string} agentName - Agent full name
+ * @property {string} date - Date (YYYY-MM-DD)
+ * @property {string} time - Recorded time (HH:mm)
+ * @property {PunchType} type - Kind of punch
+ * @property {string} punctuality - 'Late' for arrivals after start + tolerance,
+ *                                  'Early' for departures before the end of the period
+ * @property {number} minutes - Minutes late or early (0 when on time)
+ */
+export interface AttendancePunch {
+  id: string;
+  matricule: string;
+  agentName: string;
+  date: string;
+  time: string;
+  type: PunchType;
+  punctuality: 'OnTime' | 'Late' | 'Early';
+  minutes: number;
+}
+
+// ============================================================================
+// ATTENDANCE CORRECTION TYPES - Manual Fixes of a Day's Punches
+// ============================================================================
+
+/**
+ * Temporary exit as entered in a correction
+ * 
+ * @property {string} exitTime - Departure time (HH:mm format)
+ * @property {string} returnTime - Return time (HH:mm format, absent if not returned)
+ * @property {string} description - Reason for the exit
+ */
+export interface CorrectionExit {
+  exitTime: string;
+  returnTime?: string;
+  description: string;
+}
+
+/**
+ * Punches of a day, as entered in a correction or kept as original values
+ * 
+ * Punches that were not recorded are omitted. Times use the HH:mm format.
+ */
+export interface CorrectionPunches {
+  morningCheckIn?: string;
+  morningCheckOut?: string;
+  afternoonCheckIn?: string;
+  afternoonCheckOut?: string;
+  temporaryExits: CorrectionExit[];
+}
+
+/**
+ * Supporting document of a correction (e.g., scanned paper sign-in sheet)
+ * 
+ * @property {string} name - File name
+ * @property {string} type - MIME type (PDF, JPEG or PNG)
+ * @property {number} size - Size in bytes (2 MB maximum)
+ * @property {string} content - Base64 data URL, sent on creation only
+ *                              (downloaded afterwards through the attachment endpoint)
+ */
+export interface CorrectionAttachment {
+  name: string;
+  type: string;
+  size: number;
+  content?: string;
+}
+
+/**
+ * Correction workflow status
+ * 
+ * - 'Pending': Proposed by a Manager, waiting for an Admin
+ * - 'Approved': Applied to the day (Admin corrections are approved immediately)
+ * - 'Rejected': Refused by an Admin, the day is unchanged
+ */
+export type CorrectionStatus = 'Pending' | 'Approved' | 'Rejected';
+
+/**
+ * Attendance Correction
+ * 
+ * Manual fix of the punches of one agent for one day.
+ * 
+ * API Endpoint: GET /attendance/corrections
+ * 
+ * @property {string} id - Unique correction ID
+ * @property {string} matricule - Agent matricule
+ * @property {string} agentName - Agent full name
+ * @property {string} date - Corrected day (YYYY-MM-DD format)
+ * @property {CorrectionStatus} status - Workflow status
+ * @property {CorrectionPunches} original - Punches of the day when the correction was submitted
+ * @property {CorrectionPunches} corrected - Punches after correction
+ * @property {string} reason - Mandatory justification
+ * @property {CorrectionAttachment} attachment - Optional supporting document (without content)
+ * @property {string} requestedBy - Username of the author
+ * @property {string} requestedAt - Submission time (ISO 8601)
+ * @property {string} reviewedBy - Username of the Admin who approved or rejected it
+ * @property {string} reviewedAt - Review time (ISO 8601)
+ * @property {string} reviewComment - Comment of the Admin (mandatory on rejection)
+ */
+export interface AttendanceCorrection {
+  id: string;
+  matricule: string;
+  agentName: string;
+  date: string;
+  status: CorrectionStatus;
+  original: CorrectionPunches;
+  corrected: CorrectionPunches;
+  reason: string;
+  attachment?: CorrectionAttachment;
+  requestedBy: string;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComment?: string;
+}
+
+/**
+ * Attendance Correction Request
+ * 
+ * API Endpoint: POST /attendance/corrections
+ * Admins apply the correction immediately, Managers submit a proposal.
+ * 
+ * @property {string} matricule - Agent matricule
+ * @property {string} date - Day to correct (YYYY-MM-DD format, not in the future)
+ * @property {CorrectionPunches} punches - Complete punches of the day after correction
+ * @property {string} reason - Justification (5 characters minimum)
+ * @property {CorrectionAttachment} attachment - Optional supporting document (with content)
+ */
+export interface AttendanceCorrectionRequest {
+  matricule: string;
+  date: string;
+  punches: CorrectionPunches;
+  reason: string;
+  attachment?: CorrectionAttachment;
+}
+
+/**
+ * Attendance Correction Filters
+ * 
+ * @property {CorrectionStatus} status - Only corrections with this status
+ * @property {string} matricule - Only corrections of this agent
+ * @property {string} date - Only corrections of this day (YYYY-MM-DD format)
+ */
+export interface AttendanceCorrectionParams {
+  status?: CorrectionStatus;
+  matricule?: string;
+  date?: string;
+}
+
+/**
+ * Correction applied to a day (see DailyAttendanceDetails)
+ * 
+ * @property {string} correctionId - Last approved correction
+ * @property {CorrectionPunches} original - Badge punches before the first correction of the day
+ * @property {string} reason - Justification of the last correction
+ * @property {string} correctedBy - Username of the author of the last correction
+ * @property {string} correctedAt - Approval time of the last correction (ISO 8601)
+ * @property {boolean} hasAttachment - The last correction has a supporting document
+ */
+export interface AppliedCorrection {
+  correctionId: string;
+  original: CorrectionPunches;
+  reason: string;
+  correctedBy: string;
+  correctedAt: string;
+  hasAttachment: boolean;
+}
+
+// ============================================================================
+// LEAVE REQUEST TYPES - Leave Requests and Approval
+// ============================================================================
+
+/**
+ * Leave request workflow status
+ * 
+ * - 'Pending': Waiting for a Manager or an Admin
+ * - 'Approved': Accepted, the LongAbsence has been created
+ * - 'Rejected': Refused by a Manager or an Admin
+ * - 'Cancelled': Withdrawn by its author before review
+ */
+export type LeaveRequestStatus = 'Pending' | 'Approved' | 'Rejected' | 'Cancelled';
+
+/**
+ * Leave Request
+ * 
+ * Submitted by an agent (self-service portal) or by a manager on their
+ * behalf. Approving it creates the matching LongAbsence.
+ * 
+ * API Endpoint: GET /leave-requests
+ * 
+ * @property {string} id - Unique request ID
+ * @property {string} matricule - Agent matricule
+ * @property {string} agentName - Agent full name
+ * @property {string} type - Absence type code (see AbsenceType)
+ * @property {string} startDate - First day of leave (YYYY-MM-DD format)
+ * @property {string} endDate - Last day of leave (YYYY-MM-DD format)
+ * @property {string} reason - Reason given by the author
+ * @property {LeaveRequestStatus} status - Workflow status
+ * @property {number} workingDays - Working days in the period (weekends and holidays excluded)
+ * @property {string[]} holidays - Holidays falling in the period ('YYYY-MM-DD Name')
+ * @property {string} requestedBy - Username of the author
+ * @property {string} requestedAt - Submission time (ISO 8601)
+ * @property {string} reviewedBy - Username of the reviewer
+ * @property {string} reviewedAt - Review time (ISO 8601)
+ * @property {string} reviewComment - Comment of the reviewer (mandatory on rejection)
+ * @property {string} absenceId - LongAbsence created on approval
+ */
+export interface LeaveRequest {
+  id: string;
+  matricule: string;
+  agentName: string;
+  type: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  status: LeaveRequestStatus;
+  workingDays: number;
+  holidays: string[];
+  requestedBy: string;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewComment?: string;
+  absenceId?: string;
+}
+
+/**
+ * Leave Request Submission
+ * 
+ * API Endpoints:
+ * - POST /leave-requests (Manager / Admin, matricule required)
+ * - POST /me/leave-requests (Agent, always for the linked agent)
+ * 
+ * Refused with 409 when the period overlaps an absence or another pending
+ * request of the agent, and with 400 when it has no working day.
+ * 
+ * @property {string} matricule - Agent matricule (ignored on /me/leave-requests)
+ * @property {string} type - Absence type code
+ * @property {string} startDate - First day of leave (YYYY-MM-DD format)
+ * @property {string} endDate - Last day of leave (YYYY-MM-DD format)
+ * @property {string} reason - Reason (mandatory when the type requires a justification)
+ */
+export interface LeaveRequestPayload {
+  matricule?: string;
+  type: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+}
+
+/**
+ * Leave Request Filters
+ * 
+ * @property {LeaveRequestStatus} status - Only requests with this status
+ * @property {string} matricule - Only requests of this agent
+ */
+export interface LeaveRequestParams {
+  status?: LeaveRequestStatus;
+  matricule?: string;
+}
+
+/**
+ * Absence Type
+ * 
+ * Entry of the absence type catalogue managed by the Admin. Absences, leave
+ * requests and entitlements reference a type by its code; the label and the
+ * color are what every screen and export displays.
+ * 
+ * API Endpoints:
+ * - GET /absence-types (every role)
+ * - POST /absence-types, PUT|DELETE /absence-types/:code (Admin)
+ * 
+ * @property {string} code - Stable identifier (uppercase, e.g. 'CONGE'), cannot be changed
+ * @property {string} label - Displayed name (e.g. 'Congé'), unique case- and accent-insensitively
+ * @property {string} color - Display color (#RRGGBB)
+ * @property {boolean} paid - The absence is paid
+ * @property {boolean} requiresJustification - A reason must be given for the absence
+ * @property {boolean} countsAsPresence - Days of this absence count as present in the statistics
+ *                                        (e.g. mission, training)
+ */
+export interface AbsenceType {
+  code: string;
+  label: string;
+  color: string;
+  paid: boolean;
+  requiresJustification: boolean;
+  countsAsPresence: boolean;
+}
+
+/**
+ * Accrual rule of an entitlement
+ * 
+ * - 'Annual': the whole entitlement is available from January 1st
+ * - 'Monthly': 1/12 of the entitlement is earned at the start of each month
+ */
+export type AccrualRule = 'Annual' | 'Monthly';
+
+/**
+ * Absence Entitlement
+ * 
+ * Annual quota of an absence type. Balances are computed from the
+ * LongAbsence records of the agent and the holiday list.
+ * 
+ * API Endpoint: GET /absence-entitlements
+ * 
+ * @property {string} type - Absence type code
+ * @property {number | null} annualDays - Days per year (null: no quota)
+ * @property {AccrualRule} accrual - How the entitlement is earned during the year
+ * @property {number} carryOverDays - Unused days that can be carried over to the next year (maximum)
+ * @property {boolean} countNonWorkingDays - Weekends and holidays within an absence are deducted too
+ * @property {number} sinceYear - First year of the quota (nothing is carried over into it)
+ */
+export interface AbsenceEntitlement {
+  type: string;
+  annualDays: number | null;
+  accrual: AccrualRule;
+  carryOverDays: number;
+  countNonWorkingDays: boolean;
+  sinceYear: number;
+}
+
+// ============================================================================
+// NOTIFICATION TYPES - In-App Notifications
+// ============================================================================
+
+/**
+ * In-App Notification
+ * 
+ * Addressed to one user account and shown in the notification menu.
+ * 
+ * API Endpoint: GET /notifications
+ * 
+ * @property {string} id - Unique notification ID
+ * @property {string} type - Event that produced the notification
+ *   - 'leave-request': A leave request waits for review
+ *   - 'leave-approved': A leave request has been approved
+ *   - 'leave-rejected': A leave request has been rejected
+ *   - 'leave-cancelled': A pending leave request has been withdrawn
+ *   - 'report-ready': A scheduled report has been delivered to the report history
+ * @property {string} title - Short title
+ * @property {string} message - Details
+ * @property {string} link - Application route to open (e.g., '/leave-requests')
+ * @property {boolean} read - Already read by the user
+ * @property {string} createdAt - Creation time (ISO 8601)
+ */
+export interface AppNotification {
+  id: string;
+  type: 'leave-request' | 'leave-approved' | 'leave-rejected' | 'leave-cancelled' | 'report-ready';
+  title: string;
+  message: string;
+  link?: string;
+  read: boolean;
+  createdAt: string;
+}
+
 // ============================================================================
 // SCHEDULE TYPES - Work Schedule Configuration
 // ============================================================================
@@ -422,6 +993,42 @@ export interface CalendarEvent {
   endTime?: string;
 }
 
+/**
+ * Agent row of the team availability timeline
+ * 
+ * @property {string} matricule - Agent matricule
+ * @property {string} nom - Agent full name
+ * @property {string} division - Agent division
+ * @property {Array} absences - Long absences overlapping the period (dates not clipped)
+ */
+export interface AvailabilityAgent {
+  matricule: string;
+  nom: string;
+  division: string;
+  absences: Array<Pick<LongAbsence, 'id' | 'type' | 'startDate' | 'endDate'>>;
+}
+
+/**
+ * Team Availability
+ * 
+ * Long absences of every active agent over a period, for the team
+ * availability timeline (one row per agent, grouped by division).
+ * 
+ * API Endpoint: GET /calendar/availability?from=YYYY-MM-DD&to=YYYY-MM-DD&division=...
+ * 
+ * @property {string} from - First day of the period (YYYY-MM-DD format)
+ * @property {string} to - Last day of the period (YYYY-MM-DD format)
+ * @property {number} thresholdPercent - Share of a division away on the same day above
+ *                                       which a warning is shown (SystemSettings)
+ * @property {AvailabilityAgent[]} agents - Active agents, sorted by division then name
+ */
+export interface TeamAvailability {
+  from: string;
+  to: string;
+  thresholdPercent: number;
+  agents: AvailabilityAgent[];
+}
+
 // ============================================================================
 // STATISTICS TYPES - Analytics and Reporting Data
 // ============================================================================
@@ -533,6 +1140,108 @@ export interface MonthlyAttendance {
   late: number;
 }
 
+/**
+ * Period analysed by the Statistics page
+ *
+ * - 'weekly': last 7 days, one point per day
+ * - 'monthly': last 30 days, one point per week
+ * - 'yearly': last 12 months, one point per month
+ */
+export type StatisticsPeriod = 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * Range of the attendance analytics (Statistics page)
+ *
+ * Only the working days of the range are counted (no weekends, no holidays).
+ *
+ * @property {string} from - Start date (YYYY-MM-DD format)
+ * @property {string} to - End date (YYYY-MM-DD format), at most one year after from
+ * @property {string} groupBy - Size of the punctuality trend points (default: 'week')
+ */
+export interface StatisticsRangeParams {
+  from: string;
+  to: string;
+  groupBy?: 'day' | 'week' | 'month';
+}
+
+/**
+ * Attendance of a division over a range
+ *
+ * Counts are agent-days. Expected days leave out the absences whose type
+ * does not count as presence; presence-type absences (mission, training...)
+ * count as present.
+ *
+ * @property {string} division - Division name
+ * @property {number} agents - Active agents of the division
+ * @property {number} present - Days present (late arrivals included)
+ * @property {number} late - Days with a late arrival
+ * @property {number} absent - Unjustified absences
+ * @property {number} expected - Days expected (present + absent)
+ * @property {number} rate - Attendance rate (0-100, one decimal)
+ */
+export interface DivisionAttendance {
+  division: string;
+  agents: number;
+  present: number;
+  late: number;
+  absent: number;
+  expected: number;
+  rate: number;
+}
+
+/**
+ * Punctuality over one point of the trend (day, week or month)
+ *
+ * Shares of the expected agent-days, in percent (one decimal).
+ *
+ * @property {string} label - Point label (e.g., 'lun. 12', 'Sem. 42', 'oct. 2026')
+ * @property {string} from - First date of the point (YYYY-MM-DD)
+ * @property {string} to - Last date of the point (YYYY-MM-DD)
+ * @property {number} onTime - Share of on-time arrivals
+ * @property {number} late - Share of late arrivals
+ * @property {number} absent - Share of unjustified absences
+ */
+export interface PunctualityTrend {
+  label: string;
+  from: string;
+  to: string;
+  onTime: number;
+  late: number;
+  absent: number;
+}
+
+/**
+ * Absence rate of a month (the part of the month inside the range)
+ *
+ * @property {string} month - Month (YYYY-MM format)
+ * @property {number} absent - Unjustified absences (agent-days)
+ * @property {number} expected - Days expected (agent-days)
+ * @property {number} rate - Absence rate (0-100, one decimal)
+ */
+export interface MonthlyAbsenceRate {
+  month: string;
+  absent: number;
+  expected: number;
+  rate: number;
+}
+
+/**
+ * Distribution of the agent-days of a range by status
+ *
+ * @property {number} workingDays - Working days of the range
+ * @property {number} onTime - Present and on time (presence-type absences included)
+ * @property {number} late - Present with a late arrival
+ * @property {number} absent - Unjustified absences
+ * @property {number} leave - Absences whose type does not count as presence
+ */
+export interface StatusDistribution {
+  workingDays: number;
+  onTime: number;
+  late: number;
+  absent: number;
+  leave: number;
+}
+
 /**
  * Recent Activity Data Model
  * 
@@ -570,6 +1279,7 @@ export interface RecentActivity {
   type: string;
   description: string;
   timestamp: string;
+  status?: 'success' | 'pending' | 'warning';
 }
 
 /**
@@ -582,6 +1292,7 @@ export interface RecentActivity {
  *   - 'attendance': Attendance records report
  *   - 'agent-summary': Individual agent summary
  *   - 'monthly-report': Monthly overview report
+ *   - 'lateness-summary': Late arrivals of each agent (agents never late left out)
  * @property {string} format - Export format
  *   - 'pdf': PDF document
  *   - 'excel': Excel spreadsheet (.xlsx)
@@ -601,7 +1312,7 @@ export interface RecentActivity {
  * }
  */
 export interface ReportParams {
-  type: 'attendance' | 'agent-summary' | 'monthly-report';
+  type: 'attendance' | 'agent-summary' | 'monthly-report' | 'lateness-summary';
   format: 'pdf' | 'excel' | 'csv';
   from: string;
   to: string;
@@ -609,6 +1320,113 @@ export interface ReportParams {
   departments?: string[];
 }
 
+/**
+ * Generated Report (report history)
+ *
+ * The server keeps the parameters of every generated report: downloading it
+ * again regenerates the file from the same parameters.
+ *
+ * @property {string} id - Unique report identifier
+ * @property {string} title - Report title with its period (e.g., 'Rapport mensuel — octobre 2026')
+ * @property {ReportParams} params - Parameters the report was generated with
+ * @property {string} filename - Name of the generated file
+ * @property {number} size - Size of the generated file in bytes
+ * @property {string} generatedAt - Generation timestamp (ISO 8601 format)
+ * @property {string} generatedBy - Username of the user who generated it ('Planification' for scheduled reports)
+ * @property {string} scheduleId - Optional: Schedule that produced the report
+ * @property {string} scheduleName - Optional: Name of that schedule
+ * @property {boolean} pinned - Kept in the history whatever the retention period
+ */
+export interface GeneratedReport {
+  id: string;
+  title: string;
+  params: ReportParams;
+  filename: string;
+  size: number;
+  generatedAt: string;
+  generatedBy: string;
+  scheduleId?: string;
+  scheduleName?: string;
+  pinned?: boolean;
+}
+
+/**
+ * In-app preview of a report (the rows of the file, before download)
+ *
+ * @property {string} title - Report title with its period
+ * @property {string[]} columns - Column headers
+ * @property {Array} rows - One line per working day, or per agent for the agent summary
+ * @property {Object} summary - Totals of the report (agent-days, attendance rate 0-100)
+ */
+export interface ReportPreview {
+  title: string;
+  columns: string[];
+  rows: Array<Array<string | number>>;
+  summary: {
+    workingDays: number;
+    agents: number;
+    present: number;
+    late: number;
+    absent: number;
+    leave: number;
+    rate: number;
+  };
+}
+
+/**
+ * Report Schedule (recurring report executed by the backend)
+ *
+ * Each run covers the last complete period before it (the previous month for a
+ * monthly schedule, the previous Monday-Sunday week for a weekly one) and
+ * delivers its files to the report history.
+ *
+ * API Endpoints:
+ * - GET /statistics/report-schedules
+ * - POST /statistics/report-schedules
+ * - PUT /statistics/report-schedules/:id
+ * - DELETE /statistics/report-schedules/:id
+ * - POST /statistics/report-schedules/:id/run
+ *
+ * @property {string} id - Unique schedule identifier
+ * @property {string} name - Displayed name (e.g., 'Rapport mensuel')
+ * @property {string} frequency - 'monthly' or 'weekly'
+ * @property {number} day - Day of the run: 1-28 (monthly) or 1-7 from Monday (weekly)
+ * @property {string} type - Report type
+ * @property {string} format - Report format
+ * @property {string[]} departments - Optional: Divisions covered (all when empty)
+ * @property {boolean} perDivision - One file per division instead of a single report
+ * @property {boolean} enabled - Executed by the backend
+ * @property {string | null} nextRunAt - Next run (ISO 8601), null when disabled
+ * @property {string} lastRunAt - Optional: Last run (ISO 8601)
+ * @property {string} lastError - Optional: Failure of the last run
+ * @property {string} createdBy - Username of the author
+ * @property {string} createdAt - Creation timestamp (ISO 8601)
+ */
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  frequency: 'monthly' | 'weekly';
+  day: number;
+  type: ReportParams['type'];
+  format: ReportParams['format'];
+  departments?: string[];
+  perDivision: boolean;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt?: string;
+  lastError?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Fields of a report schedule set by the user (POST / PUT body)
+ */
+export type ReportSchedulePayload = Pick<
+  ReportSchedule,
+  'name' | 'frequency' | 'day' | 'type' | 'format' | 'departments' | 'perDivision' | 'enabled'
+>;
+
 // ============================================================================
 // USER TYPES - System Users and Audit Logging
 // ============================================================================
@@ -634,6 +1452,9 @@ export interface ReportParams {
  *   - 'Admin': Full system access, can manage all data
  *   - 'Manager': Limited management access, view-only for some features
  *   - 'Agent': Personal data access only
+ *   - 'Kiosk': Check-in kiosk session, can only record badge punches
+ * @property {string} matricule - Agent linked to the account (required for the 'Agent' role):
+ *   the self-service portal only ever returns this agent's data
  * @property {string} status - Account status
  *   - 'Active': Can login and use system
  *   - 'Inactive': Account disabled, cannot login
@@ -658,7 +1479,8 @@ export interface SystemUser {
   id: string;
   username: string;
   email: string;
-  role: 'Admin' | 'Manager';
+  role: 'Admin' | 'Manager' | 'Kiosk' | 'Agent';
+  matricule?: string;
 }
 
 export interface PassUpdt{
@@ -742,3 +1564,54 @@ export interface PasswordResetRequest {
   sendEmail: boolean;
   temporaryPassword?: string;
 }
+
+// ============================================================================
+// SYSTEM TYPES - Backend Information
+// ============================================================================
+
+/**
+ * Backend Information
+ * 
+ * Identifies the backend the application is talking to.
+ * Displayed to administrators in the Settings page.
+ * 
+ * API Endpoint: GET /system/info
+ * 
+ * @property {string} name - Backend name (e.g., 'Pointage API - Antananarivo')
+ * @property {string} version - Backend version (e.g., '1.4.2')
+ * @property {string} environment - Deployment environment (e.g., 'production', 'staging')
+ * @property {string} serverTime - Current server time (ISO 8601), used to detect clock drift
+ * 
+ * @example
+ * {
+ *   name: 'Pointage API',
+ *   version: '1.4.2',
+ *   environment: 'production',
+ *   serverTime: '2025-10-10T10:30:00Z'
+ * }
+ */
+export interface BackendInfo {
+  name: string;
+  version: string;
+  environment: string;
+  serverTime?: string;
+}
+
+/**
+ * System Settings
+ * 
+ * API Endpoints:
+ * - GET /settings
+ * - PUT /settings (Admin only, partial update)
+ * 
+ * @property {number} sessionTimeoutMinutes - Inactivity before the session ends
+ * @property {number} availabilityThresholdPercent - Share of a division (1-100) away on the
+ *                                                   same day that triggers a warning
+ * @property {number} reportRetentionDays - Days the generated reports stay in the history
+ *                                          (pinned reports excluded)
+ */
+export interface SystemSettings {
+  sessionTimeoutMinutes: number;
+  availabilityThresholdPercent: number;
+  reportRetentionDays: number;
+}
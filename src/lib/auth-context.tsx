@@ -8,12 +8,12 @@
  * - Admin: Full system access
  * - Manager: Limited management access (view-only for agents)
  * - Agent: Personal data access only
+ * - Kiosk: Check-in kiosk session (badge punches only)
  * 
  * Features:
  * - Persistent login state (localStorage)
  * - Role-based helper functions
- * - Mock authentication for development
- * - Ready for real API integration
+ * - Real API authentication (or the in-browser mock backend when API_CONFIG.USE_MOCK is on)
  * 
  * @module AuthContext
  */
@@ -21,7 +21,10 @@
 // --- Dependencies ---
 import React from 'react';
 import { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { API_CONFIG, mockDelay } from './api/config';
+import { API_CONFIG } from './api/config';
+import { rawFetch, storeTokens, clearTokens, scheduleTokenRefresh } from './api/fetchWithAuth';
+import { queryClient } from './api/query-client';
+import { offlineManager } from './api/offline';
 
 // --- Type Definitions ---
 
@@ -32,13 +35,15 @@ import { API_CONFIG, mockDelay } from './api/config';
  * @property {string} id - Unique user identifier
  * @property {string} username - User's login username
  * @property {string} email - User's email address
- * @property {'Admin' | 'Manager' | 'Agent'} role - User's role for RBAC
+ * @property {'Admin' | 'Manager' | 'Agent' | 'Kiosk'} role - User's role for RBAC
+ * @property {string} matricule - Linked agent (Agent role only)
  */
 export interface CurrentUser {
   id: string;
   username: string;
   email: string;
-  role: 'Admin' | 'Manager' | 'Agent';
+  role: 'Admin' | 'Manager' | 'Agent' | 'Kiosk';
+  matricule?: string;
 }
 
 /**
@@ -53,6 +58,7 @@ interface AuthContextType {
   isAdmin: boolean;                          // True if current user is Admin
   isManager: boolean;                        // True if current user is Manager
   isAgent: boolean;                          // True if current user is Agent
+  isKiosk: boolean;                          // True if the session is a check-in kiosk
   isManagerOrAdmin: boolean;                 // True if user is Manager or Admin (common check)
   login: (username: string, password: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => void;                        // Logs out current user
@@ -62,21 +68,19 @@ interface AuthContextType {
 // Create the authentication context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// --- Mock Database (Development Only) ---
+// --- Demo Accounts (Mock Mode Only) ---
 
 /**
- * Mock user database for development and testing
- * 
- * IMPORTANT: In production, user authentication should be handled by a secure backend API.
- * Passwords should NEVER be stored in frontend code.
- * 
- * Test Credentials:
+ * When API_CONFIG.USE_MOCK is true, login is served by the in-browser
+ * mock backend (see api/mock-backend.ts), seeded with these accounts:
  * - Admin: admin / admin123
- * - Manager: hr_manager / manager123
- * - Agent: john_smith / agent123
+ * - Manager: manager / manager123
+ * - Kiosk: borne / borne123
+ * - Agent: agent / agent123 (linked to agent AG0001)
+ * 
+ * Otherwise credentials are checked by the real backend only.
  */
 
-
 // --- Constants ---
 
 /** 
@@ -121,6 +125,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       try {
         const user = JSON.parse(savedAuth);
         setCurrentUser(user);
+        // Re-arm the proactive token refresh for the restored session
+        scheduleTokenRefresh();
+        // Offline writes of this user can be replayed again
+        offlineManager.setUser(user.id);
       } catch (error) {
         // If saved data is corrupted, clear it and start fresh
         console.error('Failed to parse saved auth:', error);
@@ -136,8 +144,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    * Login Function
    * 
    * Authenticates a user with username and password.
-   * In mock mode: Validates against mockUsersDb
-   * In production mode: Calls real authentication API
+   * Calls the authentication API (served by the mock backend in mock mode)
    * 
    * @param {string} username - User's login username
    * @param {string} password - User's password (in production, sent securely to backend)
@@ -155,7 +162,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     // --- Real API Authentication (Production) ---
     try {
       // Make POST request to login endpoint
-      const response = await fetch(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.LOGIN}`, {
+      const response = await rawFetch(`${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.LOGIN}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -179,11 +186,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         username: data.data.user.nom_utilisateur,
         email: data.data.user.email,
         role: data.data.user.role,
+        matricule: data.data.user.matricule,
       };
 
       // Store session in state and localStorage
       setCurrentUser(userSession);
       localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(userSession));
+      offlineManager.setUser(userSession.id);
 
       if(toSave){
         const savedAccountsStr = localStorage.getItem('demoAccounts');
@@ -209,9 +218,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         }
       }
       
-      // In production, also store JWT tokens for authenticated API calls
-      localStorage.setItem('access_token', data.data.accessToken);
-      localStorage.setItem('refresh_token', data.data.refreshToken);
+      // Store JWT tokens for authenticated API calls (schedules the proactive refresh)
+      storeTokens(data.data.accessToken, data.data.refreshToken);
 
       return { success: true };
     } catch (error) {
@@ -227,15 +235,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
    * Logout Function
    * 
    * Logs out the current user by clearing session data.
+   * Pending offline writes stay queued for this user only (the Layout asks
+   * beforehand whether to send or discard them, see LogoutDialog).
    * In production, this should also invalidate tokens on the backend.
    */
   const logout = () => {
     setCurrentUser(null);
     localStorage.removeItem(AUTH_STORAGE_KEY);
     //localStorage.removeItem('demoAccounts');
-    // In production, also clear tokens and notify backend
-    // localStorage.removeItem('access_token');
-    // localStorage.removeItem('refresh_token');
+    // Clear tokens so the proactive refresh stops
+    clearTokens();
+    // Drop cached queries so the next user never sees this user's data
+    queryClient.clear();
+    offlineManager.clearCache();
+    offlineManager.dismissConflicts();
+    offlineManager.setUser(null);
+    // In production, also notify backend
     // await fetch('/api/logout', { method: 'POST' });
   };
 
@@ -246,6 +261,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const isAdmin = currentUser?.role === 'Admin';                                   // Admin users only
   const isManager = currentUser?.role === 'Manager';                               // Manager users only
   const isAgent = currentUser?.role === 'Agent';                                   // Agent users only
+  const isKiosk = currentUser?.role === 'Kiosk';                                   // Check-in kiosk sessions only
   const isManagerOrAdmin = currentUser?.role === 'Admin' || currentUser?.role === 'Manager';  // Manager or Admin
 
   // --- Provide Authentication Context ---
@@ -258,6 +274,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isAdmin,           // Boolean: is user an Admin?
         isManager,         // Boolean: is user a Manager?
         isAgent,           // Boolean: is user an Agent?
+        isKiosk,           // Boolean: is this a kiosk session?
         isManagerOrAdmin,  // Boolean: is user Manager or Admin?
         login,             // Function to log in
         logout,            // Function to log out
@@ -0,0 +1,297 @@
+/**
+ * ============================================================================
+ * BADGE PDF
+ * ============================================================================
+ *
+ * Generates sheets of agent badges (QR code + identity) as a vector PDF.
+ *
+ * Key Features:
+ * - A4 portrait pages with a configurable grid of cards
+ * - Configurable card size (mm), organisation name and logo
+ * - Optional lines: name, poste, division, matricule
+ * - QR codes drawn as vector rectangles (sharp at any print size)
+ *
+ * The QR modules are taken from the path rendered by qrcode.react, so the
+ * codes are identical to those displayed in the application.
+ *
+ * @module lib/badge-pdf
+ */
+
+// --- Dependencies ---
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { QRCodeSVG } from 'qrcode.react';
+import jsPDF from 'jspdf';
+import type { Agent } from './api/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Badge sheet layout (sizes in millimetres)
+ *
+ * @property {number} columns - Cards per row
+ * @property {number} rows - Rows of cards per page
+ * @property {number} cardWidth - Card width
+ * @property {number} cardHeight - Card height
+ * @property {string} organization - Name printed at the top of the card ('' = none)
+ * @property {string | null} logo - Logo as a PNG/JPEG data URL (null = none)
+ * @property {boolean} showName - Print the agent name
+ * @property {boolean} showPoste - Print the poste
+ * @property {boolean} showDivision - Print the division
+ * @property {boolean} showMatricule - Print the matricule
+ */
+export interface BadgeLayout {
+  columns: number;
+  rows: number;
+  cardWidth: number;
+  cardHeight: number;
+  organization: string;
+  logo: string | null;
+  showName: boolean;
+  showPoste: boolean;
+  showDivision: boolean;
+  showMatricule: boolean;
+}
+
+/**
+ * Options of the PDF generation
+ *
+ * @property {Function} qrValue - Content of the QR code of an agent (default: matricule)
+ */
+export interface BadgePdfOptions {
+  qrValue?: (agent: Agent) => string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * A4 portrait page (mm)
+ */
+export const PAGE_WIDTH = 210;
+export const PAGE_HEIGHT = 297;
+
+/**
+ * Page margin and space between cards (mm)
+ */
+export const PAGE_MARGIN = 10;
+export const CARD_GAP = 4;
+
+/**
+ * Default layout: 3 × 4 cards of 60 × 65 mm (12 badges per page)
+ */
+export const DEFAULT_BADGE_LAYOUT: BadgeLayout = {
+  columns: 3,
+  rows: 4,
+  cardWidth: 60,
+  cardHeight: 65,
+  organization: 'SERVICE REGIONAL DU BUDGET',
+  logo: null,
+  showName: true,
+  showPoste: true,
+  showDivision: true,
+  showMatricule: true,
+};
+
+// Card content sizes (mm)
+const CARD_PADDING = 3;
+const HEADER_HEIGHT = 8;
+const LINE_HEIGHT = 4;
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Check that a layout fits on an A4 page
+ *
+ * @param {BadgeLayout} layout - Layout to check
+ * @returns {string[]} Error messages (empty if the layout is valid)
+ */
+export function getLayoutErrors(layout: BadgeLayout): string[] {
+  const errors: string[] = [];
+  const { columns, rows, cardWidth, cardHeight } = layout;
+
+  if (!Number.isInteger(columns) || columns < 1) errors.push('Le nombre de colonnes doit être au moins 1');
+  if (!Number.isInteger(rows) || rows < 1) errors.push('Le nombre de lignes doit être au moins 1');
+  if (!(cardWidth >= 30)) errors.push('La largeur de carte doit être d\'au moins 30 mm');
+  if (!(cardHeight >= 30)) errors.push('La hauteur de carte doit être d\'au moins 30 mm');
+  if (errors.length > 0) return errors;
+
+  const gridWidth = columns * cardWidth + (columns - 1) * CARD_GAP;
+  const gridHeight = rows * cardHeight + (rows - 1) * CARD_GAP;
+  if (gridWidth > PAGE_WIDTH - 2 * PAGE_MARGIN) {
+    errors.push(`La grille est trop large pour une page A4 (${gridWidth} mm, maximum ${PAGE_WIDTH - 2 * PAGE_MARGIN} mm)`);
+  }
+  if (gridHeight > PAGE_HEIGHT - 2 * PAGE_MARGIN) {
+    errors.push(`La grille est trop haute pour une page A4 (${gridHeight} mm, maximum ${PAGE_HEIGHT - 2 * PAGE_MARGIN} mm)`);
+  }
+  return errors;
+}
+
+/**
+ * Top-left corner of every card of a page (grid centred on the page)
+ *
+ * @param {BadgeLayout} layout - Sheet layout
+ * @returns {Array<{x: number, y: number}>} Positions in mm, row by row
+ */
+export function getCardPositions(layout: BadgeLayout): Array<{ x: number; y: number }> {
+  const { columns, rows, cardWidth, cardHeight } = layout;
+  const left = (PAGE_WIDTH - (columns * cardWidth + (columns - 1) * CARD_GAP)) / 2;
+  const top = (PAGE_HEIGHT - (rows * cardHeight + (rows - 1) * CARD_GAP)) / 2;
+
+  const positions: Array<{ x: number; y: number }> = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      positions.push({
+        x: left + column * (cardWidth + CARD_GAP),
+        y: top + row * (cardHeight + CARD_GAP),
+      });
+    }
+  }
+  return positions;
+}
+
+/**
+ * Text lines printed under the QR code of an agent
+ */
+export function getBadgeLines(agent: Agent, layout: BadgeLayout): Array<{ text: string; bold: boolean }> {
+  return [
+    layout.showName && { text: agent.nom, bold: true },
+    layout.showPoste && { text: agent.poste, bold: false },
+    layout.showDivision && { text: agent.division, bold: false },
+    layout.showMatricule && { text: `Matricule : ${agent.matricule}`, bold: false },
+  ].filter((line): line is { text: string; bold: boolean } => Boolean(line && line.text));
+}
+
+// ============================================================================
+// QR CODE
+// ============================================================================
+
+/**
+ * Dark modules of a QR code, as horizontal runs
+ *
+ * @param {string} value - Encoded content
+ * @returns {Object} size (modules per side) and runs [x, y, width]
+ */
+function getQrRuns(value: string): { size: number; runs: Array<[number, number, number]> } {
+  const svg = renderToStaticMarkup(createElement(QRCodeSVG, { value, level: 'M', marginSize: 0 }));
+  const size = Number(svg.match(/viewBox="0 0 (\d+) \d+"/)?.[1] ?? 0);
+  // Second path = dark modules, e.g. "M0 0h7v1H0z"
+  const path = [...svg.matchAll(/ d="([^"]+)"/g)].pop()?.[1] ?? '';
+  const runs = [...path.matchAll(/M(\d+)[ ,](\d+)\s*h(\d+)/g)].map(
+    ([, x, y, width]) => [Number(x), Number(y), Number(width)] as [number, number, number]
+  );
+  return { size, runs };
+}
+
+/**
+ * Draw a QR code as vector rectangles
+ */
+function drawQrCode(doc: jsPDF, value: string, x: number, y: number, width: number): void {
+  const { size, runs } = getQrRuns(value);
+  if (size === 0) return;
+
+  const module = width / size;
+  doc.setFillColor(0, 0, 0);
+  runs.forEach(([column, row, length]) => {
+    // Slight overlap avoids hairlines between modules in some viewers
+    doc.rect(x + column * module, y + row * module, length * module + 0.01, module + 0.01, 'F');
+  });
+}
+
+// ============================================================================
+// PDF GENERATION
+// ============================================================================
+
+/**
+ * Draw one badge card
+ */
+function drawCard(
+  doc: jsPDF,
+  agent: Agent,
+  layout: BadgeLayout,
+  position: { x: number; y: number },
+  qrValue: string
+): void {
+  const { cardWidth, cardHeight } = layout;
+  const { x, y } = position;
+  const innerWidth = cardWidth - 2 * CARD_PADDING;
+
+  // Card outline (cutting guide)
+  doc.setDrawColor(209, 213, 219);
+  doc.setLineWidth(0.2);
+  doc.roundedRect(x, y, cardWidth, cardHeight, 2, 2, 'S');
+
+  // Header: logo and organisation
+  let top = y + CARD_PADDING;
+  if (layout.logo || layout.organization) {
+    let textLeft = x + CARD_PADDING;
+    if (layout.logo) {
+      const { width, height } = doc.getImageProperties(layout.logo);
+      const logoHeight = HEADER_HEIGHT - 1;
+      const logoWidth = Math.min((width / height) * logoHeight, innerWidth / 3);
+      doc.addImage(layout.logo, x + CARD_PADDING, top, logoWidth, logoHeight);
+      textLeft += logoWidth + 2;
+    }
+    if (layout.organization) {
+      const right = x + cardWidth - CARD_PADDING;
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(6.5);
+      doc.setTextColor(55, 65, 81);
+      doc.text(layout.organization, (textLeft + right) / 2, top + HEADER_HEIGHT / 2, {
+        align: 'center',
+        baseline: 'middle',
+        maxWidth: right - textLeft,
+      });
+    }
+    top += HEADER_HEIGHT;
+  }
+
+  // QR code: as large as the space left by the text lines allows
+  const lines = getBadgeLines(agent, layout);
+  const textHeight = lines.length * LINE_HEIGHT;
+  const qrSize = Math.max(10, Math.min(innerWidth, y + cardHeight - CARD_PADDING - textHeight - 1 - top));
+  drawQrCode(doc, qrValue, x + (cardWidth - qrSize) / 2, top, qrSize);
+
+  // Identity lines
+  let lineY = top + qrSize + 1 + LINE_HEIGHT - 1;
+  lines.forEach(({ text, bold }) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(bold ? 9 : 7.5);
+    doc.setTextColor(bold ? 17 : 75, bold ? 24 : 85, bold ? 39 : 99);
+    const [fitted] = doc.splitTextToSize(text, innerWidth) as string[];
+    doc.text(fitted ?? '', x + cardWidth / 2, lineY, { align: 'center' });
+    lineY += LINE_HEIGHT;
+  });
+}
+
+/**
+ * Generate the badge sheets of a list of agents
+ *
+ * @param {Agent[]} agents - Agents, in print order
+ * @param {BadgeLayout} layout - Sheet layout (must pass getLayoutErrors)
+ * @param {BadgePdfOptions} options - qrValue
+ * @returns {jsPDF} The document (save(), output('bloburl'), ...)
+ *
+ * @example
+ * const doc = generateBadgePdf(agents, DEFAULT_BADGE_LAYOUT);
+ * doc.save('badges.pdf');
+ */
+export function generateBadgePdf(agents: Agent[], layout: BadgeLayout, options: BadgePdfOptions = {}): jsPDF {
+  const { qrValue = (agent: Agent) => agent.matricule } = options;
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const positions = getCardPositions(layout);
+
+  agents.forEach((agent, index) => {
+    const slot = index % positions.length;
+    if (index > 0 && slot === 0) doc.addPage();
+    drawCard(doc, agent, layout, positions[slot], qrValue(agent));
+  });
+
+  doc.setProperties({ title: `Badges agents (${agents.length})` });
+  return doc;
+}
@@ -0,0 +1,52 @@
+/**
+ * ============================================================================
+ * USE ABSENCE TYPES HOOK
+ * ============================================================================
+ *
+ * The absence type catalogue (managed by the Admin in Settings) from the
+ * shared query cache, with lookups from the code stored on absences, leave
+ * requests and entitlements to what is displayed.
+ *
+ * @module hooks/useAbsenceTypes
+ */
+
+// --- Dependencies ---
+import { useCallback, useMemo } from 'react';
+import { leaveService, queryKeys } from '../api';
+import { useApiQuery } from './useApi';
+import type { AbsenceType } from '../api/types';
+
+/** Color of a code missing from the catalogue (e.g. while loading) */
+export const UNKNOWN_ABSENCE_TYPE_COLOR = '#6b7280';
+
+/**
+ * useAbsenceTypes Hook
+ *
+ * @returns The catalogue (empty until loaded), the loading flag and the
+ *          label / color lookups (a code missing from the catalogue is
+ *          displayed as is, in gray)
+ *
+ * @example
+ * const { absenceTypes, getLabel } = useAbsenceTypes();
+ * <span>{getLabel(absence.type)}</span>
+ */
+export function useAbsenceTypes(): {
+  absenceTypes: AbsenceType[];
+  loading: boolean;
+  getType: (code: string | undefined) => AbsenceType | undefined;
+  getLabel: (code: string | undefined) => string;
+  getColor: (code: string | undefined) => string;
+} {
+  const query = useApiQuery(queryKeys.absenceTypes.all, signal => leaveService.getAbsenceTypes(signal));
+  const absenceTypes = useMemo(() => query.data ?? [], [query.data]);
+
+  const byCode = useMemo(() => new Map(absenceTypes.map(t => [t.code, t])), [absenceTypes]);
+  const getType = useCallback((code: string | undefined) => (code ? byCode.get(code) : undefined), [byCode]);
+  const getLabel = useCallback((code: string | undefined) => (code ? byCode.get(code)?.label ?? code : ''), [byCode]);
+  const getColor = useCallback(
+    (code: string | undefined) => (code && byCode.get(code)?.color) || UNKNOWN_ABSENCE_TYPE_COLOR,
+    [byCode]
+  );
+
+  return { absenceTypes, loading: query.loading, getType, getLabel, getColor };
+}
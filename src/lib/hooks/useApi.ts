@@ -3,22 +3,28 @@
  * USE API HOOK
  * ============================================================================
  * 
- * Custom React hook for managing API call state (data, loading, error).
+ * Custom React hooks for managing API call state (data, loading, error).
  * Provides a consistent pattern for making API calls throughout the application.
  * 
+ * - useApi: imperative calls (mutations), with cache invalidation on success
+ * - useApiQuery: cached queries (stale-while-revalidate, see api/query-client)
+ * 
  * Key Features:
  * - Automatic loading state management
  * - Error handling with descriptive messages
- * - Data state management
- * - Reset functionality to clear state
+ * - Previous data kept while reloading (no skeleton flash)
+ * - Shared cache, request deduplication, refetch on focus and key change
+ * - Cancellation of pending requests on unmount
  * - Type-safe with TypeScript generics
  * 
  * @module hooks/useApi
  */
 
 // --- Dependencies ---
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
 import type { ApiResponse } from '../api/types';
+import { getErrorMessage } from '../api/client';
+import { queryClient, hashQueryKey, DEFAULT_STALE_TIME, type QueryKey } from '../api/query-client';
 
 /**
  * API State Interface
@@ -56,6 +62,15 @@ interface UseApiReturn<T> extends UseApiState<T> {
   reset: () => void;
 }
 
+/**
+ * useApi Options
+ * 
+ * @property {QueryKey[]} invalidates - Query key prefixes to invalidate after a successful call
+ */
+interface UseApiOptions {
+  invalidates?: QueryKey[];
+}
+
 /**
  * useApi Hook
  * 
@@ -66,14 +81,15 @@ interface UseApiReturn<T> extends UseApiState<T> {
  * 
  * @param {Function} apiFunction - The API service method to call
  *                                 Should return Promise<ApiResponse<T>>
+ * @param {UseApiOptions} options - Optional query keys to invalidate on success
  * 
  * @returns {UseApiReturn<T>} Object with data, loading, error, execute, and reset
  * 
  * State Flow:
  * 1. Initial: { data: null, loading: false, error: null }
- * 2. Execute called: { data: null, loading: true, error: null }
+ * 2. Execute called: { data: <previous>, loading: true, error: null }
  * 3a. Success: { data: T, loading: false, error: null }
- * 3b. Error: { data: null, loading: false, error: string }
+ * 3b. Error: { data: <previous>, loading: false, error: string }
  * 
  * @example
  * // Basic usage
@@ -109,6 +125,12 @@ interface UseApiReturn<T> extends UseApiState<T> {
  * }
  * 
  * @example
+ * // Mutation refreshing every cached agents query on success
+ * const { execute: createAgent, loading } = useApi(agentsService.createAgent, {
+ *   invalidates: [queryKeys.agents.all],
+ * });
+ * 
+ * @example
  * // With reset functionality
  * function SearchForm() {
  *   const { data, execute, reset } = useApi(agentsService.getAgents);
@@ -125,7 +147,8 @@ interface UseApiReturn<T> extends UseApiState<T> {
  * }
  */
 export function useApi<T = any>(
-  apiFunction: (...args: any[]) => Promise<ApiResponse<T>>
+  apiFunction: (...args: any[]) => Promise<ApiResponse<T>>,
+  options: UseApiOptions = {}
 ): UseApiReturn<T> {
   // Initialize state with default values
   const [state, setState] = useState<UseApiState<T>>({
@@ -144,36 +167,54 @@ export function useApi<T = any>(
    * @returns {Promise<T | null>} The data on success, null on error
    * 
    * Flow:
-   * 1. Set loading to true, clear error and data
+   * 1. Set loading to true, clear error (previous data is kept)
    * 2. Call API function with provided arguments
-   * 3. On success: Extract data from response, set data, clear loading
+   * 3. On success: Extract data from response, set data, clear loading,
+   *    invalidate the configured query keys
    * 4. On error: Extract error message, set error, clear loading
    */
+  const invalidatesRef = useRef(options.invalidates);
+  invalidatesRef.current = options.invalidates;
+
+  // Ignore responses arriving after unmount
+  const mountedRef = useRef(true);
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
   const execute = useCallback(
     async (...args: any[]): Promise<T | null> => {
-      // Set loading state, clear previous data/error
-      setState({ data: null, loading: true, error: null });
+      // Set loading state, keep previous data to avoid flashing
+      setState(prev => ({ ...prev, loading: true, error: null }));
 
       try {
         // Call the API function with provided arguments
         const response = await apiFunction(...args);
 
         // Check if API call was successful
-        if (response.success && response.data) {
-          // Success: Store data and clear loading
-          setState({ data: response.data, loading: false, error: null });
-          return response.data;
+        if (response.success) {
+          // Success: Store data, clear loading and refresh dependent queries
+          invalidatesRef.current?.forEach(key => queryClient.invalidate(key));
+          if (mountedRef.current) {
+            setState({ data: response.data ?? null, loading: false, error: null });
+          }
+          return response.data ?? null;
         } else {
           // API returned error: Store error message
           const errorMessage = response.error || 'An error occurred';
-          setState({ data: null, loading: false, error: errorMessage });
+          if (mountedRef.current) {
+            setState(prev => ({ ...prev, loading: false, error: errorMessage }));
+          }
           return null;
         }
       } catch (error) {
         // Network or parsing error: Extract message
-        const errorMessage =
-          error instanceof Error ? error.message : 'An unexpected error occurred';
-        setState({ data: null, loading: false, error: errorMessage });
+        if (mountedRef.current) {
+          setState(prev => ({ ...prev, loading: false, error: getErrorMessage(error) }));
+        }
         return null;
       }
     },
@@ -206,52 +247,147 @@ export function useApi<T = any>(
 }
 
 /**
- * useApiQuery Hook (Auto-Execute Variant)
+ * useApiQuery Options
  * 
- * Extended version of useApi that automatically executes the API call
- * when the component mounts or when dependencies change.
+ * @property {boolean} enabled - Set to false to wait (e.g., until an ID is known). Default: true
+ * @property {number} staleTime - Time (ms) during which cached data is not refetched. Default: 30s
+ * @property {boolean} refetchOnWindowFocus - Revalidate stale data when the window regains focus. Default: true
+ * @property {boolean} keepPreviousData - Keep showing the data of the previous key until the new key
+ *                                        has loaded (e.g., pagination). Default: false
+ */
+interface UseApiQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+  refetchOnWindowFocus?: boolean;
+  keepPreviousData?: boolean;
+}
+
+/**
+ * useApiQuery Return Interface
+ * 
+ * @property {T | null} data - Cached data (kept while revalidating)
+ * @property {boolean} loading - True only while loading without any cached data
+ * @property {boolean} fetching - True while any request is in flight (including background revalidation)
+ * @property {string | null} error - Message of the last error
+ * @property {number} updatedAt - Timestamp of the last successful fetch
+ * @property {Function} refetch - Force a new request
+ */
+interface UseApiQueryReturn<T> {
+  data: T | null;
+  loading: boolean;
+  fetching: boolean;
+  error: string | null;
+  updatedAt: number;
+  refetch: () => Promise<T | null>;
+}
+
+/**
+ * useApiQuery Hook (Cached Query)
  * 
- * Useful for data that should be loaded immediately.
+ * Loads data through the shared query cache (see api/query-client).
+ * 
+ * Behaviour:
+ * - Cached data is returned immediately, then revalidated if stale
+ * - Components using the same key share one request and one cache entry
+ * - The query is refetched when its key changes (key = dependencies)
+ * - Stale data is refetched when the window regains focus
+ * - The request is aborted when the last component using it unmounts
  * 
  * @template T - The type of data expected from the API call
  * 
- * @param {Function} apiFunction - The API service method to call
- * @param {any[]} args - Arguments to pass to the API function
- * @param {any[]} dependencies - React dependencies array (like useEffect)
+ * @param {QueryKey} key - Query key, must contain every parameter of the request
+ *                         (see queryKeys in api/query-client)
+ * @param {Function} apiFunction - Calls the API service, receives an AbortSignal
+ * @param {UseApiQueryOptions} options - enabled, staleTime, refetchOnWindowFocus, keepPreviousData
  * 
- * @returns {UseApiReturn<T>} Same as useApi
+ * @returns {UseApiQueryReturn<T>} Data, loading flags, error and refetch
  * 
  * @example
- * // Automatically fetch on mount
- * function AgentProfile({ agentId }) {
+ * // Automatically fetch, refetch when matricule changes
+ * function AgentAbsences({ matricule }) {
  *   const { data, loading, error } = useApiQuery(
- *     agentsService.getAgentById,
- *     [agentId],
- *     [agentId] // Refetch when agentId changes
+ *     queryKeys.agents.absences(matricule),
+ *     signal => agentsService.getLongAbsences(matricule, signal)
  *   );
  * 
  *   if (loading) return <Skeleton />;
  *   if (error) return <Alert>{error}</Alert>;
  * 
- *   return <AgentDetails agent={data} />;
+ *   return <AbsenceList absences={data ?? []} />;
  * }
- * 
- * @note This is a convenience wrapper around useApi with automatic execution.
- *       For more control, use useApi directly with useEffect.
  */
 export function useApiQuery<T = any>(
-  apiFunction: (...args: any[]) => Promise<ApiResponse<T>>,
-  args: any[] = [],
-  dependencies: any[] = []
-) {
-  // Use the base useApi hook
-  const api = useApi<T>(apiFunction);
+  key: QueryKey,
+  apiFunction: (signal: AbortSignal) => Promise<ApiResponse<T>>,
+  options: UseApiQueryOptions = {}
+): UseApiQueryReturn<T> {
+  const {
+    enabled = true,
+    staleTime = DEFAULT_STALE_TIME,
+    refetchOnWindowFocus = true,
+    keepPreviousData = false,
+  } = options;
+  const hash = hashQueryKey(key);
 
-  // Execute the API call on mount (using useState instead of useEffect is intentional here)
-  // This ensures the call happens synchronously during the render phase
-  useState(() => {
-    api.execute(...args);
-  });
+  // Latest key and function, without making them effect dependencies
+  const keyRef = useRef(key);
+  keyRef.current = key;
+  const apiFunctionRef = useRef(apiFunction);
+  apiFunctionRef.current = apiFunction;
+
+  // Unwrap ApiResponse: the cache stores the data itself
+  const fetcher = useCallback(async (signal: AbortSignal): Promise<T> => {
+    const response = await apiFunctionRef.current(signal);
+    if (!response.success) {
+      throw new Error(response.error || 'An error occurred');
+    }
+    return response.data as T;
+  }, []);
 
-  return api;
+  const load = useCallback(
+    (force: boolean): Promise<T | null> =>
+      queryClient.fetch(keyRef.current, fetcher, { staleTime, force }).catch(() => null),
+    [fetcher, staleTime]
+  );
+
+  // Subscribe to the cache entry of the current key
+  const subscribe = useCallback((listener: () => void) => queryClient.subscribe(keyRef.current, listener), [hash]);
+  const getSnapshot = useCallback(() => queryClient.getState<T>(keyRef.current), [hash]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  // Last data received, shown while a new key loads (keepPreviousData)
+  const previousDataRef = useRef<T | undefined>(undefined);
+  if (state.data !== undefined) previousDataRef.current = state.data;
+  const data = state.data ?? (keepPreviousData ? previousDataRef.current : undefined);
+
+  // Fetch on mount and whenever the key changes (no-op if the cache is fresh)
+  useEffect(() => {
+    if (enabled) load(false);
+  }, [hash, enabled, load]);
+
+  // Revalidate stale data when the user comes back to the tab
+  useEffect(() => {
+    if (!enabled || !refetchOnWindowFocus) return;
+
+    const onFocus = () => {
+      if (document.visibilityState === 'visible') load(false);
+    };
+    window.addEventListener('focus', onFocus);
+    document.addEventListener('visibilitychange', onFocus);
+    return () => {
+      window.removeEventListener('focus', onFocus);
+      document.removeEventListener('visibilitychange', onFocus);
+    };
+  }, [enabled, refetchOnWindowFocus, load]);
+
+  const refetch = useCallback(() => load(true), [load]);
+
+  return {
+    data: data ?? null,
+    loading: enabled && data === undefined && state.error === null,
+    fetching: state.isFetching,
+    error: state.error,
+    updatedAt: state.updatedAt,
+    refetch,
+  };
 }
@@ -0,0 +1,188 @@
+/**
+ * ============================================================================
+ * USE BADGE SCANNER HOOKS
+ * ============================================================================
+ *
+ * Input sources of the check-in kiosk:
+ * - useKeyboardWedge: USB / Bluetooth barcode scanners in keyboard mode,
+ *   which "type" the QR content very quickly followed by Enter
+ * - useCameraScanner: device camera, decoded with the browser BarcodeDetector
+ *   API (Chromium-based browsers; other browsers report 'unsupported')
+ *
+ * @module hooks/useBadgeScanner
+ */
+
+// --- Dependencies ---
+import { useEffect, useRef, useState, type RefObject } from 'react';
+
+// ============================================================================
+// KEYBOARD WEDGE
+// ============================================================================
+
+/**
+ * Options of useKeyboardWedge
+ *
+ * @property {boolean} enabled - Listen to the keyboard (default: true)
+ * @property {number} minLength - Shorter inputs are ignored (default: 6)
+ * @property {number} maxInterval - Maximum delay between two keys of a scan in ms
+ *                                  (default: 50; people type much slower)
+ */
+interface KeyboardWedgeOptions {
+  enabled?: boolean;
+  minLength?: number;
+  maxInterval?: number;
+}
+
+/**
+ * useKeyboardWedge Hook
+ *
+ * Calls `onScan` with the content typed by a keyboard-wedge scanner.
+ * Keys typed in form fields are ignored.
+ *
+ * @param {Function} onScan - Receives the scanned text
+ * @param {KeyboardWedgeOptions} options - enabled, minLength, maxInterval
+ *
+ * @example
+ * useKeyboardWedge(token => handleScan(token));
+ */
+export function useKeyboardWedge(
+  onScan: (value: string) => void,
+  { enabled = true, minLength = 6, maxInterval = 50 }: KeyboardWedgeOptions = {}
+): void {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const now = performance.now();
+      if (now - lastKeyAt > maxInterval) buffer = '';
+      lastKeyAt = now;
+
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        if (buffer.length >= minLength) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled, minLength, maxInterval]);
+}
+
+// ============================================================================
+// CAMERA
+// ============================================================================
+
+/**
+ * Minimal typing of the BarcodeDetector API (not in the TypeScript DOM lib yet)
+ */
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<Array<{ rawValue: string }>>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorLike;
+
+/**
+ * Camera scanner state
+ */
+export type CameraStatus = 'idle' | 'starting' | 'active' | 'unsupported' | 'denied' | 'error';
+
+/**
+ * Delay between two decoding attempts (ms)
+ */
+const SCAN_INTERVAL = 250;
+
+/**
+ * useCameraScanner Hook
+ *
+ * Streams the camera into `videoRef` and calls `onScan` for every QR code
+ * detected. The same code stays in front of the camera for a while, so
+ * callers must ignore repeated values.
+ *
+ * @param {RefObject<HTMLVideoElement>} videoRef - Video element showing the camera
+ * @param {Function} onScan - Receives the decoded QR content
+ * @param {boolean} enabled - Start / stop the camera
+ * @returns {CameraStatus} Current state (unsupported: no camera or no BarcodeDetector)
+ */
+export function useCameraScanner(
+  videoRef: RefObject<HTMLVideoElement>,
+  onScan: (value: string) => void,
+  enabled: boolean
+): CameraStatus {
+  const [status, setStatus] = useState<CameraStatus>('idle');
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus('idle');
+      return;
+    }
+
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setStatus('unsupported');
+      return;
+    }
+
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const detector = new Detector({ formats: ['qr_code'] });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        if (video.readyState >= 2) {
+          const [code] = await detector.detect(video);
+          if (code?.rawValue && !stopped) onScanRef.current(code.rawValue);
+        }
+      } catch {
+        // Frame not decodable (camera warming up, blur): try the next one
+      }
+      if (!stopped) timer = setTimeout(scan, SCAN_INTERVAL);
+    };
+
+    setStatus('starting');
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'user' }, audio: false })
+      .then(async media => {
+        if (stopped) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (video) {
+          video.srcObject = media;
+          await video.play().catch(() => undefined);
+        }
+        setStatus('active');
+        scan();
+      })
+      .catch((error: DOMException) => {
+        if (!stopped) setStatus(error?.name === 'NotAllowedError' ? 'denied' : 'error');
+      });
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [enabled, videoRef]);
+
+  return status;
+}
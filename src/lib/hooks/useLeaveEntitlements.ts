@@ -0,0 +1,36 @@
+/**
+ * ============================================================================
+ * USE LEAVE ENTITLEMENTS HOOK
+ * ============================================================================
+ *
+ * Loads what leave balances are computed from, besides the absences of the
+ * agent (see lib/leave-balance): the entitlement of each absence type and
+ * the holiday list, both from the shared query cache.
+ *
+ * @module hooks/useLeaveEntitlements
+ */
+
+// --- Dependencies ---
+import { calendarService, leaveService, queryKeys } from '../api';
+import { useApiQuery } from './useApi';
+import type { AbsenceEntitlement, Holiday } from '../api/types';
+
+/**
+ * useLeaveEntitlements Hook
+ *
+ * @returns Entitlements, holidays (empty until loaded) and the loading flag
+ *
+ * @example
+ * const { entitlements, holidays } = useLeaveEntitlements();
+ * const balances = computeLeaveBalances(absences, entitlements, holidays, 2026);
+ */
+export function useLeaveEntitlements(): { entitlements: AbsenceEntitlement[]; holidays: Holiday[]; loading: boolean } {
+  const entitlementsQuery = useApiQuery(queryKeys.entitlements.all, signal => leaveService.getEntitlements(signal));
+  const holidaysQuery = useApiQuery(queryKeys.holidays.list({}), signal => calendarService.getHolidays(undefined, signal));
+
+  return {
+    entitlements: entitlementsQuery.data ?? [],
+    holidays: holidaysQuery.data ?? [],
+    loading: entitlementsQuery.loading || holidaysQuery.loading,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * ============================================================================
+ * USE OFFLINE STATUS HOOK
+ * ============================================================================
+ *
+ * Subscribes a component to the state of the offline mode
+ * (connectivity, last sync, queued writes, conflicts; see api/offline).
+ *
+ * @module hooks/useOfflineStatus
+ */
+
+// --- Dependencies ---
+import { useSyncExternalStore } from 'react';
+import { offlineManager, type OfflineState } from '../api/offline';
+
+const subscribe = (listener: () => void) => offlineManager.subscribe(listener);
+const getSnapshot = () => offlineManager.getState();
+
+/**
+ * useOfflineStatus Hook
+ *
+ * @returns {OfflineState} Current state, updated on every change
+ *
+ * @example
+ * const { online, pending } = useOfflineStatus();
+ * if (!online) return <p>{pending} modification(s) en attente</p>;
+ */
+export function useOfflineStatus(): OfflineState {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,250 @@
+/**
+ * ============================================================================
+ * USE OPTIMISTIC MUTATION HOOK
+ * ============================================================================
+ *
+ * Custom React hook for mutations (create, update, delete) that update the
+ * query cache immediately, before the server answers.
+ *
+ * Key Features:
+ * - Optimistic update of a cached query (see api/query-client)
+ * - Automatic rollback and error toast (with the server message) on failure;
+ *   only the failed mutation is taken back, overlapping ones on the same
+ *   query keep their optimistic data
+ * - Undo window for deletes: the request is only sent after a delay,
+ *   and the "Annuler" button of the toast restores the item
+ * - Revalidation of the related queries once the server has answered
+ * - Offline writes (see api/offline): the optimistic data is kept until the
+ *   queued request is replayed, with an information toast
+ *
+ * @module hooks/useOptimisticMutation
+ */
+
+// --- Dependencies ---
+import { useState, useCallback, useRef } from 'react';
+import { toast } from 'sonner';
+import type { ApiResponse } from '../api/types';
+import { getErrorMessage } from '../api/client';
+import { hashQueryKey, queryClient, type QueryKey } from '../api/query-client';
+
+/**
+ * Default undo window for deletes (ms)
+ */
+const DEFAULT_UNDO_DELAY = 5000;
+
+/**
+ * Optimistic updates of a query not settled yet
+ *
+ * @property {unknown} base - Cache data without them (settled mutations folded in)
+ * @property {Function[]} updates - Updates in the order they were applied
+ */
+interface PendingUpdates {
+  base: unknown;
+  updates: Array<(current: unknown) => unknown>;
+}
+
+/**
+ * Pending optimistic updates per query key hash, so that a rollback can
+ * rebuild the cache without the failed or undone mutation alone
+ */
+const pendingUpdates = new Map<string, PendingUpdates>();
+
+/**
+ * Optimistic Mutation Options
+ *
+ * @template TVariables - Argument passed to mutate()
+ * @template TData - Data returned by the server
+ * @template TCache - Type of the cached query data
+ *
+ * @property {QueryKey} queryKey - Cached query updated optimistically
+ * @property {Function} mutationFn - Calls the API service
+ * @property {Function} optimisticUpdate - Returns the cache data as it should look after the mutation
+ *                                          (may return undefined while nothing is cached)
+ * @property {QueryKey[]} invalidates - Queries to revalidate once settled (default: [queryKey])
+ * @property {string | Function} successMessage - Toast shown on success (none if omitted)
+ * @property {string | Function} errorMessage - Title of the error toast (description = server error)
+ * @property {Object} undo - Deferred commit with an "Annuler" toast (for deletes)
+ * @property {Function} undo.message - Toast title (e.g., 'Agent supprimé')
+ * @property {number} undo.delay - Undo window in ms (default: 5000)
+ */
+export interface OptimisticMutationOptions<TVariables, TData, TCache> {
+  queryKey: QueryKey;
+  mutationFn: (variables: TVariables) => Promise<ApiResponse<TData>>;
+  optimisticUpdate: (current: TCache | undefined, variables: TVariables) => TCache | undefined;
+  invalidates?: QueryKey[];
+  successMessage?: string | ((data: TData | undefined, variables: TVariables) => string);
+  errorMessage?: string | ((variables: TVariables) => string);
+  undo?: {
+    message: (variables: TVariables) => string;
+    delay?: number;
+  };
+}
+
+/**
+ * Optimistic Mutation Return Interface
+ *
+ * @property {Function} mutate - Run the mutation, resolves with true on success
+ *                               (false on failure or undo)
+ * @property {boolean} pending - True while the server request is in flight
+ */
+interface UseOptimisticMutationReturn<TVariables> {
+  mutate: (variables: TVariables) => Promise<boolean>;
+  pending: boolean;
+}
+
+const resolveMessage = <A extends unknown[]>(
+  message: string | ((...args: A) => string) | undefined,
+  ...args: A
+): string | undefined => (typeof message === 'function' ? message(...args) : message);
+
+/**
+ * useOptimisticMutation Hook
+ *
+ * Flow:
+ * 1. Cancel in-flight fetches of queryKey (they would overwrite the optimistic data)
+ * 2. Apply optimisticUpdate (the cache data before it is kept as the base
+ *    of the query's pending updates)
+ * 3. (undo only) Show the undo toast and wait; "Annuler" rolls back and revalidates
+ * 4. Call mutationFn
+ * 5a. Success: success toast, revalidate `invalidates`
+ *     (queued offline: information toast, no revalidation, which would
+ *     replace the optimistic data with the cached server data)
+ * 5b. Failure: roll back, error toast with the server message, revalidate
+ *
+ * Rolling back rebuilds the cache from the base with the other pending
+ * updates of the query, and revalidation waits until none is left, so
+ * overlapping mutations (e.g., two deletes in their undo window) do not wipe
+ * each other's optimistic data.
+ *
+ * Pending undo windows are not tied to the component: leaving the page
+ * still sends the delete when the delay expires.
+ *
+ * @example
+ * // Delete with undo
+ * const { mutate: deleteAgent } = useOptimisticMutation({
+ *   queryKey: agentsKey,
+ *   mutationFn: (agent: Agent) => agentsService.deleteAgent(agent.matricule),
+ *   optimisticUpdate: (agents: Agent[] = [], agent) => agents.filter(a => a.matricule !== agent.matricule),
+ *   invalidates: [queryKeys.agents.all],
+ *   errorMessage: "Effacement d'agent échoué",
+ *   undo: { message: agent => `${agent.nom} a été effacé` },
+ * });
+ *
+ * @example
+ * // Update
+ * const { mutate: updateSchedule, pending } = useOptimisticMutation({
+ *   queryKey: queryKeys.schedules.list(),
+ *   mutationFn: (schedule: WorkSchedule) => schedulesService.updateSchedule(schedule.id, schedule),
+ *   optimisticUpdate: (schedules: WorkSchedule[] = [], schedule) =>
+ *     schedules.map(s => (s.id === schedule.id ? schedule : s)),
+ *   successMessage: 'Horaire mis à jour',
+ * });
+ */
+export function useOptimisticMutation<TVariables, TData = unknown, TCache = unknown>(
+  options: OptimisticMutationOptions<TVariables, TData, TCache>
+): UseOptimisticMutationReturn<TVariables> {
+  const [pendingCount, setPendingCount] = useState(0);
+
+  // Latest options, so that mutate keeps a stable identity
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const mutate = useCallback(async (variables: TVariables): Promise<boolean> => {
+    const {
+      queryKey,
+      mutationFn,
+      optimisticUpdate,
+      invalidates = [queryKey],
+      successMessage,
+      errorMessage,
+      undo,
+    } = optionsRef.current;
+
+    // --- Optimistic update ---
+    queryClient.cancel(queryKey);
+    const hash = hashQueryKey(queryKey);
+    const pending = pendingUpdates.get(hash) ?? { base: queryClient.getData<TCache>(queryKey), updates: [] };
+    pendingUpdates.set(hash, pending);
+    const update = (current: unknown) => optimisticUpdate(current as TCache | undefined, variables);
+    pending.updates.push(update);
+    queryClient.setData<TCache | undefined>(queryKey, current => optimisticUpdate(current, variables));
+
+    // Remove the update from the pending ones (kept: folded into the base)
+    const settle = (kept: boolean) => {
+      pending.updates = pending.updates.filter(u => u !== update);
+      if (kept) pending.base = update(pending.base);
+      if (pending.updates.length === 0 && pendingUpdates.get(hash) === pending) pendingUpdates.delete(hash);
+    };
+    const rollback = () => {
+      settle(false);
+      queryClient.setData<TCache | undefined>(
+        queryKey,
+        () => pending.updates.reduce((data, u) => u(data), pending.base) as TCache | undefined
+      );
+    };
+    // Deferred while other updates of the query are pending: the server data
+    // would overwrite theirs (the last one to settle revalidates)
+    const revalidate = () => {
+      if (pendingUpdates.has(hash)) return;
+      invalidates.forEach(key => queryClient.invalidate(key));
+    };
+
+    // --- Undo window (deletes) ---
+    if (undo) {
+      const confirmed = await new Promise<boolean>(resolve => {
+        const delay = undo.delay ?? DEFAULT_UNDO_DELAY;
+        const timer = setTimeout(() => resolve(true), delay);
+        toast(undo.message(variables), {
+          duration: delay,
+          action: {
+            label: 'Annuler',
+            onClick: () => {
+              clearTimeout(timer);
+              resolve(false);
+            },
+          },
+        });
+      });
+
+      if (!confirmed) {
+        rollback();
+        revalidate();
+        toast.info('Action annulée');
+        return false;
+      }
+    }
+
+    // --- Server request ---
+    setPendingCount(count => count + 1);
+    let queued = false;
+    try {
+      const response = await mutationFn(variables);
+      if (!response.success) {
+        throw new Error(response.error || 'An error occurred');
+      }
+      settle(true);
+
+      if (response.queued) {
+        queued = true;
+        toast.info(response.message);
+        return true;
+      }
+
+      const message = resolveMessage(successMessage, response.data, variables);
+      if (message) toast.success(message);
+      return true;
+    } catch (error) {
+      console.error('Mutation failed, rolling back:', error);
+      rollback();
+      toast.error(resolveMessage(errorMessage, variables) ?? 'Échec de l’opération', {
+        description: getErrorMessage(error),
+      });
+      return false;
+    } finally {
+      setPendingCount(count => count - 1);
+      if (!queued) revalidate();
+    }
+  }, []);
+
+  return { mutate, pending: pendingCount > 0 };
+}
@@ -0,0 +1,165 @@
+/**
+ * ============================================================================
+ * LEAVE BALANCES
+ * ============================================================================
+ *
+ * Computes the balance of each absence type of an agent from their
+ * LongAbsence records, the entitlements (see AbsenceEntitlement) and the
+ * holiday list.
+ *
+ * Rules:
+ * - Days of an absence are counted per calendar year; weekends and holidays
+ *   are skipped unless the type counts non-working days
+ * - 'Annual' entitlements are available from January 1st, 'Monthly' ones
+ *   are earned by twelfths at the start of each month
+ * - Unused days of the previous year are carried over, up to carryOverDays,
+ *   only if the quota already applied then (sinceYear) and the agent has
+ *   absences recorded before the year (a new agent carries nothing over)
+ * - Types without quota (annualDays null) only report the days used
+ *
+ * @module lib/leave-balance
+ */
+
+// --- Dependencies ---
+import type { AbsenceEntitlement, Holiday, LongAbsence } from './api/types';
+import { isNonWorkingDay, toIsoDate } from './utils';
+
+/**
+ * Balance of one absence type for one year
+ *
+ * @property {string} type - Absence type code
+ * @property {number | null} entitlement - Days earned this year (null: no quota)
+ * @property {number} carriedOver - Days carried over from the previous year
+ * @property {number} used - Days of absence of the year (past and planned)
+ * @property {number | null} remaining - Days left (null: no quota)
+ */
+export interface LeaveBalance {
+  type: string;
+  entitlement: number | null;
+  carriedOver: number;
+  used: number;
+  remaining: number | null;
+}
+
+/**
+ * Absence being entered, checked against the balance
+ */
+export interface LeaveBalanceCheck {
+  type: string;                 // Absence type code
+  startDate: string;
+  endDate: string;
+  excludeId?: string;           // Absence being edited (not counted twice)
+}
+
+/**
+ * Days of a period deducted from the entitlement
+ */
+export function countLeaveDays(
+  startDate: string,
+  endDate: string,
+  entitlement: AbsenceEntitlement | undefined,
+  holidays: Holiday[]
+): number {
+  let count = 0;
+  const date = new Date(`${startDate}T00:00:00`);
+  const end = new Date(`${endDate}T00:00:00`);
+  while (date <= end) {
+    if (entitlement?.countNonWorkingDays || !isNonWorkingDay(toIsoDate(date), holidays)) count++;
+    date.setDate(date.getDate() + 1);
+  }
+  return count;
+}
+
+/**
+ * Days earned in a year at a reference date (rounded to the half day)
+ */
+function accruedDays(entitlement: AbsenceEntitlement, year: number, asOf: Date): number {
+  const annualDays = entitlement.annualDays ?? 0;
+  if (entitlement.accrual === 'Annual' || year < asOf.getFullYear()) return annualDays;
+  if (year > asOf.getFullYear()) return 0;
+  return Math.round(((annualDays * (asOf.getMonth() + 1)) / 12) * 2) / 2;
+}
+
+/**
+ * Days of the absences of one type falling in a year
+ */
+function usedDays(
+  absences: LongAbsence[],
+  entitlement: AbsenceEntitlement | undefined,
+  type: string,
+  year: number,
+  holidays: Holiday[]
+): number {
+  const from = `${year}-01-01`;
+  const to = `${year}-12-31`;
+  return absences
+    .filter(a => a.type === type && a.startDate <= to && a.endDate >= from)
+    .reduce(
+      (sum, a) => sum + countLeaveDays(a.startDate < from ? from : a.startDate, a.endDate > to ? to : a.endDate, entitlement, holidays),
+      0
+    );
+}
+
+/**
+ * Balance of each absence type for a year
+ *
+ * @param {LongAbsence[]} absences - Absences of the agent
+ * @param {AbsenceEntitlement[]} entitlements - Entitlement of each type
+ * @param {Holiday[]} holidays - Holiday list
+ * @param {number} year - Calendar year
+ * @param {Date} asOf - Reference date of the monthly accrual (default: today)
+ */
+export function computeLeaveBalances(
+  absences: LongAbsence[],
+  entitlements: AbsenceEntitlement[],
+  holidays: Holiday[],
+  year: number,
+  asOf: Date = new Date()
+): LeaveBalance[] {
+  return entitlements.map(entitlement => {
+    const used = usedDays(absences, entitlement, entitlement.type, year, holidays);
+    if (entitlement.annualDays === null) {
+      return { type: entitlement.type, entitlement: null, carriedOver: 0, used, remaining: null };
+    }
+    const hasPreviousYear = year > entitlement.sinceYear && absences.some(a => a.startDate < `${year}-01-01`);
+    const previousLeft = hasPreviousYear
+      ? entitlement.annualDays - usedDays(absences, entitlement, entitlement.type, year - 1, holidays)
+      : 0;
+    const carriedOver = Math.max(0, Math.min(entitlement.carryOverDays, previousLeft));
+    const earned = accruedDays(entitlement, year, asOf);
+    return { type: entitlement.type, entitlement: earned, carriedOver, used, remaining: earned + carriedOver - used };
+  });
+}
+
+/**
+ * Warning when an absence would exceed the balance of its type, null otherwise
+ *
+ * The balance is taken in the year of each day of the absence, with the
+ * monthly accrual reached at its last day.
+ */
+export function checkLeaveBalance(
+  absences: LongAbsence[],
+  entitlements: AbsenceEntitlement[],
+  holidays: Holiday[],
+  { type, startDate, endDate, excludeId }: LeaveBalanceCheck
+): string | null {
+  const entitlement = entitlements.find(e => e.type === type);
+  if (!entitlement || entitlement.annualDays === null || !startDate || !endDate || startDate > endDate) return null;
+
+  const others = absences.filter(a => a.id !== excludeId);
+  const asOf = new Date(`${endDate}T00:00:00`);
+  const startYear = Number(startDate.slice(0, 4));
+  const endYear = Number(endDate.slice(0, 4));
+  for (let year = startYear; year <= endYear; year++) {
+    const from = year === startYear ? startDate : `${year}-01-01`;
+    const to = year === endYear ? endDate : `${year}-12-31`;
+    const requested = countLeaveDays(from, to, entitlement, holidays);
+    const [balance] = computeLeaveBalances(others, [entitlement], holidays, year, asOf);
+    if (balance.remaining !== null && requested > balance.remaining) {
+      return `${requested} j demandé${requested > 1 ? 's' : ''} pour ${Math.max(0, balance.remaining)} j restant${
+        balance.remaining > 1 ? 's' : ''
+      } (solde ${year})`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,42 @@
+/**
+ * ============================================================================
+ * LEAVE REQUESTS
+ * ============================================================================
+ *
+ * Labels shared by the leave request screens: the approval queue
+ * (components/pages/LeaveRequests) and the agent portal
+ * (components/pages/PersonalHistory).
+ *
+ * @module lib/leave
+ */
+
+// --- Dependencies ---
+import type { LeaveRequest, LeaveRequestStatus } from './api/types';
+
+/**
+ * French labels of the request statuses
+ */
+export const LEAVE_STATUS_LABELS: Record<LeaveRequestStatus, string> = {
+  Pending: 'En attente',
+  Approved: 'Approuvée',
+  Rejected: 'Refusée',
+  Cancelled: 'Annulée',
+};
+
+/**
+ * Badge colors of the request statuses
+ */
+export const LEAVE_STATUS_CLASSES: Record<LeaveRequestStatus, string> = {
+  Pending: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400',
+  Approved: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  Rejected: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+  Cancelled: 'bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+};
+
+/**
+ * 'du 20/10/2026 au 24/10/2026 (5 j ouvrés)'
+ */
+export const formatLeavePeriod = ({ startDate, endDate, workingDays }: LeaveRequest): string => {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR');
+  return `du ${format(startDate)} au ${format(endDate)} (${workingDays} j ouvré${workingDays > 1 ? 's' : ''})`;
+};
@@ -0,0 +1,95 @@
+/**
+ * ============================================================================
+ * PUNCH RULES
+ * ============================================================================
+ *
+ * Decides which punch a badge scan stands for at the check-in kiosk
+ * (see components/pages/Kiosk), from the active WorkSchedule and the punches
+ * already recorded for the agent today.
+ *
+ * Rules:
+ * - An open temporary exit is always closed first (return)
+ * - The day is split in two halves at the middle of the lunch break
+ * - Morning: arrival, then departure from (end of morning - tolerance),
+ *   a scan in between is a temporary exit
+ * - Afternoon: same rules with the afternoon hours; a morning departure
+ *   still missing before the afternoon starts is recorded first
+ * - Once a half-day is complete, further scans are refused (null)
+ *
+ * @module lib/punch
+ */
+
+// --- Dependencies ---
+import type { DailyAttendanceDetails, PunchType, TemporaryExit, WorkSchedule } from './api/types';
+
+/**
+ * French labels of the punch types (kiosk confirmation)
+ */
+export const PUNCH_TYPE_LABELS: Record<PunchType, string> = {
+  MorningIn: 'Arrivée du matin',
+  MorningOut: 'Sortie du matin',
+  AfternoonIn: 'Arrivée de l\'après-midi',
+  AfternoonOut: 'Sortie de l\'après-midi',
+  TemporaryExit: 'Sortie temporaire',
+  TemporaryReturn: 'Retour de sortie temporaire',
+};
+
+/**
+ * Punches already recorded today (fields of DailyAttendanceDetails)
+ */
+export type DayPunches = Pick<
+  DailyAttendanceDetails,
+  'morningCheckIn' | 'morningCheckOut' | 'afternoonCheckIn' | 'afternoonCheckOut'
+>;
+
+/**
+ * Convert HH:mm to minutes since midnight
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Decide the punch of a scan
+ *
+ * @param {WorkSchedule} schedule - Active work schedule
+ * @param {DayPunches} day - Punches already recorded today
+ * @param {TemporaryExit[]} exits - Temporary exits of the day
+ * @param {Date} now - Scan time
+ * @param {boolean} earlyDeparture - The agent leaves for the half-day (a
+ *                                   temporary exit becomes a departure)
+ * @returns {PunchType | null} Punch to record, null if the half-day is already complete
+ *
+ * @example
+ * // Standard schedule 08:00-12:00 / 14:00-17:00, nothing recorded yet, 07:55
+ * decidePunchType(schedule, {}, [], new Date('2026-10-19T07:55'))  // 'MorningIn'
+ */
+export function decidePunchType(
+  schedule: WorkSchedule,
+  day: DayPunches,
+  exits: TemporaryExit[],
+  now: Date,
+  earlyDeparture = false
+): PunchType | null {
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const tolerance = parseInt(schedule.tolerance, 10) || 0;
+  const morningEnd = toMinutes(schedule.morningEnd);
+  const afternoonStart = toMinutes(schedule.afternoonStart);
+  const afternoonEnd = toMinutes(schedule.afternoonEnd);
+
+  if (exits.some(exit => !exit.returnTime)) return 'TemporaryReturn';
+
+  if (minutes < (morningEnd + afternoonStart) / 2) {
+    if (!day.morningCheckIn) return 'MorningIn';
+    if (day.morningCheckOut) return null;
+    return earlyDeparture || minutes >= morningEnd - tolerance ? 'MorningOut' : 'TemporaryExit';
+  }
+
+  if (day.morningCheckIn && !day.morningCheckOut && !day.afternoonCheckIn && minutes < afternoonStart) {
+    return 'MorningOut';
+  }
+  if (!day.afternoonCheckIn) return 'AfternoonIn';
+  if (day.afternoonCheckOut) return null;
+  return earlyDeparture || minutes >= afternoonEnd - tolerance ? 'AfternoonOut' : 'TemporaryExit';
+}
@@ -0,0 +1,265 @@
+/**
+ * ============================================================================
+ * REPORT FILES
+ * ============================================================================
+ *
+ * File writers of the attendance reports, shared by the client-side export of
+ * the Statistics page (see components/StatisticsExportDialog) and the report
+ * downloads of the mock backend.
+ *
+ * Key Features:
+ * - CSV following RFC 4180 (',' separator, CRLF line breaks, quoted fields,
+ *   header line), with a UTF-8 BOM so that Excel opens it with the right encoding
+ * - XLSX workbooks written with SheetJS, one sheet per table
+ * - PDF documents (jsPDF + autoTable) with the charts embedded as images
+ * - Capture of a displayed recharts chart as a PNG image
+ *
+ * @module lib/report-files
+ */
+
+// --- Dependencies ---
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import type { ReportParams } from './api/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReportCell = string | number;
+
+/**
+ * Table of a report (first column = row label)
+ */
+export interface ReportTable {
+  title: string;
+  head: string[];
+  rows: ReportCell[][];
+}
+
+/**
+ * Chart captured as an image (size in CSS pixels)
+ */
+export interface ReportImage {
+  title: string;
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Content of a report file
+ *
+ * @property {string} title - Report title (PDF heading)
+ * @property {string} subtitle - Period, filters... (PDF only)
+ * @property {ReportTable[]} tables - Data of the report
+ * @property {ReportImage[]} images - Charts (PDF only)
+ */
+export interface ReportDocument {
+  title: string;
+  subtitle?: string;
+  tables: ReportTable[];
+  images?: ReportImage[];
+}
+
+/** Displayed name of each report type */
+export const REPORT_TYPE_LABELS: Record<ReportParams['type'], string> = {
+  attendance: 'Présence journalière',
+  'agent-summary': 'Synthèse par agent',
+  'monthly-report': 'Rapport mensuel',
+  'lateness-summary': 'Synthèse des retards',
+};
+
+/** Displayed name of each report format */
+export const REPORT_FORMAT_LABELS: Record<ReportParams['format'], string> = {
+  pdf: 'PDF',
+  excel: 'Excel (.xlsx)',
+  csv: 'CSV',
+};
+
+/** File extension of each report format */
+export const REPORT_EXTENSIONS: Record<ReportParams['format'], string> = {
+  pdf: 'pdf',
+  excel: 'xlsx',
+  csv: 'csv',
+};
+
+// ============================================================================
+// CSV (RFC 4180)
+// ============================================================================
+
+/**
+ * Quote a field containing a comma, a double quote or a line break
+ */
+const csvField = (value: ReportCell): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write a table as RFC 4180 CSV text (header line first)
+ */
+export function toCsv(head: string[], rows: ReportCell[][]): string {
+  return [head, ...rows].map(cells => cells.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Merge several tables into one long table (every record has the same fields):
+ * Tableau, Ligne, Indicateur, Valeur
+ */
+function toLongTable(tables: ReportTable[]): ReportTable {
+  return {
+    title: tables.map(t => t.title).join(', '),
+    head: ['Tableau', 'Ligne', 'Indicateur', 'Valeur'],
+    rows: tables.flatMap(table =>
+      table.rows.flatMap(row => table.head.slice(1).map((column, index) => [table.title, row[0], column, row[index + 1]]))
+    ),
+  };
+}
+
+// ============================================================================
+// WRITERS
+// ============================================================================
+
+/**
+ * XLSX sheet name: at most 31 characters, without : \ / ? * [ ], unique
+ */
+function sheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Feuille';
+  let name = base;
+  for (let index = 2; used.has(name); index++) name = `${base.slice(0, 28)} ${index}`;
+  used.add(name);
+  return name;
+}
+
+/**
+ * Write a PDF report: title, subtitle, charts (full width) then tables
+ */
+function buildPdf(report: ReportDocument): Blob {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - 28;
+
+  doc.setFontSize(16);
+  doc.text(report.title, 14, 18);
+  let y = 24;
+  if (report.subtitle) {
+    doc.setFontSize(10);
+    doc.text(report.subtitle, 14, y);
+    y += 6;
+  }
+
+  (report.images ?? []).forEach(image => {
+    const height = Math.min(90, (contentWidth * image.height) / image.width);
+    const width = (height * image.width) / image.height;
+    if (y + height + 8 > pageHeight - 14) {
+      doc.addPage();
+      y = 18;
+    }
+    doc.setFontSize(11);
+    doc.text(image.title, 14, y + 4);
+    doc.addImage(image.dataUrl, 'PNG', 14, y + 6, width, height);
+    y += height + 12;
+  });
+
+  report.tables.forEach(table => {
+    if (y + 20 > pageHeight - 14) {
+      doc.addPage();
+      y = 18;
+    }
+    doc.setFontSize(11);
+    doc.text(table.title, 14, y + 4);
+    autoTable(doc, {
+      startY: y + 6,
+      head: [table.head],
+      body: table.rows.map(row => row.map(String)),
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [41, 128, 185], textColor: 255, fontStyle: 'bold' },
+      alternateRowStyles: { fillColor: [235, 243, 255] },
+      margin: { left: 14, right: 14 },
+    });
+    y = (doc as any).lastAutoTable.finalY + 8;
+  });
+
+  return doc.output('blob');
+}
+
+/**
+ * Write a report in the requested format
+ *
+ * CSV holds a single table: several tables are merged into one long table.
+ *
+ * @param {ReportDocument} report - Content of the report
+ * @param {string} format - 'pdf', 'excel' (XLSX) or 'csv'
+ * @returns {Blob} The file
+ */
+export function buildReportBlob(report: ReportDocument, format: ReportParams['format']): Blob {
+  if (format === 'pdf') return buildPdf(report);
+
+  if (format === 'excel') {
+    const workbook = XLSX.utils.book_new();
+    const used = new Set<string>();
+    report.tables.forEach(table => {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([table.head, ...table.rows]), sheetName(table.title, used));
+    });
+    const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+    return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  }
+
+  const table = report.tables.length === 1 ? report.tables[0] : toLongTable(report.tables);
+  return new Blob(['\uFEFF', toCsv(table.head, table.rows)], { type: 'text/csv;charset=utf-8;header=present' });
+}
+
+// ============================================================================
+// CHART CAPTURE
+// ============================================================================
+
+/**
+ * Capture the recharts chart displayed in an element as a PNG image
+ *
+ * Only the SVG surface is drawn (HTML legends are left out), on a white
+ * background so that the dark theme prints legibly.
+ *
+ * @param {Element} container - Element containing the chart
+ * @param {string} title - Title printed above the image
+ * @returns {Promise<ReportImage | null>} The image, or null when no chart is displayed
+ */
+export async function captureChart(container: Element, title: string): Promise<ReportImage | null> {
+  const svg = container.querySelector('svg.recharts-surface');
+  if (!svg) return null;
+  const { width, height } = svg.getBoundingClientRect();
+  if (!width || !height) return null;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  const url = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' })
+  );
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error(`Capture du graphique « ${title} » impossible`));
+      image.src = url;
+    });
+    // Double resolution for a sharp print
+    const canvas = document.createElement('canvas');
+    canvas.width = width * 2;
+    canvas.height = height * 2;
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { title, dataUrl: canvas.toDataURL('image/png'), width, height };
+  } catch {
+    return null;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * ============================================================================
+ * SERVICE WORKER REGISTRATION
+ * ============================================================================
+ *
+ * Registers public/sw.js, which caches the application shell so that the
+ * app (installable as a PWA, see public/manifest.webmanifest) starts
+ * without connectivity.
+ *
+ * Only in production builds: in development the worker would serve stale
+ * modules instead of the Vite dev server ones.
+ *
+ * @module lib/service-worker
+ */
+
+/**
+ * Register the service worker (no-op in development or unsupported browsers)
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(error => {
+      console.warn('Service worker non enregistré :', error);
+    });
+  });
+}
@@ -0,0 +1,89 @@
+/**
+ * ============================================================================
+ * TEAM AVAILABILITY
+ * ============================================================================
+ *
+ * Day-by-day load of the divisions computed from the team availability
+ * (GET /calendar/availability), shared by the availability timeline
+ * (components/pages/TeamAvailability) and the month grid of
+ * components/pages/CalendarHolidays.
+ *
+ * Only working days raise warnings: nobody is expected on weekends and
+ * holidays, whatever the absences cover.
+ *
+ * @module lib/team-availability
+ */
+
+// --- Dependencies ---
+import type { AvailabilityAgent, Holiday, TeamAvailability } from './api/types';
+import { isNonWorkingDay, toIsoDate } from './utils';
+
+/**
+ * Agents of a division away on one day
+ *
+ * @property {string} division - Division name
+ * @property {number} total - Active agents of the division
+ * @property {number} away - Agents on a long absence that day
+ * @property {number} percent - Share of the division away (0-100, rounded)
+ */
+export interface DivisionLoad {
+  division: string;
+  total: number;
+  away: number;
+  percent: number;
+}
+
+/**
+ * Working day on which a division is away beyond the threshold
+ */
+export interface AvailabilityAlert extends DivisionLoad {
+  date: string;
+}
+
+/**
+ * Every date of a period (YYYY-MM-DD, bounds included)
+ */
+export function datesBetween(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const date = new Date(`${from}T00:00:00`);
+  const end = new Date(`${to}T00:00:00`);
+  while (date <= end) {
+    dates.push(toIsoDate(date));
+    date.setDate(date.getDate() + 1);
+  }
+  return dates;
+}
+
+/**
+ * Absence of the agent covering a date, if any
+ */
+export const absenceOn = (agent: AvailabilityAgent, date: string) =>
+  agent.absences.find(a => a.startDate <= date && a.endDate >= date);
+
+/**
+ * Load of each division on a date, in the order of the agents
+ */
+export function divisionLoads(availability: TeamAvailability, date: string): DivisionLoad[] {
+  const loads = new Map<string, DivisionLoad>();
+  availability.agents.forEach(agent => {
+    const load = loads.get(agent.division) ?? { division: agent.division, total: 0, away: 0, percent: 0 };
+    load.total++;
+    if (absenceOn(agent, date)) load.away++;
+    loads.set(agent.division, load);
+  });
+  return [...loads.values()].map(load => ({ ...load, percent: Math.round((load.away / load.total) * 100) }));
+}
+
+/**
+ * Working days of the period on which a division is away beyond the threshold,
+ * by date then division
+ */
+export function findAvailabilityAlerts(availability: TeamAvailability, holidays: Holiday[]): AvailabilityAlert[] {
+  return datesBetween(availability.from, availability.to)
+    .filter(date => !isNonWorkingDay(date, holidays))
+    .flatMap(date =>
+      divisionLoads(availability, date)
+        .filter(load => load.away > 0 && load.percent > availability.thresholdPercent)
+        .map(load => ({ ...load, date }))
+    );
+}
@@ -8,6 +8,8 @@
  * @module lib/utils
  */
 
+import type { Holiday } from './api/types';
+
 /**
  * Get Initials from Name
  * 
@@ -117,3 +119,101 @@ export function formatTime(timeString: string): string {
     return timeString;
   }
 }
+
+/**
+ * Format Date as ISO Day
+ * 
+ * Formats a date as YYYY-MM-DD in local time (toISOString would shift it to UTC).
+ * 
+ * @param {Date} date - Date to format
+ * @returns {string} Date in YYYY-MM-DD format
+ * 
+ * @example
+ * toIsoDate(new Date(2025, 9, 10))  // "2025-10-10"
+ */
+export function toIsoDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Find Holiday of a Date
+ * 
+ * Recurring holidays match on month and day whatever their year, the others
+ * on the exact date.
+ * 
+ * @param {Holiday[]} holidays - Holiday list
+ * @param {string} date - Date in YYYY-MM-DD format
+ * @returns {Holiday | undefined} Holiday falling on the date, if any
+ * 
+ * @example
+ * findHoliday(holidays, "2025-12-25")?.name  // "Noël"
+ */
+export function findHoliday(holidays: Holiday[], date: string): Holiday | undefined {
+  return holidays.find(h => (h.recurring ? h.date.slice(5) === date.slice(5) : h.date === date));
+}
+
+/**
+ * Is Holiday
+ * 
+ * @param {Holiday[]} holidays - Holiday list
+ * @param {string} date - Date in YYYY-MM-DD format
+ * @returns {boolean} True if a holiday falls on the date (see findHoliday)
+ */
+export function isHoliday(holidays: Holiday[], date: string): boolean {
+  return findHoliday(holidays, date) !== undefined;
+}
+
+/**
+ * Is Non-Working Day
+ * 
+ * @param {string} date - Date in YYYY-MM-DD format
+ * @param {Holiday[]} holidays - Holiday list
+ * @returns {boolean} True on Saturdays, Sundays and holidays
+ * 
+ * @example
+ * isNonWorkingDay("2025-10-11", holidays)  // true (Saturday)
+ */
+export function isNonWorkingDay(date: string, holidays: Holiday[]): boolean {
+  const day = new Date(`${date}T00:00:00`).getDay();
+  return day === 0 || day === 6 || isHoliday(holidays, date);
+}
+
+/**
+ * Run Tasks in Batches
+ * 
+ * Runs an async task for every item, `batchSize` items at a time, so that
+ * bulk operations neither flood the backend nor stop at the first failure.
+ * 
+ * @template T - Item type
+ * @template R - Task result type
+ * 
+ * @param {T[]} items - Items to process
+ * @param {Function} task - Async task run for each item
+ * @param {Object} options - batchSize (default: 5), onProgress(done, total), shouldStop()
+ * @returns {Promise<Object>} Settled results in item order, and the number of items processed
+ *                            (less than items.length if shouldStop returned true)
+ * 
+ * @example
+ * const { results } = await runInBatches(agents, agent => agentsService.deleteAgent(agent.matricule), {
+ *   onProgress: (done, total) => console.log(`${done}/${total}`),
+ * });
+ * const failed = results.filter(result => result.status === 'rejected');
+ */
+export async function runInBatches<T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  options: { batchSize?: number; onProgress?: (done: number, total: number) => void; shouldStop?: () => boolean } = {}
+): Promise<{ results: PromiseSettledResult<R>[]; processed: number }> {
+  const { batchSize = 5, onProgress, shouldStop } = options;
+  const results: PromiseSettledResult<R>[] = [];
+
+  for (let start = 0; start < items.length; start += batchSize) {
+    if (shouldStop?.()) break;
+    const batch = items.slice(start, start + batchSize);
+    results.push(...(await Promise.allSettled(batch.map(task))));
+    onProgress?.(results.length, items.length);
+  }
+
+  return { results, processed: results.length };
+}
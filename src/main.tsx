@@ -2,6 +2,16 @@
   import { createRoot } from "react-dom/client";
   import App from "./App.tsx";
   import "./index.css";
+  import { loadRuntimeConfig } from "./lib/api/config";
+  import { offlineManager } from "./lib/api/offline";
+  import { registerServiceWorker } from "./lib/service-worker";
 
-  createRoot(document.getElementById("root")!).render(<App />);
+  registerServiceWorker();
+
+  // Apply config.json (base URL, mock mode, feature flags...) before the first request
+  loadRuntimeConfig().finally(() => {
+    // Offline mode: load the write queue, replay it if the backend is reachable
+    offlineManager.start();
+    createRoot(document.getElementById("root")!).render(<App />);
+  });
   
\ No newline at end of file
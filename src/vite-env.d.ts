@@ -0,0 +1,19 @@
+/// <reference types="vite/client" />
+
+/**
+ * Environment variables read by src/lib/api/config.ts
+ * (all optional, see .env.example)
+ */
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_USE_MOCK?: string;
+  readonly VITE_MOCK_DELAY?: string;
+  readonly VITE_MOCK_ERROR_RATE?: string;
+  readonly VITE_REQUEST_TIMEOUT?: string;
+  readonly VITE_CONFIG_URL?: string;
+  readonly [key: `VITE_FEATURE_${string}`]: string | undefined;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}